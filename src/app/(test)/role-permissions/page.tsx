@@ -6,6 +6,7 @@ import {
   useHasRole,
   useHasMinRole,
   useHasPermission,
+  usePermissions,
 } from "@/lib/auth/gateways/client";
 import {
   Card,
@@ -18,7 +19,6 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2 } from "lucide-react";
 import { PERMISSIONS, ROLE_PERMISSIONS } from "@/lib/auth/permissions";
 import { type UserRole } from "@/features/auth/schemas/role.schema";
-import { getUserPermissionsClient } from "@/lib/auth/permission-checker-client";
 import PageContainer from "@/components/layout/page-container";
 
 const roles: { value: UserRole; label: string; description: string }[] = [
@@ -52,6 +52,16 @@ const permissionCategories = [
       PERMISSIONS.users.viewAll,
     ],
   },
+  {
+    name: "Companies",
+    permissions: [
+      PERMISSIONS.companies.view,
+      PERMISSIONS.companies.create,
+      PERMISSIONS.companies.edit,
+      PERMISSIONS.companies.delete,
+      PERMISSIONS.companies.restore,
+    ],
+  },
   {
     name: "Roles",
     permissions: [
@@ -85,11 +95,12 @@ export default function RolePermissionsPage(): React.JSX.Element {
   const canEditUsers = useHasPermission(PERMISSIONS.users.edit);
   const canDeleteUsers = useHasPermission(PERMISSIONS.users.delete);
   const canManageRoles = useHasPermission(PERMISSIONS.roles.create);
+  const resolvedPermissions = usePermissions();
 
   // Get permissions for current or simulated role
   const effectivePermissions = simulatedRole
     ? ROLE_PERMISSIONS[simulatedRole]
-    : getUserPermissionsClient(user);
+    : resolvedPermissions;
 
   if (loading) {
     return (
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Account deactivated page
+ * @module app/account-deactivated/page
+ *
+ * Shown when the middleware or `requireAuth` finds that the signed-in user's
+ * profile has been soft-deleted.
+ */
+
+import { type ReactElement } from "react";
+import type { Metadata } from "next";
+import { SignOutButton } from "@/features/auth/components/sign-out-button";
+
+export const metadata: Metadata = {
+  title: "Account deactivated | AppName",
+};
+
+/**
+ * Account deactivated page
+ *
+ * @returns React element containing account deactivated UI
+ */
+export default function AccountDeactivatedPage(): ReactElement {
+  return (
+    <div className="absolute top-1/2 left-1/2 mb-16 -translate-x-1/2 -translate-y-1/2 items-center justify-center text-center">
+      <h2 className="font-heading my-2 text-2xl font-bold">
+        Account deactivated
+      </h2>
+      <p>Your account has been deactivated and can no longer sign in.</p>
+      <p className="text-muted-foreground text-sm">
+        Contact an administrator if you think this is a mistake.
+      </p>
+      <div className="mt-8 flex justify-center gap-2">
+        <SignOutButton />
+      </div>
+    </div>
+  );
+}
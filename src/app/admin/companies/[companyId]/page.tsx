@@ -37,7 +37,7 @@ export default async function CompanyDetailPage({
   const { companyId } = await params;
 
   // Check authentication and view permission
-  const { user } = await requirePermission(PERMISSIONS.users.view);
+  const { user } = await requirePermission(PERMISSIONS.companies.view);
 
   // Fetch company data
   const company = await fetchCompanyServer(companyId);
@@ -48,8 +48,9 @@ export default async function CompanyDetailPage({
   }
 
   // Check action-level permissions
-  const canEdit = await hasPermission(user, PERMISSIONS.users.edit);
-  const canDelete = await hasPermission(user, PERMISSIONS.users.delete);
+  const canEdit = await hasPermission(user, PERMISSIONS.companies.edit);
+  const canDelete = await hasPermission(user, PERMISSIONS.companies.delete);
+  const canViewMembers = await hasPermission(user, PERMISSIONS.users.view);
 
   // Render with client component for interactivity
   return (
@@ -57,6 +58,7 @@ export default async function CompanyDetailPage({
       company={company}
       canEdit={canEdit}
       canDelete={canDelete}
+      canViewMembers={canViewMembers}
     />
   );
 }
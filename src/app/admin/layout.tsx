@@ -4,6 +4,9 @@ import Header from "@/components/layout/header";
 import PageContainer from "@/components/layout/page-container";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { CopilotSidebar } from "@/features/copilotkit";
+import { ImpersonationBanner } from "@/features/auth/components/impersonation-banner";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { getActiveImpersonation } from "@/lib/auth/impersonation";
 import type { Metadata } from "next";
 import { cookies } from "next/headers";
 
@@ -20,11 +23,26 @@ export default async function AdminLayout({
   // Persisting the sidebar state in the cookie.
   const cookieStore = await cookies();
   const defaultOpen = cookieStore.get("sidebar_state")?.value === "true";
+  // Superadmins see a persistent banner while impersonating another user
+  const sessionAuth = await getSessionAuth();
+  const impersonation = sessionAuth
+    ? await getActiveImpersonation(sessionAuth.user)
+    : null;
   return (
     <KBar>
       <SidebarProvider defaultOpen={defaultOpen}>
         <AppSidebar />
         <SidebarInset className="flex h-screen flex-col overflow-hidden w-full max-w-full min-w-0">
+          {impersonation && (
+            <ImpersonationBanner
+              targetLabel={
+                impersonation.target.user_metadata?.full_name ||
+                impersonation.target.email ||
+                impersonation.target.id
+              }
+              allowMutations={impersonation.allowMutations}
+            />
+          )}
           <Header />
           {/* page main content */}
           <PageContainer>{children}</PageContainer>
@@ -8,7 +8,9 @@ import { notFound } from "next/navigation";
 import { requirePermission } from "@/lib/auth/gateways/server";
 import { hasPermission } from "@/lib/auth/permission-checker";
 import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getUserRole } from "@/lib/auth/roles";
 import { fetchProfileServer } from "@/features/auth/lib/fetch-profile-server";
+import { getAccountDeletionGraceDays } from "@/features/users/lib/account-deletion";
 import type { Profile } from "@/features/auth/types/auth.types";
 import { ProfileClient } from "./profile-client";
 
@@ -28,7 +30,9 @@ export const revalidate = 60;
  */
 export default async function ProfilePage(): Promise<ReactElement> {
   // Check authentication and view permission
-  const { user } = await requirePermission(PERMISSIONS.profiles.view);
+  const { user, impersonator } = await requirePermission(
+    PERMISSIONS.profiles.view
+  );
 
   // Fetch profile data (own profile, so it will always be Profile, not LimitedProfile)
   const profile = await fetchProfileServer(user.id);
@@ -46,5 +50,13 @@ export default async function ProfilePage(): Promise<ReactElement> {
   const canEdit = await hasPermission(user, PERMISSIONS.profiles.edit);
 
   // Render with client component for interactivity
-  return <ProfileClient profile={fullProfile} canEdit={canEdit} />;
+  return (
+    <ProfileClient
+      profile={fullProfile}
+      canEdit={canEdit}
+      deletionGraceDays={getAccountDeletionGraceDays()}
+      canDeleteAccount={getUserRole(user) !== "superadmin"}
+      isImpersonating={Boolean(impersonator)}
+    />
+  );
 }
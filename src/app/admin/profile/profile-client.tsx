@@ -7,6 +7,11 @@
 
 import { type ReactElement } from "react";
 import { UserProfileForm } from "@/features/auth/components/user-profile-form";
+import { AccessTokensCard } from "@/features/auth/components/access-tokens-card";
+import { SessionsCard } from "@/features/auth/components/sessions-card";
+import { MfaCard } from "@/features/auth/components/mfa-card";
+import { AccountDataCard } from "@/features/auth/components/account-data-card";
+import { ProfileVisibilityCard } from "@/features/auth/components/profile-visibility-card";
 import type { Profile } from "@/features/auth/types/auth.types";
 
 /**
@@ -17,6 +22,12 @@ export interface ProfileClientProps {
   profile: Profile;
   /** Whether user can edit the profile */
   canEdit: boolean;
+  /** Days a deleted account is kept before it is permanently removed */
+  deletionGraceDays: number;
+  /** Whether the user may delete their own account */
+  canDeleteAccount: boolean;
+  /** Whether a superadmin is viewing this profile as its owner */
+  isImpersonating: boolean;
 }
 
 /**
@@ -31,6 +42,9 @@ export interface ProfileClientProps {
 export function ProfileClient({
   profile,
   canEdit,
+  deletionGraceDays,
+  canDeleteAccount,
+  isImpersonating,
 }: ProfileClientProps): ReactElement {
   return (
     <div className="space-y-6">
@@ -48,6 +62,21 @@ export function ProfileClient({
           You don&apos;t have permission to edit your profile.
         </div>
       )}
+
+      <ProfileVisibilityCard />
+
+      <MfaCard />
+
+      <SessionsCard />
+
+      <AccessTokensCard />
+
+      {!isImpersonating && (
+        <AccountDataCard
+          deletionGraceDays={deletionGraceDays}
+          canDelete={canDeleteAccount}
+        />
+      )}
     </div>
   );
 }
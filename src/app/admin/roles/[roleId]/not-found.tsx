@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Not found page for role detail
+ * @module app/admin/roles/[roleId]/not-found
+ */
+
+import { type ReactElement } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Not found page for role detail
+ *
+ * Displays when a custom role is not found.
+ *
+ * @returns React element containing not found message
+ */
+export default function RoleNotFound(): ReactElement {
+  return (
+    <div className="flex h-full flex-col items-center justify-center">
+      <h1 className="mb-4 text-4xl font-bold">Role Not Found</h1>
+      <p className="mb-8 text-muted-foreground">
+        The role you&apos;re looking for doesn&apos;t exist or has been deleted.
+      </p>
+      <Link href="/admin/roles">
+        <Button>Back to Roles</Button>
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Custom role detail page (Server Component)
+ * @module app/admin/roles/[roleId]/page
+ *
+ * Superadmin page for editing a custom role and its permissions.
+ */
+
+import { type ReactElement } from "react";
+import { notFound } from "next/navigation";
+import { requireMinRole } from "@/lib/auth/gateways/server";
+import {
+  countUsersByCustomRole,
+  getCustomRole,
+  toCustomRoleDetails,
+} from "@/lib/auth/custom-roles";
+import { RoleDetailClient } from "@/features/roles/components/role-detail-client";
+
+/**
+ * Custom role detail page component (Server Component)
+ *
+ * Fetches the role and its user count on the server and renders the
+ * editor client component. Handles authorization and 404 errors.
+ *
+ * @param props - Component props with route parameters
+ * @param props.params - Route parameters containing role ID
+ * @returns React element containing role detail page
+ */
+export default async function RoleDetailPage({
+  params,
+}: {
+  params: Promise<{ roleId: string }>;
+}): Promise<ReactElement> {
+  const { roleId } = await params;
+
+  // Role management is restricted to superadmins (matches the roles API)
+  await requireMinRole("superadmin");
+
+  const role = await getCustomRole(roleId);
+
+  // Handle not found
+  if (!role) {
+    notFound();
+  }
+
+  const userCounts = await countUsersByCustomRole();
+
+  return <RoleDetailClient role={toCustomRoleDetails(role, userCounts)} />;
+}
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview New custom role creation page
+ * @module app/admin/roles/new/page
+ *
+ * Superadmin page for creating custom roles.
+ */
+
+import { type ReactElement } from "react";
+import { requireMinRole } from "@/lib/auth/gateways/server";
+import { RoleForm } from "@/features/roles/components/role-form";
+
+/**
+ * New custom role creation page
+ *
+ * Displays a form for creating new custom roles.
+ *
+ * @returns React element containing the new role form page
+ */
+export default async function NewRolePage(): Promise<ReactElement> {
+  await requireMinRole("superadmin");
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      <RoleForm />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Custom roles list page
+ * @module app/admin/roles/page
+ *
+ * Superadmin page for viewing and managing custom roles.
+ */
+
+import { type ReactElement } from "react";
+import Link from "next/link";
+import { Plus } from "lucide-react";
+import { requireMinRole } from "@/lib/auth/gateways/server";
+import { Button } from "@/components/ui/button";
+import { RoleList } from "@/features/roles/components/role-list";
+
+/**
+ * Custom roles list page
+ *
+ * Displays all custom roles with their permission and user counts.
+ * Allows navigation to the role editor and creation of new roles.
+ *
+ * @returns React element containing roles list page
+ */
+export default async function RolesPage(): Promise<ReactElement> {
+  // Role management is restricted to superadmins (matches the roles API)
+  await requireMinRole("superadmin");
+
+  return (
+    <div className="flex h-full flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Role Management</h1>
+          <p className="text-muted-foreground">
+            Define custom roles with tailored permission sets
+          </p>
+        </div>
+        <Link href="/admin/roles/new">
+          <Button>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Role
+          </Button>
+        </Link>
+      </div>
+
+      <RoleList />
+    </div>
+  );
+}
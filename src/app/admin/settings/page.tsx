@@ -0,0 +1,43 @@
+/**
+ * @fileoverview System settings page
+ * @module app/admin/settings/page
+ *
+ * Page for application-wide settings, restricted to holders of
+ * settings.system.
+ */
+
+import { type ReactElement } from "react";
+import { requirePermission } from "@/lib/auth/gateways/server";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { SignupPolicyCard } from "@/features/auth/components/signup-policy-card";
+import { ProfileVisibilityPolicyCard } from "@/features/auth/components/profile-visibility-policy-card";
+import { WebhooksCard } from "@/features/webhooks/components/webhooks-card";
+
+/**
+ * System settings page
+ *
+ * Displays the sign-up policy and profile visibility policy editors and the
+ * webhook endpoints.
+ *
+ * @returns React element containing system settings page
+ */
+export default async function SettingsPage(): Promise<ReactElement> {
+  await requirePermission(PERMISSIONS.settings.system);
+
+  return (
+    <div className="flex h-full flex-col gap-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground">
+          Configure application-wide settings
+        </p>
+      </div>
+
+      <div className="flex max-w-3xl flex-col gap-6">
+        <SignupPolicyCard />
+        <ProfileVisibilityPolicyCard />
+        <WebhooksCard />
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  * @module app/admin/users/[userId]/page
  *
  * Page for viewing and editing user details.
- * Displays user information and allows updates to profile, role, and company association.
+ * Displays user information and allows updates to profile, role, custom role, and company association.
  * Supports both admin view (full user management) and profile view (limited read-only).
  */
 
@@ -12,6 +12,9 @@ import { notFound } from "next/navigation";
 import { requireAnyPermission } from "@/lib/auth/gateways/server";
 import { hasPermission } from "@/lib/auth/permission-checker";
 import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { hasMinRole } from "@/lib/auth/roles";
+import { getUserCustomRoleId } from "@/lib/auth/custom-roles";
 import { fetchUserServer } from "@/features/users/lib/fetch-user-server";
 import { UserDetailClient } from "./user-detail-client";
 
@@ -41,7 +44,7 @@ export default async function UserDetailPage({
   const { userId } = await params;
 
   // Check authentication - allow either users.view (admin) or profiles.view (member)
-  const { user: currentUser } = await requireAnyPermission([
+  const { user: currentUser, impersonator } = await requireAnyPermission([
     PERMISSIONS.users.view,
     PERMISSIONS.profiles.view,
   ]);
@@ -49,13 +52,19 @@ export default async function UserDetailPage({
   // Determine if user has admin view permission
   const hasAdminView = await hasPermission(currentUser, PERMISSIONS.users.view);
 
+  // Admins without users.view_all only see users in their own company
+  const scope = hasAdminView
+    ? await getCompanyScope(currentUser, PERMISSIONS.users.viewAll)
+    : null;
+
   // Fetch user data with appropriate view mode
   const userData = await fetchUserServer(userId, {
-    viewerUserId: currentUser.id,
+    scope,
+    viewer: currentUser,
     limitedView: !hasAdminView,
   });
 
-  // Handle not found (profile doesn't exist, soft-deleted, or no relationship)
+  // Handle not found (profile doesn't exist, soft-deleted, other company, or no relationship)
   if (!userData) {
     notFound();
   }
@@ -67,6 +76,29 @@ export default async function UserDetailPage({
     hasAdminView &&
     (await hasPermission(currentUser, PERMISSIONS.users.delete));
 
+  // Custom role assignment is superadmin-only (matches the role assignment API)
+  const canAssignCustomRole =
+    hasAdminView && hasMinRole(currentUser, "superadmin");
+  const customRoleId = canAssignCustomRole
+    ? await getUserCustomRoleId(userId)
+    : null;
+
+  // Impersonation is superadmin-only and never targets the viewer or another
+  // superadmin (matches /api/auth/impersonation); not offered mid-session
+  const canImpersonate =
+    hasAdminView &&
+    !impersonator &&
+    hasMinRole(currentUser, "superadmin") &&
+    userData.id !== currentUser.id &&
+    "role" in userData &&
+    userData.role !== "superadmin";
+
+  // Only superadmins can reset a superadmin's MFA (matches the MFA reset API)
+  const canResetMfa =
+    canEdit &&
+    "role" in userData &&
+    (userData.role !== "superadmin" || hasMinRole(currentUser, "superadmin"));
+
   // Determine view mode
   const viewMode = hasAdminView ? "admin" : "profile";
 
@@ -77,6 +109,11 @@ export default async function UserDetailPage({
       viewMode={viewMode}
       canEdit={canEdit}
       canDelete={canDelete}
+      canAssignCustomRole={canAssignCustomRole}
+      customRoleId={customRoleId}
+      canImpersonate={canImpersonate}
+      canManageSessions={canEdit}
+      canResetMfa={canResetMfa}
     />
   );
 }
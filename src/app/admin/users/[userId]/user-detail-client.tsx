@@ -11,11 +11,16 @@ import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { UserForm } from "@/features/users/components/user-form";
 import { DeleteUserDialog } from "@/features/users/components/delete-user-dialog";
+import { ImpersonateUserDialog } from "@/features/users/components/impersonate-user-dialog";
+import { ResetMfaDialog } from "@/features/users/components/reset-mfa-dialog";
 import { useRestoreUser } from "@/features/users/hooks/use-user-mutations";
+import { CustomRolePicker } from "@/features/roles/components/custom-role-picker";
+import { SessionsCard } from "@/features/auth/components/sessions-card";
 import { toast } from "sonner";
-import { Trash2, RotateCcw } from "lucide-react";
+import { Trash2, RotateCcw, Eye, ShieldOff } from "lucide-react";
 import type { User } from "@/features/users/types/user.types";
 import type { LimitedProfile } from "@/features/auth/types/auth.types";
 
@@ -36,6 +41,16 @@ export interface UserDetailClientProps {
   canEdit: boolean;
   /** Whether user can delete (only applicable in admin mode) */
   canDelete: boolean;
+  /** Whether the viewer can assign custom roles (superadmin, admin mode only) */
+  canAssignCustomRole?: boolean;
+  /** Custom role currently assigned to the user (null if none) */
+  customRoleId?: string | null;
+  /** Whether the viewer can impersonate the user (superadmin, admin mode only) */
+  canImpersonate?: boolean;
+  /** Whether the viewer can sign out the user's sessions (admin mode only) */
+  canManageSessions?: boolean;
+  /** Whether the viewer can reset the user's MFA factors (admin mode only) */
+  canResetMfa?: boolean;
 }
 
 /**
@@ -53,9 +68,16 @@ export function UserDetailClient({
   viewMode,
   canEdit,
   canDelete,
+  canAssignCustomRole = false,
+  customRoleId = null,
+  canImpersonate = false,
+  canManageSessions = false,
+  canResetMfa = false,
 }: UserDetailClientProps): ReactElement {
   const router = useRouter();
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isImpersonateDialogOpen, setIsImpersonateDialogOpen] = useState(false);
+  const [isResetMfaDialogOpen, setIsResetMfaDialogOpen] = useState(false);
   const { mutate: restoreUser, isPending: isRestoring } = useRestoreUser();
 
   // Type guard to check if user is full User type
@@ -76,19 +98,21 @@ export function UserDetailClient({
         </div>
 
         <div className="space-y-4">
-          <div>
-            <Label htmlFor="full_name" className="font-sans font-medium">
-              Full Name
-            </Label>
-            <Input
-              id="full_name"
-              type="text"
-              value={profile.full_name ?? ""}
-              disabled
-              className="font-sans bg-muted"
-              aria-label="Full name (read-only)"
-            />
-          </div>
+          {profile.full_name !== undefined && (
+            <div>
+              <Label htmlFor="full_name" className="font-sans font-medium">
+                Full Name
+              </Label>
+              <Input
+                id="full_name"
+                type="text"
+                value={profile.full_name ?? ""}
+                disabled
+                className="font-sans bg-muted"
+                aria-label="Full name (read-only)"
+              />
+            </div>
+          )}
 
           {profile.title && (
             <div>
@@ -106,6 +130,22 @@ export function UserDetailClient({
             </div>
           )}
 
+          {profile.email && (
+            <div>
+              <Label htmlFor="email" className="font-sans font-medium">
+                Email
+              </Label>
+              <Input
+                id="email"
+                type="email"
+                value={profile.email}
+                disabled
+                className="font-sans bg-muted"
+                aria-label="Email (read-only)"
+              />
+            </div>
+          )}
+
           {profile.phone && (
             <div>
               <Label htmlFor="phone" className="font-sans font-medium">
@@ -122,6 +162,21 @@ export function UserDetailClient({
             </div>
           )}
 
+          {profile.bio && (
+            <div>
+              <Label htmlFor="bio" className="font-sans font-medium">
+                Bio
+              </Label>
+              <Textarea
+                id="bio"
+                value={profile.bio}
+                disabled
+                className="font-sans bg-muted"
+                aria-label="Bio (read-only)"
+              />
+            </div>
+          )}
+
           {profile.avatar_url && (
             <div>
               <Label htmlFor="avatar_url" className="font-sans font-medium">
@@ -186,6 +241,24 @@ export function UserDetailClient({
           {isDeleted ? "View Deleted User" : "Edit User"}
         </h1>
         <div className="flex gap-2">
+          {canImpersonate && !isDeleted && (
+            <Button
+              onClick={() => setIsImpersonateDialogOpen(true)}
+              variant="outline"
+            >
+              <Eye className="mr-2 size-4" />
+              View as User
+            </Button>
+          )}
+          {canResetMfa && !isDeleted && (
+            <Button
+              onClick={() => setIsResetMfaDialogOpen(true)}
+              variant="outline"
+            >
+              <ShieldOff className="mr-2 size-4" />
+              Reset MFA
+            </Button>
+          )}
           {isDeleted ? (
             <Button
               onClick={handleRestore}
@@ -209,6 +282,14 @@ export function UserDetailClient({
         </div>
       </div>
       {canEdit && <UserForm userId={fullUser.id} initialData={initialData} />}
+      {canAssignCustomRole && !isDeleted && (
+        <CustomRolePicker userId={fullUser.id} currentRoleId={customRoleId} />
+      )}
+      {!isDeleted && (
+        <div className="mt-6">
+          <SessionsCard userId={fullUser.id} canManage={canManageSessions} />
+        </div>
+      )}
       {fullUser && isFullUser(fullUser) && (
         <DeleteUserDialog
           user={fullUser}
@@ -216,6 +297,20 @@ export function UserDetailClient({
           onOpenChange={setIsDeleteDialogOpen}
         />
       )}
+      {canImpersonate && (
+        <ImpersonateUserDialog
+          user={fullUser}
+          open={isImpersonateDialogOpen}
+          onOpenChange={setIsImpersonateDialogOpen}
+        />
+      )}
+      {canResetMfa && (
+        <ResetMfaDialog
+          user={fullUser}
+          open={isResetMfaDialogOpen}
+          onOpenChange={setIsResetMfaDialogOpen}
+        />
+      )}
     </div>
   );
 }
@@ -3,12 +3,13 @@
  * @module app/admin/users/page
  *
  * Main page for viewing and managing users.
- * Provides search, filters, and infinite scroll pagination.
+ * Provides search, filters, and infinite scroll pagination, and an
+ * Invitations tab for users invited by email.
  */
 
 "use client";
 
-import { type ReactElement } from "react";
+import { type ReactElement, useState } from "react";
 import {
   UserList,
   COLUMN_DEFINITIONS,
@@ -16,9 +17,12 @@ import {
 } from "@/features/users/components/user-list";
 import { UserSearch } from "@/features/users/components/user-search";
 import { UserFilters } from "@/features/users/components/user-filters";
+import { InvitationList } from "@/features/invitations/components/invitation-list";
+import { InviteUserDialog } from "@/features/invitations/components/invite-user-dialog";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Link from "next/link";
-import { Plus } from "lucide-react";
+import { Mail, Plus } from "lucide-react";
 import { FiltersSection } from "@/components/filters-section";
 import { useColumnLayout } from "@/features/users/hooks/use-column-layout";
 
@@ -26,7 +30,8 @@ import { useColumnLayout } from "@/features/users/hooks/use-column-layout";
  * Users list page
  *
  * Displays a list of all users with search, filters, and pagination.
- * Allows navigation to user detail pages and creation of new users.
+ * Allows navigation to user detail pages, creation of new users and
+ * inviting users by email.
  *
  * @returns React element containing users list page
  */
@@ -40,6 +45,7 @@ export default function UsersPage(): ReactElement {
     columnVisibility,
     toggleColumnVisibility,
   } = useColumnLayout(DEFAULT_COLUMN_IDS);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
 
   return (
     <div className="flex h-full flex-col">
@@ -50,37 +56,61 @@ export default function UsersPage(): ReactElement {
             View and manage all users in the system
           </p>
         </div>
-        <Link href="/admin/users/new">
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Create User
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsInviteDialogOpen(true)}>
+            <Mail className="mr-2 h-4 w-4" />
+            Invite User
           </Button>
-        </Link>
+          <Link href="/admin/users/new">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Create User
+            </Button>
+          </Link>
+        </div>
       </div>
 
-      <FiltersSection
-        searchComponent={<UserSearch />}
-        filterComponent={<UserFilters />}
-        feature="users"
-        columnVisibility={{
-          columns: COLUMN_DEFINITIONS,
-          columnVisibility,
-          onToggleVisibility: toggleColumnVisibility,
-        }}
-      />
+      <Tabs defaultValue="users" className="mt-4 flex min-h-0 flex-1 flex-col">
+        <TabsList>
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="invitations">Invitations</TabsTrigger>
+        </TabsList>
 
-      <div className="flex-1 min-h-0">
-        <UserList
-          columnLayout={{
-            columnOrder,
-            setColumnOrder,
-            columnWidths,
-            setColumnWidth,
-            columnVisibility,
-            toggleColumnVisibility,
-          }}
-        />
-      </div>
+        <TabsContent value="users" className="flex min-h-0 flex-1 flex-col">
+          <FiltersSection
+            searchComponent={<UserSearch />}
+            filterComponent={<UserFilters />}
+            feature="users"
+            columnVisibility={{
+              columns: COLUMN_DEFINITIONS,
+              columnVisibility,
+              onToggleVisibility: toggleColumnVisibility,
+            }}
+          />
+
+          <div className="flex-1 min-h-0">
+            <UserList
+              columnLayout={{
+                columnOrder,
+                setColumnOrder,
+                columnWidths,
+                setColumnWidth,
+                columnVisibility,
+                toggleColumnVisibility,
+              }}
+            />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="invitations">
+          <InvitationList />
+        </TabsContent>
+      </Tabs>
+
+      <InviteUserDialog
+        open={isInviteDialogOpen}
+        onOpenChange={setIsInviteDialogOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,167 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import {
+  getCompanyById,
+  softDeleteCompany,
+  updateCompany,
+  type Company,
+} from "@/features/companies/lib/company-service";
+import { fetchCompanyServer } from "@/features/companies/lib/fetch-company-server";
+import {
+  createRouteContext,
+  createTestAuth,
+  createTestRequest,
+  createTestUser,
+} from "@/test/auth";
+import { DELETE, GET, PUT } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/features/companies/lib/company-service", () => ({
+  getCompanyById: vi.fn(),
+  softDeleteCompany: vi.fn(),
+  updateCompany: vi.fn(),
+}));
+vi.mock("@/features/companies/lib/fetch-company-server", () => ({
+  fetchCompanyServer: vi.fn(),
+}));
+
+const company = { id: crypto.randomUUID(), name: "Acme" } as Company;
+const path = `/api/admin/companies/${company.id}`;
+const context = createRouteContext({ companyId: company.id });
+const rename = { method: "PUT", body: { name: "Renamed" } };
+
+describe("/api/admin/companies/[companyId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchCompanyServer).mockResolvedValue(company);
+    vi.mocked(getCompanyById).mockResolvedValue(company);
+    vi.mocked(updateCompany).mockImplementation(async (_companyId, input) => ({
+      company: { ...company, ...input } as Company,
+      conflict: false,
+    }));
+  });
+
+  describe("GET", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await GET(createTestRequest(path), context);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("returns 403 for a member", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("member"))
+      );
+
+      const response = await GET(createTestRequest(path), context);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("returns the company for an admin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("admin"))
+      );
+
+      const response = await GET(createTestRequest(path), context);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        company: { id: company.id },
+      });
+    });
+  });
+
+  describe("PUT", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await PUT(createTestRequest(path, rename), context);
+
+      expect(response.status).toBe(401);
+    });
+
+    it.each(["member", "admin"] as const)(
+      "returns 403 for a %s",
+      async (role) => {
+        vi.mocked(getAuth).mockResolvedValue(
+          createTestAuth(createTestUser(role))
+        );
+
+        const response = await PUT(createTestRequest(path, rename), context);
+
+        expect(response.status).toBe(403);
+        expect(updateCompany).not.toHaveBeenCalled();
+      }
+    );
+
+    it("updates the company for a superadmin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await PUT(createTestRequest(path, rename), context);
+
+      expect(response.status).toBe(200);
+      expect(updateCompany).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("DELETE", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await DELETE(
+        createTestRequest(path, { method: "DELETE" }),
+        context
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it.each(["member", "admin"] as const)(
+      "returns 403 for a %s",
+      async (role) => {
+        vi.mocked(getAuth).mockResolvedValue(
+          createTestAuth(createTestUser(role))
+        );
+
+        const response = await DELETE(
+          createTestRequest(path, { method: "DELETE" }),
+          context
+        );
+
+        expect(response.status).toBe(403);
+        expect(softDeleteCompany).not.toHaveBeenCalled();
+      }
+    );
+
+    it("deletes the company for a superadmin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await DELETE(
+        createTestRequest(path, { method: "DELETE" }),
+        context
+      );
+
+      expect(response.status).toBe(200);
+      expect(softDeleteCompany).toHaveBeenCalledWith(company.id);
+    });
+  });
+});
@@ -3,12 +3,20 @@
  * @module app/api/admin/companies/[companyId]/route
  *
  * Handles GET (company detail), PUT (update company), and DELETE (soft delete company) operations.
- * All endpoints require authenticated user access.
+ * Requires companies.view, companies.edit and companies.delete respectively.
+ * View and edit may be held conditionally; the company must then meet the
+ * conditions.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/lib/auth/gateways/api";
 import {
+  withConditionalPermission,
+  withPermission,
+} from "@/lib/auth/gateways/api";
+import { can } from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  getCompanyById,
   updateCompany,
   softDeleteCompany,
 } from "@/features/companies/lib/company-service";
@@ -31,52 +39,59 @@ export async function GET(
 ): Promise<NextResponse> {
   const { companyId } = await params;
 
-  return withAuth(async (_request: NextRequest, { user: _authUser }) => {
-    try {
-      // Fetch company using shared utility
-      const company = await fetchCompanyServer(companyId);
+  return withConditionalPermission(
+    PERMISSIONS.companies.view,
+    async (_request: NextRequest, { user: authUser }) => {
+      try {
+        // Fetch company using shared utility
+        const company = await fetchCompanyServer(companyId);
 
-      if (!company) {
-        return NextResponse.json(
-          {
-            error: "NOT_FOUND",
-            message: "Company not found",
-            timestamp: new Date().toISOString(),
-          },
-          { status: 404 }
-        );
-      }
+        // Companies outside the caller's conditions are reported as not found
+        if (
+          !company ||
+          !(await can(authUser, PERMISSIONS.companies.view, company))
+        ) {
+          return NextResponse.json(
+            {
+              error: "NOT_FOUND",
+              message: "Company not found",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 404 }
+          );
+        }
 
-      return NextResponse.json({ company }, { status: 200 });
-    } catch (error) {
-      // Handle service errors
-      if (error instanceof Error) {
-        const userMessage = error.message.includes("Failed to fetch")
-          ? "Unable to retrieve company details. Please try again or contact support if the problem persists."
-          : error.message;
+        return NextResponse.json({ company }, { status: 200 });
+      } catch (error) {
+        // Handle service errors
+        if (error instanceof Error) {
+          const userMessage = error.message.includes("Failed to fetch")
+            ? "Unable to retrieve company details. Please try again or contact support if the problem persists."
+            : error.message;
 
+          return NextResponse.json(
+            {
+              error: "INTERNAL_SERVER_ERROR",
+              message: userMessage,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 500 }
+          );
+        }
+
+        // Unknown error
         return NextResponse.json(
           {
             error: "INTERNAL_SERVER_ERROR",
-            message: userMessage,
+            message:
+              "An unexpected error occurred while loading company details. Please try again or contact support if the problem persists.",
             timestamp: new Date().toISOString(),
           },
           { status: 500 }
         );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message:
-            "An unexpected error occurred while loading company details. Please try again or contact support if the problem persists.",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-  })(request);
+  )(request);
 }
 
 /**
@@ -98,89 +113,108 @@ export async function PUT(
 ): Promise<NextResponse> {
   const { companyId } = await params;
 
-  return withAuth(async (request: NextRequest, { user: _authUser }) => {
-    try {
-      const body = await request.json();
+  return withConditionalPermission(
+    PERMISSIONS.companies.edit,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
 
-      // Parse and validate request body
-      const validatedData = updateCompanySchema.parse(body);
+        // Parse and validate request body
+        const validatedData = updateCompanySchema.parse(body);
 
-      // Update company via service
-      const { company, conflict } = await updateCompany(
-        companyId,
-        validatedData
-      );
+        // Conditional edit grants must allow this company
+        const current = await getCompanyById(companyId);
+        if (
+          current &&
+          !(await can(authUser, PERMISSIONS.companies.edit, current))
+        ) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Permission '${PERMISSIONS.companies.edit}' required`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
 
-      // Return updated company with conflict flag
-      return NextResponse.json({ company, conflict }, { status: 200 });
-    } catch (error) {
-      // Handle Zod validation errors
-      if (error instanceof z.ZodError) {
-        const errorMessages = error.errors.map((e) => {
-          const field = e.path.join(".");
-          return `${field}: ${e.message}`;
-        });
-        return NextResponse.json(
-          {
-            error: "VALIDATION_ERROR",
-            message: `Invalid company data. ${errorMessages.join(", ")}`,
-            details: error.errors,
-            timestamp: new Date().toISOString(),
-          },
-          { status: 400 }
+        // Update company via service
+        const { company, conflict } = await updateCompany(
+          companyId,
+          validatedData
         );
-      }
-
-      // Handle service errors
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
 
-        // Company not found
-        if (errorMessage.includes("not found")) {
+        // Return updated company with conflict flag
+        return NextResponse.json({ company, conflict }, { status: 200 });
+      } catch (error) {
+        // Handle Zod validation errors
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
           return NextResponse.json(
             {
-              error: "NOT_FOUND",
-              message: error.message,
+              error: "VALIDATION_ERROR",
+              message: `Invalid company data. ${errorMessages.join(", ")}`,
+              details: error.errors,
               timestamp: new Date().toISOString(),
             },
-            { status: 404 }
+            { status: 400 }
           );
         }
 
-        // Company name already exists
-        if (errorMessage.includes("already in use")) {
+        // Handle service errors
+        if (error instanceof Error) {
+          const errorMessage = error.message.toLowerCase();
+
+          // Company not found
+          if (errorMessage.includes("not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
+
+          // Company name already exists
+          if (errorMessage.includes("already in use")) {
+            return NextResponse.json(
+              {
+                error: "CONFLICT",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 409 }
+            );
+          }
+
+          // Generic service error
           return NextResponse.json(
             {
-              error: "CONFLICT",
+              error: "INTERNAL_SERVER_ERROR",
               message: error.message,
               timestamp: new Date().toISOString(),
             },
-            { status: 409 }
+            { status: 500 }
           );
         }
 
-        // Generic service error
+        // Unknown error
         return NextResponse.json(
           {
             error: "INTERNAL_SERVER_ERROR",
-            message: error.message,
+            message: "An unexpected error occurred",
             timestamp: new Date().toISOString(),
           },
           { status: 500 }
         );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message: "An unexpected error occurred",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-  })(request);
+  )(request);
 }
 
 /**
@@ -199,66 +233,69 @@ export async function DELETE(
 ): Promise<NextResponse> {
   const { companyId } = await params;
 
-  return withAuth(async (_request: NextRequest, { user: _authUser }) => {
-    try {
-      // Soft delete company
-      await softDeleteCompany(companyId);
+  return withPermission(
+    PERMISSIONS.companies.delete,
+    async (_request: NextRequest, { user: _authUser }) => {
+      try {
+        // Soft delete company
+        await softDeleteCompany(companyId);
+
+        return NextResponse.json(
+          {
+            message: "Company deleted successfully",
+          },
+          { status: 200 }
+        );
+      } catch (error) {
+        // Handle service errors
+        if (error instanceof Error) {
+          const errorMessage = error.message.toLowerCase();
 
-      return NextResponse.json(
-        {
-          message: "Company deleted successfully",
-        },
-        { status: 200 }
-      );
-    } catch (error) {
-      // Handle service errors
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
+          // Company not found
+          if (errorMessage.includes("not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
 
-        // Company not found
-        if (errorMessage.includes("not found")) {
-          return NextResponse.json(
-            {
-              error: "NOT_FOUND",
-              message: error.message,
-              timestamp: new Date().toISOString(),
-            },
-            { status: 404 }
-          );
-        }
+          // Company already deleted
+          if (errorMessage.includes("already soft-deleted")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
 
-        // Company already deleted
-        if (errorMessage.includes("already soft-deleted")) {
+          // Generic service error
           return NextResponse.json(
             {
-              error: "VALIDATION_ERROR",
+              error: "INTERNAL_SERVER_ERROR",
               message: error.message,
               timestamp: new Date().toISOString(),
             },
-            { status: 400 }
+            { status: 500 }
           );
         }
 
-        // Generic service error
+        // Unknown error
         return NextResponse.json(
           {
             error: "INTERNAL_SERVER_ERROR",
-            message: error.message,
+            message: "An unexpected error occurred",
             timestamp: new Date().toISOString(),
           },
           { status: 500 }
         );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message: "An unexpected error occurred",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-  })(request);
+  )(request);
 }
@@ -0,0 +1,88 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { setRateLimitStore } from "@/lib/rate-limit/rate-limiter";
+import { createMemoryStore } from "@/lib/rate-limit/stores";
+import {
+  restoreCompany,
+  softDeleteCompany,
+  type Company,
+} from "@/features/companies/lib/company-service";
+import { createTestAuth, createTestRequest, createTestUser } from "@/test/auth";
+import { POST } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/features/companies/lib/company-service", () => ({
+  restoreCompany: vi.fn(),
+  softDeleteCompany: vi.fn(),
+}));
+
+const ids = [crypto.randomUUID(), crypto.randomUUID()];
+const path = "/api/admin/companies/bulk";
+
+describe("POST /api/admin/companies/bulk", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(createMemoryStore());
+    vi.mocked(restoreCompany).mockImplementation(
+      async (id) => ({ id }) as Company
+    );
+  });
+
+  it("returns 401 without a session", async () => {
+    vi.mocked(getAuth).mockResolvedValue(null);
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "soft_delete", ids },
+      })
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it.each([
+    ["member", "soft_delete"],
+    ["admin", "soft_delete"],
+    ["member", "restore"],
+    ["admin", "restore"],
+  ] as const)("returns 403 for a %s (%s)", async (role, action) => {
+    vi.mocked(getAuth).mockResolvedValue(createTestAuth(createTestUser(role)));
+
+    const response = await POST(
+      createTestRequest(path, { method: "POST", body: { action, ids } })
+    );
+
+    expect(response.status).toBe(403);
+    expect(softDeleteCompany).not.toHaveBeenCalled();
+    expect(restoreCompany).not.toHaveBeenCalled();
+  });
+
+  it.each(["soft_delete", "restore"] as const)(
+    "applies %s for a superadmin",
+    async (action) => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await POST(
+        createTestRequest(path, { method: "POST", body: { action, ids } })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ succeeded: 2, failed: 0 });
+    }
+  );
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview API route handler for bulk company actions
+ * @module app/api/admin/companies/bulk/route
+ *
+ * Handles POST (apply one action to many companies).
+ * Soft delete requires companies.delete; restore requires companies.restore.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth/gateways/api";
+import { hasPermission } from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { runBulkAction } from "@/lib/bulk-actions";
+import {
+  restoreCompany,
+  softDeleteCompany,
+} from "@/features/companies/lib/company-service";
+import { bulkCompanyActionSchema } from "@/features/companies/schemas/company.schema";
+import { z } from "zod";
+
+/**
+ * POST /api/admin/companies/bulk
+ *
+ * Apply one action to up to 100 companies. Each company is processed on its
+ * own: a company that cannot be changed is reported as failed and the rest
+ * are still processed.
+ *
+ * Request body:
+ * - action: soft_delete or restore
+ * - ids: Company IDs (1 to 100)
+ *
+ * @param request - Next.js request object with the action in body
+ * @param context - Authentication context from withAuth
+ * @returns JSON response with per-company results and the totals that
+ * succeeded and failed
+ */
+export const POST = withAuth(
+  withRateLimit(
+    RATE_LIMITS.adminMutation,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
+
+        // Parse and validate request body
+        const input = bulkCompanyActionSchema.parse(body);
+
+        const permission =
+          input.action === "restore"
+            ? PERMISSIONS.companies.restore
+            : PERMISSIONS.companies.delete;
+        if (!(await hasPermission(authUser, permission))) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Permission '${permission}' required`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        const result = await runBulkAction(input.ids, (companyId) =>
+          input.action === "restore"
+            ? restoreCompany(companyId)
+            : softDeleteCompany(companyId)
+        );
+
+        return NextResponse.json(result, { status: 200 });
+      } catch (error) {
+        // Handle Zod validation errors
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: `Invalid bulk action. ${errorMessages.join(", ")}`,
+              details: error.errors,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
+
+        // Generic service error
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "An unexpected error occurred",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )
+);
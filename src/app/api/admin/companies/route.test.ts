@@ -0,0 +1,115 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { setRateLimitStore } from "@/lib/rate-limit/rate-limiter";
+import { createMemoryStore } from "@/lib/rate-limit/stores";
+import {
+  createCompany,
+  getCompanies,
+  type Company,
+} from "@/features/companies/lib/company-service";
+import { createTestAuth, createTestRequest, createTestUser } from "@/test/auth";
+import { GET, POST } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/features/companies/lib/company-service", () => ({
+  createCompany: vi.fn(),
+  getCompanies: vi.fn(),
+}));
+
+const path = "/api/admin/companies";
+const newCompany = { method: "POST", body: { name: "Acme" } };
+
+describe("/api/admin/companies", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(createMemoryStore());
+    vi.mocked(getCompanies).mockResolvedValue({
+      companies: [],
+      total: 0,
+      hasNext: false,
+      nextCursor: null,
+    });
+    vi.mocked(createCompany).mockImplementation(
+      async (input) => ({ id: crypto.randomUUID(), ...input }) as Company
+    );
+  });
+
+  describe("GET", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await GET(createTestRequest(path));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("returns 403 for a member", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("member"))
+      );
+
+      const response = await GET(createTestRequest(path));
+
+      expect(response.status).toBe(403);
+      expect(getCompanies).not.toHaveBeenCalled();
+    });
+
+    it("lists companies for an admin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("admin"))
+      );
+
+      const response = await GET(createTestRequest(path));
+
+      expect(response.status).toBe(200);
+      expect(getCompanies).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("POST", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await POST(createTestRequest(path, newCompany));
+
+      expect(response.status).toBe(401);
+    });
+
+    it.each(["member", "admin"] as const)(
+      "returns 403 for a %s",
+      async (role) => {
+        vi.mocked(getAuth).mockResolvedValue(
+          createTestAuth(createTestUser(role))
+        );
+
+        const response = await POST(createTestRequest(path, newCompany));
+
+        expect(response.status).toBe(403);
+        expect(createCompany).not.toHaveBeenCalled();
+      }
+    );
+
+    it("creates a company for a superadmin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await POST(createTestRequest(path, newCompany));
+
+      expect(response.status).toBe(201);
+      expect(createCompany).toHaveBeenCalledWith({ name: "Acme" });
+    });
+  });
+});
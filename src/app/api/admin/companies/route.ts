@@ -3,11 +3,17 @@
  * @module app/api/admin/companies/route
  *
  * Handles GET (list companies) and POST (create company) operations.
- * All endpoints require authenticated user access.
+ * GET requires companies.view; POST requires companies.create.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/lib/auth/gateways/api";
+import {
+  withConditionalPermission,
+  withPermission,
+} from "@/lib/auth/gateways/api";
+import { getPermissionFilter } from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
 import {
   getCompanies,
   createCompany,
@@ -22,95 +28,138 @@ import { z } from "zod";
  * GET /api/admin/companies
  *
  * List companies with optional search, filters, and pagination.
- * Uses offset/limit pagination for infinite scroll support.
+ * Uses offset/limit pagination, or keyset pagination when a cursor is given.
  *
  * Query parameters:
  * - offset: Number of records to skip (default: 0)
  * - limit: Maximum number of items per page (default: 20, max: 100)
  * - search: Search term (matches name)
  * - include_deleted: Include soft-deleted companies (default: false)
+ * - sort: Column to sort by (name, created_at; default: created_at)
+ * - order: Sort direction (asc, desc; default: desc)
+ * - cursor: `next_cursor` of the previous page, or empty for the first page.
+ *   Switches to keyset pagination: offset is ignored and the response has
+ *   `next_cursor`, `has_next` and `total` instead of `pagination`
+ * - count: How `total` is counted (exact, estimated; default: exact)
+ *
+ * Callers holding companies.view only conditionally (e.g. same company)
+ * get the companies their conditions allow.
  *
  * @param request - Next.js request object
+ * @param context - Authentication context from withConditionalPermission
  * @returns JSON response with companies array and pagination info
  */
-export const GET = withAuth(async (request: NextRequest) => {
-  try {
-    const { searchParams } = new URL(request.url);
-
-    // Parse and validate query parameters
-    const queryParams = {
-      offset: searchParams.get("offset") ?? undefined,
-      limit: searchParams.get("limit") ?? undefined,
-      search: searchParams.get("search") ?? undefined,
-      include_deleted: searchParams.get("include_deleted") ?? undefined,
-    };
-
-    const query = companyQuerySchema.parse(queryParams);
-
-    // Fetch companies from service
-    const { companies, total } = await getCompanies(query);
-
-    // Calculate pagination metadata
-    const hasNext = query.offset + query.limit < total;
-
-    return NextResponse.json(
-      {
-        companies,
-        pagination: {
-          offset: query.offset,
-          limit: query.limit,
-          total,
-          has_next: hasNext,
-        },
-      },
-      { status: 200 }
-    );
-  } catch (error) {
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const errorMessages = error.errors.map((e) => {
-        const field = e.path.join(".");
-        return `${field}: ${e.message}`;
-      });
+export const GET = withConditionalPermission(
+  PERMISSIONS.companies.view,
+  async (request: NextRequest, { user: authUser }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+
+      // Parse and validate query parameters
+      const queryParams = {
+        offset: searchParams.get("offset") ?? undefined,
+        limit: searchParams.get("limit") ?? undefined,
+        search: searchParams.get("search") ?? undefined,
+        include_deleted: searchParams.get("include_deleted") ?? undefined,
+        sort: searchParams.get("sort") ?? undefined,
+        order: searchParams.get("order") ?? undefined,
+        cursor: searchParams.get("cursor") ?? undefined,
+        count: searchParams.get("count") ?? undefined,
+      };
+
+      const query = companyQuerySchema.parse(queryParams);
+
+      // Fetch companies from service, limited to rows the caller may view
+      const permissionFilter = await getPermissionFilter(
+        authUser,
+        PERMISSIONS.companies.view
+      );
+      const { companies, total, hasNext, nextCursor } = await getCompanies(
+        query,
+        permissionFilter
+      );
+
+      if (query.cursor !== undefined) {
+        return NextResponse.json(
+          { companies, next_cursor: nextCursor, has_next: hasNext, total },
+          { status: 200 }
+        );
+      }
+
       return NextResponse.json(
         {
-          error: "VALIDATION_ERROR",
-          message: `Invalid query parameters. ${errorMessages.join(", ")}`,
-          details: error.errors,
-          timestamp: new Date().toISOString(),
+          companies,
+          pagination: {
+            offset: query.offset,
+            limit: query.limit,
+            total,
+            has_next: hasNext,
+          },
         },
-        { status: 400 }
+        { status: 200 }
       );
-    }
+    } catch (error) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.errors.map((e) => {
+          const field = e.path.join(".");
+          return `${field}: ${e.message}`;
+        });
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: `Invalid query parameters. ${errorMessages.join(", ")}`,
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
+
+      // Handle cursors that are malformed or were issued for another sort
+      if (
+        error instanceof Error &&
+        error.message.startsWith("Invalid cursor")
+      ) {
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle service errors
-    if (error instanceof Error) {
-      const userMessage = error.message.includes("Failed to fetch")
-        ? "Unable to retrieve companies. Please try again or contact support if the problem persists."
-        : error.message;
+      // Handle service errors
+      if (error instanceof Error) {
+        const userMessage = error.message.includes("Failed to fetch")
+          ? "Unable to retrieve companies. Please try again or contact support if the problem persists."
+          : error.message;
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message: userMessage,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
 
+      // Unknown error
       return NextResponse.json(
         {
           error: "INTERNAL_SERVER_ERROR",
-          message: userMessage,
+          message:
+            "An unexpected error occurred while loading companies. Please try again or contact support if the problem persists.",
           timestamp: new Date().toISOString(),
         },
         { status: 500 }
       );
     }
-
-    // Unknown error
-    return NextResponse.json(
-      {
-        error: "INTERNAL_SERVER_ERROR",
-        message:
-          "An unexpected error occurred while loading companies. Please try again or contact support if the problem persists.",
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
   }
-});
+);
 
 /**
  * POST /api/admin/companies
@@ -123,73 +172,76 @@ export const GET = withAuth(async (request: NextRequest) => {
  * @param request - Next.js request object with company data in body
  * @returns JSON response with created company
  */
-export const POST = withAuth(async (request: NextRequest) => {
-  try {
-    const body = await request.json();
-
-    // Parse and validate request body
-    const validatedData = createCompanySchema.parse(body);
-
-    // Create company via service
-    const company = await createCompany(validatedData);
-
-    return NextResponse.json({ company }, { status: 201 });
-  } catch (error) {
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const errorMessages = error.errors.map((e) => {
-        const field = e.path.join(".");
-        return `${field}: ${e.message}`;
-      });
-      return NextResponse.json(
-        {
-          error: "VALIDATION_ERROR",
-          message: `Invalid company data. ${errorMessages.join(", ")}`,
-          details: error.errors,
-          timestamp: new Date().toISOString(),
-        },
-        { status: 400 }
-      );
-    }
-
-    // Handle service errors
-    if (error instanceof Error) {
-      const errorMessage = error.message.toLowerCase();
+export const POST = withPermission(
+  PERMISSIONS.companies.create,
+  withRateLimit(RATE_LIMITS.adminMutation, async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+
+      // Parse and validate request body
+      const validatedData = createCompanySchema.parse(body);
+
+      // Create company via service
+      const company = await createCompany(validatedData);
+
+      return NextResponse.json({ company }, { status: 201 });
+    } catch (error) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.errors.map((e) => {
+          const field = e.path.join(".");
+          return `${field}: ${e.message}`;
+        });
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: `Invalid company data. ${errorMessages.join(", ")}`,
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
 
-      // Company name already exists
-      if (
-        errorMessage.includes("already in use") ||
-        errorMessage.includes("already exists")
-      ) {
+      // Handle service errors
+      if (error instanceof Error) {
+        const errorMessage = error.message.toLowerCase();
+
+        // Company name already exists
+        if (
+          errorMessage.includes("already in use") ||
+          errorMessage.includes("already exists")
+        ) {
+          return NextResponse.json(
+            {
+              error: "CONFLICT",
+              message: error.message,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 409 }
+          );
+        }
+
+        // Generic service error
         return NextResponse.json(
           {
-            error: "CONFLICT",
+            error: "INTERNAL_SERVER_ERROR",
             message: error.message,
             timestamp: new Date().toISOString(),
           },
-          { status: 409 }
+          { status: 500 }
         );
       }
 
-      // Generic service error
+      // Unknown error
       return NextResponse.json(
         {
           error: "INTERNAL_SERVER_ERROR",
-          message: error.message,
+          message: "An unexpected error occurred",
           timestamp: new Date().toISOString(),
         },
         { status: 500 }
       );
     }
-
-    // Unknown error
-    return NextResponse.json(
-      {
-        error: "INTERNAL_SERVER_ERROR",
-        message: "An unexpected error occurred",
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
-});
+  })
+);
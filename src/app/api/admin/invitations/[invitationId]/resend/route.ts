@@ -0,0 +1,86 @@
+/**
+ * @fileoverview API route handler for resending an invitation
+ * @module app/api/admin/invitations/[invitationId]/resend/route
+ *
+ * Handles POST (resend invitation). Requires users.create; invitations
+ * outside the caller's company are not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { resendInvitation } from "@/features/invitations/lib/invitation-service";
+
+/**
+ * POST /api/admin/invitations/{invitationId}/resend
+ *
+ * Email a pending or expired invitation again. A new link is issued, valid
+ * for another seven days, and the previous link stops working.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with invitationId parameter
+ * @returns JSON response with the updated invitation
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invitationId: string }> }
+): Promise<NextResponse> {
+  // Extract invitationId from params before passing to withPermission
+  const { invitationId } = await params;
+
+  return withPermission(
+    PERMISSIONS.users.create,
+    withRateLimit(
+      RATE_LIMITS.adminMutation,
+      async (_request: NextRequest, { user: authUser }) => {
+        try {
+          const scope = await getCompanyScope(
+            authUser,
+            PERMISSIONS.users.viewAll
+          );
+          const invitation = await resendInvitation(invitationId, scope);
+
+          return NextResponse.json({ invitation }, { status: 200 });
+        } catch (error) {
+          if (error instanceof Error) {
+            if (error.message.includes("not found")) {
+              return NextResponse.json(
+                {
+                  error: "NOT_FOUND",
+                  message: error.message,
+                  timestamp: new Date().toISOString(),
+                },
+                { status: 404 }
+              );
+            }
+
+            if (error.message.includes("already")) {
+              return NextResponse.json(
+                {
+                  error: "CONFLICT",
+                  message: error.message,
+                  timestamp: new Date().toISOString(),
+                },
+                { status: 409 }
+              );
+            }
+          }
+
+          return NextResponse.json(
+            {
+              error: "INTERNAL_SERVER_ERROR",
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to resend invitation",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 500 }
+          );
+        }
+      }
+    )
+  )(request);
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview API route handler for revoking an invitation
+ * @module app/api/admin/invitations/[invitationId]/route
+ *
+ * Handles DELETE (revoke invitation). Requires users.create; invitations
+ * outside the caller's company are not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { revokeInvitation } from "@/features/invitations/lib/invitation-service";
+
+/**
+ * DELETE /api/admin/invitations/{invitationId}
+ *
+ * Revoke a pending invitation. Its link stops working immediately; the
+ * record is kept for the audit trail.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with invitationId parameter
+ * @returns JSON response with success flag or error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ invitationId: string }> }
+): Promise<NextResponse> {
+  // Extract invitationId from params before passing to withPermission
+  const { invitationId } = await params;
+
+  return withPermission(
+    PERMISSIONS.users.create,
+    async (_request: NextRequest, { user: authUser }) => {
+      try {
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        await revokeInvitation(invitationId, scope);
+
+        return NextResponse.json({ success: true }, { status: 200 });
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes("not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
+
+          if (error.message.includes("already")) {
+            return NextResponse.json(
+              {
+                error: "CONFLICT",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 409 }
+            );
+          }
+        }
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to revoke invitation",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )(request);
+}
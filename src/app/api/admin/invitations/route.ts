@@ -0,0 +1,209 @@
+/**
+ * @fileoverview API route handlers for user invitations
+ * @module app/api/admin/invitations/route
+ *
+ * Handles GET (list invitations) and POST (invite user) operations.
+ * GET requires users.view; POST requires users.create (plus
+ * users.assign_role when inviting a non-member user, who cannot get a role
+ * above the caller's own).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { hasPermission } from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { DEFAULT_ROLE } from "@/features/auth/schemas/role.schema";
+import { canGrantRole } from "@/lib/auth/roles";
+import {
+  createInvitation,
+  listInvitations,
+} from "@/features/invitations/lib/invitation-service";
+import {
+  createInvitationSchema,
+  invitationQuerySchema,
+} from "@/features/invitations/schemas/invitation.schema";
+
+/**
+ * GET /api/admin/invitations
+ *
+ * List invitations, newest first. Invitations outside the caller's company
+ * are hidden unless they hold users.view_all.
+ *
+ * Query parameters:
+ * - status: Filter by status (pending, accepted, revoked, expired)
+ *
+ * @param request - Next.js request object
+ * @param context - Authentication context from withPermission
+ * @returns JSON response with invitations array
+ */
+export const GET = withPermission(
+  PERMISSIONS.users.view,
+  async (request: NextRequest, { user: authUser }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const query = invitationQuerySchema.parse({
+        status: searchParams.get("status") ?? undefined,
+      });
+
+      const scope = await getCompanyScope(authUser, PERMISSIONS.users.viewAll);
+      const invitations = await listInvitations(query, scope);
+
+      return NextResponse.json({ invitations }, { status: 200 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch invitations",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/admin/invitations
+ *
+ * Invite a user by email. The invitee receives a link that is valid for
+ * seven days; accepting it creates their account with the given role and
+ * company. Callers limited to a company always invite into their company.
+ *
+ * Request body:
+ * - email: Invitee email address (required)
+ * - full_name: Invitee's full name (optional)
+ * - role: Role granted on acceptance (default: member)
+ * - company_id: Company the user joins (optional, defaults to the company
+ *   matching the email domain)
+ *
+ * @param request - Next.js request object with invitation data in body
+ * @param context - Authentication context from withPermission
+ * @returns JSON response with the created invitation
+ */
+export const POST = withPermission(
+  PERMISSIONS.users.create,
+  withRateLimit(
+    RATE_LIMITS.adminMutation,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
+        const validatedData = createInvitationSchema.parse(body);
+
+        // Granting anything above the default role is a role assignment
+        if (
+          validatedData.role !== DEFAULT_ROLE &&
+          !(await hasPermission(authUser, PERMISSIONS.users.assignRole))
+        ) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Permission '${PERMISSIONS.users.assignRole}' required`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        // Roles above the caller's own cannot be granted
+        if (!canGrantRole(authUser, validatedData.role)) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Cannot assign the ${validatedData.role} role`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const invitation = await createInvitation(
+          validatedData,
+          authUser,
+          scope
+        );
+
+        return NextResponse.json({ invitation }, { status: 201 });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: `Invalid invitation data. ${errorMessages.join(", ")}`,
+              details: error.errors,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
+
+        if (error instanceof Error) {
+          const errorMessage = error.message.toLowerCase();
+
+          // Email already has an account or a pending invitation
+          if (
+            errorMessage.includes("already in use") ||
+            errorMessage.includes("already exists")
+          ) {
+            return NextResponse.json(
+              {
+                error: "CONFLICT",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 409 }
+            );
+          }
+
+          if (errorMessage.includes("outside your scope")) {
+            return NextResponse.json(
+              {
+                error: "FORBIDDEN",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 403 }
+            );
+          }
+        }
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to create invitation",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )
+);
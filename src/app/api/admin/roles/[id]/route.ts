@@ -9,16 +9,19 @@ import {
   getCustomRole,
   updateCustomRole,
   deleteCustomRole,
+  countUsersByCustomRole,
+  toCustomRoleDetails,
 } from "@/lib/auth/custom-roles";
 import {
-  createCustomRoleSchema,
+  updateCustomRoleSchema,
   errorResponseSchema,
 } from "@/features/auth/schemas/custom-role.schema";
 import { z } from "zod";
 
 /**
  * GET /api/admin/roles/[id]
- * Gets a specific custom role
+ * Gets a specific custom role with its effective permissions and the
+ * number of users holding it
  * Requires: superadmin
  */
 export async function GET(
@@ -41,7 +44,12 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ role }, { status: 200 });
+    const userCounts = await countUsersByCustomRole();
+
+    return NextResponse.json(
+      { role: toCustomRoleDetails(role, userCounts) },
+      { status: 200 }
+    );
   } catch (error) {
     if (error instanceof Response) {
       return error;
@@ -72,23 +80,18 @@ export async function PUT(
     const { id } = await params;
     const body = await request.json();
 
-    // Validate update input (all fields optional, but only description and permissions allowed)
-    const updateInput: { description?: string; permissions?: string[] } = {};
-    if (body.description !== undefined) {
-      updateInput.description = body.description;
-    }
-    if (body.permissions !== undefined) {
-      const validated = createCustomRoleSchema
-        .partial()
-        .parse({ permissions: body.permissions });
-      if (validated.permissions) {
-        updateInput.permissions = validated.permissions;
-      }
-    }
+    // Validate update input (all fields optional; the name cannot be changed)
+    const updateInput = updateCustomRoleSchema.parse(body);
 
-    const role = await updateCustomRole(id, updateInput);
+    const [role, userCounts] = await Promise.all([
+      updateCustomRole(id, updateInput),
+      countUsersByCustomRole(),
+    ]);
 
-    return NextResponse.json({ role }, { status: 200 });
+    return NextResponse.json(
+      { role: toCustomRoleDetails(role, userCounts) },
+      { status: 200 }
+    );
   } catch (error) {
     if (error instanceof Response) {
       return error;
@@ -5,7 +5,17 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireMinRole } from "@/lib/auth/gateways/server";
-import { listCustomRoles, createCustomRole } from "@/lib/auth/custom-roles";
+import {
+  RATE_LIMITS,
+  consumeRateLimit,
+  createRateLimitResponse,
+} from "@/lib/rate-limit/rate-limiter";
+import {
+  listCustomRoles,
+  createCustomRole,
+  countUsersByCustomRole,
+  toCustomRoleDetails,
+} from "@/lib/auth/custom-roles";
 import {
   createCustomRoleSchema,
   errorResponseSchema,
@@ -14,16 +24,23 @@ import { z } from "zod";
 
 /**
  * GET /api/admin/roles
- * Lists all custom roles
+ * Lists all custom roles with their effective permissions and the number
+ * of users holding each
  * Requires: superadmin
  */
 export async function GET(): Promise<Response> {
   try {
     await requireMinRole("superadmin");
 
-    const roles = await listCustomRoles();
+    const [roles, userCounts] = await Promise.all([
+      listCustomRoles(),
+      countUsersByCustomRole(),
+    ]);
 
-    return NextResponse.json({ roles }, { status: 200 });
+    return NextResponse.json(
+      { roles: roles.map((role) => toCustomRoleDetails(role, userCounts)) },
+      { status: 200 }
+    );
   } catch (error) {
     if (error instanceof Response) {
       return error;
@@ -43,18 +60,30 @@ export async function GET(): Promise<Response> {
 /**
  * POST /api/admin/roles
  * Creates a new custom role
+ * Rate limited per user
  * Requires: superadmin
  */
 export async function POST(request: NextRequest): Promise<Response> {
   try {
     const { user } = await requireMinRole("superadmin");
 
+    const limit = await consumeRateLimit(
+      RATE_LIMITS.adminMutation,
+      `user:${user.id}`
+    );
+    if (!limit.allowed) {
+      return createRateLimitResponse(limit);
+    }
+
     const body = await request.json();
     const validatedInput = createCustomRoleSchema.parse(body);
 
     const role = await createCustomRole(validatedInput, user.id);
 
-    return NextResponse.json({ role }, { status: 201 });
+    return NextResponse.json(
+      { role: toCustomRoleDetails(role, new Map()) },
+      { status: 201 }
+    );
   } catch (error) {
     if (error instanceof Response) {
       return error;
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview API route handlers for the profile visibility policy
+ * @module app/api/admin/settings/profile-visibility/route
+ *
+ * Handles GET (read policy) and PUT (replace policy) operations.
+ * Both require settings.system.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  getProfileVisibilityPolicy,
+  updateProfileVisibilityPolicy,
+} from "@/lib/auth/profile-visibility";
+import { updateProfileVisibilityPolicySchema } from "@/features/auth/schemas/profile-visibility.schema";
+
+/**
+ * GET /api/admin/settings/profile-visibility
+ *
+ * Get the profile visibility policy. Fields that have never been saved use
+ * the application defaults.
+ *
+ * @returns JSON response with the policy
+ */
+export const GET = withPermission(PERMISSIONS.settings.system, async () => {
+  try {
+    const policy = await getProfileVisibilityPolicy();
+
+    return NextResponse.json({ policy }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch profile visibility policy",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/admin/settings/profile-visibility
+ *
+ * Replace the profile visibility policy. Applies to every profile at once;
+ * users' own settings that are no longer allowed are ignored.
+ *
+ * Request body:
+ * - fields: For each profile field, its visibility (self, admins, company,
+ *   everyone) and whether users can tighten it (user_configurable)
+ *
+ * @param request - Next.js request object with the policy in body
+ * @param context - Authentication context from withPermission
+ * @returns JSON response with the saved policy
+ */
+export const PUT = withPermission(
+  PERMISSIONS.settings.system,
+  async (request: NextRequest, { user: authUser }) => {
+    try {
+      const body = await request.json();
+      const validatedData = updateProfileVisibilityPolicySchema.parse(body);
+
+      const policy = await updateProfileVisibilityPolicy(
+        validatedData,
+        authUser.id
+      );
+
+      return NextResponse.json({ policy }, { status: 200 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.errors.map((e) => {
+          const field = e.path.join(".");
+          return `${field}: ${e.message}`;
+        });
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: `Invalid profile visibility policy. ${errorMessages.join(", ")}`,
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to update profile visibility policy",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview API route handlers for the sign-up policy
+ * @module app/api/admin/settings/signup-policy/route
+ *
+ * Handles GET (read policy) and PUT (replace policy) operations.
+ * Both require settings.system.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getSignupPolicy, updateSignupPolicy } from "@/lib/auth/signup-policy";
+import { updateSignupPolicySchema } from "@/features/auth/schemas/signup-policy.schema";
+
+/**
+ * GET /api/admin/settings/signup-policy
+ *
+ * Get the sign-up policy. Returns the default open policy if none has been
+ * saved yet.
+ *
+ * @returns JSON response with the policy
+ */
+export const GET = withPermission(PERMISSIONS.settings.system, async () => {
+  try {
+    const policy = await getSignupPolicy();
+
+    return NextResponse.json({ policy }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch sign-up policy",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/admin/settings/signup-policy
+ *
+ * Replace the sign-up policy. Applies to sign-ups from now on; existing
+ * users are not affected.
+ *
+ * Request body:
+ * - allowed_domains: Domains allowed to sign up (empty = any domain)
+ * - blocked_domains: Domains that may not sign up
+ * - invite_only: Only users with a pending invitation can sign up
+ *
+ * @param request - Next.js request object with the policy in body
+ * @param context - Authentication context from withPermission
+ * @returns JSON response with the saved policy
+ */
+export const PUT = withPermission(
+  PERMISSIONS.settings.system,
+  async (request: NextRequest, { user: authUser }) => {
+    try {
+      const body = await request.json();
+      const validatedData = updateSignupPolicySchema.parse(body);
+
+      const policy = await updateSignupPolicy(validatedData, authUser.id);
+
+      return NextResponse.json({ policy }, { status: 200 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.errors.map((e) => {
+          const field = e.path.join(".");
+          return `${field}: ${e.message}`;
+        });
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: `Invalid sign-up policy. ${errorMessages.join(", ")}`,
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to update sign-up policy",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
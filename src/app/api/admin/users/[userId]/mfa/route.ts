@@ -0,0 +1,82 @@
+/**
+ * @fileoverview API route handler for resetting a user's MFA factors
+ * @module app/api/admin/users/[userId]/mfa/route
+ *
+ * Handles DELETE (reset MFA) for users who lost their authenticator and
+ * their recovery codes. Requires users.edit; users outside the caller's
+ * company are not found, and only superadmins can reset a superadmin.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { resetMfaFactors } from "@/lib/auth/mfa";
+import { getUserById } from "@/features/users/lib/user-service";
+
+/**
+ * DELETE /api/admin/users/{userId}/mfa
+ *
+ * Remove every MFA factor and recovery code of a user. Users covered by the
+ * MFA policy have to enroll again on their next sign-in.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with userId parameter
+ * @returns JSON response with success flag or error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+): Promise<NextResponse> {
+  // Extract userId from params before passing to withPermission
+  const { userId } = await params;
+
+  return withPermission(
+    PERMISSIONS.users.edit,
+    async (_request: NextRequest, { user: authUser, role }) => {
+      try {
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const user = await getUserById(userId, scope);
+
+        if (!user) {
+          return NextResponse.json(
+            {
+              error: "NOT_FOUND",
+              message: "User not found",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 404 }
+          );
+        }
+
+        if (user.role === "superadmin" && role !== "superadmin") {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: "Only superadmins can reset a superadmin's MFA",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        await resetMfaFactors(userId);
+
+        return NextResponse.json({ success: true }, { status: 200 });
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error ? error.message : "Failed to reset MFA",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )(request);
+}
@@ -0,0 +1,84 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { setRateLimitStore } from "@/lib/rate-limit/rate-limiter";
+import { createMemoryStore } from "@/lib/rate-limit/stores";
+import { restoreUser } from "@/features/users/lib/soft-delete";
+import type { User } from "@/features/users/types/user.types";
+import {
+  createRouteContext,
+  createTestAuth,
+  createTestRequest,
+  createTestUser,
+} from "@/test/auth";
+import { POST } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/features/users/lib/soft-delete", () => ({
+  restoreUser: vi.fn(),
+}));
+
+const userId = crypto.randomUUID();
+const path = `/api/admin/users/${userId}/restore`;
+const context = createRouteContext({ userId });
+
+describe("POST /api/admin/users/[userId]/restore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(createMemoryStore());
+    vi.mocked(restoreUser).mockResolvedValue({ id: userId } as User);
+  });
+
+  it("returns 401 without a session", async () => {
+    vi.mocked(getAuth).mockResolvedValue(null);
+
+    const response = await POST(
+      createTestRequest(path, { method: "POST" }),
+      context
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it.each(["member", "admin"] as const)(
+    "returns 403 for a %s",
+    async (role) => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser(role))
+      );
+
+      const response = await POST(
+        createTestRequest(path, { method: "POST" }),
+        context
+      );
+
+      expect(response.status).toBe(403);
+      expect(restoreUser).not.toHaveBeenCalled();
+    }
+  );
+
+  it("restores the user for a superadmin", async () => {
+    vi.mocked(getAuth).mockResolvedValue(
+      createTestAuth(createTestUser("superadmin"))
+    );
+
+    const response = await POST(
+      createTestRequest(path, { method: "POST" }),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    expect(restoreUser).toHaveBeenCalledWith(userId, null);
+  });
+});
@@ -3,11 +3,14 @@
  * @module app/api/admin/users/[userId]/restore/route
  *
  * Handles POST (restore user) operation.
- * All endpoints require authenticated user access.
+ * Requires users.delete, since restoring reverses a deletion.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/lib/auth/gateways/api";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { getCompanyScope } from "@/lib/auth/company-scope";
 import { restoreUser } from "@/features/users/lib/soft-delete";
 
 /**
@@ -24,65 +27,75 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ userId: string }> }
 ): Promise<NextResponse> {
-  // Extract userId from params before passing to withAuth
+  // Extract userId from params before passing to withPermission
   const { userId } = await params;
 
-  return withAuth(async (_request: NextRequest) => {
-    try {
-      // Restore user
-      const user = await restoreUser(userId);
+  return withPermission(
+    PERMISSIONS.users.delete,
+    withRateLimit(
+      RATE_LIMITS.adminMutation,
+      async (_request: NextRequest, { user: authUser }) => {
+        try {
+          // Restore user (users outside the caller's company are not found)
+          const scope = await getCompanyScope(
+            authUser,
+            PERMISSIONS.users.viewAll
+          );
+          const user = await restoreUser(userId, scope);
 
-      return NextResponse.json({ user }, { status: 200 });
-    } catch (error) {
-      // Handle service errors
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
+          return NextResponse.json({ user }, { status: 200 });
+        } catch (error) {
+          // Handle service errors
+          if (error instanceof Error) {
+            const errorMessage = error.message.toLowerCase();
 
-        // User not found
-        if (errorMessage.includes("not found")) {
-          return NextResponse.json(
-            {
-              error: "NOT_FOUND",
-              message: error.message,
-              timestamp: new Date().toISOString(),
-            },
-            { status: 404 }
-          );
-        }
+            // User not found
+            if (errorMessage.includes("not found")) {
+              return NextResponse.json(
+                {
+                  error: "NOT_FOUND",
+                  message: error.message,
+                  timestamp: new Date().toISOString(),
+                },
+                { status: 404 }
+              );
+            }
+
+            // User is not deleted
+            if (errorMessage.includes("not soft-deleted")) {
+              return NextResponse.json(
+                {
+                  error: "VALIDATION_ERROR",
+                  message: error.message,
+                  timestamp: new Date().toISOString(),
+                },
+                { status: 400 }
+              );
+            }
+
+            // Generic service error
+            return NextResponse.json(
+              {
+                error: "INTERNAL_SERVER_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 500 }
+            );
+          }
 
-        // User is not deleted
-        if (errorMessage.includes("not soft-deleted")) {
+          // Unknown error
           return NextResponse.json(
             {
-              error: "VALIDATION_ERROR",
-              message: error.message,
+              error: "INTERNAL_SERVER_ERROR",
+              message:
+                "An unexpected error occurred while restoring the user. Please try again or contact support if the problem persists.",
               timestamp: new Date().toISOString(),
             },
-            { status: 400 }
+            { status: 500 }
           );
         }
-
-        // Generic service error
-        return NextResponse.json(
-          {
-            error: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            timestamp: new Date().toISOString(),
-          },
-          { status: 500 }
-        );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message:
-            "An unexpected error occurred while restoring the user. Please try again or contact support if the problem persists.",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
-    }
-  })(request);
+    )
+  )(request);
 }
@@ -0,0 +1,277 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { getCustomRoleForResolution } from "@/lib/auth/custom-roles";
+import { getUserById, updateUser } from "@/features/users/lib/user-service";
+import { softDeleteUser } from "@/features/users/lib/soft-delete";
+import { fetchUserServer } from "@/features/users/lib/fetch-user-server";
+import type { User } from "@/features/users/types/user.types";
+import {
+  createRouteContext,
+  createTestAuth,
+  createTestRequest,
+  createTestUser,
+} from "@/test/auth";
+import { DELETE, GET, PUT } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/features/users/lib/user-service", () => ({
+  getUserById: vi.fn(),
+  updateUser: vi.fn(),
+}));
+vi.mock("@/features/users/lib/soft-delete", () => ({
+  softDeleteUser: vi.fn(),
+}));
+vi.mock("@/features/users/lib/fetch-user-server", () => ({
+  fetchUserServer: vi.fn(),
+}));
+
+const target = {
+  id: crypto.randomUUID(),
+  email: "target@example.com",
+  role: "member",
+} as User;
+const path = `/api/admin/users/${target.id}`;
+const context = createRouteContext({ userId: target.id });
+
+/**
+ * Signs in a user holding an admin-based custom role that manages users
+ */
+function signInUserManager(): void {
+  vi.mocked(getAuth).mockResolvedValue(
+    createTestAuth(
+      createTestUser("admin", {
+        app_metadata: {
+          custom_role_id: crypto.randomUUID(),
+          custom_role_base_role: "admin",
+        },
+      })
+    )
+  );
+  vi.mocked(getCustomRoleForResolution).mockResolvedValue({
+    base_role: "admin",
+    permissions: ["users.edit", "users.assign_role"],
+    revoked_permissions: [],
+  } as never);
+}
+
+describe("/api/admin/users/[userId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchUserServer).mockResolvedValue(target);
+    vi.mocked(getUserById).mockResolvedValue(target);
+    vi.mocked(updateUser).mockImplementation(async (_userId, input) => ({
+      user: { ...target, ...input } as User,
+      conflict: false,
+    }));
+    vi.mocked(softDeleteUser).mockResolvedValue(target);
+  });
+
+  describe("GET", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await GET(createTestRequest(path), context);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("returns 403 for a member", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("member"))
+      );
+
+      const response = await GET(createTestRequest(path), context);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("returns the user for an admin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("admin"))
+      );
+
+      const response = await GET(createTestRequest(path), context);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ user: { id: target.id } });
+    });
+  });
+
+  describe("PUT", () => {
+    const rename = { method: "PUT", body: { full_name: "Renamed" } };
+
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await PUT(createTestRequest(path, rename), context);
+
+      expect(response.status).toBe(401);
+    });
+
+    it.each(["member", "admin"] as const)(
+      "returns 403 for a %s",
+      async (role) => {
+        vi.mocked(getAuth).mockResolvedValue(
+          createTestAuth(createTestUser(role))
+        );
+
+        const response = await PUT(createTestRequest(path, rename), context);
+
+        expect(response.status).toBe(403);
+        expect(updateUser).not.toHaveBeenCalled();
+      }
+    );
+
+    it("updates the user for a superadmin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await PUT(createTestRequest(path, rename), context);
+
+      expect(response.status).toBe(200);
+      expect(updateUser).toHaveBeenCalledOnce();
+    });
+
+    it("lets a user manager assign their own role", async () => {
+      signInUserManager();
+
+      const response = await PUT(
+        createTestRequest(path, { method: "PUT", body: { role: "admin" } }),
+        context
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it("returns 403 when a user manager assigns the superadmin role", async () => {
+      signInUserManager();
+
+      const response = await PUT(
+        createTestRequest(path, {
+          method: "PUT",
+          body: { role: "superadmin" },
+        }),
+        context
+      );
+
+      expect(response.status).toBe(403);
+      expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it("returns 403 when a user manager changes a superadmin's role", async () => {
+      signInUserManager();
+      vi.mocked(getUserById).mockResolvedValue({
+        ...target,
+        role: "superadmin",
+      });
+
+      const response = await PUT(
+        createTestRequest(path, { method: "PUT", body: { role: "member" } }),
+        context
+      );
+
+      expect(response.status).toBe(403);
+      expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it("returns 403 when a superadmin changes their own role", async () => {
+      const superadmin = createTestUser("superadmin", { id: target.id });
+      vi.mocked(getAuth).mockResolvedValue(createTestAuth(superadmin));
+      vi.mocked(getUserById).mockResolvedValue({
+        ...target,
+        role: "superadmin",
+      });
+
+      const response = await PUT(
+        createTestRequest(path, { method: "PUT", body: { role: "member" } }),
+        context
+      );
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({
+        message: "Cannot change your own role",
+      });
+    });
+  });
+
+  describe("DELETE", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await DELETE(
+        createTestRequest(path, { method: "DELETE" }),
+        context
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it.each(["member", "admin"] as const)(
+      "returns 403 for a %s",
+      async (role) => {
+        vi.mocked(getAuth).mockResolvedValue(
+          createTestAuth(createTestUser(role))
+        );
+
+        const response = await DELETE(
+          createTestRequest(path, { method: "DELETE" }),
+          context
+        );
+
+        expect(response.status).toBe(403);
+        expect(softDeleteUser).not.toHaveBeenCalled();
+      }
+    );
+
+    it("deletes the user for a superadmin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await DELETE(
+        createTestRequest(path, { method: "DELETE" }),
+        context
+      );
+
+      expect(response.status).toBe(200);
+      expect(softDeleteUser).toHaveBeenCalledWith(target.id, null);
+    });
+
+    it("returns 403 when a user manager deletes a superadmin", async () => {
+      signInUserManager();
+      vi.mocked(getCustomRoleForResolution).mockResolvedValue({
+        base_role: "admin",
+        permissions: ["users.delete"],
+        revoked_permissions: [],
+      } as never);
+      vi.mocked(getUserById).mockResolvedValue({
+        ...target,
+        role: "superadmin",
+      });
+
+      const response = await DELETE(
+        createTestRequest(path, { method: "DELETE" }),
+        context
+      );
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({
+        message: "Cannot delete a user above your own role",
+      });
+      expect(softDeleteUser).not.toHaveBeenCalled();
+    });
+  });
+});
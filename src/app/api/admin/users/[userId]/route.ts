@@ -3,12 +3,23 @@
  * @module app/api/admin/users/[userId]/route
  *
  * Handles GET (user detail) and PUT (update user) operations.
- * All endpoints require authenticated user access.
+ * Requires users.view, users.edit (plus users.assign_role for role changes)
+ * and users.delete respectively. View and edit may be held conditionally;
+ * the user must then meet the conditions. Role changes are limited to users
+ * and roles at or below the caller's own role, and never the caller's own;
+ * the same rank limit applies to deletions.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/lib/auth/gateways/api";
-import { updateUser } from "@/features/users/lib/user-service";
+import {
+  withConditionalPermission,
+  withPermission,
+} from "@/lib/auth/gateways/api";
+import { can, hasPermission } from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { getRoleChangeError, getUserDeletionError } from "@/lib/auth/roles";
+import { getUserById, updateUser } from "@/features/users/lib/user-service";
 import { updateUserSchema } from "@/features/users/schemas/user.schema";
 import { softDeleteUser } from "@/features/users/lib/soft-delete";
 import { fetchUserServer } from "@/features/users/lib/fetch-user-server";
@@ -27,55 +38,63 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ userId: string }> }
 ): Promise<NextResponse> {
-  // Extract userId from params before passing to withAuth
+  // Extract userId from params before passing to withPermission
   const { userId } = await params;
 
-  return withAuth(async (_request: NextRequest, { user: _authUser }) => {
-    try {
-      // Fetch user using shared utility
-      const user = await fetchUserServer(userId);
-
-      if (!user) {
-        return NextResponse.json(
-          {
-            error: "NOT_FOUND",
-            message: "User not found",
-            timestamp: new Date().toISOString(),
-          },
-          { status: 404 }
+  return withConditionalPermission(
+    PERMISSIONS.users.view,
+    async (_request: NextRequest, { user: authUser }) => {
+      try {
+        // Fetch user using shared utility (other companies, and users
+        // outside the caller's conditions, are not found)
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
         );
-      }
+        const user = await fetchUserServer(userId, { scope });
 
-      return NextResponse.json({ user }, { status: 200 });
-    } catch (error) {
-      // Handle service errors
-      if (error instanceof Error) {
-        const userMessage = error.message.includes("Failed to fetch")
-          ? "Unable to retrieve user details. Please try again or contact support if the problem persists."
-          : error.message;
+        if (!user || !(await can(authUser, PERMISSIONS.users.view, user))) {
+          return NextResponse.json(
+            {
+              error: "NOT_FOUND",
+              message: "User not found",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 404 }
+          );
+        }
 
+        return NextResponse.json({ user }, { status: 200 });
+      } catch (error) {
+        // Handle service errors
+        if (error instanceof Error) {
+          const userMessage = error.message.includes("Failed to fetch")
+            ? "Unable to retrieve user details. Please try again or contact support if the problem persists."
+            : error.message;
+
+          return NextResponse.json(
+            {
+              error: "INTERNAL_SERVER_ERROR",
+              message: userMessage,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 500 }
+          );
+        }
+
+        // Unknown error
         return NextResponse.json(
           {
             error: "INTERNAL_SERVER_ERROR",
-            message: userMessage,
+            message:
+              "An unexpected error occurred while loading user details. Please try again or contact support if the problem persists.",
             timestamp: new Date().toISOString(),
           },
           { status: 500 }
         );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message:
-            "An unexpected error occurred while loading user details. Please try again or contact support if the problem persists.",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-  })(request);
+  )(request);
 }
 
 /**
@@ -109,132 +128,196 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ userId: string }> }
 ): Promise<NextResponse> {
-  // Extract userId from params before passing to withAuth
+  // Extract userId from params before passing to withPermission
   const { userId } = await params;
 
-  return withAuth(async (request: NextRequest, { user: _authUser }) => {
-    try {
-      const body = await request.json();
-
-      // Parse and validate request body
-      const validatedData = updateUserSchema.parse(body);
-
-      // Update user via service (handles validation, domain matching, etc.)
-      const { user, conflict } = await updateUser(userId, validatedData);
-
-      // Return updated user with conflict flag
-      return NextResponse.json({ user, conflict }, { status: 200 });
-    } catch (error) {
-      // Handle Zod validation errors
-      if (error instanceof z.ZodError) {
-        const errorMessages = error.errors.map((e) => {
-          const field = e.path.join(".");
-          return `${field}: ${e.message}`;
-        });
-        return NextResponse.json(
-          {
-            error: "VALIDATION_ERROR",
-            message: `Invalid user data. ${errorMessages.join(", ")}`,
-            details: error.errors,
-            timestamp: new Date().toISOString(),
-          },
-          { status: 400 }
-        );
-      }
+  return withConditionalPermission(
+    PERMISSIONS.users.edit,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
 
-      // Handle service errors (validation, not found, etc.)
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
+        // Parse and validate request body
+        const validatedData = updateUserSchema.parse(body);
 
-        // User not found
-        if (errorMessage.includes("not found")) {
+        // Role changes additionally require the assign role permission
+        if (
+          validatedData.role !== undefined &&
+          !(await hasPermission(authUser, PERMISSIONS.users.assignRole))
+        ) {
           return NextResponse.json(
             {
-              error: "NOT_FOUND",
-              message: error.message,
+              error: "FORBIDDEN",
+              message: `Permission '${PERMISSIONS.users.assignRole}' required`,
               timestamp: new Date().toISOString(),
             },
-            { status: 404 }
+            { status: 403 }
           );
         }
 
-        // Company association required
-        if (errorMessage.includes("company association is required")) {
+        // Conditional edit grants must allow this user
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const target = await getUserById(userId, scope);
+        if (target && !(await can(authUser, PERMISSIONS.users.edit, target))) {
           return NextResponse.json(
             {
-              error: "VALIDATION_ERROR",
-              message: error.message,
+              error: "FORBIDDEN",
+              message: `Permission '${PERMISSIONS.users.edit}' required`,
               timestamp: new Date().toISOString(),
             },
-            { status: 400 }
+            { status: 403 }
           );
         }
 
-        // Soft-deleted company
-        if (errorMessage.includes("soft-deleted company")) {
-          return NextResponse.json(
-            {
-              error: "VALIDATION_ERROR",
-              message: error.message,
-              timestamp: new Date().toISOString(),
-            },
-            { status: 400 }
+        // Role changes stay at or below the caller's own role, and callers
+        // cannot change their own
+        if (
+          target &&
+          validatedData.role !== undefined &&
+          validatedData.role !== target.role
+        ) {
+          const roleError = getRoleChangeError(
+            authUser,
+            target,
+            validatedData.role
           );
+          if (roleError) {
+            return NextResponse.json(
+              {
+                error: "FORBIDDEN",
+                message: roleError,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 403 }
+            );
+          }
         }
 
-        // Email domain validation errors
-        if (errorMessage.includes("domain must match")) {
+        // Update user via service (handles validation, domain matching, etc.)
+        const { user, conflict } = await updateUser(
+          userId,
+          validatedData,
+          scope
+        );
+
+        // Return updated user with conflict flag
+        return NextResponse.json({ user, conflict }, { status: 200 });
+      } catch (error) {
+        // Handle Zod validation errors
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
           return NextResponse.json(
             {
               error: "VALIDATION_ERROR",
-              message: error.message,
+              message: `Invalid user data. ${errorMessages.join(", ")}`,
+              details: error.errors,
               timestamp: new Date().toISOString(),
             },
             { status: 400 }
           );
         }
 
-        // Email uniqueness errors
-        if (errorMessage.includes("already in use")) {
+        // Handle service errors (validation, not found, etc.)
+        if (error instanceof Error) {
+          const errorMessage = error.message.toLowerCase();
+
+          // User not found
+          if (errorMessage.includes("not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
+
+          // Company association required
+          if (errorMessage.includes("company association is required")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
+
+          // Soft-deleted company
+          if (errorMessage.includes("soft-deleted company")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
+
+          // Email domain validation errors
+          if (errorMessage.includes("domain must match")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
+
+          // Email uniqueness errors
+          if (errorMessage.includes("already in use")) {
+            return NextResponse.json(
+              {
+                error: "CONFLICT",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 409 }
+            );
+          }
+
+          // Generic service error
           return NextResponse.json(
             {
-              error: "CONFLICT",
+              error: "INTERNAL_SERVER_ERROR",
               message: error.message,
               timestamp: new Date().toISOString(),
             },
-            { status: 409 }
+            { status: 500 }
           );
         }
 
-        // Generic service error
+        // Unknown error
         return NextResponse.json(
           {
             error: "INTERNAL_SERVER_ERROR",
-            message: error.message,
+            message: "An unexpected error occurred",
             timestamp: new Date().toISOString(),
           },
           { status: 500 }
         );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message: "An unexpected error occurred",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-  })(request);
+  )(request);
 }
 
 /**
  * DELETE /api/admin/users/{userId}
  *
  * Soft delete a user account by setting deleted_at timestamp.
- * Prevents self-deletion. Preserves all data but revokes access.
+ * Prevents self-deletion and deleting users above the caller's own role.
+ * Preserves all data but revokes access.
  *
  * @param request - Next.js request object
  * @param context - Route context with userId parameter
@@ -244,81 +327,103 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ userId: string }> }
 ): Promise<NextResponse> {
-  // Extract userId from params before passing to withAuth
+  // Extract userId from params before passing to withPermission
   const { userId } = await params;
 
-  return withAuth(async (_request: NextRequest, { user: authUser }) => {
-    try {
-      // Prevent self-deletion
-      if (authUser.id === userId) {
-        return NextResponse.json(
-          {
-            error: "VALIDATION_ERROR",
-            message: "Cannot delete your own account",
-            timestamp: new Date().toISOString(),
-          },
-          { status: 400 }
+  return withPermission(
+    PERMISSIONS.users.delete,
+    async (_request: NextRequest, { user: authUser }) => {
+      try {
+        // Prevent self-deletion
+        if (authUser.id === userId) {
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: "Cannot delete your own account",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
+
+        // Soft delete user (users outside the caller's company are not found)
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
         );
-      }
 
-      // Soft delete user
-      await softDeleteUser(userId);
-
-      return NextResponse.json(
-        {
-          message: "User deleted successfully",
-        },
-        { status: 200 }
-      );
-    } catch (error) {
-      // Handle service errors
-      if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
-
-        // User not found
-        if (errorMessage.includes("not found")) {
+        // Only users at or below the caller's own role can be deleted
+        const target = await getUserById(userId, scope);
+        const deleteError = target && getUserDeletionError(authUser, target);
+        if (deleteError) {
           return NextResponse.json(
             {
-              error: "NOT_FOUND",
-              message: error.message,
+              error: "FORBIDDEN",
+              message: deleteError,
               timestamp: new Date().toISOString(),
             },
-            { status: 404 }
+            { status: 403 }
           );
         }
 
-        // User already deleted
-        if (errorMessage.includes("already soft-deleted")) {
+        await softDeleteUser(userId, scope);
+
+        return NextResponse.json(
+          {
+            message: "User deleted successfully",
+          },
+          { status: 200 }
+        );
+      } catch (error) {
+        // Handle service errors
+        if (error instanceof Error) {
+          const errorMessage = error.message.toLowerCase();
+
+          // User not found
+          if (errorMessage.includes("not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
+
+          // User already deleted
+          if (errorMessage.includes("already soft-deleted")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
+
+          // Generic service error
           return NextResponse.json(
             {
-              error: "VALIDATION_ERROR",
+              error: "INTERNAL_SERVER_ERROR",
               message: error.message,
               timestamp: new Date().toISOString(),
             },
-            { status: 400 }
+            { status: 500 }
           );
         }
 
-        // Generic service error
+        // Unknown error
         return NextResponse.json(
           {
             error: "INTERNAL_SERVER_ERROR",
-            message: error.message,
+            message: "An unexpected error occurred",
             timestamp: new Date().toISOString(),
           },
           { status: 500 }
         );
       }
-
-      // Unknown error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message: "An unexpected error occurred",
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-  })(request);
+  )(request);
 }
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview API route handler for signing out one of a user's sessions
+ * @module app/api/admin/users/[userId]/sessions/[sessionId]/route
+ *
+ * Handles DELETE (sign out session) operation.
+ * Requires users.edit; users outside the caller's company are not found, and
+ * only superadmins can sign out a superadmin.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { revokeUserSession } from "@/lib/auth/sessions";
+import { getUserById } from "@/features/users/lib/user-service";
+
+/**
+ * DELETE /api/admin/users/{userId}/sessions/{sessionId}
+ *
+ * Sign a user out of one session.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with userId and sessionId parameters
+ * @returns JSON response with success flag or error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string; sessionId: string }> }
+): Promise<NextResponse> {
+  // Extract params before passing to withPermission
+  const { userId, sessionId } = await params;
+
+  return withPermission(
+    PERMISSIONS.users.edit,
+    async (_request: NextRequest, { user: authUser, role }) => {
+      try {
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const user = await getUserById(userId, scope);
+
+        if (!user) {
+          throw new Error("User not found");
+        }
+
+        if (user.role === "superadmin" && role !== "superadmin") {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: "Only superadmins can sign out a superadmin",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        await revokeUserSession(userId, sessionId);
+
+        return NextResponse.json({ success: true }, { status: 200 });
+      } catch (error) {
+        if (error instanceof Error) {
+          // User or session not found
+          if (error.message.toLowerCase().includes("not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
+
+          return NextResponse.json(
+            {
+              error: "INTERNAL_SERVER_ERROR",
+              message: error.message,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 500 }
+          );
+        }
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message: "Failed to sign out session",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )(request);
+}
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview API route handlers for a user's sign-in sessions
+ * @module app/api/admin/users/[userId]/sessions/route
+ *
+ * Handles GET (list sessions) and DELETE (sign out everywhere) operations
+ * for incident response. Requires users.view and users.edit respectively;
+ * users outside the caller's company are not found, and only superadmins can
+ * sign out a superadmin.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import {
+  getCurrentSessionId,
+  listUserSessions,
+  revokeAllUserSessions,
+} from "@/lib/auth/sessions";
+import { getUserById } from "@/features/users/lib/user-service";
+
+/**
+ * GET /api/admin/users/{userId}/sessions
+ *
+ * List a user's active sessions, most recently used first.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with userId parameter
+ * @returns JSON response with sessions or error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+): Promise<NextResponse> {
+  // Extract userId from params before passing to withPermission
+  const { userId } = await params;
+
+  return withPermission(
+    PERMISSIONS.users.view,
+    async (_request: NextRequest, { user: authUser }) => {
+      try {
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const user = await getUserById(userId, scope);
+
+        if (!user) {
+          return NextResponse.json(
+            {
+              error: "NOT_FOUND",
+              message: "User not found",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 404 }
+          );
+        }
+
+        const sessions = await listUserSessions(
+          userId,
+          await getCurrentSessionId()
+        );
+
+        return NextResponse.json({ sessions }, { status: 200 });
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to list sessions",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )(request);
+}
+
+/**
+ * DELETE /api/admin/users/{userId}/sessions
+ *
+ * Sign a user out of every session.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with userId parameter
+ * @returns JSON response with the number of sessions revoked or error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+): Promise<NextResponse> {
+  // Extract userId from params before passing to withPermission
+  const { userId } = await params;
+
+  return withPermission(
+    PERMISSIONS.users.edit,
+    async (_request: NextRequest, { user: authUser, role }) => {
+      try {
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const user = await getUserById(userId, scope);
+
+        if (!user) {
+          return NextResponse.json(
+            {
+              error: "NOT_FOUND",
+              message: "User not found",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 404 }
+          );
+        }
+
+        if (user.role === "superadmin" && role !== "superadmin") {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: "Only superadmins can sign out a superadmin",
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        const revoked = await revokeAllUserSessions(userId);
+
+        return NextResponse.json({ revoked }, { status: 200 });
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to sign out sessions",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )(request);
+}
@@ -0,0 +1,221 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { getCustomRoleForResolution } from "@/lib/auth/custom-roles";
+import { setRateLimitStore } from "@/lib/rate-limit/rate-limiter";
+import { createMemoryStore } from "@/lib/rate-limit/stores";
+import { getUserById, updateUser } from "@/features/users/lib/user-service";
+import { softDeleteUser } from "@/features/users/lib/soft-delete";
+import type { User } from "@/features/users/types/user.types";
+import { createTestAuth, createTestRequest, createTestUser } from "@/test/auth";
+import { POST } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/features/users/lib/user-service", () => ({
+  assignUserCompany: vi.fn(),
+  getUserById: vi.fn(),
+  updateUser: vi.fn(),
+}));
+vi.mock("@/features/users/lib/soft-delete", () => ({
+  restoreUser: vi.fn(),
+  softDeleteUser: vi.fn(),
+}));
+
+const ids = [crypto.randomUUID(), crypto.randomUUID()];
+const path = "/api/admin/users/bulk";
+
+/**
+ * Signs in a user holding an admin-based custom role that manages users
+ *
+ * @returns The signed-in user
+ */
+function signInUserManager() {
+  const manager = createTestUser("admin", {
+    app_metadata: {
+      custom_role_id: crypto.randomUUID(),
+      custom_role_base_role: "admin",
+    },
+  });
+  vi.mocked(getAuth).mockResolvedValue(createTestAuth(manager));
+  vi.mocked(getCustomRoleForResolution).mockResolvedValue({
+    base_role: "admin",
+    permissions: ["users.edit", "users.assign_role"],
+    revoked_permissions: [],
+  } as never);
+  return manager;
+}
+
+describe("POST /api/admin/users/bulk", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(createMemoryStore());
+    vi.mocked(getUserById).mockImplementation(
+      async (id) => ({ id, role: "member" }) as User
+    );
+    vi.mocked(updateUser).mockImplementation(async (id, input) => ({
+      user: { id, ...input } as User,
+      conflict: false,
+    }));
+    vi.mocked(softDeleteUser).mockImplementation(
+      async (id) => ({ id }) as User
+    );
+  });
+
+  it("returns 401 without a session", async () => {
+    vi.mocked(getAuth).mockResolvedValue(null);
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "soft_delete", ids },
+      })
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it.each(["member", "admin"] as const)(
+    "returns 403 for a %s",
+    async (role) => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser(role))
+      );
+
+      const response = await POST(
+        createTestRequest(path, {
+          method: "POST",
+          body: { action: "soft_delete", ids },
+        })
+      );
+
+      expect(response.status).toBe(403);
+      expect(softDeleteUser).not.toHaveBeenCalled();
+    }
+  );
+
+  it("deletes the users for a superadmin", async () => {
+    vi.mocked(getAuth).mockResolvedValue(
+      createTestAuth(createTestUser("superadmin"))
+    );
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "soft_delete", ids },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ succeeded: 2, failed: 0 });
+  });
+
+  it("lets a user manager assign their own role", async () => {
+    signInUserManager();
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "set_role", ids, role: "admin" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ succeeded: 2, failed: 0 });
+  });
+
+  it("returns 403 when a user manager assigns the superadmin role", async () => {
+    signInUserManager();
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "set_role", ids, role: "superadmin" },
+      })
+    );
+
+    expect(response.status).toBe(403);
+    expect(updateUser).not.toHaveBeenCalled();
+  });
+
+  it("fails the users whose role cannot be changed", async () => {
+    const manager = signInUserManager();
+    const [otherId = ""] = ids;
+    vi.mocked(getUserById).mockImplementation(
+      async (id) =>
+        ({ id, role: id === otherId ? "superadmin" : "member" }) as User
+    );
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "set_role", ids: [...ids, manager.id], role: "admin" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      succeeded: 1,
+      failed: 2,
+      results: [
+        {
+          id: otherId,
+          success: false,
+          error: "Cannot change the role of a user above your own role",
+        },
+        { success: true },
+        {
+          id: manager.id,
+          success: false,
+          error: "Cannot change your own role",
+        },
+      ],
+    });
+  });
+
+  it("fails the users above the caller's role when deleting", async () => {
+    signInUserManager();
+    vi.mocked(getCustomRoleForResolution).mockResolvedValue({
+      base_role: "admin",
+      permissions: ["users.delete"],
+      revoked_permissions: [],
+    } as never);
+    const [superadminId = ""] = ids;
+    vi.mocked(getUserById).mockImplementation(
+      async (id) =>
+        ({ id, role: id === superadminId ? "superadmin" : "member" }) as User
+    );
+
+    const response = await POST(
+      createTestRequest(path, {
+        method: "POST",
+        body: { action: "soft_delete", ids },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      succeeded: 1,
+      failed: 1,
+      results: [
+        {
+          id: superadminId,
+          success: false,
+          error: "Cannot delete a user above your own role",
+        },
+        { success: true },
+      ],
+    });
+    expect(softDeleteUser).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview API route handler for bulk user actions
+ * @module app/api/admin/users/bulk/route
+ *
+ * Handles POST (apply one action to many users).
+ * Soft delete and restore require users.delete, and deletions stay at or
+ * below the caller's own role; role changes require
+ * users.edit and users.assign_role, and stay at or below the caller's own
+ * role; company assignment requires users.edit and users.view_all. Edit may
+ * be held conditionally; each user must then meet the conditions.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth/gateways/api";
+import {
+  can,
+  getPermissionAccess,
+  hasPermission,
+} from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import {
+  canGrantRole,
+  getRoleChangeError,
+  getUserDeletionError,
+} from "@/lib/auth/roles";
+import { runBulkAction } from "@/lib/bulk-actions";
+import {
+  assignUserCompany,
+  getUserById,
+  updateUser,
+} from "@/features/users/lib/user-service";
+import { restoreUser, softDeleteUser } from "@/features/users/lib/soft-delete";
+import {
+  bulkUserActionSchema,
+  type BulkUserActionInput,
+} from "@/features/users/schemas/user.schema";
+import type { User } from "@/features/users/types/user.types";
+import { z } from "zod";
+
+/**
+ * Permission required for each bulk action, besides users.edit for edits
+ */
+const BULK_ACTION_PERMISSIONS = {
+  soft_delete: PERMISSIONS.users.delete,
+  restore: PERMISSIONS.users.delete,
+  set_role: PERMISSIONS.users.assignRole,
+  assign_company: PERMISSIONS.users.viewAll,
+} as const satisfies Record<BulkUserActionInput["action"], string>;
+
+/**
+ * POST /api/admin/users/bulk
+ *
+ * Apply one action to up to 100 users. Each user is processed on its own:
+ * a user that cannot be changed is reported as failed and the rest are
+ * still processed.
+ *
+ * Request body:
+ * - action: soft_delete, restore, set_role or assign_company
+ * - ids: User IDs (1 to 100)
+ * - role: New role (set_role only)
+ * - company_id: Company ID, or null for no company (assign_company only)
+ *
+ * @param request - Next.js request object with the action in body
+ * @param context - Authentication context from withAuth
+ * @returns JSON response with per-user results and the totals that
+ * succeeded and failed
+ */
+export const POST = withAuth(
+  withRateLimit(
+    RATE_LIMITS.adminMutation,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
+
+        // Parse and validate request body
+        const input = bulkUserActionSchema.parse(body);
+
+        // Edits need users.edit, which may be held conditionally (it is
+        // then checked per user below)
+        const isEdit =
+          input.action === "set_role" || input.action === "assign_company";
+        const actionPermission = BULK_ACTION_PERMISSIONS[input.action];
+        const missingPermission =
+          isEdit &&
+          (await getPermissionAccess(authUser, PERMISSIONS.users.edit)).type ===
+            "none"
+            ? PERMISSIONS.users.edit
+            : !(await hasPermission(authUser, actionPermission))
+              ? actionPermission
+              : null;
+        if (missingPermission) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Permission '${missingPermission}' required`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        // Roles above the caller's own cannot be granted
+        if (
+          input.action === "set_role" &&
+          !canGrantRole(authUser, input.role)
+        ) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Cannot assign the ${input.role} role`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
+
+        // Users outside the caller's company are not found
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+
+        // Conditional edit grants must allow each user
+        const assertCanEdit = async (userId: string): Promise<User> => {
+          const target = await getUserById(userId, scope);
+          if (!target) {
+            throw new Error("User not found");
+          }
+          if (!(await can(authUser, PERMISSIONS.users.edit, target))) {
+            throw new Error(`Permission '${PERMISSIONS.users.edit}' required`);
+          }
+          return target;
+        };
+
+        const result = await runBulkAction(input.ids, async (userId) => {
+          switch (input.action) {
+            case "soft_delete": {
+              const target = await getUserById(userId, scope);
+              if (!target) {
+                throw new Error("User not found");
+              }
+              const deleteError = getUserDeletionError(authUser, target);
+              if (deleteError) {
+                throw new Error(deleteError);
+              }
+              return softDeleteUser(userId, scope);
+            }
+            case "restore":
+              return restoreUser(userId, scope);
+            case "set_role": {
+              const target = await assertCanEdit(userId);
+              if (target.role === input.role) {
+                return target;
+              }
+              const roleError = getRoleChangeError(
+                authUser,
+                target,
+                input.role
+              );
+              if (roleError) {
+                throw new Error(roleError);
+              }
+              return updateUser(userId, { role: input.role }, scope);
+            }
+            case "assign_company":
+              await assertCanEdit(userId);
+              return assignUserCompany(userId, input.company_id, scope);
+          }
+        });
+
+        return NextResponse.json(result, { status: 200 });
+      } catch (error) {
+        // Handle Zod validation errors
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: `Invalid bulk action. ${errorMessages.join(", ")}`,
+              details: error.errors,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
+
+        // Generic service error
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "An unexpected error occurred",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )
+);
@@ -0,0 +1,245 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { getCustomRoleForResolution } from "@/lib/auth/custom-roles";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { getMfaRequirement } from "@/lib/auth/mfa";
+import { setRateLimitStore } from "@/lib/rate-limit/rate-limiter";
+import { createMemoryStore } from "@/lib/rate-limit/stores";
+import { createUser, getUsers } from "@/features/users/lib/user-service";
+import { createTestAuth, createTestRequest, createTestUser } from "@/test/auth";
+import { GET, POST } from "./route";
+
+vi.mock("@/lib/auth/gateways/server", () => ({ getAuth: vi.fn() }));
+vi.mock("@/lib/auth/mfa", () => ({
+  getMfaRequirement: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/custom-roles", () => ({
+  getCustomRoleForResolution: vi.fn(async () => null),
+}));
+vi.mock("@/lib/auth/company-scope", () => ({
+  getCompanyScope: vi.fn(async () => null),
+  getUserCompanyId: vi.fn(async () => null),
+}));
+vi.mock("@/utils/supabase/admin", () => ({
+  createAdminClient: () => ({
+    auth: {
+      admin: {
+        generateLink: async () => ({
+          data: { properties: { action_link: "http://localhost:3000/link" } },
+          error: null,
+        }),
+      },
+    },
+  }),
+}));
+vi.mock("@/lib/mail/mailer", () => ({ sendMail: vi.fn() }));
+vi.mock("@/features/users/lib/user-service", () => ({
+  getUsers: vi.fn(),
+  createUser: vi.fn(),
+}));
+
+const newUser = { email: "new@example.com", full_name: "New User" };
+
+describe("/api/admin/users", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(createMemoryStore());
+    vi.mocked(getUsers).mockResolvedValue({
+      users: [],
+      total: 0,
+      hasNext: false,
+      nextCursor: null,
+    });
+    vi.mocked(createUser).mockImplementation(
+      async (input) => ({ id: crypto.randomUUID(), ...input }) as never
+    );
+  });
+
+  describe("GET", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await GET(createTestRequest("/api/admin/users"));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("returns 403 for a member", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("member"))
+      );
+
+      const response = await GET(createTestRequest("/api/admin/users"));
+
+      expect(response.status).toBe(403);
+      expect(getUsers).not.toHaveBeenCalled();
+    });
+
+    it("lists users for an admin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("admin"))
+      );
+
+      const response = await GET(createTestRequest("/api/admin/users"));
+
+      expect(response.status).toBe(200);
+      expect(getUsers).toHaveBeenCalledOnce();
+    });
+
+    it("returns 403 for an admin who has not set up MFA", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("admin"))
+      );
+      vi.mocked(getMfaRequirement).mockResolvedValueOnce("enroll");
+
+      const response = await GET(createTestRequest("/api/admin/users"));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({
+        error: "MFA_REQUIRED",
+      });
+      expect(getUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST", () => {
+    it("returns 401 without a session", async () => {
+      vi.mocked(getAuth).mockResolvedValue(null);
+
+      const response = await POST(
+        createTestRequest("/api/admin/users", {
+          method: "POST",
+          body: { ...newUser, role: "member" },
+        })
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it.each(["member", "admin"] as const)(
+      "returns 403 for a %s",
+      async (role) => {
+        vi.mocked(getAuth).mockResolvedValue(
+          createTestAuth(createTestUser(role))
+        );
+
+        const response = await POST(
+          createTestRequest("/api/admin/users", {
+            method: "POST",
+            body: { ...newUser, role: "member" },
+          })
+        );
+
+        expect(response.status).toBe(403);
+        expect(createUser).not.toHaveBeenCalled();
+      }
+    );
+
+    it("creates a user for a superadmin", async () => {
+      vi.mocked(getAuth).mockResolvedValue(
+        createTestAuth(createTestUser("superadmin"))
+      );
+
+      const response = await POST(
+        createTestRequest("/api/admin/users", {
+          method: "POST",
+          body: { ...newUser, role: "admin" },
+        })
+      );
+
+      expect(response.status).toBe(201);
+      expect(createUser).toHaveBeenCalledOnce();
+    });
+
+    describe("with an admin-based custom role that manages users", () => {
+      const manager = createTestUser("admin", {
+        app_metadata: {
+          custom_role_id: crypto.randomUUID(),
+          custom_role_base_role: "admin",
+        },
+      });
+
+      beforeEach(() => {
+        vi.mocked(getAuth).mockResolvedValue(createTestAuth(manager));
+        vi.mocked(getCustomRoleForResolution).mockResolvedValue({
+          base_role: "admin",
+          permissions: ["users.create", "users.assign_role"],
+          revoked_permissions: [],
+        } as never);
+      });
+
+      it("creates a user with the admin role", async () => {
+        const response = await POST(
+          createTestRequest("/api/admin/users", {
+            method: "POST",
+            body: { ...newUser, role: "admin" },
+          })
+        );
+
+        expect(response.status).toBe(201);
+      });
+
+      it("creates the user in the manager's company", async () => {
+        const scope = { companyId: crypto.randomUUID(), userId: manager.id };
+        vi.mocked(getCompanyScope).mockResolvedValueOnce(scope);
+
+        const response = await POST(
+          createTestRequest("/api/admin/users", {
+            method: "POST",
+            body: { ...newUser, role: "member" },
+          })
+        );
+
+        expect(response.status).toBe(201);
+        expect(createUser).toHaveBeenCalledWith(
+          expect.objectContaining({ email: newUser.email }),
+          scope,
+          {}
+        );
+      });
+
+      it("returns 404 for a company outside the manager's company", async () => {
+        const companyId = crypto.randomUUID();
+        vi.mocked(getCompanyScope).mockResolvedValueOnce({
+          companyId: crypto.randomUUID(),
+          userId: manager.id,
+        });
+        vi.mocked(createUser).mockRejectedValueOnce(
+          new Error("Company not found")
+        );
+
+        const response = await POST(
+          createTestRequest("/api/admin/users", {
+            method: "POST",
+            body: { ...newUser, role: "member", company_id: companyId },
+          })
+        );
+
+        expect(response.status).toBe(404);
+        expect(createUser).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.anything(),
+          { companyId }
+        );
+      });
+
+      it("returns 403 when assigning the superadmin role", async () => {
+        const response = await POST(
+          createTestRequest("/api/admin/users", {
+            method: "POST",
+            body: { ...newUser, role: "superadmin" },
+          })
+        );
+
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({
+          error: "FORBIDDEN",
+          message: "Cannot assign the superadmin role",
+        });
+        expect(createUser).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -3,11 +3,26 @@
  * @module app/api/admin/users/route
  *
  * Handles GET (list users) and POST (create user) operations.
- * All endpoints require authenticated user access.
+ * GET requires users.view; POST requires users.create (plus
+ * users.assign_role when creating a non-member user, who cannot get a role
+ * above the caller's own). Without users.view_all, users are only listed
+ * from and created in the caller's company.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/lib/auth/gateways/api";
+import {
+  withConditionalPermission,
+  withPermission,
+} from "@/lib/auth/gateways/api";
+import {
+  getPermissionFilter,
+  hasPermission,
+} from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { getCompanyScope } from "@/lib/auth/company-scope";
+import { DEFAULT_ROLE } from "@/features/auth/schemas/role.schema";
+import { canGrantRole } from "@/lib/auth/roles";
 import { getUsers, createUser } from "@/features/users/lib/user-service";
 import {
   userQuerySchema,
@@ -15,121 +30,169 @@ import {
 } from "@/features/users/schemas/user.schema";
 import { z } from "zod";
 import { createAdminClient } from "@/utils/supabase/admin";
+import { sendMail } from "@/lib/mail/mailer";
 
 /**
  * GET /api/admin/users
  *
  * List users with optional search, filters, and pagination.
- * Uses offset/limit pagination for infinite scroll support.
+ * Uses offset/limit pagination, or keyset pagination when a cursor is given.
  *
  * Query parameters:
  * - offset: Number of records to skip (default: 0)
  * - limit: Maximum number of items per page (default: 20, max: 100)
  * - search: Search term (matches name or email)
  * - role: Filter by role (member, admin, superadmin)
- * - company_id: Filter by company UUID
+ * - company_id: Filter by company UUID, or "none" for users without a company
  * - include_deleted: Include soft-deleted users (default: false)
+ * - sort: Column to sort by (full_name, email, role, created_at; default: created_at)
+ * - order: Sort direction (asc, desc; default: desc)
+ * - cursor: `next_cursor` of the previous page, or empty for the first page.
+ *   Switches to keyset pagination: offset is ignored and the response has
+ *   `next_cursor`, `has_next` and `total` instead of `pagination`
+ * - count: How `total` is counted (exact, estimated; default: exact)
+ *
+ * Callers holding users.view only conditionally (e.g. own, same company)
+ * get the users their conditions allow.
  *
  * @param request - Next.js request object
- * @param context - Authentication context from withAuth
+ * @param context - Authentication context from withConditionalPermission
  * @returns JSON response with users array and pagination info
  */
-export const GET = withAuth(async (request: NextRequest) => {
-  try {
-    const { searchParams } = new URL(request.url);
+export const GET = withConditionalPermission(
+  PERMISSIONS.users.view,
+  async (request: NextRequest, { user: authUser }) => {
+    try {
+      const { searchParams } = new URL(request.url);
 
-    // Parse and validate query parameters
-    const queryParams = {
-      offset: searchParams.get("offset") ?? undefined,
-      limit: searchParams.get("limit") ?? undefined,
-      search: searchParams.get("search") ?? undefined,
-      role: searchParams.get("role") ?? undefined,
-      company_id: searchParams.get("company_id") ?? undefined,
-      include_deleted: searchParams.get("include_deleted") ?? undefined,
-    };
+      // Parse and validate query parameters
+      const queryParams = {
+        offset: searchParams.get("offset") ?? undefined,
+        limit: searchParams.get("limit") ?? undefined,
+        search: searchParams.get("search") ?? undefined,
+        role: searchParams.get("role") ?? undefined,
+        company_id: searchParams.get("company_id") ?? undefined,
+        include_deleted: searchParams.get("include_deleted") ?? undefined,
+        sort: searchParams.get("sort") ?? undefined,
+        order: searchParams.get("order") ?? undefined,
+        cursor: searchParams.get("cursor") ?? undefined,
+        count: searchParams.get("count") ?? undefined,
+      };
 
-    const query = userQuerySchema.parse(queryParams);
+      const query = userQuerySchema.parse(queryParams);
 
-    // Fetch users from service
-    const { users, total } = await getUsers(query);
+      // Fetch users from service, limited to the caller's company
+      // unless they hold users.view_all, and to rows their users.view
+      // conditions allow
+      const scope = await getCompanyScope(authUser, PERMISSIONS.users.viewAll);
+      const permissionFilter = await getPermissionFilter(
+        authUser,
+        PERMISSIONS.users.view
+      );
+      const { users, total, hasNext, nextCursor } = await getUsers(
+        query,
+        scope,
+        permissionFilter
+      );
 
-    // Calculate pagination metadata
-    const hasNext = query.offset + query.limit < total;
+      if (query.cursor !== undefined) {
+        return NextResponse.json(
+          { users, next_cursor: nextCursor, has_next: hasNext, total },
+          { status: 200 }
+        );
+      }
 
-    return NextResponse.json(
-      {
-        users,
-        pagination: {
-          offset: query.offset,
-          limit: query.limit,
-          total,
-          has_next: hasNext,
-        },
-      },
-      { status: 200 }
-    );
-  } catch (error) {
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const errorMessages = error.errors.map((e) => {
-        const field = e.path.join(".");
-        return `${field}: ${e.message}`;
-      });
       return NextResponse.json(
         {
-          error: "VALIDATION_ERROR",
-          message: `Invalid query parameters. ${errorMessages.join(", ")}`,
-          details: error.errors,
-          timestamp: new Date().toISOString(),
+          users,
+          pagination: {
+            offset: query.offset,
+            limit: query.limit,
+            total,
+            has_next: hasNext,
+          },
         },
-        { status: 400 }
+        { status: 200 }
       );
-    }
+    } catch (error) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.errors.map((e) => {
+          const field = e.path.join(".");
+          return `${field}: ${e.message}`;
+        });
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: `Invalid query parameters. ${errorMessages.join(", ")}`,
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle service errors
-    if (error instanceof Error) {
-      // Provide user-friendly error messages
-      const userMessage = error.message.includes("Failed to fetch")
-        ? "Unable to retrieve users. Please try again or contact support if the problem persists."
-        : error.message;
+      // Handle cursors that are malformed or were issued for another sort
+      if (
+        error instanceof Error &&
+        error.message.startsWith("Invalid cursor")
+      ) {
+        return NextResponse.json(
+          {
+            error: "VALIDATION_ERROR",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 400 }
+        );
+      }
 
+      // Handle service errors
+      if (error instanceof Error) {
+        // Provide user-friendly error messages
+        const userMessage = error.message.includes("Failed to fetch")
+          ? "Unable to retrieve users. Please try again or contact support if the problem persists."
+          : error.message;
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message: userMessage,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+
+      // Unknown error
       return NextResponse.json(
         {
           error: "INTERNAL_SERVER_ERROR",
-          message: userMessage,
+          message:
+            "An unexpected error occurred while loading users. Please try again or contact support if the problem persists.",
           timestamp: new Date().toISOString(),
         },
         { status: 500 }
       );
     }
-
-    // Unknown error
-    return NextResponse.json(
-      {
-        error: "INTERNAL_SERVER_ERROR",
-        message:
-          "An unexpected error occurred while loading users. Please try again or contact support if the problem persists.",
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
   }
-});
+);
 
 /**
  * POST /api/admin/users
  *
- * Create a new user account with optional inline company creation.
- * Sends a passwordless magic link to the user's email after creation.
+ * Create a new user account.
+ * Emails the user a passwordless magic link after creation. To let the
+ * user sign up themselves, send an invitation instead (/api/admin/invitations).
  *
  * Request body:
  * - email: User email address (required)
  * - full_name: User's full name (optional)
  * - role: User role (member, admin, superadmin) (required)
- * - company_id: Existing company ID (optional, if company not provided)
- * - company: Inline company creation data (optional, if company_id not provided)
- *   - legal_name: Company legal name (required if creating company)
- *   - domain: Company domain (required if creating company, must match email domain)
+ * - company_id: Existing company ID, or null for none (optional; defaults to
+ *   the caller's company without users.view_all, otherwise to the company
+ *   matching the email domain). Other companies are not found for callers
+ *   without users.view_all.
  * - avatar_url: User avatar URL (optional)
  * - bio: User bio (optional)
  * - phone: User phone number (optional)
@@ -142,118 +205,205 @@ export const GET = withAuth(async (request: NextRequest) => {
  * - title: Job title or role (optional)
  *
  * @param request - Next.js request object with user data in body
- * @param context - Authentication context from withAuth
+ * @param context - Authentication context from withPermission
  * @returns JSON response with created user and optional company
  */
-export const POST = withAuth(async (request: NextRequest) => {
-  try {
-    const body = await request.json();
+export const POST = withPermission(
+  PERMISSIONS.users.create,
+  withRateLimit(
+    RATE_LIMITS.adminMutation,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
 
-    // Parse and validate request body
-    const validatedData = createUserSchema.parse(body);
+        // Parse and validate request body
+        const validatedData = createUserSchema.parse(body);
 
-    // Create user via service (handles inline company creation, validation, etc.)
-    const user = await createUser(validatedData);
+        // Granting anything above the default role is a role assignment
+        if (
+          validatedData.role !== DEFAULT_ROLE &&
+          !(await hasPermission(authUser, PERMISSIONS.users.assignRole))
+        ) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Permission '${PERMISSIONS.users.assignRole}' required`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
 
-    // Send magic link to user's email
-    const adminSupabase = createAdminClient();
-    const { error: linkError } = await adminSupabase.auth.admin.generateLink({
-      type: "magiclink",
-      email: user.email || validatedData.email,
-      options: {
-        redirectTo: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/auth/callback`,
-      },
-    });
+        // Roles above the caller's own cannot be granted
+        if (!canGrantRole(authUser, validatedData.role)) {
+          return NextResponse.json(
+            {
+              error: "FORBIDDEN",
+              message: `Cannot assign the ${validatedData.role} role`,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 403 }
+          );
+        }
 
-    // Log error but don't fail user creation if magic link fails
-    if (linkError) {
-      console.error("Failed to send magic link:", linkError);
-      // Continue with user creation success even if magic link fails
-    }
+        // Create user via service, in the caller's company unless they hold
+        // users.view_all
+        const scope = await getCompanyScope(
+          authUser,
+          PERMISSIONS.users.viewAll
+        );
+        const { company_id: companyId, ...userData } = validatedData;
+        const user = await createUser(
+          userData,
+          scope,
+          companyId !== undefined ? { companyId } : {}
+        );
 
-    // Return created user
-    return NextResponse.json({ user }, { status: 201 });
-  } catch (error) {
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const errorMessages = error.errors.map((e) => {
-        const field = e.path.join(".");
-        return `${field}: ${e.message}`;
-      });
-      return NextResponse.json(
-        {
-          error: "VALIDATION_ERROR",
-          message: `Invalid user data. ${errorMessages.join(", ")}`,
-          details: error.errors,
-          timestamp: new Date().toISOString(),
-        },
-        { status: 400 }
-      );
-    }
+        // Email the user a magic link to sign in
+        const adminSupabase = createAdminClient();
+        const email = user.email || validatedData.email;
+        const { data: linkData, error: linkError } =
+          await adminSupabase.auth.admin.generateLink({
+            type: "magiclink",
+            email,
+            options: {
+              redirectTo: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/auth/callback`,
+            },
+          });
 
-    // Handle service errors (email uniqueness, domain validation, etc.)
-    if (error instanceof Error) {
-      // Check for specific error types
-      const errorMessage = error.message.toLowerCase();
+        // Log errors but don't fail user creation if the magic link fails
+        if (linkError) {
+          console.error("Failed to generate magic link:", linkError);
+        } else {
+          const signInUrl = linkData.properties.action_link;
+          try {
+            await sendMail({
+              to: email,
+              subject: "Your AppName account is ready",
+              text: [
+                "An account has been created for you on AppName.",
+                "",
+                `Sign in: ${signInUrl}`,
+              ].join("\n"),
+              html: [
+                "<p>An account has been created for you on AppName.</p>",
+                `<p><a href="${signInUrl}">Sign in</a></p>`,
+              ].join("\n"),
+            });
+          } catch (mailError) {
+            console.error("Failed to send magic link:", mailError);
+          }
+        }
 
-      // Email already exists
-      if (
-        errorMessage.includes("already in use") ||
-        errorMessage.includes("already exists")
-      ) {
-        return NextResponse.json(
-          {
-            error: "CONFLICT",
-            message: error.message,
-            timestamp: new Date().toISOString(),
-          },
-          { status: 409 }
-        );
-      }
+        // Return created user
+        return NextResponse.json({ user }, { status: 201 });
+      } catch (error) {
+        // Handle Zod validation errors
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: `Invalid user data. ${errorMessages.join(", ")}`,
+              details: error.errors,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
 
-      // Email domain validation errors
-      if (errorMessage.includes("domain must match")) {
-        return NextResponse.json(
-          {
-            error: "VALIDATION_ERROR",
-            message: error.message,
-            timestamp: new Date().toISOString(),
-          },
-          { status: 400 }
-        );
-      }
+        // Handle service errors (email uniqueness, domain validation, etc.)
+        if (error instanceof Error) {
+          // Check for specific error types
+          const errorMessage = error.message.toLowerCase();
+
+          // Email already exists
+          if (
+            errorMessage.includes("already in use") ||
+            errorMessage.includes("already exists")
+          ) {
+            return NextResponse.json(
+              {
+                error: "CONFLICT",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 409 }
+            );
+          }
+
+          // Company not found (or outside the caller's company)
+          if (errorMessage.includes("company not found")) {
+            return NextResponse.json(
+              {
+                error: "NOT_FOUND",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 404 }
+            );
+          }
+
+          // Caller has no company to add the user to
+          if (errorMessage.includes("outside your company")) {
+            return NextResponse.json(
+              {
+                error: "FORBIDDEN",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 403 }
+            );
+          }
+
+          // Email domain validation errors
+          if (errorMessage.includes("domain must match")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
 
-      // Company domain uniqueness errors
-      if (errorMessage.includes("company with domain")) {
+          // Company domain uniqueness errors
+          if (errorMessage.includes("company with domain")) {
+            return NextResponse.json(
+              {
+                error: "VALIDATION_ERROR",
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+              { status: 400 }
+            );
+          }
+
+          // Generic service error
+          return NextResponse.json(
+            {
+              error: "INTERNAL_SERVER_ERROR",
+              message: error.message,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 500 }
+          );
+        }
+
+        // Unknown error
         return NextResponse.json(
           {
-            error: "VALIDATION_ERROR",
-            message: error.message,
+            error: "INTERNAL_SERVER_ERROR",
+            message: "An unexpected error occurred",
             timestamp: new Date().toISOString(),
           },
-          { status: 400 }
+          { status: 500 }
         );
       }
-
-      // Generic service error
-      return NextResponse.json(
-        {
-          error: "INTERNAL_SERVER_ERROR",
-          message: error.message,
-          timestamp: new Date().toISOString(),
-        },
-        { status: 500 }
-      );
     }
-
-    // Unknown error
-    return NextResponse.json(
-      {
-        error: "INTERNAL_SERVER_ERROR",
-        message: "An unexpected error occurred",
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
-});
+  )
+);
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview API route handler for webhook delivery logs
+ * @module app/api/admin/webhooks/[webhookId]/deliveries/route
+ *
+ * Handles GET (list recent deliveries). Requires settings.system.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { listWebhookDeliveries } from "@/features/webhooks/lib/webhook-service";
+
+/**
+ * GET /api/admin/webhooks/{webhookId}/deliveries
+ *
+ * List the 50 most recent deliveries to a webhook endpoint, newest first,
+ * with the outcome of their latest attempt.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with webhookId parameter
+ * @returns JSON response with deliveries array
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+): Promise<NextResponse> {
+  const { webhookId } = await params;
+
+  return withPermission(PERMISSIONS.settings.system, async () => {
+    try {
+      const deliveries = await listWebhookDeliveries(webhookId);
+
+      return NextResponse.json({ deliveries }, { status: 200 });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return NextResponse.json(
+          {
+            error: "NOT_FOUND",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch webhook deliveries",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview API route handlers for a single webhook endpoint
+ * @module app/api/admin/webhooks/[webhookId]/route
+ *
+ * Handles PATCH (update endpoint) and DELETE (delete endpoint) operations.
+ * Both require settings.system.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  deleteWebhook,
+  updateWebhook,
+} from "@/features/webhooks/lib/webhook-service";
+import { updateWebhookSchema } from "@/features/webhooks/schemas/webhook.schema";
+
+/**
+ * PATCH /api/admin/webhooks/{webhookId}
+ *
+ * Update a webhook endpoint. Disabled endpoints receive no new events, and
+ * their pending retries are dropped.
+ *
+ * Request body (all optional):
+ * - url: HTTP(S) endpoint events are POSTed to
+ * - description: What the endpoint is for
+ * - event_types: Event types to deliver
+ * - is_active: Whether the endpoint receives events
+ *
+ * @param request - Next.js request object with changes in body
+ * @param context - Route context with webhookId parameter
+ * @returns JSON response with the updated webhook
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+): Promise<NextResponse> {
+  const { webhookId } = await params;
+
+  return withPermission(
+    PERMISSIONS.settings.system,
+    async (req: NextRequest) => {
+      try {
+        const body = await req.json();
+        const validatedData = updateWebhookSchema.parse(body);
+
+        const webhook = await updateWebhook(webhookId, validatedData);
+
+        return NextResponse.json({ webhook }, { status: 200 });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: `Invalid webhook data. ${errorMessages.join(", ")}`,
+              details: error.errors,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
+
+        if (error instanceof Error && error.message.includes("not found")) {
+          return NextResponse.json(
+            {
+              error: "NOT_FOUND",
+              message: error.message,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 404 }
+          );
+        }
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to update webhook",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )(request);
+}
+
+/**
+ * DELETE /api/admin/webhooks/{webhookId}
+ *
+ * Delete a webhook endpoint together with its delivery log.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with webhookId parameter
+ * @returns JSON response with success flag or error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+): Promise<NextResponse> {
+  const { webhookId } = await params;
+
+  return withPermission(PERMISSIONS.settings.system, async () => {
+    try {
+      await deleteWebhook(webhookId);
+
+      return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return NextResponse.json(
+          {
+            error: "NOT_FOUND",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error ? error.message : "Failed to delete webhook",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview API route handlers for webhook endpoints
+ * @module app/api/admin/webhooks/route
+ *
+ * Handles GET (list endpoints) and POST (register endpoint) operations.
+ * Both require settings.system.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/auth/gateways/api";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { RATE_LIMITS, withRateLimit } from "@/lib/rate-limit/rate-limiter";
+import {
+  createWebhook,
+  listWebhooks,
+} from "@/features/webhooks/lib/webhook-service";
+import { createWebhookSchema } from "@/features/webhooks/schemas/webhook.schema";
+
+/**
+ * GET /api/admin/webhooks
+ *
+ * List webhook endpoints, newest first. Signing secrets are not returned.
+ *
+ * @returns JSON response with webhooks array
+ */
+export const GET = withPermission(PERMISSIONS.settings.system, async () => {
+  try {
+    const webhooks = await listWebhooks();
+
+    return NextResponse.json({ webhooks }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to fetch webhooks",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/webhooks
+ *
+ * Register a webhook endpoint. The response contains the signing secret,
+ * which is not shown again.
+ *
+ * Request body:
+ * - url: HTTP(S) endpoint events are POSTed to (required)
+ * - description: What the endpoint is for (optional)
+ * - event_types: Event types to deliver (at least one)
+ *
+ * @param request - Next.js request object with endpoint settings in body
+ * @param context - Authentication context from withPermission
+ * @returns JSON response with the webhook and its secret
+ */
+export const POST = withPermission(
+  PERMISSIONS.settings.system,
+  withRateLimit(
+    RATE_LIMITS.adminMutation,
+    async (request: NextRequest, { user: authUser }) => {
+      try {
+        const body = await request.json();
+        const validatedData = createWebhookSchema.parse(body);
+
+        const created = await createWebhook(validatedData, authUser.id);
+
+        return NextResponse.json(created, { status: 201 });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const errorMessages = error.errors.map((e) => {
+            const field = e.path.join(".");
+            return `${field}: ${e.message}`;
+          });
+          return NextResponse.json(
+            {
+              error: "VALIDATION_ERROR",
+              message: `Invalid webhook data. ${errorMessages.join(", ")}`,
+              details: error.errors,
+              timestamp: new Date().toISOString(),
+            },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json(
+          {
+            error: "INTERNAL_SERVER_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to create webhook",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 500 }
+        );
+      }
+    }
+  )
+);
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview API routes for superadmin impersonation ("view as user")
+ * @module app/api/auth/impersonation
+ *
+ * These routes act as the user signed in through Supabase Auth, not the
+ * impersonated user, so a superadmin can always inspect and end a session.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import {
+  getActiveImpersonation,
+  startImpersonation,
+  stopImpersonation,
+  type ActiveImpersonation,
+} from "@/lib/auth/impersonation";
+import {
+  startImpersonationSchema,
+  type ImpersonationSession,
+} from "@/features/auth/schemas/impersonation.schema";
+
+/**
+ * Maps an active session to its API representation
+ */
+function toImpersonationSession(
+  impersonation: ActiveImpersonation
+): ImpersonationSession {
+  return {
+    id: impersonation.id,
+    target: impersonation.target,
+    allow_mutations: impersonation.allowMutations,
+    started_at: impersonation.startedAt,
+    expires_at: impersonation.expiresAt,
+  };
+}
+
+/**
+ * GET /api/auth/impersonation
+ * Returns the signed-in user's active impersonation session, or null
+ * Requires: authentication
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const sessionAuth = await getSessionAuth();
+
+    if (!sessionAuth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const impersonation = await getActiveImpersonation(sessionAuth.user);
+
+    return NextResponse.json(
+      {
+        impersonation: impersonation
+          ? toImpersonationSession(impersonation)
+          : null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error
+        ? error.message
+        : "Failed to load impersonation session",
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/auth/impersonation
+ * Starts impersonating a user (read-only unless allow_mutations is true)
+ * Requires: superadmin
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const sessionAuth = await getSessionAuth();
+
+    if (!sessionAuth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    if (sessionAuth.role !== "superadmin") {
+      return createErrorResponse(
+        "FORBIDDEN",
+        "Only superadmins can impersonate users",
+        403
+      );
+    }
+
+    const body = await request.json();
+    const { user_id, allow_mutations } = startImpersonationSchema.parse(body);
+
+    const impersonation = await startImpersonation(sessionAuth.user, user_id, {
+      allowMutations: allow_mutations,
+    });
+
+    return NextResponse.json(
+      { impersonation: toImpersonationSession(impersonation) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "VALIDATION_ERROR",
+          message: "Invalid request body",
+          details: error.errors,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      const errorMessage = error.message.toLowerCase();
+
+      if (errorMessage.includes("not found")) {
+        return createErrorResponse("NOT_FOUND", error.message, 404);
+      }
+
+      if (errorMessage.includes("cannot impersonate")) {
+        return createErrorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+
+      return createErrorResponse("INTERNAL_SERVER_ERROR", error.message, 500);
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      "Failed to start impersonation",
+      500
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/impersonation
+ * Stops the signed-in user's impersonation session
+ * Requires: authentication
+ */
+export async function DELETE(): Promise<NextResponse> {
+  try {
+    const sessionAuth = await getSessionAuth();
+
+    if (!sessionAuth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const ended = await stopImpersonation(sessionAuth.user);
+
+    return NextResponse.json({ ended }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to stop impersonation",
+      500
+    );
+  }
+}
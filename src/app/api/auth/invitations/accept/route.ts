@@ -0,0 +1,79 @@
+/**
+ * @fileoverview API route for accepting a user invitation
+ * @module app/api/auth/invitations/accept
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/utils/supabase/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { acceptInvitation } from "@/features/invitations/lib/invitation-service";
+import { acceptInvitationSchema } from "@/features/invitations/schemas/invitation.schema";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+
+/**
+ * POST /api/auth/invitations/accept
+ * Accepts an invitation, creating the invitee's account and profile, and
+ * signs the new user in
+ * Requires: a valid invitation token (no authentication)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+    const { token } = acceptInvitationSchema.parse(body);
+
+    const { invitation, user } = await acceptInvitation(token);
+
+    // Sign the new user in by verifying a magic link generated server-side;
+    // the link itself is never sent
+    const { data: linkData, error: linkError } =
+      await createAdminClient().auth.admin.generateLink({
+        type: "magiclink",
+        email: invitation.email,
+      });
+
+    if (linkError) {
+      throw new Error(`Failed to sign in: ${linkError.message}`);
+    }
+
+    const supabase = await createClient();
+    const { error: verifyError } = await supabase.auth.verifyOtp({
+      type: "magiclink",
+      token_hash: linkData.properties.hashed_token,
+    });
+
+    if (verifyError) {
+      throw new Error(`Failed to sign in: ${verifyError.message}`);
+    }
+
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "VALIDATION_ERROR",
+          message: "Invalid invitation data",
+          details: error.errors,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message === "Invitation is invalid or has expired") {
+        return createErrorResponse("INVALID_INVITATION", error.message, 400);
+      }
+
+      if (error.message.includes("already in use")) {
+        return createErrorResponse("CONFLICT", error.message, 409);
+      }
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to accept invitation",
+      500
+    );
+  }
+}
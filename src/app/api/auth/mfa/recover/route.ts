@@ -0,0 +1,74 @@
+/**
+ * @fileoverview API route for redeeming an MFA recovery code
+ * @module app/api/auth/mfa/recover
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import {
+  RATE_LIMITS,
+  consumeRateLimit,
+  createRateLimitResponse,
+} from "@/lib/rate-limit/rate-limiter";
+import { redeemRecoveryCode } from "@/lib/auth/mfa";
+import { redeemRecoveryCodeSchema } from "@/features/auth/schemas/mfa.schema";
+
+/**
+ * POST /api/auth/mfa/recover
+ * Redeems a recovery code, removing the current user's factors so a new
+ * authenticator can be enrolled
+ * Rate limited per user
+ * Requires: authentication
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const limit = await consumeRateLimit(
+      RATE_LIMITS.sensitiveAction,
+      `user:${auth.user.id}`
+    );
+    if (!limit.allowed) {
+      return createRateLimitResponse(limit);
+    }
+
+    const body = await request.json();
+    const { code } = redeemRecoveryCodeSchema.parse(body);
+
+    await redeemRecoveryCode(auth.user.id, code);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "VALIDATION_ERROR",
+          message: "Invalid recovery code data",
+          details: error.errors,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Invalid recovery code") {
+      return createErrorResponse("INVALID_CODE", error.message, 400);
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to redeem recovery code",
+      500
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview API route for generating MFA recovery codes
+ * @module app/api/auth/mfa/recovery-codes
+ */
+
+import { NextResponse } from "next/server";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import { generateRecoveryCodes, getAssuranceLevels } from "@/lib/auth/mfa";
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ * Replaces the current user's recovery codes; the plain codes are only
+ * returned in this response
+ * Requires: authentication with a session verified by a second factor (AAL2)
+ */
+export async function POST(): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const { currentLevel } = await getAssuranceLevels();
+
+    if (currentLevel !== "aal2") {
+      return createErrorResponse(
+        "MFA_REQUIRED",
+        "Verify two-factor authentication before generating recovery codes",
+        403
+      );
+    }
+
+    const codes = await generateRecoveryCodes(auth.user.id);
+
+    return NextResponse.json({ codes }, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error
+        ? error.message
+        : "Failed to generate recovery codes",
+      500
+    );
+  }
+}
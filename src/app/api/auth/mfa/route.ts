@@ -0,0 +1,107 @@
+/**
+ * @fileoverview API routes for the current user's MFA status
+ * @module app/api/auth/mfa
+ *
+ * MFA belongs to the session user: while impersonating, the status is the
+ * superadmin's own. Factors are enrolled and verified in the browser with
+ * Supabase Auth MFA; these routes cover the policy, turning MFA off and
+ * recovery codes.
+ */
+
+import { NextResponse } from "next/server";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import {
+  countRecoveryCodes,
+  getAssuranceLevels,
+  isMfaRequired,
+  resetMfaFactors,
+} from "@/lib/auth/mfa";
+import type { MfaStatus } from "@/features/auth/schemas/mfa.schema";
+
+/**
+ * GET /api/auth/mfa
+ * Returns whether MFA is required, the session's assurance levels and the
+ * number of unused recovery codes
+ * Requires: authentication
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const [required, { currentLevel, nextLevel }, recoveryCodesRemaining] =
+      await Promise.all([
+        isMfaRequired(auth.user),
+        getAssuranceLevels(),
+        countRecoveryCodes(auth.user.id),
+      ]);
+
+    const status: MfaStatus = {
+      required,
+      requirement:
+        !required || currentLevel === "aal2"
+          ? null
+          : nextLevel === "aal2"
+            ? "verify"
+            : "enroll",
+      current_level: currentLevel,
+      next_level: nextLevel,
+      recovery_codes_remaining: recoveryCodesRemaining,
+    };
+
+    return NextResponse.json(status, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to fetch MFA status",
+      500
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/mfa
+ * Turns off MFA for the current user, removing every factor and recovery code
+ * Requires: authentication with a session verified by a second factor (AAL2)
+ */
+export async function DELETE(): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const { currentLevel } = await getAssuranceLevels();
+
+    if (currentLevel !== "aal2") {
+      return createErrorResponse(
+        "MFA_REQUIRED",
+        "Verify two-factor authentication before removing it",
+        403
+      );
+    }
+
+    await resetMfaFactors(auth.user.id);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to remove MFA",
+      500
+    );
+  }
+}
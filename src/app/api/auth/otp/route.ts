@@ -0,0 +1,114 @@
+/**
+ * @fileoverview API route for sending a sign-in email
+ * @module app/api/auth/otp
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { passwordlessEmailSchema } from "@/features/auth/schemas/auth.schema";
+import { getAuthCallbackUrl } from "@/lib/auth-redirect";
+import { getOtpLockout, getOtpLockoutMessage } from "@/lib/auth/otp-lockout";
+import { getClientIp } from "@/lib/client-ip";
+import {
+  RATE_LIMITS,
+  consumeRateLimit,
+  createRateLimitResponse,
+} from "@/lib/rate-limit/rate-limiter";
+import { createClient } from "@/utils/supabase/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+
+/**
+ * Returns the auth callback URL, falling back to the request origin when
+ * NEXT_PUBLIC_APP_URL is not set
+ */
+function getCallbackUrl(request: NextRequest): string {
+  try {
+    return getAuthCallbackUrl();
+  } catch {
+    return `${request.nextUrl.origin}/auth/callback`;
+  }
+}
+
+/**
+ * POST /api/auth/otp
+ * Emails a magic link and sign-in code, creating the user on first sign-in
+ * Rate limited per email address and per client IP address; refused while
+ * the address is locked out after repeated wrong codes
+ *
+ * Request body:
+ * - email: Email address to sign in with
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const parsed = passwordlessEmailSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        parsed.error.errors[0]?.message ?? "Invalid email address",
+        400
+      );
+    }
+
+    const email = parsed.data.email.trim().toLowerCase();
+
+    const ipLimit = await consumeRateLimit(
+      RATE_LIMITS.otpSendPerIp,
+      `ip:${getClientIp(request.headers) ?? "unknown"}`
+    );
+    if (!ipLimit.allowed) {
+      return createRateLimitResponse(ipLimit);
+    }
+
+    const lockout = await getOtpLockout(email);
+    if (!lockout.allowed) {
+      return createRateLimitResponse(lockout, {
+        error: "ACCOUNT_LOCKED",
+        message: getOtpLockoutMessage(lockout),
+      });
+    }
+
+    const emailLimit = await consumeRateLimit(
+      RATE_LIMITS.otpSendPerEmail,
+      `email:${email}`
+    );
+    if (!emailLimit.allowed) {
+      return createRateLimitResponse(emailLimit);
+    }
+
+    // Sent from the server client so the PKCE verifier of the magic link is
+    // stored in this browser's cookies
+    const supabase = await createClient();
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: true,
+        emailRedirectTo: getCallbackUrl(request),
+      },
+    });
+
+    if (error) {
+      if (error.status === 429) {
+        return createErrorResponse(
+          "RATE_LIMITED",
+          "Too many requests. Please wait a moment and try again.",
+          429
+        );
+      }
+      return createErrorResponse(
+        "OTP_SEND_FAILED",
+        "Unable to send email. Please check your email address and try again.",
+        400
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to send sign-in email",
+      500
+    );
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview API route for verifying a sign-in code
+ * @module app/api/auth/otp/verify
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { otpVerificationSchema } from "@/features/auth/schemas/auth.schema";
+import { SIGNUP_REJECTION_MESSAGES } from "@/features/auth/schemas/signup-policy.schema";
+import {
+  clearOtpFailures,
+  getOtpLockout,
+  getOtpLockoutMessage,
+  recordOtpFailure,
+} from "@/lib/auth/otp-lockout";
+import { getAccountStatus } from "@/lib/auth/account-status";
+import {
+  checkSignupAllowed,
+  discardRejectedSignup,
+  type SignupDecision,
+} from "@/lib/auth/signup-policy";
+import { getClientIp } from "@/lib/client-ip";
+import {
+  RATE_LIMITS,
+  consumeRateLimit,
+  createRateLimitResponse,
+} from "@/lib/rate-limit/rate-limiter";
+import { createClient } from "@/utils/supabase/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+
+/**
+ * POST /api/auth/otp/verify
+ * Signs the user in with the 6-digit code from the sign-in email; the session
+ * cookies are set on the response. The client then completes sign-in through
+ * /auth/callback. New users (no profile yet) are checked against the sign-up
+ * policy first: rejected users are signed out and removed.
+ * Repeated wrong codes lock the email address out for a while.
+ *
+ * Request body:
+ * - email: Email address the code was sent to
+ * - token: 6-digit code
+ * - type: "email"
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const parsed = otpVerificationSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        parsed.error.errors[0]?.message ?? "Please enter a valid 6-digit code.",
+        400
+      );
+    }
+
+    const email = parsed.data.email.trim().toLowerCase();
+
+    const ipLimit = await consumeRateLimit(
+      RATE_LIMITS.otpVerifyPerIp,
+      `ip:${getClientIp(request.headers) ?? "unknown"}`
+    );
+    if (!ipLimit.allowed) {
+      return createRateLimitResponse(ipLimit);
+    }
+
+    const lockout = await getOtpLockout(email);
+    if (!lockout.allowed) {
+      return createRateLimitResponse(lockout, {
+        error: "ACCOUNT_LOCKED",
+        message: getOtpLockoutMessage(lockout),
+      });
+    }
+
+    const supabase = await createClient();
+    const { data, error } = await supabase.auth.verifyOtp({
+      email,
+      token: parsed.data.token,
+      type: "email",
+    });
+
+    if (error) {
+      const failure = await recordOtpFailure(email);
+      if (!failure.allowed) {
+        return createRateLimitResponse(failure, {
+          error: "ACCOUNT_LOCKED",
+          message: getOtpLockoutMessage(failure),
+        });
+      }
+      return createErrorResponse(
+        "INVALID_CODE",
+        "This code has expired or is invalid. Please request a new code.",
+        400
+      );
+    }
+
+    await clearOtpFailures(email);
+
+    // New users (no profile yet) get the same check as in /auth/callback,
+    // before the client holds a session
+    if (data.user) {
+      let decision: SignupDecision;
+      try {
+        decision =
+          (await getAccountStatus(data.user.id)) === "missing"
+            ? await checkSignupAllowed(data.user)
+            : { allowed: true };
+      } catch (policyError) {
+        // Fail closed: without the policy we can't tell if sign-up is allowed
+        await supabase.auth.signOut();
+        throw policyError;
+      }
+
+      if (!decision.allowed) {
+        await supabase.auth.signOut();
+        try {
+          await discardRejectedSignup(data.user.id);
+        } catch (discardError) {
+          // The user stays without a profile and is rejected again next time
+          console.error("Error removing rejected sign-up:", discardError);
+        }
+        return NextResponse.json(
+          {
+            error: "SIGNUP_NOT_ALLOWED",
+            message: SIGNUP_REJECTION_MESSAGES[decision.reason],
+            reason: decision.reason,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to verify code",
+      500
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview API route for the current user's resolved permissions
+ * @module app/api/auth/permissions
+ *
+ * Feeds the client-side permission hooks with the same resolution the
+ * server uses (system role, custom role, superadmin wildcard).
+ */
+
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth/gateways/api";
+import { getUserPermissions } from "@/lib/auth/permission-checker";
+
+/**
+ * GET /api/auth/permissions
+ * Returns the current user's role and effective permissions
+ * Requires: authentication
+ */
+export const GET = withAuth(async (_request, { user, role }) => {
+  const permissions = await getUserPermissions(user);
+
+  return NextResponse.json({ role, permissions }, { status: 200 });
+});
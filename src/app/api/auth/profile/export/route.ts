@@ -0,0 +1,100 @@
+/**
+ * @fileoverview API route for exporting the current user's data
+ * @module app/api/auth/profile/export
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import { verifyReauthenticationCode } from "@/lib/auth/reauthentication";
+import { getOtpLockout, getOtpLockoutMessage } from "@/lib/auth/otp-lockout";
+import { createRateLimitResponse } from "@/lib/rate-limit/rate-limiter";
+import {
+  buildAccountExport,
+  createAccountExportZip,
+} from "@/features/users/lib/account-export";
+import { exportAccountDataSchema } from "@/features/auth/schemas/account.schema";
+
+/**
+ * POST /api/auth/profile/export
+ * Downloads the current user's profile, company, avatar files and account
+ * activity as a ZIP archive (default) or JSON document. Requires a one-time
+ * code sent by POST /api/auth/reauthenticate; refused while the email
+ * address is locked out after repeated wrong codes.
+ * Requires: authentication
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const body = await request.json();
+    const { code, format } = exportAccountDataSchema.parse(body);
+
+    const lockout = await getOtpLockout(auth.user.email ?? "");
+    if (!lockout.allowed) {
+      return createRateLimitResponse(lockout, {
+        error: "ACCOUNT_LOCKED",
+        message: getOtpLockoutMessage(lockout),
+      });
+    }
+
+    await verifyReauthenticationCode(auth.user, code);
+
+    const accountExport = await buildAccountExport(auth.user);
+    const fileName = `account-export-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === "json") {
+      return new Response(JSON.stringify(accountExport.data, null, 2), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${fileName}.json"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return new Response(new Uint8Array(createAccountExportZip(accountExport)), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "VALIDATION_ERROR",
+          message: "Invalid export request",
+          details: error.errors,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      error.message === "Invalid or expired verification code"
+    ) {
+      return createErrorResponse("INVALID_CODE", error.message, 400);
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to export account data",
+      500
+    );
+  }
+}
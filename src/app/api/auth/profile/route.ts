@@ -5,10 +5,16 @@
 
 import { createClient } from "@/utils/supabase/server";
 import { getProfile, updateProfile } from "@/lib/auth/profile";
+import { getUserRole } from "@/lib/auth/roles";
+import { verifyReauthenticationCode } from "@/lib/auth/reauthentication";
+import { getOtpLockout, getOtpLockoutMessage } from "@/lib/auth/otp-lockout";
+import { createRateLimitResponse } from "@/lib/rate-limit/rate-limiter";
+import { deleteOwnAccount } from "@/features/users/lib/account-deletion";
 import {
   updateProfileInputSchema,
   errorResponseSchema,
 } from "@/features/auth/schemas/profile.schema";
+import { deleteAccountSchema } from "@/features/auth/schemas/account.schema";
 import type { NextRequest } from "next/server";
 import { ZodError } from "zod";
 
@@ -120,3 +126,96 @@ export async function PUT(request: NextRequest): Promise<Response> {
     );
   }
 }
+
+/**
+ * DELETE /api/auth/profile
+ * Deletes the current user's account. The account is deactivated at once
+ * and permanently removed after the grace period. Requires a one-time code
+ * sent by POST /api/auth/reauthenticate; refused while the email address is
+ * locked out after repeated wrong codes.
+ *
+ * @param request - Next.js request object with the code in body
+ * @returns JSON response with the purge date or error
+ */
+export async function DELETE(request: NextRequest): Promise<Response> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return Response.json(
+        errorResponseSchema.parse({
+          error: "UNAUTHORIZED",
+          message: "User not authenticated",
+        }),
+        { status: 401 }
+      );
+    }
+
+    // Keep at least one account able to manage superadmins
+    if (getUserRole(user) === "superadmin") {
+      return Response.json(
+        errorResponseSchema.parse({
+          error: "FORBIDDEN",
+          message:
+            "Superadmins cannot delete their own account. Ask another superadmin to remove it.",
+        }),
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { code } = deleteAccountSchema.parse(body);
+
+    const lockout = await getOtpLockout(user.email ?? "");
+    if (!lockout.allowed) {
+      return createRateLimitResponse(lockout, {
+        error: "ACCOUNT_LOCKED",
+        message: getOtpLockoutMessage(lockout),
+      });
+    }
+
+    await verifyReauthenticationCode(user, code);
+
+    const deletion = await deleteOwnAccount(user.id);
+
+    return Response.json(deletion, { status: 200 });
+  } catch (error) {
+    console.error("Error deleting account:", error);
+
+    if (error instanceof ZodError) {
+      return Response.json(
+        errorResponseSchema.parse({
+          error: "VALIDATION_ERROR",
+          message: "Invalid account deletion data",
+          details: { validation: error.errors },
+        }),
+        { status: 400 }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      error.message === "Invalid or expired verification code"
+    ) {
+      return Response.json(
+        errorResponseSchema.parse({
+          error: "INVALID_CODE",
+          message: error.message,
+        }),
+        { status: 400 }
+      );
+    }
+
+    return Response.json(
+      errorResponseSchema.parse({
+        error: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to delete account",
+      }),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview API route for the current user's profile visibility settings
+ * @module app/api/auth/profile/visibility
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import {
+  getOwnProfileVisibility,
+  getProfileVisibilityPolicy,
+  updateOwnProfileVisibility,
+  validateOwnProfileVisibility,
+} from "@/lib/auth/profile-visibility";
+import { updateOwnProfileVisibilitySchema } from "@/features/auth/schemas/profile-visibility.schema";
+
+/**
+ * GET /api/auth/profile/visibility
+ * Returns who can see each of the current user's profile fields: the policy
+ * set by admins and the fields the user has tightened
+ * Requires: authentication
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const [policy, fields] = await Promise.all([
+      getProfileVisibilityPolicy(),
+      getOwnProfileVisibility(auth.user.id),
+    ]);
+
+    return NextResponse.json(
+      { settings: { policy: policy.fields, fields } },
+      { status: 200 }
+    );
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error
+        ? error.message
+        : "Failed to fetch profile visibility",
+      500
+    );
+  }
+}
+
+/**
+ * PUT /api/auth/profile/visibility
+ * Replaces the current user's visibility settings. Only fields the policy
+ * marks as user-configurable can be changed, and only made less visible.
+ * Requires: authentication
+ *
+ * Request body:
+ * - fields: Visibility level per field (fields left out follow the policy)
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const body = await request.json();
+    const { fields } = updateOwnProfileVisibilitySchema.parse(body);
+
+    const policy = await getProfileVisibilityPolicy();
+    const validationError = validateOwnProfileVisibility(policy, fields);
+
+    if (validationError) {
+      return createErrorResponse("VALIDATION_ERROR", validationError, 400);
+    }
+
+    const savedFields = await updateOwnProfileVisibility(
+      auth.user.id,
+      policy,
+      fields
+    );
+
+    return NextResponse.json(
+      { settings: { policy: policy.fields, fields: savedFields } },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "VALIDATION_ERROR",
+          message: "Invalid profile visibility settings",
+          details: error.errors,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error
+        ? error.message
+        : "Failed to update profile visibility",
+      500
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview API route for sending a re-authentication code
+ * @module app/api/auth/reauthenticate
+ */
+
+import { NextResponse } from "next/server";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import {
+  RATE_LIMITS,
+  consumeRateLimit,
+  createRateLimitResponse,
+} from "@/lib/rate-limit/rate-limiter";
+import { sendReauthenticationCode } from "@/lib/auth/reauthentication";
+
+/**
+ * POST /api/auth/reauthenticate
+ * Emails the current user a one-time code, required to export their data
+ * or delete their account
+ * Rate limited per user
+ * Requires: authentication
+ */
+export async function POST(): Promise<NextResponse> {
+  try {
+    const auth = await getSessionAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const limit = await consumeRateLimit(
+      RATE_LIMITS.sensitiveAction,
+      `user:${auth.user.id}`
+    );
+    if (!limit.allowed) {
+      return createRateLimitResponse(limit);
+    }
+
+    await sendReauthenticationCode(auth.user);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error
+        ? error.message
+        : "Failed to send verification code",
+      500
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview API route for signing out one of the current user's sessions
+ * @module app/api/auth/sessions/[sessionId]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import { revokeUserSession } from "@/lib/auth/sessions";
+
+/**
+ * DELETE /api/auth/sessions/{sessionId}
+ * Signs out one of the current user's sessions (may be the current one)
+ * Requires: authentication (session owner)
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+): Promise<NextResponse> {
+  const { sessionId } = await params;
+
+  try {
+    const auth = await getAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    if (auth.impersonator) {
+      return createErrorResponse(
+        "FORBIDDEN",
+        "Sessions cannot be signed out while impersonating",
+        403
+      );
+    }
+
+    await revokeUserSession(auth.user.id, sessionId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.toLowerCase().includes("not found")) {
+        return createErrorResponse("NOT_FOUND", error.message, 404);
+      }
+
+      return createErrorResponse("INTERNAL_SERVER_ERROR", error.message, 500);
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      "Failed to sign out session",
+      500
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview API routes for the current user's sign-in sessions
+ * @module app/api/auth/sessions
+ *
+ * Sessions can only be signed out from a cookie session, and not while
+ * impersonating.
+ */
+
+import { NextResponse } from "next/server";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import {
+  getCurrentSessionId,
+  listUserSessions,
+  revokeAllUserSessions,
+} from "@/lib/auth/sessions";
+
+/**
+ * GET /api/auth/sessions
+ * Lists the current user's active sessions (most recently used first)
+ * Requires: authentication
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const auth = await getAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const sessions = await listUserSessions(
+      auth.user.id,
+      await getCurrentSessionId()
+    );
+
+    return NextResponse.json({ sessions }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to list sessions",
+      500
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions
+ * Signs the current user out everywhere, including this session
+ * Requires: authentication
+ */
+export async function DELETE(): Promise<NextResponse> {
+  try {
+    const auth = await getAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    if (auth.impersonator) {
+      return createErrorResponse(
+        "FORBIDDEN",
+        "Sessions cannot be signed out while impersonating",
+        403
+      );
+    }
+
+    const revoked = await revokeAllUserSessions(auth.user.id);
+
+    return NextResponse.json({ revoked }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to sign out sessions",
+      500
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview API route for revoking a personal access token
+ * @module app/api/auth/tokens/[tokenId]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import { revokeAccessToken } from "@/lib/auth/access-tokens";
+
+/**
+ * DELETE /api/auth/tokens/{tokenId}
+ * Revokes one of the current user's tokens (the record is kept)
+ * Requires: authentication (token owner)
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+): Promise<NextResponse> {
+  const { tokenId } = await params;
+
+  try {
+    const auth = await getAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    if (auth.impersonator) {
+      return createErrorResponse(
+        "FORBIDDEN",
+        "Access tokens cannot be revoked while impersonating",
+        403
+      );
+    }
+
+    const token = await revokeAccessToken(auth.user.id, tokenId);
+
+    return NextResponse.json({ token }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error) {
+      const errorMessage = error.message.toLowerCase();
+
+      if (errorMessage.includes("not found")) {
+        return createErrorResponse("NOT_FOUND", error.message, 404);
+      }
+
+      if (errorMessage.includes("already revoked")) {
+        return createErrorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+
+      return createErrorResponse("INTERNAL_SERVER_ERROR", error.message, 500);
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      "Failed to revoke access token",
+      500
+    );
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview API routes for the current user's personal access tokens
+ * @module app/api/auth/tokens
+ *
+ * Tokens can only be managed from a cookie session (not with another token),
+ * and not while impersonating. Tokens are not held to the MFA policy, so
+ * they can only be created once the session has satisfied it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuth } from "@/lib/auth/gateways/server";
+import { createErrorResponse } from "@/lib/auth/gateways/api";
+import { getMfaRequirement } from "@/lib/auth/mfa";
+import { getUserPermissions } from "@/lib/auth/permission-checker";
+import { PERMISSIONS, matchesPermission } from "@/lib/auth/permissions";
+import { createAccessToken, listAccessTokens } from "@/lib/auth/access-tokens";
+import { createAccessTokenSchema } from "@/features/auth/schemas/access-token.schema";
+
+/**
+ * GET /api/auth/tokens
+ * Lists the current user's tokens (newest first, including revoked ones)
+ * Requires: authentication
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const auth = await getAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const tokens = await listAccessTokens(auth.user.id);
+
+    return NextResponse.json({ tokens }, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to list access tokens",
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/auth/tokens
+ * Creates a token; the plain token is only returned in this response
+ * Requires: authentication and a session that satisfies the MFA policy;
+ * scopes must be permissions the user holds ("*" limits the token to all of
+ * the user's current permissions)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await getAuth();
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    if (auth.impersonator) {
+      return createErrorResponse(
+        "FORBIDDEN",
+        "Access tokens cannot be created while impersonating",
+        403
+      );
+    }
+
+    if (await getMfaRequirement(auth.user)) {
+      return createErrorResponse(
+        "MFA_REQUIRED",
+        "Two-factor authentication must be verified to create access tokens",
+        403
+      );
+    }
+
+    const body = await request.json();
+    const validatedInput = createAccessTokenSchema.parse(body);
+
+    const userPermissions = await getUserPermissions(auth.user);
+    const unheldScopes = validatedInput.scopes.filter(
+      (scope) =>
+        scope !== PERMISSIONS.all &&
+        !userPermissions.some((permission) =>
+          matchesPermission(permission, scope)
+        )
+    );
+
+    if (unheldScopes.length > 0) {
+      return createErrorResponse(
+        "VALIDATION_ERROR",
+        `You cannot grant scopes you don't have: ${unheldScopes.join(", ")}`,
+        400
+      );
+    }
+
+    const created = await createAccessToken(auth.user.id, validatedInput);
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "VALIDATION_ERROR",
+          message: "Invalid token data",
+          details: error.errors,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    return createErrorResponse(
+      "INTERNAL_SERVER_ERROR",
+      error instanceof Error ? error.message : "Failed to create access token",
+      500
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Cron route for purging deleted accounts
+ * @module app/api/cron/purge-accounts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { purgeDeletedAccounts } from "@/features/users/lib/account-deletion";
+
+/**
+ * GET /api/cron/purge-accounts
+ * Permanently removes self-deleted accounts whose grace period has ended.
+ * Scheduled in vercel.json; Vercel Cron sends `CRON_SECRET` as a bearer
+ * token. Responds with 500 and the failed accounts if any could not be
+ * removed, so the run shows up as failed.
+ * Requires: `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      {
+        error: "UNAUTHORIZED",
+        message: "Invalid cron secret",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { purged, failed } = await purgeDeletedAccounts();
+
+    if (failed.length > 0) {
+      return NextResponse.json(
+        {
+          error: "PURGE_FAILED",
+          message: `Failed to purge ${failed.length} of ${purged + failed.length} accounts`,
+          purged,
+          failed,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ purged, failed }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to purge accounts",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Cron route for retrying webhook deliveries
+ * @module app/api/cron/webhooks
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { retryDueWebhookDeliveries } from "@/features/webhooks/lib/webhook-delivery";
+
+/**
+ * GET /api/cron/webhooks
+ * Attempts webhook deliveries whose retry is due, and first attempts that
+ * could not run after their request.
+ * Scheduled in vercel.json; Vercel Cron sends `CRON_SECRET` as a bearer
+ * token.
+ * Requires: `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      {
+        error: "UNAUTHORIZED",
+        message: "Invalid cron secret",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await retryDueWebhookDeliveries();
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to retry webhook deliveries",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -10,11 +10,13 @@ import type { NextRequest } from "next/server";
 
 /**
  * GET /api/profiles/[userId]
- * Retrieves limited profile information for another user
+ * Retrieves another user's profile, limited to the fields the viewer may see
+ * under the profile visibility policy (hidden fields are omitted)
  *
  * Requires authentication.
  *
- * Returns 404 for unauthorized access (privacy protection).
+ * Returns 404 if the profile does not exist or shows the viewer nothing
+ * (privacy protection).
  *
  * @param _request - Next.js request object (unused, but required by Next.js route signature)
  * @param params - Route parameters containing userId
@@ -41,8 +43,8 @@ export async function GET(
       );
     }
 
-    // Fetch profile with access control (viewerUserId = current user)
-    const profile = await fetchProfileServer(userId, user.id);
+    // Fetch profile with access control (viewer = current user)
+    const profile = await fetchProfileServer(userId, user);
 
     if (!profile) {
       // Return 404 for privacy protection (not found or access denied)
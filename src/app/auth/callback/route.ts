@@ -1,12 +1,96 @@
 import { createClient } from "@/utils/supabase/server";
 import { createProfile } from "@/lib/auth/profile";
+import {
+  SIGNUP_NOT_ALLOWED_ERROR,
+  checkSignupAllowed,
+  discardRejectedSignup,
+  type SignupDecision,
+} from "@/lib/auth/signup-policy";
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 
+/**
+ * Finishes a sign-in once the session is established
+ * New users (no profile yet) are checked against the sign-up policy: rejected
+ * users are signed out and removed, everyone else gets a profile.
+ *
+ * @param supabase - Server client holding the new session
+ * @param origin - Request origin for redirects
+ * @returns NextResponse redirecting to dashboard or sign-in
+ */
+async function completeSignIn(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  origin: string
+): Promise<NextResponse> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (user) {
+    // Check if profile exists
+    const { error: profileError } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("id", user.id)
+      .single();
+
+    // If profile doesn't exist, this is a sign-up
+    if (profileError && profileError.code === "PGRST116") {
+      let decision: SignupDecision;
+      try {
+        decision = await checkSignupAllowed(user);
+      } catch (policyError) {
+        // Fail closed: without the policy we can't tell if sign-up is allowed
+        console.error("Error checking sign-up policy:", policyError);
+        await supabase.auth.signOut();
+        return NextResponse.redirect(
+          `${origin}/auth/sign-in?error=signup_error`
+        );
+      }
+
+      if (!decision.allowed) {
+        await supabase.auth.signOut();
+        try {
+          await discardRejectedSignup(user.id);
+        } catch (discardError) {
+          // The user stays without a profile and is rejected again next time
+          console.error("Error removing rejected sign-up:", discardError);
+        }
+        return NextResponse.redirect(
+          `${origin}/auth/sign-in?error=${SIGNUP_NOT_ALLOWED_ERROR}&reason=${decision.reason}`
+        );
+      }
+
+      try {
+        // Extract full_name from user metadata (OAuth providers often set this)
+        const fullName =
+          user.user_metadata?.full_name || user.user_metadata?.name || null;
+
+        // Create profile for new user
+        await createProfile({
+          full_name: fullName,
+          avatar_url: user.user_metadata?.avatar_url || null,
+        });
+      } catch (createError) {
+        // Users without a profile are rejected everywhere (see
+        // lib/auth/account-status), so sign them out and let them retry
+        console.error("Error creating profile on sign-up:", createError);
+        await supabase.auth.signOut();
+        return NextResponse.redirect(
+          `${origin}/auth/sign-in?error=signup_error`
+        );
+      }
+    }
+  }
+
+  return NextResponse.redirect(`${origin}/admin/overview`);
+}
+
 /**
  * Auth callback route handler
  * Handles Magic Link and OAuth callbacks from Supabase Auth
- * Automatically creates a profile for new users on sign-up
+ * Automatically creates a profile for new users on sign-up, unless the
+ * sign-up policy rejects them
  *
  * @param request - The incoming Next.js request
  * @returns NextResponse redirecting to dashboard or sign-in
@@ -104,40 +188,18 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       }
     }
 
-    // After successful authentication, check if user needs a profile created
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    return completeSignIn(supabase, requestUrl.origin);
+  }
 
-    if (user) {
-      try {
-        // Check if profile exists
-        const { error: profileError } = await supabase
-          .from("profiles")
-          .select("id")
-          .eq("id", user.id)
-          .single();
-
-        // If profile doesn't exist, create it
-        if (profileError && profileError.code === "PGRST116") {
-          // Extract full_name from user metadata (OAuth providers often set this)
-          const fullName =
-            user.user_metadata?.full_name || user.user_metadata?.name || null;
-
-          // Create profile for new user
-          await createProfile({
-            full_name: fullName,
-            avatar_url: user.user_metadata?.avatar_url || null,
-          });
-        }
-      } catch (profileError) {
-        // Log error but don't block authentication flow
-        // Profile can be created later when user accesses their profile page
-        console.error("Error creating profile on sign-up:", profileError);
-      }
-    }
+  // One-time codes are verified in the browser (see otp-verification-form),
+  // which then comes here so new users go through the same sign-up checks
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
 
-    return NextResponse.redirect(`${requestUrl.origin}/admin/overview`);
+  if (user) {
+    return completeSignIn(supabase, requestUrl.origin);
   }
 
   return NextResponse.redirect(`${requestUrl.origin}/auth/sign-in`);
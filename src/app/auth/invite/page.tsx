@@ -0,0 +1,103 @@
+import { Metadata } from "next";
+import Image from "next/image";
+import type { ReactElement } from "react";
+import { Logo } from "@/components/logo";
+import { getInvitationByToken } from "@/features/invitations/lib/invitation-service";
+import { AcceptInvitationForm } from "@/features/invitations/components/accept-invitation-form";
+
+export const metadata: Metadata = {
+  title: "Accept Invitation - AppName",
+  description: "Join AppName",
+};
+
+/**
+ * Path new users continue to once their account is created
+ */
+const AFTER_ACCEPT_PATH = "/admin/overview";
+
+interface InvitePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Accept invitation page
+ * Opened from the invitation email. Shows who the invitation is for and,
+ * while it is pending, lets the invitee create their account.
+ *
+ * @param props - Page props
+ * @param props.searchParams - URL search parameters containing the invitation token (async in Next.js 15)
+ * @returns Promise resolving to React element containing the accept invitation page
+ */
+export default async function InvitePage({
+  searchParams,
+}: InvitePageProps): Promise<ReactElement> {
+  const { token } = await searchParams;
+  const invitation = token ? await getInvitationByToken(token) : null;
+
+  const unavailableMessage = !invitation
+    ? "This invitation link is invalid. Ask your administrator to send a new one."
+    : invitation.status === "accepted"
+      ? "This invitation has already been accepted. Sign in to continue."
+      : invitation.status === "revoked"
+        ? "This invitation has been revoked."
+        : invitation.status === "expired"
+          ? "This invitation has expired. Ask your administrator to resend it."
+          : null;
+
+  return (
+    <div className="relative h-screen flex-col items-center justify-center md:grid lg:max-w-none lg:grid-cols-2 lg:px-0">
+      {/* Left side - Branding with background image */}
+      <div className="relative hidden h-full flex-col lg:flex">
+        {/* Background image */}
+        <div className="absolute inset-0">
+          <Image
+            src="/login-background.png"
+            alt=""
+            fill
+            className="object-cover object-center"
+            priority
+          />
+          <div className="absolute inset-0 bg-black/20" />
+        </div>
+
+        {/* Logo and branding */}
+        <div className="relative z-20 flex h-full flex-col items-center justify-center">
+          {/* Logo icon */}
+          <div className="mb-8 flex items-center justify-center">
+            <Logo size="large" />
+          </div>
+
+          {/* AppName text */}
+          <h1 className="font-sans text-center text-[61.32px] font-bold leading-none tracking-[-1.2264px] text-white">
+            AppName
+          </h1>
+        </div>
+      </div>
+
+      {/* Right side - Invitation */}
+      <div className="flex h-full items-center justify-center p-4 lg:p-8">
+        <div className="flex w-full max-w-md flex-col justify-center space-y-6">
+          <div className="space-y-2 text-center">
+            <h2 className="text-2xl font-bold tracking-tight">
+              You&apos;re invited
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {unavailableMessage ??
+                `Create your account for ${invitation?.email}${
+                  invitation?.company_name
+                    ? ` and join ${invitation.company_name}`
+                    : ""
+                }.`}
+            </p>
+          </div>
+          {!unavailableMessage && token && (
+            <AcceptInvitationForm
+              token={token}
+              redirectTo={AFTER_ACCEPT_PATH}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { redirect } from "next/navigation";
+import { Metadata } from "next";
+import Image from "next/image";
+import type { ReactElement } from "react";
+import { Logo } from "@/components/logo";
+import { getSessionAuth } from "@/lib/auth/gateways/server";
+import { getAssuranceLevels, isMfaRequired } from "@/lib/auth/mfa";
+import { MfaChallengeForm } from "@/features/auth/components/mfa-challenge-form";
+import { TotpEnrollment } from "@/features/auth/components/totp-enrollment";
+
+export const metadata: Metadata = {
+  title: "Two-Factor Authentication - AppName",
+  description: "Verify your identity with an authenticator app",
+};
+
+/**
+ * Path users continue to once the session is verified
+ */
+const AFTER_MFA_PATH = "/admin/overview";
+
+/**
+ * Two-factor authentication page
+ * Users with an enrolled authenticator verify a code (or redeem a recovery
+ * code); users whose role requires MFA and have none enroll one first.
+ * The role gateways redirect here until the session reaches AAL2.
+ *
+ * @returns Promise resolving to React element containing the MFA page
+ */
+export default async function MfaPage(): Promise<ReactElement> {
+  const auth = await getSessionAuth();
+
+  if (!auth) {
+    redirect("/auth/sign-in");
+  }
+
+  const { currentLevel, nextLevel } = await getAssuranceLevels();
+
+  if (currentLevel === "aal2") {
+    redirect(AFTER_MFA_PATH);
+  }
+
+  const mode = nextLevel === "aal2" ? "verify" : "enroll";
+
+  if (mode === "enroll" && !(await isMfaRequired(auth.user))) {
+    redirect("/admin/profile");
+  }
+
+  return (
+    <div className="relative h-screen flex-col items-center justify-center md:grid lg:max-w-none lg:grid-cols-2 lg:px-0">
+      {/* Left side - Branding with background image */}
+      <div className="relative hidden h-full flex-col lg:flex">
+        {/* Background image */}
+        <div className="absolute inset-0">
+          <Image
+            src="/login-background.png"
+            alt=""
+            fill
+            className="object-cover object-center"
+            priority
+          />
+          <div className="absolute inset-0 bg-black/20" />
+        </div>
+
+        {/* Logo and branding */}
+        <div className="relative z-20 flex h-full flex-col items-center justify-center">
+          {/* Logo icon */}
+          <div className="mb-8 flex items-center justify-center">
+            <Logo size="large" />
+          </div>
+
+          {/* AppName text */}
+          <h1 className="font-sans text-center text-[61.32px] font-bold leading-none tracking-[-1.2264px] text-white">
+            AppName
+          </h1>
+        </div>
+      </div>
+
+      {/* Right side - Verification or enrollment */}
+      <div className="flex h-full items-center justify-center p-4 lg:p-8">
+        <div className="flex w-full max-w-md flex-col justify-center space-y-6">
+          <div className="space-y-2 text-center">
+            <h2 className="text-2xl font-bold tracking-tight">
+              Two-Factor Authentication
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {mode === "verify"
+                ? "Enter the code from your authenticator app to continue."
+                : "Your role requires two-factor authentication. Set up an authenticator app to continue."}
+            </p>
+          </div>
+          {mode === "verify" ? (
+            <MfaChallengeForm redirectTo={AFTER_MFA_PATH} />
+          ) : (
+            <TotpEnrollment redirectTo={AFTER_MFA_PATH} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
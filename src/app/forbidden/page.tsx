@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Forbidden page
+ * @module app/forbidden/page
+ *
+ * Shown when the middleware blocks navigation to a route the signed-in
+ * user does not have permission to access.
+ */
+
+import { type ReactElement } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+export const metadata: Metadata = {
+  title: "Access denied | AppName",
+};
+
+/**
+ * Forbidden (403) page
+ *
+ * @param props - Component props
+ * @param props.searchParams - Search params containing the blocked path (`from`)
+ * @returns React element containing forbidden UI
+ */
+export default async function ForbiddenPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string }>;
+}): Promise<ReactElement> {
+  const { from } = await searchParams;
+
+  return (
+    <div className="absolute top-1/2 left-1/2 mb-16 -translate-x-1/2 -translate-y-1/2 items-center justify-center text-center">
+      <span className="from-foreground bg-linear-to-b to-transparent bg-clip-text text-[10rem] leading-none font-extrabold text-transparent">
+        403
+      </span>
+      <h2 className="font-heading my-2 text-2xl font-bold">Access denied</h2>
+      <p>
+        You don&apos;t have permission to view{" "}
+        {from ? <code className="font-mono">{from}</code> : "this page"}.
+      </p>
+      <p className="text-muted-foreground text-sm">
+        Contact an administrator if you think this is a mistake.
+      </p>
+      <div className="mt-8 flex justify-center gap-2">
+        <Button asChild variant="primary" size="lg">
+          <Link href="/admin">Back to Home</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -101,6 +101,11 @@ export function createKeyboardHandler<T = unknown>(
   const { onNavigate, getRowId } = options;
 
   return (row: T, event: React.KeyboardEvent<HTMLTableRowElement>): void => {
+    // Keys pressed on controls inside the row (e.g. checkboxes) are theirs
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
     if (event.key === "Enter" || event.key === " ") {
       event.preventDefault();
       const rowId = getRowId(row);
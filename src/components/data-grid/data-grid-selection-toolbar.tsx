@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Selection toolbar component for data grid
+ * @module components/data-grid/data-grid-selection-toolbar
+ */
+
+"use client";
+
+import React, { type ReactElement } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for DataGridSelectionToolbar component
+ */
+export interface DataGridSelectionToolbarProps {
+  /** Number of selected rows */
+  selectedCount: number;
+  /** Callback when the selection is cleared */
+  onClearSelection: () => void;
+  /** Additional CSS classes */
+  className?: string;
+  /** Actions for the selected rows */
+  children?: React.ReactNode;
+}
+
+/**
+ * Selection toolbar component for data grid
+ *
+ * Shows how many rows are selected, the actions available for them, and a
+ * button clearing the selection.
+ *
+ * @param props - Component props
+ * @returns React element containing selection toolbar UI
+ */
+export function DataGridSelectionToolbar({
+  selectedCount,
+  onClearSelection,
+  className,
+  children,
+}: DataGridSelectionToolbarProps): ReactElement {
+  return (
+    <div
+      data-slot="data-grid-selection-toolbar"
+      role="toolbar"
+      aria-label="Selected rows"
+      className={cn(
+        "flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2",
+        className
+      )}
+    >
+      <p className="text-sm font-medium">{selectedCount} selected</p>
+      <div className="flex flex-1 flex-wrap items-center gap-2">{children}</div>
+      <Button variant="ghost" size="sm" onClick={onClearSelection}>
+        <X />
+        Clear selection
+      </Button>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import {
   flexRender,
   type ColumnSizingState,
   type ColumnDef,
+  type Row,
+  type RowSelectionState,
+  type Table as TanStackTable,
 } from "@tanstack/react-table";
 import {
   DndContext,
@@ -35,11 +38,13 @@ import {
   TableHead,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import type { DataGridProps } from "./types";
 import { DataGridSortableHeader } from "./data-grid-sortable-header";
 import { DataGridEmptyState } from "./data-grid-empty-state";
+import { DataGridSelectionToolbar } from "./data-grid-selection-toolbar";
 import {
   createDragEndHandler,
   createRowClickHandler,
@@ -48,6 +53,16 @@ import {
 } from "./data-grid-handlers";
 import { useColumnSizingState } from "./data-grid-state";
 
+/**
+ * ID of the row selection column (excluded from column management)
+ */
+const SELECTION_COLUMN_ID = "select";
+
+/**
+ * Width of the row selection column in pixels
+ */
+const SELECTION_COLUMN_SIZE = 50;
+
 /**
  * Default empty table row component
  */
@@ -199,6 +214,7 @@ export function DataGrid<T = Record<string, unknown>>({
   enableColumnReordering = false,
   enableColumnVisibility = false,
   enableSorting: _enableSorting = true,
+  enableRowSelection = false,
   defaultColumnOrder,
   defaultColumnVisibility,
   sort: _sort,
@@ -206,6 +222,7 @@ export function DataGrid<T = Record<string, unknown>>({
   onSortChange: _onSortChange,
   getSortColumn: _getSortColumn,
   renderSortIndicator: _renderSortIndicator,
+  renderSelectionActions,
   // Column management hooks (optional, can be passed from parent)
   columnOrder: externalColumnOrder,
   setColumnOrder: externalSetColumnOrder,
@@ -297,6 +314,81 @@ export function DataGrid<T = Record<string, unknown>>({
     return columns.filter((col) => getColumnId(col) !== "actions");
   }, [columns, getColumnId]);
 
+  // Row selection state, keyed by row ID
+  const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({});
+  // Index of the last row toggled, the anchor of shift-click ranges
+  const selectionAnchorRef = React.useRef<number | null>(null);
+
+  /**
+   * Toggles a row's selection; with shift held, every row between the
+   * anchor and this row takes the row's new state
+   */
+  const handleSelectRow = useCallback(
+    (table: TanStackTable<T>, row: Row<T>, isRange: boolean) => {
+      const selected = !row.getIsSelected();
+      const anchor = selectionAnchorRef.current;
+
+      if (isRange && anchor !== null) {
+        const start = Math.min(anchor, row.index);
+        const end = Math.max(anchor, row.index);
+        const rangeRows = table.getRowModel().rows.slice(start, end + 1);
+        table.setRowSelection((prev) => {
+          const next = { ...prev };
+          rangeRows.forEach((rangeRow) => {
+            if (selected) {
+              next[rangeRow.id] = true;
+            } else {
+              delete next[rangeRow.id];
+            }
+          });
+          return next;
+        });
+      } else {
+        row.toggleSelected(selected);
+      }
+
+      selectionAnchorRef.current = row.index;
+    },
+    []
+  );
+
+  // Checkbox column for row selection (always first when enabled)
+  const selectionColumn = useMemo<ColumnDef<T> | null>(() => {
+    if (!enableRowSelection) return null;
+    return {
+      id: SELECTION_COLUMN_ID,
+      size: SELECTION_COLUMN_SIZE,
+      minSize: SELECTION_COLUMN_SIZE,
+      maxSize: SELECTION_COLUMN_SIZE,
+      enableResizing: false,
+      header: ({ table }) => (
+        <Checkbox
+          size="sm"
+          checked={
+            table.getIsAllRowsSelected()
+              ? true
+              : table.getIsSomeRowsSelected()
+                ? "indeterminate"
+                : false
+          }
+          onCheckedChange={(checked) => {
+            table.toggleAllRowsSelected(checked === true);
+            selectionAnchorRef.current = null;
+          }}
+          aria-label="Select all rows"
+        />
+      ),
+      cell: ({ row, table }) => (
+        <Checkbox
+          size="sm"
+          checked={row.getIsSelected()}
+          onClick={(event) => handleSelectRow(table, row, event.shiftKey)}
+          aria-label={`Select row ${row.id}`}
+        />
+      ),
+    };
+  }, [enableRowSelection, handleSelectRow]);
+
   // Filter columns based on visibility and order (only if column management is enabled)
   // If features are disabled, use columns directly
   // Calculate visible columns early for skeleton matching
@@ -326,13 +418,19 @@ export function DataGrid<T = Record<string, unknown>>({
 
     // Always prepend actions column at the beginning if it exists
     if (actionsColumn) {
-      return [actionsColumn, ...orderedColumns];
+      orderedColumns = [actionsColumn, ...orderedColumns];
+    }
+
+    // Selection column goes before everything else
+    if (selectionColumn) {
+      orderedColumns = [selectionColumn, ...orderedColumns];
     }
 
     return orderedColumns;
   }, [
     regularColumns,
     actionsColumn,
+    selectionColumn,
     columnOrder,
     columnVisibility,
     getColumnId,
@@ -423,10 +521,14 @@ export function DataGrid<T = Record<string, unknown>>({
     columns: visibleColumns,
     getCoreRowModel: getCoreRowModel(),
     manualSorting: true, // We handle sorting server-side
+    getRowId: (row) => getRowId(row),
     state: {
       ...(enableColumnResizing ? { columnSizing } : {}),
       columnVisibility,
+      rowSelection,
     },
+    enableRowSelection,
+    onRowSelectionChange: setRowSelection,
     ...(enableColumnResizing
       ? { onColumnSizingChange: handleColumnSizingChange }
       : {}),
@@ -439,6 +541,15 @@ export function DataGrid<T = Record<string, unknown>>({
     },
   });
 
+  const selectedRows = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original);
+
+  const clearSelection = (): void => {
+    table.resetRowSelection(true);
+    selectionAnchorRef.current = null;
+  };
+
   // Loading state
   if (isLoading && data.length === 0) {
     if (loadingState) {
@@ -516,24 +627,28 @@ export function DataGrid<T = Record<string, unknown>>({
               {enableColumnReordering ? (
                 <SortableContext
                   items={headerGroup.headers
-                    .filter((h) => h.column.id !== "actions") // Exclude actions from DnD
+                    .filter(
+                      (h) =>
+                        h.column.id !== "actions" &&
+                        h.column.id !== SELECTION_COLUMN_ID
+                    ) // Exclude actions and selection from DnD
                     .map((h) => h.column.id)}
                   strategy={horizontalListSortingStrategy}
                 >
                   {headerGroup.headers.map((header) => {
-                    // Actions column is not draggable
-                    const isActionsColumn = header.column.id === "actions";
+                    // Actions and selection columns are not draggable
+                    const isFixedColumn =
+                      header.column.id === "actions" ||
+                      header.column.id === SELECTION_COLUMN_ID;
                     return (
                       <DataGridSortableHeader
                         key={header.id}
                         header={header}
                         table={table}
                         enableReordering={
-                          enableColumnReordering && !isActionsColumn
-                        }
-                        enableResizing={
-                          enableColumnResizing && !isActionsColumn
+                          enableColumnReordering && !isFixedColumn
                         }
+                        enableResizing={enableColumnResizing && !isFixedColumn}
                       >
                         {header.isPlaceholder
                           ? null
@@ -552,7 +667,10 @@ export function DataGrid<T = Record<string, unknown>>({
                     header={header}
                     table={table}
                     enableReordering={false}
-                    enableResizing={enableColumnResizing}
+                    enableResizing={
+                      enableColumnResizing &&
+                      header.column.id !== SELECTION_COLUMN_ID
+                    }
                   >
                     {header.isPlaceholder
                       ? null
@@ -638,6 +756,17 @@ export function DataGrid<T = Record<string, unknown>>({
         className ?? ""
       )}
     >
+      {/* Actions for the selected rows */}
+      {enableRowSelection && selectedRows.length > 0 && (
+        <DataGridSelectionToolbar
+          selectedCount={selectedRows.length}
+          onClearSelection={clearSelection}
+          className="mb-2 flex-shrink-0"
+        >
+          {renderSelectionActions?.(selectedRows, clearSelection)}
+        </DataGridSelectionToolbar>
+      )}
+
       {/* Table with optional DnD context */}
       <div className="flex-1 min-h-0 min-w-0 w-full max-w-full overflow-hidden">
         {enableColumnReordering ? (
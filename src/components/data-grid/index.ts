@@ -7,6 +7,10 @@ export { DataGrid } from "./data-grid";
 export { DataGridColumnVisibility } from "./data-grid-column-visibility";
 export { DataGridSortableHeader } from "./data-grid-sortable-header";
 export { DataGridEmptyState } from "./data-grid-empty-state";
+export {
+  DataGridSelectionToolbar,
+  type DataGridSelectionToolbarProps,
+} from "./data-grid-selection-toolbar";
 export {
   DataGridRowActions,
   type DataGridRowActionsProps,
@@ -128,6 +128,8 @@ export interface DataGridFeatures {
   enableColumnVisibility?: boolean;
   /** Enable column sorting */
   enableSorting?: boolean;
+  /** Enable row selection with checkboxes (shift-click selects a range) */
+  enableRowSelection?: boolean;
 }
 
 /**
@@ -176,4 +178,12 @@ export interface DataGridProps<T> extends DataGridFeatures {
   getSortColumn?: (columnId: string) => SortColumn | null;
   /** Render sort indicator function (only if enableSorting is true) */
   renderSortIndicator?: (columnId: string) => React.ReactNode;
+  /**
+   * Render actions for the selected rows, shown in the selection toolbar
+   * (only if enableRowSelection is true)
+   */
+  renderSelectionActions?: (
+    selectedRows: T[],
+    clearSelection: () => void
+  ) => React.ReactNode;
 }
@@ -38,6 +38,7 @@ import {
   RiRefreshFill,
   RiDraggable,
   RiFilterLine,
+  RiShieldUserLine,
 } from "@remixicon/react";
 
 export type Icon = React.ComponentType<{
@@ -67,6 +68,7 @@ export const Icons = {
   settings: RiSettingsLine,
   billing: RiBankCardLine,
   building: RiBuildingLine,
+  shield: RiShieldUserLine,
   ellipsis: RiMoreFill,
   ellipsisVertical: RiMore2Fill,
   add: RiAddLine,
@@ -31,6 +31,9 @@ import { UserAvatarProfile } from "@/components/user-avatar-profile";
 import { navItems } from "@/constants/data";
 import { useMediaQuery } from "@/hooks/use-media-query";
 import { createClient } from "@/utils/supabase/client";
+import { hasMinRole } from "@/lib/auth/roles";
+import { usePermissions } from "@/lib/auth/gateways/client";
+import { matchesPermission } from "@/lib/auth/permissions";
 import {
   RiNotificationLine,
   RiArrowRightSLine,
@@ -80,6 +83,17 @@ export default function AppSidebar() {
     // Side effects based on sidebar state changes
   }, [isOpen]);
 
+  const permissions = usePermissions();
+
+  // Hide items the current user's role or permissions cannot reach
+  const visibleNavItems = navItems.filter(({ minRole, permission }) => {
+    if (minRole && !hasMinRole(user, minRole)) return false;
+    if (!permission) return true;
+    return permissions.some((granted) =>
+      matchesPermission(granted, permission)
+    );
+  });
+
   return (
     <Sidebar collapsible="icon">
       <SidebarHeader className="border-b border-sidebar-border p-2">
@@ -95,7 +109,7 @@ export default function AppSidebar() {
       <SidebarContent className="overflow-x-hidden">
         <SidebarGroup>
           <SidebarMenu>
-            {navItems.map((item) => {
+            {visibleNavItems.map((item) => {
               const Icon = item.icon ? Icons[item.icon] : Icons.logo;
               // Check if pathname matches or starts with item.url for nested routes
               const isActive =
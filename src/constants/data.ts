@@ -32,6 +32,28 @@ export const navItems: NavItem[] = [
       },
     ],
   },
+  {
+    title: "Roles",
+    url: "/admin/roles",
+    icon: "shield",
+    minRole: "superadmin",
+    items: [
+      {
+        title: "All Roles",
+        url: "/admin/roles",
+      },
+      {
+        title: "Create Role",
+        url: "/admin/roles/new",
+      },
+    ],
+  },
+  {
+    title: "Settings",
+    url: "/admin/settings",
+    icon: "settings",
+    permission: "settings.system",
+  },
 ];
 
 export interface SaleUser {
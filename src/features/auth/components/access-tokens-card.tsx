@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Personal access token management for the profile page
+ * @module features/auth/components/access-tokens-card
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import { KeyRound, Plus } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+  CardToolbar,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useAccessTokens,
+  useRevokeAccessToken,
+} from "../hooks/use-access-tokens";
+import type { AccessToken } from "../schemas/access-token.schema";
+import { CreateAccessTokenDialog } from "./create-access-token-dialog";
+
+/**
+ * Formats an ISO timestamp as a short date
+ *
+ * @param value - ISO timestamp
+ * @returns Localized date (e.g. "Oct 19, 2026")
+ */
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Returns the display status of a token
+ *
+ * @param token - Access token
+ * @returns Status label
+ */
+function getTokenStatus(token: AccessToken): "Active" | "Expired" | "Revoked" {
+  if (token.revoked_at) return "Revoked";
+  if (new Date(token.expires_at) <= new Date()) return "Expired";
+  return "Active";
+}
+
+/**
+ * Personal access token management card
+ *
+ * Lists the user's tokens with their scopes, expiry and last use, and lets
+ * the user create new tokens or revoke active ones.
+ *
+ * @returns React element containing the access tokens card
+ */
+export function AccessTokensCard(): ReactElement {
+  const { data: tokens = [], isLoading, isError, error } = useAccessTokens();
+  const revokeToken = useRevokeAccessToken();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [tokenToRevoke, setTokenToRevoke] = useState<AccessToken | null>(null);
+
+  const handleRevoke = (): void => {
+    if (!tokenToRevoke) return;
+
+    revokeToken.mutate(tokenToRevoke.id, {
+      onSuccess: () => {
+        toast.success(`Token "${tokenToRevoke.name}" revoked`);
+        setTokenToRevoke(null);
+      },
+      onError: (revokeError) => {
+        toast.error("Failed to revoke token", {
+          description: revokeError.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="size-4" />
+            Access Tokens
+          </CardTitle>
+          <CardDescription>
+            Personal access tokens let scripts call the API as you. Send them as{" "}
+            <code>Authorization: Bearer &lt;token&gt;</code>.
+          </CardDescription>
+        </CardHeading>
+        <CardToolbar>
+          <Button size="sm" onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus />
+            New Token
+          </Button>
+        </CardToolbar>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tokens...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You don&apos;t have any access tokens yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => {
+                const status = getTokenStatus(token);
+                return (
+                  <TableRow key={token.id}>
+                    <TableCell>
+                      <div className="font-medium">{token.name}</div>
+                      <code className="text-xs text-muted-foreground">
+                        {token.token_prefix}…
+                      </code>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex max-w-64 flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" size="sm">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatDate(token.expires_at)}</TableCell>
+                    <TableCell>
+                      {token.last_used_at
+                        ? formatDate(token.last_used_at)
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={status === "Active" ? "success" : "outline"}
+                        size="sm"
+                      >
+                        {status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {status === "Active" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setTokenToRevoke(token)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CreateAccessTokenDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+      />
+
+      <AlertDialog
+        open={tokenToRevoke !== null}
+        onOpenChange={(open) => !open && setTokenToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Token</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using <strong>{tokenToRevoke?.name}</strong> will be
+              rejected immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revokeToken.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              disabled={revokeToken.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {revokeToken.isPending ? "Revoking..." : "Revoke Token"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Data export and account deletion for the profile page
+ * @module features/auth/components/account-data-card
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Download, Trash2, UserCog } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createClient } from "@/utils/supabase/client";
+import { useDeleteAccount, useExportAccountData } from "../hooks/use-account";
+import type { AccountExportFormat } from "../schemas/account.schema";
+import { ReauthenticationDialog } from "./reauthentication-dialog";
+
+/**
+ * Props for AccountDataCard component
+ */
+export interface AccountDataCardProps {
+  /** Days a deleted account is kept before it is permanently removed */
+  deletionGraceDays: number;
+  /** Whether the user may delete their account (superadmins may not) */
+  canDelete: boolean;
+}
+
+/**
+ * Your data card
+ *
+ * Lets the user download everything stored about them and delete their
+ * account. Both actions are confirmed with a code emailed to the user.
+ *
+ * @param props - Component props
+ * @returns React element containing the account data card
+ */
+export function AccountDataCard({
+  deletionGraceDays,
+  canDelete,
+}: AccountDataCardProps): ReactElement {
+  const router = useRouter();
+  const exportData = useExportAccountData();
+  const deleteAccount = useDeleteAccount();
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [format, setFormat] = useState<AccountExportFormat>("zip");
+
+  const handleExportDialogChange = (open: boolean): void => {
+    if (!open) {
+      exportData.reset();
+      setFormat("zip");
+    }
+    setIsExportDialogOpen(open);
+  };
+
+  const handleDeleteDialogChange = (open: boolean): void => {
+    if (!open) {
+      deleteAccount.reset();
+    }
+    setIsDeleteDialogOpen(open);
+  };
+
+  const handleExport = (code: string): void => {
+    exportData.mutate(
+      { code, format },
+      {
+        onSuccess: () => {
+          toast.success("Your data export has been downloaded");
+          handleExportDialogChange(false);
+        },
+      }
+    );
+  };
+
+  const handleDelete = (code: string): void => {
+    deleteAccount.mutate(
+      { code },
+      {
+        onSuccess: async () => {
+          await createClient().auth.signOut({ scope: "local" });
+          router.push("/auth/sign-in");
+          router.refresh();
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <UserCog className="size-4" />
+            Your Data
+          </CardTitle>
+          <CardDescription>
+            Download a copy of your data or delete your account.
+          </CardDescription>
+        </CardHeading>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium">Export your data</p>
+            <p className="text-sm text-muted-foreground">
+              Your profile, company, uploaded avatars and account activity.
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsExportDialogOpen(true)}
+          >
+            <Download />
+            Export
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-t pt-4">
+          <div>
+            <p className="text-sm font-medium">Delete my account</p>
+            <p className="text-sm text-muted-foreground">
+              {canDelete
+                ? `You are signed out right away and your data is permanently removed after ${deletionGraceDays} days.`
+                : "Superadmin accounts can only be removed by another superadmin."}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => setIsDeleteDialogOpen(true)}
+            disabled={!canDelete}
+          >
+            <Trash2 />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+
+      <ReauthenticationDialog
+        open={isExportDialogOpen}
+        onOpenChange={handleExportDialogChange}
+        title="Export Your Data"
+        description="Download everything stored about your account."
+        confirmLabel="Download"
+        pendingLabel="Preparing..."
+        isPending={exportData.isPending}
+        error={exportData.error?.message ?? null}
+        onConfirm={handleExport}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="account-export-format">Format</Label>
+          <Select
+            value={format}
+            onValueChange={(value) => setFormat(value as AccountExportFormat)}
+          >
+            <SelectTrigger id="account-export-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="zip">ZIP (data and avatar files)</SelectItem>
+              <SelectItem value="json">JSON (data only)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </ReauthenticationDialog>
+
+      <ReauthenticationDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={handleDeleteDialogChange}
+        title="Delete My Account"
+        description={`Your account is deactivated and you are signed out everywhere. After ${deletionGraceDays} days your profile and data are permanently removed. Until then an administrator can restore it.`}
+        confirmLabel="Delete My Account"
+        pendingLabel="Deleting..."
+        destructive
+        isPending={deleteAccount.isPending || deleteAccount.isSuccess}
+        error={deleteAccount.error?.message ?? null}
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+}
@@ -2,17 +2,23 @@
 
 import { useEffect, useState, type ReactElement } from "react";
 import { useSearchParams } from "next/navigation";
+import {
+  SIGNUP_REJECTION_MESSAGES,
+  signupRejectionReasonSchema,
+} from "../schemas/signup-policy.schema";
 
 /**
  * Maps error codes to user-friendly messages
  *
  * @param errorCode - Error code from URL query parameter
  * @param errorMessage - Optional detailed error message
+ * @param reason - Optional rejection reason for refused sign-ups
  * @returns User-friendly error message
  */
 function getErrorMessage(
   errorCode: string | null,
-  errorMessage: string | null
+  errorMessage: string | null,
+  reason: string | null
 ): string | null {
   if (!errorCode) {
     return null;
@@ -28,6 +34,14 @@ function getErrorMessage(
       return "Unable to sign in with Google. Please try again or use email sign-in.";
     case "invalid_link":
       return "This sign-in link is invalid or has expired. Please request a new one.";
+    case "signup_not_allowed": {
+      const parsedReason = signupRejectionReasonSchema.safeParse(reason);
+      return parsedReason.success
+        ? SIGNUP_REJECTION_MESSAGES[parsedReason.data]
+        : "Sign-up is not available for this email address.";
+    }
+    case "signup_error":
+      return "We couldn't complete your sign-up. Please try again later.";
     default:
       return "An error occurred during sign-in. Please try again.";
   }
@@ -46,7 +60,8 @@ export function AuthErrorMessage(): ReactElement | null {
   useEffect(() => {
     const errorCode = searchParams.get("error");
     const errorMessage = searchParams.get("message");
-    setError(getErrorMessage(errorCode, errorMessage));
+    const reason = searchParams.get("reason");
+    setError(getErrorMessage(errorCode, errorMessage, reason));
   }, [searchParams]);
 
   if (!error) {
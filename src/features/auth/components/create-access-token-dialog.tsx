@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Dialog for creating a personal access token
+ * @module features/auth/components/create-access-token-dialog
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePermissions } from "@/lib/auth/gateways/client";
+import {
+  ALL_PERMISSIONS,
+  PERMISSIONS,
+  matchesPermission,
+  type Permission,
+} from "@/lib/auth/permissions";
+import { useCreateAccessToken } from "../hooks/use-access-tokens";
+import { ACCESS_TOKEN_EXPIRATION_DAYS } from "../schemas/access-token.schema";
+
+/**
+ * Props for CreateAccessTokenDialog component
+ */
+export interface CreateAccessTokenDialogProps {
+  /** Whether dialog is open */
+  open: boolean;
+  /** Handler for open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for creating a personal access token
+ *
+ * Scopes can be picked from the permissions the user currently holds, or
+ * "All my permissions" (*). After creation the plain token is shown once.
+ *
+ * @param props - Component props
+ * @returns React element containing the create token dialog
+ */
+export function CreateAccessTokenDialog({
+  open,
+  onOpenChange,
+}: CreateAccessTokenDialogProps): ReactElement {
+  const permissions = usePermissions();
+  const createToken = useCreateAccessToken();
+  const [name, setName] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState<number>(30);
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const heldPermissions = ALL_PERMISSIONS.filter((permission) =>
+    permissions.some((granted) => matchesPermission(granted, permission))
+  );
+  const allScopes = scopes.includes(PERMISSIONS.all);
+
+  const reset = (): void => {
+    setName("");
+    setExpiresInDays(30);
+    setScopes([]);
+    setCreatedToken(null);
+    createToken.reset();
+  };
+
+  const handleOpenChange = (nextOpen: boolean): void => {
+    if (!nextOpen) {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const toggleScope = (scope: Permission, checked: boolean): void => {
+    if (scope === PERMISSIONS.all) {
+      setScopes(checked ? [PERMISSIONS.all] : []);
+      return;
+    }
+    setScopes((current) =>
+      checked
+        ? [...current, scope]
+        : current.filter((existing) => existing !== scope)
+    );
+  };
+
+  const handleCreate = (): void => {
+    createToken.mutate(
+      { name, scopes, expires_in_days: expiresInDays },
+      {
+        onSuccess: ({ token }) => setCreatedToken(token),
+      }
+    );
+  };
+
+  const handleCopy = async (): Promise<void> => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast.success("Token copied to clipboard");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {createdToken ? "Token Created" : "New Access Token"}
+          </DialogTitle>
+          <DialogDescription>
+            {createdToken
+              ? "Copy the token now. It will not be shown again."
+              : "Tokens authenticate API requests as you, limited to the selected scopes."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdToken ? (
+          <div className="flex items-center gap-2">
+            <Input
+              readOnly
+              value={createdToken}
+              className="font-mono text-xs"
+              aria-label="Access token"
+              onFocus={(event) => event.target.select()}
+            />
+            <Button variant="outline" size="icon" onClick={handleCopy}>
+              <Copy className="size-4" />
+              <span className="sr-only">Copy token</span>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="access-token-name">Name</Label>
+              <Input
+                id="access-token-name"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Nightly sync script"
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="access-token-expiration">Expiration</Label>
+              <Select
+                value={String(expiresInDays)}
+                onValueChange={(value) => setExpiresInDays(Number(value))}
+              >
+                <SelectTrigger id="access-token-expiration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCESS_TOKEN_EXPIRATION_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Scopes</legend>
+              <div className="flex items-center gap-3 rounded-md border p-3">
+                <Checkbox
+                  id="access-token-scope-all"
+                  checked={allScopes}
+                  onCheckedChange={(checked) =>
+                    toggleScope(PERMISSIONS.all, checked === true)
+                  }
+                />
+                <Label htmlFor="access-token-scope-all">
+                  All my permissions
+                </Label>
+              </div>
+              <div className="grid max-h-56 gap-2 overflow-y-auto rounded-md border p-3 sm:grid-cols-2">
+                {heldPermissions.map((permission) => {
+                  const id = `access-token-scope-${permission}`;
+                  return (
+                    <div key={permission} className="flex items-center gap-2">
+                      <Checkbox
+                        id={id}
+                        size="sm"
+                        checked={allScopes || scopes.includes(permission)}
+                        onCheckedChange={(checked) =>
+                          toggleScope(permission, checked === true)
+                        }
+                        disabled={allScopes}
+                      />
+                      <Label htmlFor={id} className="font-mono text-xs">
+                        {permission}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </fieldset>
+
+            {createToken.isError && (
+              <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                {createToken.error.message}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {createdToken ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={createToken.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={
+                  createToken.isPending ||
+                  name.trim().length === 0 ||
+                  scopes.length === 0
+                }
+              >
+                {createToken.isPending ? "Creating..." : "Create Token"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useStopImpersonation } from "../hooks/use-impersonation";
+
+/**
+ * Props for ImpersonationBanner component
+ */
+interface ImpersonationBannerProps {
+  /** Display name or email of the impersonated user */
+  targetLabel: string;
+  /** Whether the session allows changes */
+  allowMutations: boolean;
+}
+
+/**
+ * Persistent banner shown while a superadmin is impersonating a user
+ * Exiting ends the session and re-renders the app as the signed-in user.
+ *
+ * @param props - Component props
+ * @returns React element containing the banner
+ */
+export function ImpersonationBanner({
+  targetLabel,
+  allowMutations,
+}: ImpersonationBannerProps): React.JSX.Element {
+  const router = useRouter();
+  const stopImpersonation = useStopImpersonation();
+
+  const handleExit = async (): Promise<void> => {
+    try {
+      await stopImpersonation.mutateAsync();
+      router.push("/admin/users");
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to stop impersonation"
+      );
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="bg-amber-500 text-amber-950 flex items-center justify-between gap-4 px-4 py-2 text-sm"
+    >
+      <div className="flex min-w-0 items-center gap-2">
+        <Eye className="size-4 shrink-0" />
+        <span className="truncate">
+          Viewing as <strong>{targetLabel}</strong>
+          {allowMutations ? " (changes allowed)" : " (read-only)"}
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleExit}
+        disabled={stopImpersonation.isPending}
+        className="shrink-0 bg-transparent border-amber-950/40 hover:bg-amber-400"
+      >
+        {stopImpersonation.isPending ? "Exiting..." : "Exit"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Two-factor authentication settings for the profile page
+ * @module features/auth/components/mfa-card
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ShieldCheck } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+  CardToolbar,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useDisableMfa,
+  useGenerateRecoveryCodes,
+  useMfaStatus,
+  useTotpFactors,
+} from "../hooks/use-mfa";
+import { RecoveryCodesList } from "./recovery-codes-list";
+import { TotpEnrollment } from "./totp-enrollment";
+
+/**
+ * Path of the second-factor verification page
+ */
+const MFA_PATH = "/auth/mfa";
+
+/**
+ * Two-factor authentication card
+ *
+ * Lets the user set up an authenticator app, regenerate recovery codes and
+ * remove the authenticator. Users whose role requires MFA are told so.
+ * Regenerating codes and removing the authenticator need a session verified
+ * with the authenticator.
+ *
+ * @returns React element containing the two-factor authentication card
+ */
+export function MfaCard(): ReactElement {
+  const { data: status, isLoading: isStatusLoading } = useMfaStatus();
+  const {
+    data: factors = [],
+    isLoading: isFactorsLoading,
+    isError,
+    error,
+  } = useTotpFactors();
+  const generateCodes = useGenerateRecoveryCodes();
+  const disableMfa = useDisableMfa();
+  const [isEnrollDialogOpen, setIsEnrollDialogOpen] = useState(false);
+  const [isRemoveDialogOpen, setIsRemoveDialogOpen] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const factor = factors[0];
+  const isVerified = status?.current_level === "aal2";
+
+  const handleRegenerateCodes = (): void => {
+    generateCodes.mutate(undefined, {
+      onSuccess: ({ codes }) => setRecoveryCodes(codes),
+      onError: (generateError) => {
+        toast.error("Failed to generate recovery codes", {
+          description: generateError.message,
+        });
+      },
+    });
+  };
+
+  const handleRemove = (): void => {
+    disableMfa.mutate(undefined, {
+      onSuccess: () => {
+        setIsRemoveDialogOpen(false);
+        toast.success("Authenticator removed");
+      },
+      onError: (removeError) => {
+        toast.error("Failed to remove authenticator", {
+          description: removeError.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="size-4" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            Protect your account with a code from an authenticator app.
+            {status?.required &&
+              " Your role requires two-factor authentication."}
+          </CardDescription>
+        </CardHeading>
+        {!isFactorsLoading && !factor && (
+          <CardToolbar>
+            <Button size="sm" onClick={() => setIsEnrollDialogOpen(true)}>
+              Set Up
+            </Button>
+          </CardToolbar>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isFactorsLoading || isStatusLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : !factor ? (
+          <p className="text-sm text-muted-foreground">
+            No authenticator is set up.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="success" size="sm">
+                Enabled
+              </Badge>
+              <span className="text-muted-foreground">
+                {status?.recovery_codes_remaining ?? 0} recovery code
+                {status?.recovery_codes_remaining === 1 ? "" : "s"} left
+              </span>
+            </div>
+            {isVerified ? (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleRegenerateCodes}
+                  disabled={generateCodes.isPending}
+                >
+                  {generateCodes.isPending
+                    ? "Generating..."
+                    : "Regenerate Recovery Codes"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsRemoveDialogOpen(true)}
+                >
+                  Remove Authenticator
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                <Link href={MFA_PATH} className="underline">
+                  Verify this session
+                </Link>{" "}
+                with your authenticator to manage two-factor authentication.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isEnrollDialogOpen} onOpenChange={setIsEnrollDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Up Authenticator</DialogTitle>
+            <DialogDescription>
+              You will be asked for a code from this app when you sign in.
+            </DialogDescription>
+          </DialogHeader>
+          {isEnrollDialogOpen && (
+            <TotpEnrollment onComplete={() => setIsEnrollDialogOpen(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={recoveryCodes !== null}
+        onOpenChange={(open) => !open && setRecoveryCodes(null)}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Your previous recovery codes no longer work.
+            </DialogDescription>
+          </DialogHeader>
+          {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={isRemoveDialogOpen}
+        onOpenChange={setIsRemoveDialogOpen}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Authenticator</AlertDialogTitle>
+            <AlertDialogDescription>
+              {status?.required
+                ? "Your role requires two-factor authentication, so you will have to set up a new authenticator before you can use admin pages again."
+                : "You will no longer be asked for a code when you sign in. Your recovery codes will stop working."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={disableMfa.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              disabled={disableMfa.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {disableMfa.isPending ? "Removing..." : "Remove Authenticator"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Second-factor verification form
+ * @module features/auth/components/mfa-challenge-form
+ */
+
+"use client";
+
+import { type ReactElement, type FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useRedeemRecoveryCode,
+  useTotpFactors,
+  useVerifyTotp,
+} from "../hooks/use-mfa";
+import { totpCodeSchema } from "../schemas/mfa.schema";
+
+/**
+ * Props for MfaChallengeForm component
+ */
+export interface MfaChallengeFormProps {
+  /** Path to navigate to once the session is verified */
+  redirectTo: string;
+}
+
+/**
+ * Second-factor verification form
+ *
+ * Verifies a code from the user's authenticator app, upgrading the session
+ * to AAL2. Users who lost their authenticator can redeem a recovery code
+ * instead, which removes their factors so they can enroll again.
+ *
+ * @param props - Component props
+ * @returns React element containing the verification form
+ */
+export function MfaChallengeForm({
+  redirectTo,
+}: MfaChallengeFormProps): ReactElement {
+  const router = useRouter();
+  const { data: factors = [], isLoading } = useTotpFactors();
+  const verify = useVerifyTotp();
+  const redeem = useRedeemRecoveryCode();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const factor = factors[0];
+  const isPending = verify.isPending || redeem.isPending;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    try {
+      if (useRecoveryCode) {
+        await redeem.mutateAsync(code);
+        // The page now offers enrollment of a new authenticator
+        router.refresh();
+        return;
+      }
+
+      const result = totpCodeSchema.safeParse(code);
+      if (!result.success) {
+        setError(result.error.errors[0]?.message ?? "Invalid code");
+        return;
+      }
+
+      if (!factor) {
+        setError("No authenticator is set up for this account");
+        return;
+      }
+
+      await verify.mutateAsync({ factorId: factor.id, code: result.data });
+      router.push(redirectTo);
+      router.refresh();
+    } catch (submitError) {
+      setCode("");
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "Failed to verify code"
+      );
+    }
+  };
+
+  const toggleRecoveryCode = (): void => {
+    setUseRecoveryCode((current) => !current);
+    setCode("");
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+      {error && (
+        <div className="text-sm text-destructive" role="alert">
+          {error}
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="mfa-code">
+          {useRecoveryCode ? "Recovery code" : "Authenticator code"}
+        </Label>
+        {useRecoveryCode ? (
+          <Input
+            id="mfa-code"
+            autoComplete="off"
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            className="font-mono"
+            disabled={isPending}
+          />
+        ) : (
+          <Input
+            id="mfa-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(event) =>
+              setCode(event.target.value.replace(/\D/g, "").slice(0, 6))
+            }
+            className="text-center text-2xl tracking-widest"
+            disabled={isPending || isLoading}
+          />
+        )}
+        <p className="text-xs text-muted-foreground">
+          {useRecoveryCode
+            ? "Redeeming a recovery code removes your authenticator so you can set up a new one."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={
+          isPending || (useRecoveryCode ? !code.trim() : code.length !== 6)
+        }
+      >
+        {isPending ? "Verifying..." : "Verify"}
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full"
+        onClick={toggleRecoveryCode}
+        disabled={isPending}
+      >
+        {useRecoveryCode
+          ? "Use your authenticator app instead"
+          : "Lost your authenticator? Use a recovery code"}
+      </Button>
+    </form>
+  );
+}
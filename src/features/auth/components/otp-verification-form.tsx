@@ -1,8 +1,6 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import { useRouter } from "next/navigation";
-import { createClient } from "@/utils/supabase/client";
 import { otpVerificationSchema } from "../schemas/auth.schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,29 +11,24 @@ interface OtpVerificationFormProps {
 }
 
 /**
- * Maps Supabase OTP verification errors to user-friendly messages
+ * Reads the error message of a failed API response
  *
- * @param error - Supabase error object
+ * @param response - Failed response from /api/auth/otp/verify
  * @returns User-friendly error message
  */
-function getOtpErrorMessage(error: {
-  message?: string;
-  status?: number | undefined;
-}): string {
-  const message = error.message?.toLowerCase() || "";
+async function getOtpErrorMessage(response: Response): Promise<string> {
+  const body = (await response.json().catch(() => null)) as {
+    message?: string;
+  } | null;
 
+  // 403: the sign-up policy rejected a new user
   if (
-    message.includes("expired") ||
-    message.includes("invalid") ||
-    message.includes("token")
+    (response.status === 400 ||
+      response.status === 403 ||
+      response.status === 429) &&
+    body?.message
   ) {
-    return "This code has expired or is invalid. Please request a new code.";
-  }
-  if (message.includes("rate limit") || message.includes("too many")) {
-    return "Too many attempts. Please wait a moment and try again.";
-  }
-  if (message.includes("network") || message.includes("fetch")) {
-    return "Network error. Please check your connection and try again.";
+    return body.message;
   }
 
   return "Invalid code. Please check the code and try again.";
@@ -59,12 +52,10 @@ function getOtpErrorMessage(error: {
 export function OtpVerificationForm({
   email,
 }: OtpVerificationFormProps): React.JSX.Element {
-  const router = useRouter();
   const [token, setToken] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
-  const supabase = createClient();
 
   // Auto-focus input on mount
   useEffect(() => {
@@ -94,30 +85,31 @@ export function OtpVerificationForm({
       }
 
       try {
-        // Verify OTP
-        const { error: verifyError } = await supabase.auth.verifyOtp({
-          email: result.data.email,
-          token: result.data.token,
-          type: "email",
+        // Verify OTP (repeated wrong codes lock the address out)
+        const response = await fetch("/api/auth/otp/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(result.data),
         });
 
-        if (verifyError) {
-          setError(getOtpErrorMessage(verifyError));
+        if (!response.ok) {
+          setError(await getOtpErrorMessage(response));
           setLoading(false);
           setToken("");
           inputRef.current?.focus();
           return;
         }
 
-        router.push("/admin/overview");
-        router.refresh();
+        // The callback creates the profile of new users (and applies the
+        // sign-up policy) before redirecting to the dashboard
+        window.location.assign("/auth/callback");
       } catch {
         setError("An unexpected error occurred. Please try again.");
         setLoading(false);
         inputRef.current?.focus();
       }
     },
-    [email, token, supabase.auth, router]
+    [email, token]
   );
 
   const handleKeyDown = useCallback(
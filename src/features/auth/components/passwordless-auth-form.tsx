@@ -1,37 +1,28 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { createClient } from "@/utils/supabase/client";
 import { passwordlessEmailSchema } from "../schemas/auth.schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { getAuthCallbackUrl } from "@/lib/auth-redirect";
 
 /**
- * Maps Supabase auth errors to user-friendly messages
+ * Reads the error message of a failed API response
  *
- * @param error - Supabase error object
+ * @param response - Failed response from /api/auth/otp
  * @returns User-friendly error message
  */
-function getErrorMessage(error: {
-  message?: string;
-  status?: number | undefined;
-}): string {
-  const message = error.message?.toLowerCase() || "";
+async function getErrorMessage(response: Response): Promise<string> {
+  const body = (await response.json().catch(() => null)) as {
+    message?: string;
+  } | null;
 
-  if (message.includes("rate limit") || message.includes("too many")) {
-    return "Too many requests. Please wait a moment and try again.";
+  if (response.status === 429 && body?.message) {
+    return body.message;
   }
-  if (message.includes("invalid email") || message.includes("email")) {
+  if (response.status === 400) {
     return "Please enter a valid email address.";
   }
-  if (message.includes("network") || message.includes("fetch")) {
-    return "Network error. Please check your connection and try again.";
-  }
-  if (message.includes("timeout")) {
-    return "Request timed out. Please try again.";
-  }
 
   return "Unable to send email. Please check your email address and try again.";
 }
@@ -53,7 +44,6 @@ export function PasswordlessAuthForm(): React.JSX.Element {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
-  const supabase = createClient();
 
   const handleSubmit = useCallback(
     async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
@@ -73,17 +63,16 @@ export function PasswordlessAuthForm(): React.JSX.Element {
       }
 
       try {
-        // Send Magic Link or OTP
-        const { error: otpError } = await supabase.auth.signInWithOtp({
-          email: result.data.email,
-          options: {
-            shouldCreateUser: true, // Auto-create user if doesn't exist
-            emailRedirectTo: getAuthCallbackUrl(),
-          },
+        // Send Magic Link or OTP (rate limited, creates the user on first
+        // sign-in)
+        const response = await fetch("/api/auth/otp", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: result.data.email }),
         });
 
-        if (otpError) {
-          setError(getErrorMessage(otpError));
+        if (!response.ok) {
+          setError(await getErrorMessage(response));
           setLoading(false);
           return;
         }
@@ -91,11 +80,11 @@ export function PasswordlessAuthForm(): React.JSX.Element {
         setEmailSent(true);
         setLoading(false);
       } catch {
-        setError("An unexpected error occurred. Please try again.");
+        setError("Network error. Please check your connection and try again.");
         setLoading(false);
       }
     },
-    [email, supabase.auth]
+    [email]
   );
 
   const handleKeyDown = useCallback(
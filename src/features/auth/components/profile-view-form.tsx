@@ -9,6 +9,7 @@ import { type ReactElement } from "react";
 import Image from "next/image";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import type { LimitedProfile } from "../types/auth.types";
 
 /**
@@ -22,12 +23,9 @@ export interface ProfileViewFormProps {
 /**
  * Read-only profile view component
  *
- * Displays limited profile information for other users.
- * Only shows fields visible to users with business relationships:
- * - Full name
- * - Company email
- * - Phone
- * - Avatar URL
+ * Displays limited profile information for other users: the fields the
+ * viewer may see under the profile visibility policy (name, avatar, title,
+ * email, phone, bio). Hidden and empty fields are left out.
  *
  * @param props - Component props
  * @returns React element containing read-only profile view
@@ -45,47 +43,84 @@ export function ProfileViewForm({
       </div>
 
       <div className="space-y-4">
-        <div>
-          <Label htmlFor="full_name" className="font-sans font-medium">
-            Full Name
-          </Label>
-          <Input
-            id="full_name"
-            type="text"
-            value={profile.full_name ?? ""}
-            disabled
-            className="font-sans bg-muted"
-            aria-label="Full name (read-only)"
-          />
-        </div>
+        {profile.full_name !== undefined && (
+          <div>
+            <Label htmlFor="full_name" className="font-sans font-medium">
+              Full Name
+            </Label>
+            <Input
+              id="full_name"
+              type="text"
+              value={profile.full_name ?? ""}
+              disabled
+              className="font-sans bg-muted"
+              aria-label="Full name (read-only)"
+            />
+          </div>
+        )}
+
+        {profile.title && (
+          <div>
+            <Label htmlFor="title" className="font-sans font-medium">
+              Title
+            </Label>
+            <Input
+              id="title"
+              type="text"
+              value={profile.title}
+              disabled
+              className="font-sans bg-muted"
+              aria-label="Title (read-only)"
+            />
+          </div>
+        )}
+
+        {profile.email && (
+          <div>
+            <Label htmlFor="email" className="font-sans font-medium">
+              Email
+            </Label>
+            <Input
+              id="email"
+              type="email"
+              value={profile.email}
+              disabled
+              className="font-sans bg-muted"
+              aria-label="Email (read-only)"
+            />
+          </div>
+        )}
 
-        <div>
-          <Label htmlFor="title" className="font-sans font-medium">
-            Title
-          </Label>
-          <Input
-            id="title"
-            type="text"
-            value={profile.title ?? ""}
-            disabled
-            className="font-sans bg-muted"
-            aria-label="Title (read-only)"
-          />
-        </div>
+        {profile.phone && (
+          <div>
+            <Label htmlFor="phone" className="font-sans font-medium">
+              Phone
+            </Label>
+            <Input
+              id="phone"
+              type="tel"
+              value={profile.phone}
+              disabled
+              className="font-sans bg-muted"
+              aria-label="Phone number (read-only)"
+            />
+          </div>
+        )}
 
-        <div>
-          <Label htmlFor="phone" className="font-sans font-medium">
-            Phone
-          </Label>
-          <Input
-            id="phone"
-            type="tel"
-            value={profile.phone ?? ""}
-            disabled
-            className="font-sans bg-muted"
-            aria-label="Phone number (read-only)"
-          />
-        </div>
+        {profile.bio && (
+          <div>
+            <Label htmlFor="bio" className="font-sans font-medium">
+              Bio
+            </Label>
+            <Textarea
+              id="bio"
+              value={profile.bio}
+              disabled
+              className="font-sans bg-muted"
+              aria-label="Bio (read-only)"
+            />
+          </div>
+        )}
 
         {profile.avatar_url && (
           <div>
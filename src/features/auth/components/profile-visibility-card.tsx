@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Card for choosing who can see the current user's profile fields
+ * @module features/auth/components/profile-visibility-card
+ */
+
+"use client";
+
+import { type FormEvent, type ReactElement, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useProfileVisibilitySettings,
+  useUpdateProfileVisibilitySettings,
+} from "../hooks/use-profile-visibility";
+import {
+  PROFILE_VISIBILITY_FIELDS,
+  PROFILE_VISIBILITY_FIELD_LABELS,
+  PROFILE_VISIBILITY_LEVEL_LABELS,
+  profileVisibilityLevelSchema,
+  type OwnProfileVisibility,
+  type ProfileVisibilityLevel,
+} from "../schemas/profile-visibility.schema";
+
+/**
+ * Returns the levels a user can pick for a field: the policy's level and
+ * anything more restrictive
+ *
+ * @param policyLevel - Visibility set by the policy
+ * @returns Levels from most restrictive to the policy's level
+ */
+function getAllowedLevels(
+  policyLevel: ProfileVisibilityLevel
+): ProfileVisibilityLevel[] {
+  const levels = profileVisibilityLevelSchema.options;
+  return levels.slice(0, levels.indexOf(policyLevel) + 1);
+}
+
+/**
+ * Profile visibility card
+ *
+ * Lets users hide fields of their profile from other users, within the
+ * limits of the profile visibility policy. Fields the policy does not let
+ * users configure are shown read-only.
+ *
+ * @returns React element containing the profile visibility card
+ */
+export function ProfileVisibilityCard(): ReactElement {
+  const { data: settings, isError, error } = useProfileVisibilitySettings();
+  const updateSettings = useUpdateProfileVisibilitySettings();
+  const [fields, setFields] = useState<OwnProfileVisibility>({});
+
+  // Reset the form whenever the saved settings change, dropping settings
+  // the policy no longer allows (they are ignored when profiles are read)
+  useEffect(() => {
+    if (!settings) return;
+    const allowedFields: OwnProfileVisibility = {};
+    for (const field of PROFILE_VISIBILITY_FIELDS) {
+      const level = settings.fields[field];
+      const fieldPolicy = settings.policy[field];
+      if (
+        level &&
+        fieldPolicy.user_configurable &&
+        getAllowedLevels(fieldPolicy.visibility).includes(level)
+      ) {
+        allowedFields[field] = level;
+      }
+    }
+    setFields(allowedFields);
+  }, [settings]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+
+    updateSettings.mutate(
+      { fields },
+      {
+        onSuccess: () => {
+          toast.success("Profile visibility saved");
+        },
+        onError: (updateError) => {
+          toast.error("Failed to save profile visibility", {
+            description: updateError.message,
+          });
+        },
+      }
+    );
+  };
+
+  const canConfigure = settings
+    ? PROFILE_VISIBILITY_FIELDS.some(
+        (field) => settings.policy[field].user_configurable
+      )
+    : false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <EyeOff className="size-4" />
+            Profile Visibility
+          </CardTitle>
+          <CardDescription>
+            Choose who can see each field when other users view your profile.
+            Admins managing your account always see your full profile.
+          </CardDescription>
+        </CardHeading>
+      </CardHeader>
+      {isError ? (
+        <CardContent>
+          <p className="text-sm text-destructive">{error.message}</p>
+        </CardContent>
+      ) : !settings ? (
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Loading visibility settings...
+          </p>
+        </CardContent>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {PROFILE_VISIBILITY_FIELDS.map((field) => {
+              const fieldPolicy = settings.policy[field];
+              const id = `profile-visibility-${field}`;
+
+              return (
+                <div
+                  key={field}
+                  className="flex items-center justify-between gap-4"
+                >
+                  <div className="space-y-1">
+                    <Label htmlFor={id}>
+                      {PROFILE_VISIBILITY_FIELD_LABELS[field]}
+                    </Label>
+                    {!fieldPolicy.user_configurable && (
+                      <p className="text-sm text-muted-foreground">
+                        Set by your administrator
+                      </p>
+                    )}
+                  </div>
+                  <Select
+                    value={fields[field] ?? fieldPolicy.visibility}
+                    onValueChange={(value) =>
+                      setFields({
+                        ...fields,
+                        [field]: value as ProfileVisibilityLevel,
+                      })
+                    }
+                    disabled={
+                      !fieldPolicy.user_configurable || updateSettings.isPending
+                    }
+                  >
+                    <SelectTrigger id={id} className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getAllowedLevels(fieldPolicy.visibility).map((level) => (
+                        <SelectItem key={level} value={level}>
+                          {PROFILE_VISIBILITY_LEVEL_LABELS[level]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </CardContent>
+          {canConfigure && (
+            <CardFooter className="justify-end">
+              <Button type="submit" disabled={updateSettings.isPending}>
+                {updateSettings.isPending ? "Saving..." : "Save Visibility"}
+              </Button>
+            </CardFooter>
+          )}
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Profile visibility policy settings card
+ * @module features/auth/components/profile-visibility-policy-card
+ */
+
+"use client";
+
+import { type FormEvent, type ReactElement, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useProfileVisibilityPolicy,
+  useUpdateProfileVisibilityPolicy,
+} from "../hooks/use-profile-visibility";
+import {
+  PROFILE_VISIBILITY_FIELDS,
+  PROFILE_VISIBILITY_FIELD_LABELS,
+  profileVisibilityLevelSchema,
+  type ProfileVisibilityLevel,
+  type ProfileVisibilityPolicy,
+} from "../schemas/profile-visibility.schema";
+
+/**
+ * Visibility level labels from an admin's point of view
+ */
+const POLICY_LEVEL_LABELS: Record<ProfileVisibilityLevel, string> = {
+  self: "Only the user",
+  admins: "Admins",
+  company: "Same company",
+  everyone: "Everyone",
+};
+
+/**
+ * Profile visibility policy settings card
+ *
+ * Edits who can see each profile field of other users by default, and
+ * whether users can restrict a field further on their own profile. Admin
+ * user management views always show full profiles.
+ *
+ * @returns React element containing the profile visibility policy card
+ */
+export function ProfileVisibilityPolicyCard(): ReactElement {
+  const { data: policy, isError, error } = useProfileVisibilityPolicy();
+  const updatePolicy = useUpdateProfileVisibilityPolicy();
+  const [fields, setFields] = useState<
+    ProfileVisibilityPolicy["fields"] | null
+  >(null);
+
+  // Reset the form whenever the saved policy changes
+  useEffect(() => {
+    if (!policy) return;
+    setFields(policy.fields);
+  }, [policy]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    if (!fields) return;
+
+    updatePolicy.mutate(
+      { fields },
+      {
+        onSuccess: () => {
+          toast.success("Profile visibility saved");
+        },
+        onError: (updateError) => {
+          toast.error("Failed to save profile visibility", {
+            description: updateError.message,
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <EyeOff className="size-4" />
+            Profile Visibility
+          </CardTitle>
+          <CardDescription>
+            Choose who can see each field on other users&apos; profiles. Users
+            can hide configurable fields further, but never show them to more
+            people.
+          </CardDescription>
+        </CardHeading>
+      </CardHeader>
+      {isError ? (
+        <CardContent>
+          <p className="text-sm text-destructive">{error.message}</p>
+        </CardContent>
+      ) : !fields ? (
+        <CardContent>
+          <p className="text-sm text-muted-foreground">Loading policy...</p>
+        </CardContent>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Visible to</TableHead>
+                  <TableHead className="text-right">
+                    Users can restrict
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {PROFILE_VISIBILITY_FIELDS.map((field) => (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium">
+                      {PROFILE_VISIBILITY_FIELD_LABELS[field]}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={fields[field].visibility}
+                        onValueChange={(value) =>
+                          setFields({
+                            ...fields,
+                            [field]: {
+                              ...fields[field],
+                              visibility: value as ProfileVisibilityLevel,
+                            },
+                          })
+                        }
+                        disabled={updatePolicy.isPending}
+                      >
+                        <SelectTrigger
+                          className="w-40"
+                          aria-label={`Who can see ${PROFILE_VISIBILITY_FIELD_LABELS[field]}`}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {profileVisibilityLevelSchema.options.map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {POLICY_LEVEL_LABELS[level]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={fields[field].user_configurable}
+                        onCheckedChange={(checked) =>
+                          setFields({
+                            ...fields,
+                            [field]: {
+                              ...fields[field],
+                              user_configurable: checked,
+                            },
+                          })
+                        }
+                        disabled={updatePolicy.isPending}
+                        aria-label={`Users can restrict ${PROFILE_VISIBILITY_FIELD_LABELS[field]}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="mt-4 text-sm text-muted-foreground">
+              Admins are users who can view the profile owner in user
+              management. Users always see their own profile in full.
+            </p>
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" disabled={updatePolicy.isPending}>
+              {updatePolicy.isPending ? "Saving..." : "Save Visibility"}
+            </Button>
+          </CardFooter>
+        </form>
+      )}
+    </Card>
+  );
+}
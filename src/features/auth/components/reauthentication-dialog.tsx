@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Dialog that confirms a sensitive action with an emailed code
+ * @module features/auth/components/reauthentication-dialog
+ */
+
+"use client";
+
+import { type ReactElement, type ReactNode, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useSendReauthenticationCode } from "../hooks/use-account";
+
+/**
+ * Props for ReauthenticationDialog component
+ */
+export interface ReauthenticationDialogProps {
+  /** Whether dialog is open */
+  open: boolean;
+  /** Handler for open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Dialog title */
+  title: string;
+  /** Explanation of the action being confirmed */
+  description: ReactNode;
+  /** Label of the confirm button */
+  confirmLabel: string;
+  /** Label of the confirm button while the action runs */
+  pendingLabel: string;
+  /** Whether the action is destructive (styles the confirm button) */
+  destructive?: boolean;
+  /** Whether the action is running */
+  isPending: boolean;
+  /** Error from the last attempt, if any */
+  error: string | null;
+  /** Runs the action with the code from the email */
+  onConfirm: (code: string) => void;
+  /** Extra options shown above the code field */
+  children?: ReactNode;
+}
+
+/**
+ * Re-authentication dialog
+ *
+ * Emails the user a one-time code and asks for it before running the
+ * action, so a left-open session alone can't export or delete an account.
+ *
+ * @param props - Component props
+ * @returns React element containing the re-authentication dialog
+ */
+export function ReauthenticationDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  pendingLabel,
+  destructive = false,
+  isPending,
+  error,
+  onConfirm,
+  children,
+}: ReauthenticationDialogProps): ReactElement {
+  const sendCode = useSendReauthenticationCode();
+  const [code, setCode] = useState("");
+
+  const handleOpenChange = (nextOpen: boolean): void => {
+    if (!nextOpen) {
+      setCode("");
+      sendCode.reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {children}
+
+          {sendCode.isSuccess ? (
+            <div className="space-y-1">
+              <Label htmlFor="reauthentication-code">Verification code</Label>
+              <Input
+                id="reauthentication-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(event) =>
+                  setCode(event.target.value.replace(/\D/g, "").slice(0, 6))
+                }
+                className="text-center text-2xl tracking-widest"
+                disabled={isPending}
+              />
+              <p className="text-xs text-muted-foreground">
+                Enter the 6-digit code we emailed you.{" "}
+                <button
+                  type="button"
+                  className="underline underline-offset-2"
+                  onClick={() => sendCode.mutate()}
+                  disabled={sendCode.isPending}
+                >
+                  Send a new code
+                </button>
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              To continue, we&apos;ll email you a one-time verification code.
+            </p>
+          )}
+
+          {(sendCode.error || error) && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              {sendCode.error?.message ?? error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isPending}
+          >
+            Cancel
+          </Button>
+          {sendCode.isSuccess ? (
+            <Button
+              variant={destructive ? "destructive" : "primary"}
+              onClick={() => onConfirm(code)}
+              disabled={isPending || code.length !== 6}
+            >
+              {isPending ? pendingLabel : confirmLabel}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => sendCode.mutate()}
+              disabled={sendCode.isPending}
+            >
+              {sendCode.isPending ? "Sending..." : "Email Me a Code"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview One-time display of freshly generated MFA recovery codes
+ * @module features/auth/components/recovery-codes-list
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Props for RecoveryCodesList component
+ */
+export interface RecoveryCodesListProps {
+  /** Plain recovery codes */
+  codes: string[];
+}
+
+/**
+ * Recovery codes list
+ *
+ * Shows the codes in a grid with a copy button. The codes are only returned
+ * when generated, so the user is told to store them now.
+ *
+ * @param props - Component props
+ * @returns React element containing the recovery codes
+ */
+export function RecoveryCodesList({
+  codes,
+}: RecoveryCodesListProps): ReactElement {
+  const handleCopy = async (): Promise<void> => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast.success("Recovery codes copied to clipboard");
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these codes somewhere safe. Each one can be used once to sign in
+        if you lose your authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <Button variant="outline" size="sm" onClick={handleCopy}>
+        <Copy />
+        Copy Codes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Active sign-in sessions panel
+ * @module features/auth/components/sessions-card
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+  CardToolbar,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createClient } from "@/utils/supabase/client";
+import {
+  useRevokeAllSessions,
+  useRevokeSession,
+  useSessions,
+} from "../hooks/use-sessions";
+import type { UserSession } from "../schemas/session.schema";
+
+/**
+ * Props for SessionsCard component
+ */
+export interface SessionsCardProps {
+  /** User whose sessions are shown (omit for the current user) */
+  userId?: string;
+  /** Whether sessions can be signed out */
+  canManage?: boolean;
+}
+
+/**
+ * Formats an ISO timestamp as a short date and time
+ *
+ * @param value - ISO timestamp
+ * @returns Localized date and time (e.g. "Oct 19, 2026, 3:04 PM")
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Summarizes a user agent as browser and operating system
+ *
+ * @param userAgent - User-Agent header
+ * @returns Device label (e.g. "Chrome on macOS") and whether it is mobile
+ */
+function describeUserAgent(userAgent: string | null): {
+  label: string;
+  mobile: boolean;
+} {
+  if (!userAgent) {
+    return { label: "Unknown device", mobile: false };
+  }
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Unknown browser";
+
+  const os = /iPhone|iPad/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Windows/.test(userAgent)
+          ? "Windows"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "Unknown OS";
+
+  return {
+    label: `${browser} on ${os}`,
+    mobile: os === "iOS" || os === "Android",
+  };
+}
+
+/**
+ * Active sessions card
+ *
+ * Lists sign-ins with their device, IP address, start and last activity,
+ * and lets the user (or an admin) sign out one session or every session.
+ * Signing out the session in use also signs this browser out.
+ *
+ * @param props - Component props
+ * @returns React element containing the sessions card
+ */
+export function SessionsCard({
+  userId,
+  canManage = true,
+}: SessionsCardProps): ReactElement {
+  const router = useRouter();
+  const {
+    data: sessions = [],
+    isLoading,
+    isError,
+    error,
+  } = useSessions(userId);
+  const revokeSession = useRevokeSession(userId);
+  const revokeAllSessions = useRevokeAllSessions(userId);
+  const [isRevokeAllDialogOpen, setIsRevokeAllDialogOpen] = useState(false);
+
+  const signOutLocally = async (): Promise<void> => {
+    await createClient().auth.signOut({ scope: "local" });
+    router.push("/auth/sign-in");
+    router.refresh();
+  };
+
+  const handleRevoke = (session: UserSession): void => {
+    revokeSession.mutate(session.id, {
+      onSuccess: async () => {
+        if (session.current) {
+          await signOutLocally();
+          return;
+        }
+        toast.success("Session signed out");
+      },
+      onError: (revokeError) => {
+        toast.error("Failed to sign out session", {
+          description: revokeError.message,
+        });
+      },
+    });
+  };
+
+  const handleRevokeAll = (): void => {
+    const includesCurrent = sessions.some((session) => session.current);
+
+    revokeAllSessions.mutate(undefined, {
+      onSuccess: async ({ revoked }) => {
+        setIsRevokeAllDialogOpen(false);
+        if (includesCurrent || !userId) {
+          await signOutLocally();
+          return;
+        }
+        toast.success(
+          `Signed out of ${revoked} session${revoked === 1 ? "" : "s"}`
+        );
+      },
+      onError: (revokeError) => {
+        toast.error("Failed to sign out sessions", {
+          description: revokeError.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="size-4" />
+            Sessions
+          </CardTitle>
+          <CardDescription>
+            {userId
+              ? "Devices where this user is signed in."
+              : "Devices where you are signed in. Sign out any you don't recognize."}
+          </CardDescription>
+        </CardHeading>
+        {canManage && sessions.length > 0 && (
+          <CardToolbar>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsRevokeAllDialogOpen(true)}
+            >
+              <LogOut />
+              Sign Out Everywhere
+            </Button>
+          </CardToolbar>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Signed In</TableHead>
+                <TableHead>Last Seen</TableHead>
+                {canManage && (
+                  <TableHead className="text-right">
+                    <span className="sr-only">Actions</span>
+                  </TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => {
+                const device = describeUserAgent(session.user_agent);
+                const DeviceIcon = device.mobile ? Smartphone : Monitor;
+                return (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <DeviceIcon className="size-4 text-muted-foreground" />
+                        <span
+                          className="font-medium"
+                          title={session.user_agent ?? undefined}
+                        >
+                          {device.label}
+                        </span>
+                        {session.current && (
+                          <Badge variant="success" size="sm">
+                            This device
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-xs">
+                        {session.ip_address ?? "Unknown"}
+                      </code>
+                    </TableCell>
+                    <TableCell>{formatDateTime(session.created_at)}</TableCell>
+                    <TableCell>
+                      {formatDateTime(session.last_seen_at)}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRevoke(session)}
+                          disabled={revokeSession.isPending}
+                        >
+                          Sign Out
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={isRevokeAllDialogOpen}
+        onOpenChange={setIsRevokeAllDialogOpen}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign Out Everywhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              {userId
+                ? "Every session of this user will be signed out. They will need to sign in again."
+                : "Every session, including this one, will be signed out. You will need to sign in again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revokeAllSessions.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevokeAll}
+              disabled={revokeAllSessions.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {revokeAllSessions.isPending
+                ? "Signing out..."
+                : "Sign Out Everywhere"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Sign-up policy settings card
+ * @module features/auth/components/signup-policy-card
+ */
+
+"use client";
+
+import { type FormEvent, type ReactElement, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useSignupPolicy,
+  useUpdateSignupPolicy,
+} from "../hooks/use-signup-policy";
+import { updateSignupPolicySchema } from "../schemas/signup-policy.schema";
+
+/**
+ * Splits a textarea value into domains (one per line or comma separated)
+ *
+ * @param value - Textarea value
+ * @returns Non-empty domain entries
+ */
+function parseDomainList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Sign-up policy settings card
+ *
+ * Edits the allowed and blocked email domains and invite-only mode that
+ * apply to new self-service sign-ups. Users invited or created by an admin
+ * are not affected.
+ *
+ * @returns React element containing the sign-up policy card
+ */
+export function SignupPolicyCard(): ReactElement {
+  const { data: policy, isLoading, isError, error } = useSignupPolicy();
+  const updatePolicy = useUpdateSignupPolicy();
+  const [allowedDomains, setAllowedDomains] = useState("");
+  const [blockedDomains, setBlockedDomains] = useState("");
+  const [inviteOnly, setInviteOnly] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form whenever the saved policy changes
+  useEffect(() => {
+    if (!policy) return;
+    setAllowedDomains(policy.allowed_domains.join("\n"));
+    setBlockedDomains(policy.blocked_domains.join("\n"));
+    setInviteOnly(policy.invite_only);
+  }, [policy]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    setFormError(null);
+
+    const result = updateSignupPolicySchema.safeParse({
+      allowed_domains: parseDomainList(allowedDomains),
+      blocked_domains: parseDomainList(blockedDomains),
+      invite_only: inviteOnly,
+    });
+
+    if (!result.success) {
+      setFormError(result.error.errors[0]?.message ?? "Invalid policy");
+      return;
+    }
+
+    updatePolicy.mutate(result.data, {
+      onSuccess: () => {
+        toast.success("Sign-up policy saved");
+      },
+      onError: (updateError) => {
+        toast.error("Failed to save sign-up policy", {
+          description: updateError.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="size-4" />
+            Sign-up Policy
+          </CardTitle>
+          <CardDescription>
+            Control who can create an account with email or Google sign-in.
+            Existing and invited users are not affected.
+          </CardDescription>
+        </CardHeading>
+      </CardHeader>
+      {isLoading ? (
+        <CardContent>
+          <p className="text-sm text-muted-foreground">Loading policy...</p>
+        </CardContent>
+      ) : isError ? (
+        <CardContent>
+          <p className="text-sm text-destructive">{error.message}</p>
+        </CardContent>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="signup-invite-only">Invite only</Label>
+                <p className="text-sm text-muted-foreground">
+                  Only invited people can join, by accepting their invitation.
+                </p>
+              </div>
+              <Switch
+                id="signup-invite-only"
+                checked={inviteOnly}
+                onCheckedChange={setInviteOnly}
+                disabled={updatePolicy.isPending}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="signup-allowed-domains">Allowed domains</Label>
+              <Textarea
+                id="signup-allowed-domains"
+                value={allowedDomains}
+                onChange={(event) => setAllowedDomains(event.target.value)}
+                placeholder={"example.com\nexample.org"}
+                rows={4}
+                disabled={updatePolicy.isPending}
+              />
+              <p className="text-sm text-muted-foreground">
+                One domain per line, subdomains included. Leave empty to allow
+                any domain.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="signup-blocked-domains">Blocked domains</Label>
+              <Textarea
+                id="signup-blocked-domains"
+                value={blockedDomains}
+                onChange={(event) => setBlockedDomains(event.target.value)}
+                placeholder="mailinator.com"
+                rows={4}
+                disabled={updatePolicy.isPending}
+              />
+              <p className="text-sm text-muted-foreground">
+                Nobody from these domains can sign up unless invited.
+              </p>
+            </div>
+
+            {formError && (
+              <p className="text-sm text-destructive" role="alert">
+                {formError}
+              </p>
+            )}
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" disabled={updatePolicy.isPending}>
+              {updatePolicy.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </CardFooter>
+        </form>
+      )}
+    </Card>
+  );
+}
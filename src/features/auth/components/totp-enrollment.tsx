@@ -0,0 +1,185 @@
+/**
+ * @fileoverview TOTP authenticator enrollment flow
+ * @module features/auth/components/totp-enrollment
+ */
+
+"use client";
+
+import { type ReactElement, type FormEvent, useEffect, useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useEnrollTotp,
+  useGenerateRecoveryCodes,
+  useVerifyTotp,
+} from "../hooks/use-mfa";
+import { totpCodeSchema } from "../schemas/mfa.schema";
+import { RecoveryCodesList } from "./recovery-codes-list";
+
+/**
+ * Props for TotpEnrollment component
+ */
+export interface TotpEnrollmentProps {
+  /** Called after the user has saved their recovery codes */
+  onComplete?: () => void;
+  /** Path to navigate to after the user has saved their recovery codes */
+  redirectTo?: string;
+}
+
+/**
+ * TOTP enrollment flow
+ *
+ * Enrolls a new factor on mount, shows its QR code and secret, verifies the
+ * first code from the authenticator app (which upgrades the session to AAL2)
+ * and then generates and shows a set of recovery codes.
+ *
+ * @param props - Component props
+ * @returns React element containing the enrollment steps
+ */
+export function TotpEnrollment({
+  onComplete,
+  redirectTo,
+}: TotpEnrollmentProps): ReactElement {
+  const router = useRouter();
+  const enroll = useEnrollTotp();
+  const verify = useVerifyTotp();
+  const generateCodes = useGenerateRecoveryCodes();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { mutate: startEnrollment } = enroll;
+  useEffect(() => {
+    startEnrollment();
+  }, [startEnrollment]);
+
+  const handleVerify = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!enroll.data) return;
+
+    const result = totpCodeSchema.safeParse(code);
+    if (!result.success) {
+      setError(result.error.errors[0]?.message ?? "Invalid code");
+      return;
+    }
+
+    setError(null);
+    try {
+      await verify.mutateAsync({
+        factorId: enroll.data.factorId,
+        code: result.data,
+      });
+      const { codes } = await generateCodes.mutateAsync();
+      setRecoveryCodes(codes);
+    } catch (verifyError) {
+      setCode("");
+      setError(
+        verifyError instanceof Error
+          ? verifyError.message
+          : "Failed to verify code"
+      );
+    }
+  };
+
+  const handleDone = (): void => {
+    onComplete?.();
+    if (redirectTo) {
+      router.push(redirectTo);
+      router.refresh();
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button className="w-full" onClick={handleDone}>
+          I&apos;ve Saved My Codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (enroll.isError) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-destructive" role="alert">
+          {enroll.error.message}
+        </p>
+        <Button variant="outline" onClick={() => startEnrollment()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enroll.data) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Preparing your authenticator...
+      </p>
+    );
+  }
+
+  const isVerifying = verify.isPending || generateCodes.isPending;
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4" noValidate>
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with an authenticator app such as 1Password, Authy or
+        Google Authenticator, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <Image
+          src={enroll.data.qrCode}
+          alt="QR code for your authenticator app"
+          width={176}
+          height={176}
+          unoptimized
+          className="rounded-md border bg-white p-2"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="totp-secret">Or enter this key manually</Label>
+        <Input
+          id="totp-secret"
+          readOnly
+          value={enroll.data.secret}
+          className="font-mono text-xs"
+          onFocus={(event) => event.target.select()}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="totp-code">Verification code</Label>
+        <Input
+          id="totp-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(event) =>
+            setCode(event.target.value.replace(/\D/g, "").slice(0, 6))
+          }
+          className="text-center text-lg tracking-widest"
+          aria-invalid={error ? "true" : "false"}
+          disabled={isVerifying}
+        />
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isVerifying || code.length !== 6}
+      >
+        {isVerifying ? "Verifying..." : "Verify and Enable"}
+      </Button>
+    </form>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useForm, Controller } from "react-hook-form";
+import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { updateProfileInputSchema } from "../schemas/profile.schema";
 import { useUpdateProfile } from "../hooks/use-update-profile";
@@ -50,7 +50,6 @@ export function UserProfileForm({
 
   const {
     register,
-    control,
     handleSubmit,
     formState: { errors, isSubmitting },
     reset,
@@ -60,7 +59,6 @@ export function UserProfileForm({
       full_name: initialProfile?.full_name ?? null,
       bio: initialProfile?.bio ?? null,
       avatar_url: initialProfile?.avatar_url ?? null,
-      company_id: initialProfile?.company_id ?? null,
       phone: initialProfile?.phone ?? null,
       dashboard_layout_preferences:
         initialProfile?.dashboard_layout_preferences ?? null,
@@ -83,7 +81,6 @@ export function UserProfileForm({
         full_name: initialProfile.full_name ?? null,
         bio: initialProfile.bio ?? null,
         avatar_url: initialProfile.avatar_url ?? null,
-        company_id: initialProfile.company_id ?? null,
         phone: initialProfile.phone ?? null,
         dashboard_layout_preferences:
           initialProfile.dashboard_layout_preferences ?? null,
@@ -221,45 +218,28 @@ export function UserProfileForm({
         <Label htmlFor="company_id" className="font-sans font-medium">
           Company
         </Label>
-        <Controller
-          name="company_id"
-          control={control}
-          render={({ field }) => (
-            <Select
-              onValueChange={(value) => {
-                // Convert sentinel value to null, otherwise keep the value
-                field.onChange(value === "__none__" ? null : value);
-              }}
-              value={field.value ?? "__none__"}
-              disabled={isSubmitting}
-            >
-              <SelectTrigger
-                className="font-sans"
-                aria-invalid={errors.company_id ? "true" : "false"}
-                aria-describedby={
-                  errors.company_id ? "company-id-error" : undefined
-                }
-              >
-                <SelectValue placeholder="Select a company" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="__none__">None</SelectItem>
-                {companyOptions.map((option) => (
-                  <SelectItem key={option.value} value={option.value}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          )}
-        />
-        {errors.company_id && (
-          <p id="company-id-error" className="text-sm text-red-500 mt-1">
-            {errors.company_id.message}
-          </p>
-        )}
-        <p className="text-xs text-muted-foreground mt-1 font-sans">
-          Select the company you belong to
+        <Select value={initialProfile?.company_id ?? "__none__"} disabled>
+          <SelectTrigger
+            id="company_id"
+            className="font-sans"
+            aria-describedby="company-id-hint"
+          >
+            <SelectValue placeholder="Select a company" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none__">None</SelectItem>
+            {companyOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p
+          id="company-id-hint"
+          className="text-xs text-muted-foreground mt-1 font-sans"
+        >
+          Your company is assigned by an administrator
         </p>
       </div>
 
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Query and mutation hooks for personal access tokens
+ * @module features/auth/hooks/use-access-tokens
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  accessTokenSchema,
+  createdAccessTokenSchema,
+  type AccessToken,
+  type CreateAccessTokenInput,
+  type CreatedAccessToken,
+} from "../schemas/access-token.schema";
+
+/**
+ * Query key for the current user's tokens
+ */
+const ACCESS_TOKENS_QUERY_KEY = ["auth", "tokens"] as const;
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for listing the current user's personal access tokens
+ *
+ * @returns Query result with the tokens (newest first)
+ *
+ * @example
+ * ```tsx
+ * const { data: tokens = [], isLoading } = useAccessTokens();
+ * ```
+ */
+export function useAccessTokens() {
+  return useQuery<AccessToken[]>({
+    queryKey: ACCESS_TOKENS_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/auth/tokens");
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch access tokens")
+        );
+      }
+
+      const responseData = await response.json();
+      return z
+        .object({ tokens: z.array(accessTokenSchema) })
+        .parse(responseData).tokens;
+    },
+  });
+}
+
+/**
+ * Hook for creating a personal access token
+ * The plain token is only available in the mutation result.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const createToken = useCreateAccessToken();
+ * const { token } = await createToken.mutateAsync({
+ *   name: "CI",
+ *   scopes: [PERMISSIONS.users.view],
+ *   expires_in_days: 30,
+ * });
+ * ```
+ */
+export function useCreateAccessToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation<CreatedAccessToken, Error, CreateAccessTokenInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/auth/tokens", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to create access token")
+        );
+      }
+
+      return createdAccessTokenSchema.parse(await response.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ACCESS_TOKENS_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for revoking a personal access token
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const revokeToken = useRevokeAccessToken();
+ * revokeToken.mutate(tokenId);
+ * ```
+ */
+export function useRevokeAccessToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (tokenId) => {
+      const response = await fetch(`/api/auth/tokens/${tokenId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to revoke access token")
+        );
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ACCESS_TOKENS_QUERY_KEY });
+    },
+  });
+}
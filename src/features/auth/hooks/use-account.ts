@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Mutation hooks for self-service data export and account deletion
+ * @module features/auth/hooks/use-account
+ */
+
+import { useMutation } from "@tanstack/react-query";
+import {
+  accountDeletionSchema,
+  type AccountDeletion,
+  type DeleteAccountInput,
+  type ExportAccountDataInput,
+} from "../schemas/account.schema";
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Reads the file name from a Content-Disposition header
+ *
+ * @param response - Download response
+ * @param fallback - Name used when the header has none
+ * @returns File name
+ */
+function getDownloadFileName(response: Response, fallback: string): string {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  return /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallback;
+}
+
+/**
+ * Hook for emailing the current user a re-authentication code
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const sendCode = useSendReauthenticationCode();
+ * sendCode.mutate();
+ * ```
+ */
+export function useSendReauthenticationCode() {
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/reauthenticate", {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to send verification code")
+        );
+      }
+    },
+  });
+}
+
+/**
+ * Hook for downloading the current user's data
+ * The export is saved by the browser as a file.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const exportData = useExportAccountData();
+ * exportData.mutate({ code: "123456", format: "zip" });
+ * ```
+ */
+export function useExportAccountData() {
+  return useMutation<void, Error, ExportAccountDataInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/auth/profile/export", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to export your data")
+        );
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getDownloadFileName(response, "account-export");
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+}
+
+/**
+ * Hook for deleting the current user's account
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const deleteAccount = useDeleteAccount();
+ * const { purge_after } = await deleteAccount.mutateAsync({ code: "123456" });
+ * ```
+ */
+export function useDeleteAccount() {
+  return useMutation<AccountDeletion, Error, DeleteAccountInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/auth/profile", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to delete your account")
+        );
+      }
+
+      return accountDeletionSchema.parse(await response.json());
+    },
+  });
+}
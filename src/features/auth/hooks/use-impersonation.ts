@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Mutation hooks for starting and stopping impersonation
+ * @module features/auth/hooks/use-impersonation
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  impersonationStatusSchema,
+  type ImpersonationSession,
+  type StartImpersonationInput,
+} from "../schemas/impersonation.schema";
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for starting an impersonation session (superadmin only)
+ *
+ * Every cached query belongs to the previous user, so all queries are
+ * invalidated on success. Callers should navigate or refresh the router
+ * so server components re-render as the impersonated user.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const startImpersonation = useStartImpersonation();
+ *
+ * await startImpersonation.mutateAsync({
+ *   user_id: userId,
+ *   allow_mutations: false,
+ * });
+ * router.push("/admin");
+ * router.refresh();
+ * ```
+ */
+export function useStartImpersonation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ImpersonationSession, Error, StartImpersonationInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/auth/impersonation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to start impersonation")
+        );
+      }
+
+      const responseData = await response.json();
+      const { impersonation } = impersonationStatusSchema.parse(responseData);
+
+      if (!impersonation) {
+        throw new Error("Failed to start impersonation");
+      }
+
+      return impersonation;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+/**
+ * Hook for stopping the current impersonation session
+ *
+ * Invalidates all queries on success so they refetch as the signed-in user.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const stopImpersonation = useStopImpersonation();
+ *
+ * await stopImpersonation.mutateAsync();
+ * router.refresh();
+ * ```
+ */
+export function useStopImpersonation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/impersonation", {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to stop impersonation")
+        );
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Query and mutation hooks for TOTP multi-factor authentication
+ * @module features/auth/hooks/use-mfa
+ *
+ * Factors are enrolled, verified and removed in the browser with Supabase
+ * Auth MFA; the policy status and recovery codes come from `/api/auth/mfa`.
+ * Verifying a factor upgrades the session to AAL2, so mutations that change
+ * the assurance level invalidate every MFA query.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Factor } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/client";
+import {
+  mfaStatusSchema,
+  recoveryCodesSchema,
+  type MfaStatus,
+  type RecoveryCodes,
+} from "../schemas/mfa.schema";
+
+/**
+ * Query key prefix shared by all MFA queries
+ */
+const MFA_QUERY_KEY = ["auth", "mfa"] as const;
+
+/**
+ * A TOTP factor that has been enrolled but not yet verified
+ */
+export interface TotpEnrollment {
+  /** Factor ID */
+  factorId: string;
+  /** QR code image (data URL) encoding the authenticator URI */
+  qrCode: string;
+  /** Secret for entering the factor manually */
+  secret: string;
+}
+
+/**
+ * Variables for verifying a TOTP factor
+ */
+export interface VerifyTotpVariables {
+  factorId: string;
+  code: string;
+}
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Converts the QR code returned by Supabase into an image source
+ * Older Auth servers return raw SVG markup instead of a data URL.
+ *
+ * @param qrCode - QR code from the enroll response
+ * @returns Image source
+ */
+function toQrCodeSource(qrCode: string): string {
+  return qrCode.startsWith("data:")
+    ? qrCode
+    : `data:image/svg+xml;utf-8,${encodeURIComponent(qrCode)}`;
+}
+
+/**
+ * Hook for the current user's MFA status
+ *
+ * @returns Query result with the policy requirement, assurance levels and
+ * number of unused recovery codes
+ *
+ * @example
+ * ```tsx
+ * const { data: status } = useMfaStatus();
+ * if (status?.requirement === "enroll") { ... }
+ * ```
+ */
+export function useMfaStatus() {
+  return useQuery<MfaStatus>({
+    queryKey: [...MFA_QUERY_KEY, "status"],
+    queryFn: async () => {
+      const response = await fetch("/api/auth/mfa");
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch MFA status")
+        );
+      }
+
+      return mfaStatusSchema.parse(await response.json());
+    },
+  });
+}
+
+/**
+ * Hook for the current user's verified TOTP factors
+ *
+ * @returns Query result with the verified TOTP factors
+ */
+export function useTotpFactors() {
+  return useQuery<Factor[]>({
+    queryKey: [...MFA_QUERY_KEY, "factors"],
+    queryFn: async () => {
+      const { data, error } = await createClient().auth.mfa.listFactors();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data.totp;
+    },
+  });
+}
+
+/**
+ * Hook for starting TOTP enrollment
+ * Unverified factors left over from abandoned enrollments are removed first.
+ *
+ * @returns Mutation object resolving to the QR code and secret to show
+ *
+ * @example
+ * ```tsx
+ * const enroll = useEnrollTotp();
+ * const { factorId, qrCode } = await enroll.mutateAsync();
+ * ```
+ */
+export function useEnrollTotp() {
+  return useMutation<TotpEnrollment, Error, void>({
+    mutationFn: async () => {
+      const supabase = createClient();
+      const { data: factors, error: listError } =
+        await supabase.auth.mfa.listFactors();
+
+      if (listError) {
+        throw new Error(listError.message);
+      }
+
+      for (const factor of factors.all) {
+        if (factor.factor_type === "totp" && factor.status === "unverified") {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: `Authenticator ${new Date().toISOString()}`,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        factorId: data.id,
+        qrCode: toQrCodeSource(data.totp.qr_code),
+        secret: data.totp.secret,
+      };
+    },
+  });
+}
+
+/**
+ * Hook for verifying a TOTP code
+ * Completes enrollment of a new factor, or upgrades the session to AAL2 for
+ * an enrolled one.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const verify = useVerifyTotp();
+ * verify.mutate({ factorId, code: "123456" });
+ * ```
+ */
+export function useVerifyTotp() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, VerifyTotpVariables>({
+    mutationFn: async ({ factorId, code }) => {
+      const { error } = await createClient().auth.mfa.challengeAndVerify({
+        factorId,
+        code,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MFA_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for turning off MFA for the current user
+ * Removes every factor and recovery code; requires an AAL2 session.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ */
+export function useDisableMfa() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/mfa", { method: "DELETE" });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to remove authenticator")
+        );
+      }
+
+      // Drop AAL2 from the session now that the factors are gone
+      await createClient().auth.refreshSession();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MFA_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for generating a new set of recovery codes
+ * Replaces any existing codes; requires an AAL2 session.
+ *
+ * @returns Mutation object resolving to the plain codes (shown once)
+ */
+export function useGenerateRecoveryCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation<RecoveryCodes, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/mfa/recovery-codes", {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to generate recovery codes")
+        );
+      }
+
+      return recoveryCodesSchema.parse(await response.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MFA_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for redeeming a recovery code
+ * The user's factors are removed, so they can enroll a new authenticator.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ */
+export function useRedeemRecoveryCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (code) => {
+      const response = await fetch("/api/auth/mfa/recover", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to redeem recovery code")
+        );
+      }
+
+      // Pick up the removed factors in the session
+      await createClient().auth.refreshSession();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MFA_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for resetting another user's MFA (admin)
+ *
+ * @param userId - User ID
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const resetMfa = useResetUserMfa(userId);
+ * resetMfa.mutate();
+ * ```
+ */
+export function useResetUserMfa(userId: string) {
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch(`/api/admin/users/${userId}/mfa`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, "Failed to reset MFA"));
+      }
+    },
+  });
+}
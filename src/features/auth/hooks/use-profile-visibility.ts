@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Query and mutation hooks for profile field visibility
+ * @module features/auth/hooks/use-profile-visibility
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  profileVisibilityPolicySchema,
+  profileVisibilitySettingsSchema,
+  type ProfileVisibilityPolicy,
+  type ProfileVisibilitySettings,
+  type UpdateOwnProfileVisibilityInput,
+  type UpdateProfileVisibilityPolicyInput,
+} from "../schemas/profile-visibility.schema";
+
+/**
+ * Query key for the profile visibility policy
+ */
+const PROFILE_VISIBILITY_POLICY_QUERY_KEY = [
+  "settings",
+  "profile-visibility",
+] as const;
+
+/**
+ * Query key for the current user's visibility settings
+ */
+const PROFILE_VISIBILITY_SETTINGS_QUERY_KEY = [
+  "auth",
+  "profile-visibility",
+] as const;
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for reading the profile visibility policy (admin settings)
+ *
+ * @returns Query result with the policy
+ *
+ * @example
+ * ```tsx
+ * const { data: policy, isLoading } = useProfileVisibilityPolicy();
+ * ```
+ */
+export function useProfileVisibilityPolicy() {
+  return useQuery<ProfileVisibilityPolicy>({
+    queryKey: PROFILE_VISIBILITY_POLICY_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/admin/settings/profile-visibility");
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(
+            response,
+            "Failed to fetch profile visibility policy"
+          )
+        );
+      }
+
+      const responseData = await response.json();
+      return profileVisibilityPolicySchema.parse(responseData.policy);
+    },
+  });
+}
+
+/**
+ * Hook for saving the profile visibility policy (admin settings)
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const updatePolicy = useUpdateProfileVisibilityPolicy();
+ * updatePolicy.mutate({ fields });
+ * ```
+ */
+export function useUpdateProfileVisibilityPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    ProfileVisibilityPolicy,
+    Error,
+    UpdateProfileVisibilityPolicyInput
+  >({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/admin/settings/profile-visibility", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(
+            response,
+            "Failed to save profile visibility policy"
+          )
+        );
+      }
+
+      const responseData = await response.json();
+      return profileVisibilityPolicySchema.parse(responseData.policy);
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(PROFILE_VISIBILITY_POLICY_QUERY_KEY, policy);
+      // The admin's own settings depend on the policy
+      queryClient.invalidateQueries({
+        queryKey: PROFILE_VISIBILITY_SETTINGS_QUERY_KEY,
+      });
+    },
+  });
+}
+
+/**
+ * Hook for reading the current user's visibility settings
+ *
+ * @returns Query result with the policy and the fields the user has tightened
+ *
+ * @example
+ * ```tsx
+ * const { data: settings, isLoading } = useProfileVisibilitySettings();
+ * ```
+ */
+export function useProfileVisibilitySettings() {
+  return useQuery<ProfileVisibilitySettings>({
+    queryKey: PROFILE_VISIBILITY_SETTINGS_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/auth/profile/visibility");
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch profile visibility")
+        );
+      }
+
+      const responseData = await response.json();
+      return profileVisibilitySettingsSchema.parse(responseData.settings);
+    },
+  });
+}
+
+/**
+ * Hook for saving the current user's visibility settings
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const updateSettings = useUpdateProfileVisibilitySettings();
+ * updateSettings.mutate({ fields: { phone: "self" } });
+ * ```
+ */
+export function useUpdateProfileVisibilitySettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    ProfileVisibilitySettings,
+    Error,
+    UpdateOwnProfileVisibilityInput
+  >({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/auth/profile/visibility", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to save profile visibility")
+        );
+      }
+
+      const responseData = await response.json();
+      return profileVisibilitySettingsSchema.parse(responseData.settings);
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(PROFILE_VISIBILITY_SETTINGS_QUERY_KEY, settings);
+    },
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Query and mutation hooks for sign-in sessions
+ * @module features/auth/hooks/use-sessions
+ *
+ * Without a `userId` the hooks manage the current user's sessions
+ * (`/api/auth/sessions`); with one they use the admin endpoints
+ * (`/api/admin/users/{userId}/sessions`).
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  revokedSessionsSchema,
+  userSessionSchema,
+  type RevokedSessions,
+  type UserSession,
+} from "../schemas/session.schema";
+
+/**
+ * Query key for a user's sessions
+ *
+ * @param userId - User ID (undefined for the current user)
+ * @returns Query key
+ */
+function getSessionsQueryKey(userId?: string) {
+  return ["auth", "sessions", userId ?? "me"] as const;
+}
+
+/**
+ * API endpoint for a user's sessions
+ *
+ * @param userId - User ID (undefined for the current user)
+ * @returns Endpoint path
+ */
+function getSessionsEndpoint(userId?: string): string {
+  return userId ? `/api/admin/users/${userId}/sessions` : "/api/auth/sessions";
+}
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for listing active sessions
+ *
+ * @param userId - User ID (omit for the current user)
+ * @returns Query result with the sessions (most recently used first)
+ *
+ * @example
+ * ```tsx
+ * const { data: sessions = [] } = useSessions();
+ * const { data: userSessions = [] } = useSessions(userId);
+ * ```
+ */
+export function useSessions(userId?: string) {
+  return useQuery<UserSession[]>({
+    queryKey: getSessionsQueryKey(userId),
+    queryFn: async () => {
+      const response = await fetch(getSessionsEndpoint(userId));
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch sessions")
+        );
+      }
+
+      const responseData = await response.json();
+      return z
+        .object({ sessions: z.array(userSessionSchema) })
+        .parse(responseData).sessions;
+    },
+  });
+}
+
+/**
+ * Hook for signing out one session
+ *
+ * @param userId - User ID (omit for the current user)
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const revokeSession = useRevokeSession();
+ * revokeSession.mutate(sessionId);
+ * ```
+ */
+export function useRevokeSession(userId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (sessionId) => {
+      const response = await fetch(
+        `${getSessionsEndpoint(userId)}/${sessionId}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to sign out session")
+        );
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: getSessionsQueryKey(userId) });
+    },
+  });
+}
+
+/**
+ * Hook for signing out every session
+ *
+ * @param userId - User ID (omit for the current user)
+ * @returns Mutation object resolving to the number of sessions revoked
+ *
+ * @example
+ * ```tsx
+ * const revokeAll = useRevokeAllSessions(userId);
+ * const { revoked } = await revokeAll.mutateAsync();
+ * ```
+ */
+export function useRevokeAllSessions(userId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<RevokedSessions, Error, void>({
+    mutationFn: async () => {
+      const response = await fetch(getSessionsEndpoint(userId), {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to sign out sessions")
+        );
+      }
+
+      return revokedSessionsSchema.parse(await response.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: getSessionsQueryKey(userId) });
+    },
+  });
+}
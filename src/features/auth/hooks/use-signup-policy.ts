@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Query and mutation hooks for the sign-up policy
+ * @module features/auth/hooks/use-signup-policy
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  signupPolicySchema,
+  type SignupPolicy,
+  type UpdateSignupPolicyInput,
+} from "../schemas/signup-policy.schema";
+
+/**
+ * Query key for the sign-up policy
+ */
+const SIGNUP_POLICY_QUERY_KEY = ["settings", "signup-policy"] as const;
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for reading the sign-up policy
+ *
+ * @returns Query result with the policy
+ *
+ * @example
+ * ```tsx
+ * const { data: policy, isLoading } = useSignupPolicy();
+ * ```
+ */
+export function useSignupPolicy() {
+  return useQuery<SignupPolicy>({
+    queryKey: SIGNUP_POLICY_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/admin/settings/signup-policy");
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch sign-up policy")
+        );
+      }
+
+      const responseData = await response.json();
+      return signupPolicySchema.parse(responseData.policy);
+    },
+  });
+}
+
+/**
+ * Hook for saving the sign-up policy
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const updatePolicy = useUpdateSignupPolicy();
+ * updatePolicy.mutate({
+ *   allowed_domains: ["example.com"],
+ *   blocked_domains: [],
+ *   invite_only: false,
+ * });
+ * ```
+ */
+export function useUpdateSignupPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation<SignupPolicy, Error, UpdateSignupPolicyInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/admin/settings/signup-policy", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to save sign-up policy")
+        );
+      }
+
+      const responseData = await response.json();
+      return signupPolicySchema.parse(responseData.policy);
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(SIGNUP_POLICY_QUERY_KEY, policy);
+    },
+  });
+}
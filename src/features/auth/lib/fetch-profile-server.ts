@@ -8,7 +8,8 @@ import { createClient } from "@/utils/supabase/server";
 import { profileSchema } from "../schemas/profile.schema";
 import type { Profile } from "../types/auth.types";
 import type { LimitedProfile } from "../types/auth.types";
-import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { getVisibleProfile } from "@/lib/auth/profile-visibility";
 
 /**
  * UUID validation schema for profile ID
@@ -19,9 +20,11 @@ const ProfileIdSchema = z.string().uuid("Profile ID must be a valid UUID");
  * Server-side function to fetch a profile by ID
  *
  * Fetches profile data directly from Supabase, bypassing API routes.
+ * Other users' profiles are limited to the fields the viewer may see under
+ * the profile visibility policy.
  *
  * @param id - Profile ID (UUID)
- * @param viewerUserId - Optional viewer user ID for access control (if viewing another user's profile)
+ * @param viewer - Optional viewer for access control (if viewing another user's profile)
  * @param supabaseClient - Optional Supabase client (for testing/caching)
  * @returns Promise resolving to Profile or LimitedProfile if found, null if not found or access denied
  * @throws Error for invalid UUID or database errors
@@ -32,17 +35,22 @@ const ProfileIdSchema = z.string().uuid("Profile ID must be a valid UUID");
  * const profile = await fetchProfileServer(user.id);
  *
  * // Fetch another user's profile (with access control)
- * const limitedProfile = await fetchProfileServer(otherUserId, currentUserId);
+ * const limitedProfile = await fetchProfileServer(otherUserId, currentUser);
  * ```
  */
 export async function fetchProfileServer(
   id: string,
-  viewerUserId?: string,
+  viewer?: User,
   supabaseClient?: SupabaseClient
 ): Promise<Profile | LimitedProfile | null> {
   // Validate profile ID format
   const validatedId = ProfileIdSchema.parse(id);
 
+  // Another user's profile: only the fields the viewer may see
+  if (viewer && viewer.id !== validatedId) {
+    return getVisibleProfile(validatedId, viewer);
+  }
+
   // Use provided client or create new one
   const supabase = supabaseClient ?? (await createClient());
 
@@ -69,20 +77,5 @@ export async function fetchProfileServer(
     return null;
   }
 
-  // If viewing own profile, return full profile
-  if (!viewerUserId || viewerUserId === validatedId) {
-    return profileSchema.parse(profileData);
-  }
-
-  // If viewing another user's profile, return limited profile
-  // Access control can be added here based on new project requirements
-  const limitedProfile: LimitedProfile = {
-    id: profileData.id,
-    full_name: profileData.full_name,
-    phone: profileData.phone,
-    avatar_url: profileData.avatar_url,
-    title: (profileData as { title?: string | null }).title || null,
-  };
-
-  return limitedProfile;
+  return profileSchema.parse(profileData);
 }
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { isValidPermission, PERMISSIONS } from "@/lib/auth/permissions";
+import { permissionSchema } from "./permission.schema";
+
+/**
+ * Lifetimes offered when creating a token, in days
+ */
+export const ACCESS_TOKEN_EXPIRATION_DAYS = [7, 30, 90, 365] as const;
+
+/**
+ * Schema for token scopes
+ * At least one scope is required; "*" (all of the owner's permissions)
+ * must be the only entry
+ */
+const accessTokenScopesSchema = z
+  .array(permissionSchema)
+  .min(1, "Select at least one scope")
+  .refine(
+    (scopes) => !scopes.includes(PERMISSIONS.all) || scopes.length === 1,
+    {
+      message: "The * scope cannot be combined with other scopes",
+    }
+  );
+
+/**
+ * Schema for personal access token creation
+ */
+export const createAccessTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be at most 100 characters"),
+  scopes: accessTokenScopesSchema,
+  expires_in_days: z
+    .number()
+    .int()
+    .min(1, "Tokens must be valid for at least 1 day")
+    .max(365, "Tokens can be valid for at most 365 days"),
+});
+
+/**
+ * Schema for a personal access token as returned by the API
+ * The token hash is never returned; scopes no longer in the registry are dropped
+ */
+export const accessTokenSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  token_prefix: z.string(),
+  scopes: z
+    .array(z.string())
+    .transform((scopes) => scopes.filter(isValidPermission)),
+  expires_at: z.string(),
+  last_used_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+/**
+ * Schema for the token creation response
+ * `token` is the plain token and is only ever returned once
+ */
+export const createdAccessTokenSchema = z.object({
+  access_token: accessTokenSchema,
+  token: z.string(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateAccessTokenInput = z.infer<typeof createAccessTokenSchema>;
+export type AccessToken = z.infer<typeof accessTokenSchema>;
+export type CreatedAccessToken = z.infer<typeof createdAccessTokenSchema>;
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+/**
+ * Schema for the one-time code emailed for re-authentication
+ */
+export const reauthenticationCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Enter the 6-digit code from your email");
+
+/**
+ * Data export formats
+ * `zip` bundles `account.json` with the uploaded avatar files; `json` is
+ * the data alone.
+ */
+export const accountExportFormatSchema = z.enum(["zip", "json"]);
+
+/**
+ * Schema for requesting a data export
+ */
+export const exportAccountDataSchema = z.object({
+  code: reauthenticationCodeSchema,
+  format: accountExportFormatSchema.default("zip"),
+});
+
+/**
+ * Schema for deleting the current user's account
+ */
+export const deleteAccountSchema = z.object({
+  code: reauthenticationCodeSchema,
+});
+
+/**
+ * Schema for a scheduled account deletion as returned by the API
+ */
+export const accountDeletionSchema = z.object({
+  /** When the account is permanently removed */
+  purge_after: z.string(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type AccountExportFormat = z.infer<typeof accountExportFormatSchema>;
+export type ExportAccountDataInput = z.input<typeof exportAccountDataSchema>;
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
+export type AccountDeletion = z.infer<typeof accountDeletionSchema>;
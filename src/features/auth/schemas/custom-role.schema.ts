@@ -1,8 +1,69 @@
 import { z } from "zod";
-import { ALL_PERMISSIONS, PERMISSIONS } from "@/lib/auth/permissions";
+import { isValidPermission, PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  conditionalPermissionSchema,
+  permissionSchema,
+} from "./permission.schema";
 
 /**
- * Schema for custom role creation/update
+ * System roles a custom role can extend (superadmin cannot be extended)
+ */
+export const customRoleBaseRoleSchema = z.enum(["member", "admin"]);
+
+/**
+ * Schema for added permissions
+ * The "*" wildcard must be the only entry; category wildcards are allowed
+ */
+const addedPermissionsSchema = z
+  .array(permissionSchema)
+  .refine(
+    (permissions) =>
+      !permissions.includes(PERMISSIONS.all) || permissions.length === 1,
+    {
+      message: "The * permission cannot be combined with other permissions",
+    }
+  );
+
+/**
+ * Schema for revoked permissions ("*" cannot be revoked)
+ */
+const revokedPermissionsSchema = z
+  .array(permissionSchema)
+  .refine((permissions) => !permissions.includes(PERMISSIONS.all), {
+    message: "The * permission cannot be revoked",
+  });
+
+/**
+ * Schema for conditional permissions (a permission may be granted by
+ * several entries, each with its own conditions)
+ */
+const conditionalPermissionsSchema = z
+  .array(conditionalPermissionSchema)
+  .max(50, "At most 50 conditional permissions are allowed");
+
+/**
+ * Schema for permissions stored on a role
+ * Values no longer in the registry are dropped instead of failing the row
+ */
+const storedPermissionsSchema = z
+  .array(z.string())
+  .transform((permissions) => permissions.filter(isValidPermission));
+
+/**
+ * Schema for conditional permissions stored on a role
+ * Entries that are no longer valid are dropped instead of failing the row
+ */
+const storedConditionalPermissionsSchema = z
+  .array(z.unknown())
+  .transform((entries) =>
+    entries.flatMap((entry) => {
+      const result = conditionalPermissionSchema.safeParse(entry);
+      return result.success ? [result.data] : [];
+    })
+  );
+
+/**
+ * Schema for custom role creation
  */
 export const createCustomRoleSchema = z.object({
   name: z
@@ -17,24 +78,26 @@ export const createCustomRoleSchema = z.object({
     .string()
     .max(500, "Description must be less than 500 characters")
     .optional(),
-  permissions: z
-    .array(z.string())
-    .min(1, "At least one permission is required")
-    .refine(
-      (permissions) => {
-        // Allow wildcard permission
-        if (permissions.includes(PERMISSIONS.all)) {
-          return permissions.length === 1; // Wildcard must be alone
-        }
-        // Validate all permissions exist
-        return permissions.every((perm) =>
-          ALL_PERMISSIONS.includes(perm as (typeof ALL_PERMISSIONS)[number])
-        );
-      },
-      {
-        message: "Invalid permissions provided",
-      }
-    ),
+  base_role: customRoleBaseRoleSchema.default("member"),
+  permissions: addedPermissionsSchema,
+  revoked_permissions: revokedPermissionsSchema.default([]),
+  conditional_permissions: conditionalPermissionsSchema.default([]),
+  require_mfa: z.boolean().default(false),
+});
+
+/**
+ * Schema for custom role updates (name is immutable)
+ */
+export const updateCustomRoleSchema = z.object({
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .optional(),
+  base_role: customRoleBaseRoleSchema.optional(),
+  permissions: addedPermissionsSchema.optional(),
+  revoked_permissions: revokedPermissionsSchema.optional(),
+  conditional_permissions: conditionalPermissionsSchema.optional(),
+  require_mfa: z.boolean().optional(),
 });
 
 /**
@@ -44,10 +107,25 @@ export const customRoleSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1),
   description: z.string().nullable(),
-  permissions: z.array(z.string()),
-  created_by: z.string().uuid(),
-  created_at: z.string().datetime(),
-  updated_at: z.string().datetime(),
+  base_role: customRoleBaseRoleSchema,
+  permissions: storedPermissionsSchema,
+  revoked_permissions: storedPermissionsSchema,
+  conditional_permissions: storedConditionalPermissionsSchema,
+  require_mfa: z.boolean(),
+  // Null once the creator is deleted
+  created_by: z.string().uuid().nullable(),
+  // Postgres timestamptz values are serialized with a UTC offset (+00:00)
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
+});
+
+/**
+ * Schema for custom role as returned by the roles API
+ * Includes the resolved permission set and how many users hold the role
+ */
+export const customRoleDetailsSchema = customRoleSchema.extend({
+  effective_permissions: storedPermissionsSchema,
+  user_count: z.number().int().nonnegative(),
 });
 
 /**
@@ -62,9 +140,9 @@ export const errorResponseSchema = z.object({
 /**
  * TypeScript types inferred from schemas
  */
-export type CreateCustomRoleInput = z.infer<typeof createCustomRoleSchema>;
+export type CustomRoleBaseRole = z.infer<typeof customRoleBaseRoleSchema>;
+export type CreateCustomRoleInput = z.input<typeof createCustomRoleSchema>;
 export type CustomRole = z.infer<typeof customRoleSchema>;
-export type UpdateCustomRoleInput = Partial<
-  Pick<CreateCustomRoleInput, "description" | "permissions">
->;
+export type CustomRoleDetails = z.infer<typeof customRoleDetailsSchema>;
+export type UpdateCustomRoleInput = z.infer<typeof updateCustomRoleSchema>;
 export type ErrorResponse = z.infer<typeof errorResponseSchema>;
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import type { User } from "@supabase/supabase-js";
+
+/**
+ * Schema for starting an impersonation session
+ */
+export const startImpersonationSchema = z.object({
+  user_id: z.string().uuid("Invalid user ID"),
+  allow_mutations: z.boolean().default(false),
+});
+
+/**
+ * Schema for a Supabase Auth user returned by the impersonation API
+ */
+const impersonatedUserSchema = z.custom<User>(
+  (value) =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { id?: unknown }).id === "string",
+  { message: "Invalid user" }
+);
+
+/**
+ * Schema for an active impersonation session
+ */
+export const impersonationSessionSchema = z.object({
+  id: z.string().uuid(),
+  target: impersonatedUserSchema,
+  allow_mutations: z.boolean(),
+  started_at: z.string(),
+  expires_at: z.string(),
+});
+
+/**
+ * Schema for GET/POST /api/auth/impersonation responses
+ * `impersonation` is null when no session is active
+ */
+export const impersonationStatusSchema = z.object({
+  impersonation: impersonationSessionSchema.nullable(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type StartImpersonationInput = z.input<typeof startImpersonationSchema>;
+export type ImpersonationSession = z.infer<typeof impersonationSessionSchema>;
+export type ImpersonationStatus = z.infer<typeof impersonationStatusSchema>;
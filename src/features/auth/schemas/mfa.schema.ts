@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+/**
+ * Authenticator assurance levels reported by Supabase Auth
+ * `aal2` means the session was verified with a second factor.
+ */
+export const assuranceLevelSchema = z.enum(["aal1", "aal2"]);
+
+/**
+ * What a user still has to do to satisfy the MFA policy
+ * `enroll` - no verified factor yet; `verify` - factor enrolled but this
+ * session has not been verified with it
+ */
+export const mfaRequirementSchema = z.enum(["enroll", "verify"]);
+
+/**
+ * Schema for a six-digit TOTP code
+ */
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+/**
+ * Schema for the current user's MFA status as returned by the API
+ */
+export const mfaStatusSchema = z.object({
+  /** Whether the user's role requires MFA */
+  required: z.boolean(),
+  /** Outstanding requirement, or null if the policy is satisfied */
+  requirement: mfaRequirementSchema.nullable(),
+  current_level: assuranceLevelSchema.nullable(),
+  next_level: assuranceLevelSchema.nullable(),
+  recovery_codes_remaining: z.number().int().nonnegative(),
+});
+
+/**
+ * Schema for freshly generated recovery codes (only returned once)
+ */
+export const recoveryCodesSchema = z.object({
+  codes: z.array(z.string()),
+});
+
+/**
+ * Schema for redeeming a recovery code
+ */
+export const redeemRecoveryCodeSchema = z.object({
+  code: z.string().trim().min(1, "Recovery code is required").max(64),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type AssuranceLevel = z.infer<typeof assuranceLevelSchema>;
+export type MfaRequirement = z.infer<typeof mfaRequirementSchema>;
+export type MfaStatus = z.infer<typeof mfaStatusSchema>;
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+export type RedeemRecoveryCodeInput = z.infer<typeof redeemRecoveryCodeSchema>;
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import {
+  ALL_PERMISSIONS,
+  PERMISSION_VALUES,
+  getPermissionCategory,
+  type Permission,
+  type RegisteredPermission,
+} from "@/lib/auth/permissions";
+import { getPermissionConditionField } from "@/lib/auth/permission-conditions";
+
+/**
+ * Permission enum schema
+ * Accepts registered permissions, category wildcards ("users.*") and "*".
+ * Shared by the roles API and the role editor.
+ */
+export const permissionSchema = z.enum(PERMISSION_VALUES);
+
+/**
+ * Registered permission schema (no wildcards)
+ */
+export const registeredPermissionSchema = z.custom<RegisteredPermission>(
+  (value) =>
+    typeof value === "string" &&
+    (ALL_PERMISSIONS as readonly string[]).includes(value),
+  { message: "Unknown permission" }
+);
+
+/**
+ * Condition types, in the order the role editor offers them
+ * - own: the resource belongs to the user
+ * - same_company: the resource belongs to the user's company
+ * - field_equals: a resource column equals a fixed value
+ */
+export const PERMISSION_CONDITION_TYPES = [
+  "own",
+  "same_company",
+  "field_equals",
+] as const;
+
+/**
+ * Display labels for condition types
+ */
+export const PERMISSION_CONDITION_LABELS = {
+  own: "Own",
+  same_company: "Same company",
+  field_equals: "Field equals",
+} as const satisfies Record<
+  (typeof PERMISSION_CONDITION_TYPES)[number],
+  string
+>;
+
+/**
+ * Schema for a condition on a permission
+ */
+export const permissionConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("own") }),
+  z.object({ type: z.literal("same_company") }),
+  z.object({
+    type: z.literal("field_equals"),
+    field: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9_]*$/,
+        "Field must be a column name (lowercase letters, numbers and underscores)"
+      )
+      .max(63, "Field must be 63 characters or less"),
+    value: z.union([
+      z.string().max(200, "Value must be 200 characters or less"),
+      z.number(),
+      z.boolean(),
+      z.null(),
+    ]),
+  }),
+]);
+
+/**
+ * Schema for a permission granted only on resources that meet every one of
+ * its conditions
+ */
+export const conditionalPermissionSchema = z
+  .object({
+    permission: registeredPermissionSchema,
+    conditions: z
+      .array(permissionConditionSchema)
+      .min(1, "At least one condition is required")
+      .max(10, "At most 10 conditions are allowed"),
+  })
+  .superRefine(({ permission, conditions }, ctx) => {
+    const category = getPermissionCategory(permission);
+    conditions.forEach((condition, index) => {
+      if (!getPermissionConditionField(condition, category)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["conditions", index, "type"],
+          message: `The ${PERMISSION_CONDITION_LABELS[condition.type].toLowerCase()} condition does not apply to ${category} permissions`,
+        });
+      }
+    });
+  });
+
+/**
+ * Validates a permission string and returns a Permission
+ *
+ * @param permission - Permission string to validate
+ * @returns Validated Permission or throws ZodError
+ * @throws {z.ZodError} If permission is not registered
+ *
+ * @example
+ * ```typescript
+ * const permission = validatePermission("users.view"); // Returns "users.view"
+ * const invalid = validatePermission("user.view"); // Throws ZodError
+ * ```
+ */
+export function validatePermission(permission: unknown): Permission {
+  return permissionSchema.parse(permission);
+}
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type PermissionCondition = z.infer<typeof permissionConditionSchema>;
+export type PermissionConditionType = PermissionCondition["type"];
+export type ConditionalPermission = z.infer<typeof conditionalPermissionSchema>;
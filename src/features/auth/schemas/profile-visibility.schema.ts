@@ -0,0 +1,157 @@
+import { z } from "zod";
+
+/**
+ * Profile fields covered by the visibility policy
+ * Other profile columns (address, company, preferences) are never shown to
+ * other users outside the admin views.
+ */
+export const PROFILE_VISIBILITY_FIELDS = [
+  "full_name",
+  "avatar_url",
+  "title",
+  "email",
+  "phone",
+  "bio",
+] as const;
+
+/**
+ * Schema for a profile field covered by the visibility policy
+ */
+export const profileVisibilityFieldSchema = z.enum(PROFILE_VISIBILITY_FIELDS);
+
+/**
+ * Who can see a profile field, from most to least restrictive
+ * - self: only the user
+ * - admins: the user and admins who can view them (users.view, company scope)
+ * - company: also members of the user's company
+ * - everyone: every signed-in user
+ */
+export const profileVisibilityLevelSchema = z.enum([
+  "self",
+  "admins",
+  "company",
+  "everyone",
+]);
+
+/**
+ * Display labels for visibility levels
+ */
+export const PROFILE_VISIBILITY_LEVEL_LABELS = {
+  self: "Only me",
+  admins: "Admins",
+  company: "My company",
+  everyone: "Everyone",
+} as const satisfies Record<
+  z.infer<typeof profileVisibilityLevelSchema>,
+  string
+>;
+
+/**
+ * Display labels for profile fields
+ */
+export const PROFILE_VISIBILITY_FIELD_LABELS = {
+  full_name: "Full name",
+  avatar_url: "Avatar",
+  title: "Title",
+  email: "Email",
+  phone: "Phone",
+  bio: "Bio",
+} as const satisfies Record<
+  z.infer<typeof profileVisibilityFieldSchema>,
+  string
+>;
+
+/**
+ * Schema for the policy of one field
+ */
+export const profileFieldPolicySchema = z.object({
+  visibility: profileVisibilityLevelSchema,
+  user_configurable: z.boolean(),
+});
+
+/**
+ * Schema for the policy of every field
+ */
+const profileFieldPoliciesSchema = z.object({
+  full_name: profileFieldPolicySchema,
+  avatar_url: profileFieldPolicySchema,
+  title: profileFieldPolicySchema,
+  email: profileFieldPolicySchema,
+  phone: profileFieldPolicySchema,
+  bio: profileFieldPolicySchema,
+});
+
+/**
+ * Schema for updating the profile visibility policy
+ * Used for PUT /api/admin/settings/profile-visibility
+ */
+export const updateProfileVisibilityPolicySchema = z.object({
+  fields: profileFieldPoliciesSchema,
+});
+
+/**
+ * Schema for the profile visibility policy as returned by the API
+ * `updated_at` is null while the default policy has never been saved.
+ */
+export const profileVisibilityPolicySchema = z.object({
+  fields: profileFieldPoliciesSchema,
+  updated_by: z.string().uuid().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+/**
+ * Schema for a user's own visibility settings (fields they have tightened)
+ * Fields left out follow the policy.
+ */
+export const ownProfileVisibilitySchema = z
+  .object({
+    full_name: profileVisibilityLevelSchema,
+    avatar_url: profileVisibilityLevelSchema,
+    title: profileVisibilityLevelSchema,
+    email: profileVisibilityLevelSchema,
+    phone: profileVisibilityLevelSchema,
+    bio: profileVisibilityLevelSchema,
+  })
+  .partial();
+
+/**
+ * Schema for updating a user's own visibility settings
+ * Used for PUT /api/auth/profile/visibility
+ */
+export const updateOwnProfileVisibilitySchema = z.object({
+  fields: ownProfileVisibilitySchema,
+});
+
+/**
+ * Schema for a user's visibility settings as returned by the API
+ * Includes the policy so the form knows which fields can be changed and how
+ * far.
+ */
+export const profileVisibilitySettingsSchema = z.object({
+  policy: profileFieldPoliciesSchema,
+  fields: ownProfileVisibilitySchema,
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type ProfileVisibilityField = z.infer<
+  typeof profileVisibilityFieldSchema
+>;
+export type ProfileVisibilityLevel = z.infer<
+  typeof profileVisibilityLevelSchema
+>;
+export type ProfileFieldPolicy = z.infer<typeof profileFieldPolicySchema>;
+export type ProfileVisibilityPolicy = z.infer<
+  typeof profileVisibilityPolicySchema
+>;
+export type UpdateProfileVisibilityPolicyInput = z.infer<
+  typeof updateProfileVisibilityPolicySchema
+>;
+export type OwnProfileVisibility = z.infer<typeof ownProfileVisibilitySchema>;
+export type UpdateOwnProfileVisibilityInput = z.infer<
+  typeof updateOwnProfileVisibilitySchema
+>;
+export type ProfileVisibilitySettings = z.infer<
+  typeof profileVisibilitySettingsSchema
+>;
@@ -64,14 +64,14 @@ export const profileSchema = z.object({
 
 /**
  * Schema for updating profile information
- * All fields are optional since users may only update specific fields
+ * All fields are optional since users may only update specific fields.
+ * The company is assigned by administrators and cannot be changed here.
  */
 export const updateProfileInputSchema = z.object({
   email: z.string().email().nullable().optional(),
   full_name: z.string().max(255).nullable().optional(),
   bio: z.string().nullable().optional(),
   avatar_url: z.string().url().nullable().optional(),
-  company_id: z.string().uuid().nullable().optional(),
   phone: z.string().min(5).max(20).nullable().optional(),
   dashboard_layout_preferences: z.record(z.unknown()).nullable().optional(),
   address_1: z.string().nullable().optional(),
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+/**
+ * Schema for a tracked sign-in session as returned by the API
+ * `current` marks the session making the request
+ */
+export const userSessionSchema = z.object({
+  id: z.string().uuid(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.string(),
+  last_seen_at: z.string(),
+  current: z.boolean(),
+});
+
+/**
+ * Schema for the sign-out-everywhere response
+ */
+export const revokedSessionsSchema = z.object({
+  revoked: z.number().int().nonnegative(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type UserSession = z.infer<typeof userSessionSchema>;
+export type RevokedSessions = z.infer<typeof revokedSessionsSchema>;
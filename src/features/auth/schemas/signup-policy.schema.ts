@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+/**
+ * Maximum number of domains in each sign-up policy list
+ */
+export const MAX_SIGNUP_POLICY_DOMAINS = 100;
+
+/**
+ * Schema for an email domain in a sign-up policy
+ * Accepts "example.com" or "@example.com" and normalizes to lowercase.
+ */
+export const signupDomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((domain) => domain.replace(/^@/, ""))
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/,
+        "Invalid domain (e.g. example.com)"
+      )
+  );
+
+/**
+ * Schema for a list of sign-up policy domains (duplicates removed)
+ */
+const signupDomainListSchema = z
+  .array(signupDomainSchema)
+  .max(
+    MAX_SIGNUP_POLICY_DOMAINS,
+    `At most ${MAX_SIGNUP_POLICY_DOMAINS} domains are allowed`
+  )
+  .transform((domains) => [...new Set(domains)]);
+
+/**
+ * Schema for updating the sign-up policy
+ * Used for PUT /api/admin/settings/signup-policy
+ */
+export const updateSignupPolicySchema = z
+  .object({
+    allowed_domains: signupDomainListSchema,
+    blocked_domains: signupDomainListSchema,
+    invite_only: z.boolean(),
+  })
+  .refine(
+    (policy) =>
+      !policy.allowed_domains.some((domain) =>
+        policy.blocked_domains.includes(domain)
+      ),
+    {
+      message: "A domain cannot be both allowed and blocked",
+      path: ["blocked_domains"],
+    }
+  );
+
+/**
+ * Schema for the sign-up policy as returned by the API
+ * `updated_at` is null while the default policy has never been saved.
+ */
+export const signupPolicySchema = z.object({
+  allowed_domains: z.array(z.string()),
+  blocked_domains: z.array(z.string()),
+  invite_only: z.boolean(),
+  updated_by: z.string().uuid().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+/**
+ * Reasons a sign-up can be rejected
+ * Passed to the sign-in page as the `reason` query parameter.
+ */
+export const signupRejectionReasonSchema = z.enum([
+  "invite_only",
+  "domain_blocked",
+  "domain_not_allowed",
+  "invitation_pending",
+]);
+
+/**
+ * User-facing explanations of each rejection reason
+ */
+export const SIGNUP_REJECTION_MESSAGES = {
+  invite_only:
+    "Sign-up is by invitation only. Ask an administrator to invite you.",
+  domain_blocked: "Email addresses from this domain cannot sign up.",
+  domain_not_allowed:
+    "Sign-up is limited to approved email domains. Use your work email address or ask an administrator to invite you.",
+  invitation_pending:
+    "You have been invited. Open the link in your invitation email to accept it and sign up.",
+} as const satisfies Record<
+  z.infer<typeof signupRejectionReasonSchema>,
+  string
+>;
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type SignupPolicy = z.infer<typeof signupPolicySchema>;
+export type UpdateSignupPolicyInput = z.infer<typeof updateSignupPolicySchema>;
+export type SignupRejectionReason = z.infer<typeof signupRejectionReasonSchema>;
@@ -37,12 +37,15 @@ export interface AuthContext {
 
 /**
  * Limited profile information for viewing other users' profiles
- * Only includes fields visible to users with business relationships
+ * Only includes the fields the viewer may see under the profile visibility
+ * policy (see lib/auth/profile-visibility); hidden fields are omitted.
  */
 export interface LimitedProfile {
   id: string;
-  full_name: string | null;
-  phone: string | null;
-  avatar_url: string | null;
-  title: string | null;
+  full_name?: string | null;
+  avatar_url?: string | null;
+  title?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  bio?: string | null;
 }
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Bulk actions for the companies selected in the company list
+ * @module features/companies/components/company-bulk-actions
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import { RotateCcw, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  describeBulkFailures,
+  type BulkActionResult,
+} from "@/lib/bulk-actions";
+import { useBulkCompanyAction } from "../hooks/use-company-mutations";
+import type { BulkCompanyActionInput } from "../schemas/company.schema";
+import type { Company } from "../lib/company-service";
+
+/**
+ * Props for CompanyBulkActions component
+ */
+export interface CompanyBulkActionsProps {
+  /** Selected companies */
+  companies: Company[];
+  /** Clears the selection */
+  onClearSelection: () => void;
+}
+
+/**
+ * Bulk actions for the companies selected in the company list
+ *
+ * Deletes or restores every selected company in one request. When some
+ * companies cannot be changed, the others are still updated and a
+ * notification lists the failures; the selection is kept so they can be
+ * retried.
+ *
+ * @param props - Component props
+ * @returns React element containing the bulk action controls
+ */
+export function CompanyBulkActions({
+  companies,
+  onClearSelection,
+}: CompanyBulkActionsProps): ReactElement {
+  const canDelete = useHasPermission(PERMISSIONS.companies.delete);
+  const canRestore = useHasPermission(PERMISSIONS.companies.restore);
+  const { mutate: runBulkAction, isPending } = useBulkCompanyAction();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const activeCompanies = companies.filter((company) => !company.deleted_at);
+  const deletedCompanies = companies.filter((company) => company.deleted_at);
+
+  const getCompanyLabel = (companyId: string): string =>
+    companies.find((company) => company.id === companyId)?.name ?? companyId;
+
+  const handleBulkAction = (
+    input: BulkCompanyActionInput,
+    verb: string
+  ): void => {
+    runBulkAction(input, {
+      onSuccess: (result: BulkActionResult) => {
+        if (result.failed === 0) {
+          toast.success(
+            `${result.succeeded} ${result.succeeded === 1 ? "company" : "companies"} ${verb}`
+          );
+          onClearSelection();
+          return;
+        }
+
+        toast.error(
+          `${result.failed} of ${result.results.length} companies could not be ${verb}`,
+          {
+            description: describeBulkFailures(result, getCompanyLabel),
+            duration: 10000,
+          }
+        );
+      },
+      onError: (error) => {
+        toast.error("Bulk action failed", {
+          description: error.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <>
+      {canRestore && deletedCompanies.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() =>
+            handleBulkAction(
+              {
+                action: "restore",
+                ids: deletedCompanies.map((company) => company.id),
+              },
+              "restored"
+            )
+          }
+        >
+          <RotateCcw />
+          Restore {deletedCompanies.length}
+        </Button>
+      )}
+      {canDelete && activeCompanies.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => setIsDeleteDialogOpen(true)}
+        >
+          <Trash2 />
+          Delete {activeCompanies.length}
+        </Button>
+      )}
+
+      <AlertDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Companies</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete{" "}
+              <strong>
+                {activeCompanies.length}{" "}
+                {activeCompanies.length === 1 ? "company" : "companies"}
+              </strong>
+              ? They will be marked as deleted, but all data is preserved and
+              they can be restored later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                handleBulkAction(
+                  {
+                    action: "soft_delete",
+                    ids: activeCompanies.map((company) => company.id),
+                  },
+                  "deleted"
+                )
+              }
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Companies
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Searchable company picker
+ * @module features/companies/components/company-combobox
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useDebounce } from "@/hooks/use-debounce";
+import { cn } from "@/lib/utils";
+import { useCompany, useCompanyLookup } from "../hooks/use-companies";
+
+/**
+ * Props for CompanyCombobox component
+ */
+export interface CompanyComboboxProps {
+  /** Selected company ID, `noneValue`, or "" for no selection */
+  value: string;
+  /** Handler for selection changes ("" when the selection is cleared) */
+  onValueChange: (value: string) => void;
+  /** ID of the trigger button, for labels */
+  id?: string;
+  /** Text shown when nothing is selected */
+  placeholder?: string;
+  /** Value of a "No company" option (omit to hide the option) */
+  noneValue?: string;
+  /** Additional CSS classes for the trigger button */
+  className?: string;
+}
+
+/**
+ * Searchable company picker
+ *
+ * Companies are searched by name on the server as the user types, so the
+ * picker works however many companies exist. Selecting the selected company
+ * again clears the selection.
+ *
+ * @param props - Component props
+ * @returns React element containing the company combobox
+ *
+ * @example
+ * ```tsx
+ * <CompanyCombobox value={companyId} onValueChange={setCompanyId} />
+ * ```
+ */
+export function CompanyCombobox({
+  value,
+  onValueChange,
+  id,
+  placeholder = "All companies",
+  noneValue,
+  className,
+}: CompanyComboboxProps): ReactElement {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebounce(search, 300);
+  const {
+    data: companies = [],
+    isLoading,
+    isError,
+  } = useCompanyLookup(debouncedSearch);
+
+  // The selected company may not be among the search results
+  const isCompanySelected = value !== "" && value !== noneValue;
+  const { data: selectedCompany } = useCompany(
+    isCompanySelected ? value : null
+  );
+
+  const selectedLabel =
+    value === ""
+      ? null
+      : value === noneValue
+        ? "No company"
+        : (selectedCompany?.name ?? "Loading...");
+
+  const handleSelect = (nextValue: string): void => {
+    onValueChange(nextValue === value ? "" : nextValue);
+    setOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", className)}
+        >
+          <span
+            className={cn(
+              "truncate",
+              !selectedLabel && "text-muted-foreground"
+            )}
+          >
+            {selectedLabel ?? placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 size-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-[var(--radix-popover-trigger-width)] p-0"
+        align="start"
+      >
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search companies..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>
+              {isLoading
+                ? "Loading companies..."
+                : isError
+                  ? "Failed to load companies."
+                  : "No companies found."}
+            </CommandEmpty>
+            {noneValue !== undefined && !debouncedSearch && (
+              <CommandGroup>
+                <CommandItem
+                  value={noneValue}
+                  onSelect={() => handleSelect(noneValue)}
+                >
+                  <Check
+                    className={cn(
+                      "size-4",
+                      value === noneValue ? "opacity-100" : "opacity-0"
+                    )}
+                  />
+                  No company
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {companies.length > 0 && (
+              <CommandGroup>
+                {companies.map((company) => (
+                  <CommandItem
+                    key={company.id}
+                    value={company.id}
+                    onSelect={() => handleSelect(company.id)}
+                  >
+                    <Check
+                      className={cn(
+                        "size-4",
+                        value === company.id ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <span className="truncate">{company.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -8,6 +8,8 @@
 import { type ReactElement, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { UserList } from "@/features/users/components/user-list";
 import { CompanyForm } from "./company-form";
 import { useDeleteCompany } from "../hooks/use-company-mutations";
 import { toast } from "sonner";
@@ -34,12 +36,15 @@ export interface CompanyDetailClientProps {
   canEdit: boolean;
   /** Whether user can delete */
   canDelete: boolean;
+  /** Whether user can view the company's members (users.view) */
+  canViewMembers: boolean;
 }
 
 /**
  * Client component for company detail page
  *
- * Handles all interactive elements including delete dialog.
+ * Handles all interactive elements including delete dialog, and lists the
+ * company's users in a Members tab.
  * Receives company data and permissions as props from server component.
  *
  * @param props - Component props
@@ -49,6 +54,7 @@ export function CompanyDetailClient({
   company,
   canEdit,
   canDelete,
+  canViewMembers,
 }: CompanyDetailClientProps): ReactElement {
   const router = useRouter();
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -98,8 +104,25 @@ export function CompanyDetailClient({
           </Button>
         )}
       </div>
-      {canEdit && (
-        <CompanyForm companyId={company.id} initialData={initialData} />
+      {canViewMembers ? (
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="members">Members</TabsTrigger>
+          </TabsList>
+          <TabsContent value="details" className="mt-4">
+            {canEdit && (
+              <CompanyForm companyId={company.id} initialData={initialData} />
+            )}
+          </TabsContent>
+          <TabsContent value="members" className="mt-4 h-[600px]">
+            <UserList companyId={company.id} />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        canEdit && (
+          <CompanyForm companyId={company.id} initialData={initialData} />
+        )
       )}
       <AlertDialog
         open={isDeleteDialogOpen}
@@ -9,9 +9,13 @@ import React, { useMemo, useCallback, type ReactElement } from "react";
 import { useRouter } from "next/navigation";
 import { useQueryState } from "nuqs";
 import { DataGrid } from "@/components/data-grid";
-import { useCompanies } from "../hooks/use-companies";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { useCompanies, type CompanyFilters } from "../hooks/use-companies";
+import { COMPANY_SORT_COLUMNS } from "../schemas/company.schema";
 import { useColumnLayout } from "../hooks/use-column-layout";
 import { EmptyState } from "./empty-state";
+import { CompanyBulkActions } from "./company-bulk-actions";
 import {
   createCompanyColumns,
   getCompanySortColumn,
@@ -68,7 +72,8 @@ export const COLUMN_DEFINITIONS = [
  * Company list component for displaying companies
  *
  * Provides a table view of companies with infinite scroll pagination,
- * sorting, and column customization.
+ * sorting, and column customization. Users allowed to delete or restore
+ * companies can select rows and act on them in bulk.
  *
  * @param props - Component props
  * @returns React element containing companies list
@@ -78,6 +83,8 @@ export function CompanyList({
   columnLayout,
 }: CompanyListProps): ReactElement {
   const router = useRouter();
+  const canDeleteCompanies = useHasPermission(PERMISSIONS.companies.delete);
+  const canRestoreCompanies = useHasPermission(PERMISSIONS.companies.restore);
   const [search] = useQueryState("search", { defaultValue: "" });
   const [includeDeleted] = useQueryState("include_deleted", {
     defaultValue: false,
@@ -85,16 +92,19 @@ export function CompanyList({
   });
 
   // Sort state management
-  const [sort, setSort] = useQueryState<"name" | "created_at">("sort", {
-    clearOnDefault: true,
-    parse: (value) => {
-      const validSorts = ["name", "created_at"] as const;
-      return validSorts.includes(value as (typeof validSorts)[number])
-        ? (value as (typeof validSorts)[number])
-        : null;
-    },
-    serialize: (value) => value ?? "",
-  });
+  const [sort, setSort] = useQueryState<(typeof COMPANY_SORT_COLUMNS)[number]>(
+    "sort",
+    {
+      clearOnDefault: true,
+      parse: (value) =>
+        COMPANY_SORT_COLUMNS.includes(
+          value as (typeof COMPANY_SORT_COLUMNS)[number]
+        )
+          ? (value as (typeof COMPANY_SORT_COLUMNS)[number])
+          : null,
+      serialize: (value) => value ?? "",
+    }
+  );
 
   const [order, setOrder] = useQueryState<"asc" | "desc">("order", {
     clearOnDefault: true,
@@ -103,16 +113,18 @@ export function CompanyList({
   });
 
   const filters = useMemo(() => {
-    const filterObj: {
-      search?: string;
-      include_deleted?: boolean;
-    } = {};
+    const filterObj: CompanyFilters = {};
 
     if (search) filterObj.search = search;
     if (includeDeleted) filterObj.include_deleted = includeDeleted;
+    // Sorting happens on the server so it spans every page
+    if (sort) {
+      filterObj.sort = sort;
+      filterObj.order = order ?? "asc";
+    }
 
     return filterObj;
-  }, [search, includeDeleted]);
+  }, [search, includeDeleted, sort, order]);
 
   const {
     data,
@@ -198,6 +210,17 @@ export function CompanyList({
     return !!(search || includeDeleted);
   }, [search, includeDeleted]);
 
+  // Bulk actions for the selected companies
+  const renderSelectionActions = useCallback(
+    (selectedCompanies: Company[], clearSelection: () => void) => (
+      <CompanyBulkActions
+        companies={selectedCompanies}
+        onClearSelection={clearSelection}
+      />
+    ),
+    []
+  );
+
   // Empty state component
   const emptyState = useMemo(
     () => (
@@ -230,6 +253,8 @@ export function CompanyList({
       enableColumnReordering={true}
       enableColumnVisibility={true}
       enableSorting={true}
+      enableRowSelection={canDeleteCompanies || canRestoreCompanies}
+      renderSelectionActions={renderSelectionActions}
       // Column management
       columnOrder={columnOrder}
       setColumnOrder={setColumnOrder}
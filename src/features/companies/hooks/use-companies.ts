@@ -5,8 +5,10 @@
 
 import type { Company } from "../lib/company-service";
 import { z } from "zod";
+import { useQuery } from "@tanstack/react-query";
 import { useEntityQuery } from "@/hooks/use-entity-query";
 import { useEntityList } from "@/hooks/use-entity-list";
+import type { COMPANY_SORT_COLUMNS } from "../schemas/company.schema";
 
 /**
  * Company query response schema
@@ -21,12 +23,9 @@ const CompaniesResponseSchema = z.object({
       deleted_at: z.string().nullable(),
     })
   ),
-  pagination: z.object({
-    offset: z.number(),
-    limit: z.number(),
-    total: z.number(),
-    has_next: z.boolean(),
-  }),
+  next_cursor: z.string().nullable(),
+  has_next: z.boolean(),
+  total: z.number(),
 });
 
 type CompaniesResponse = z.infer<typeof CompaniesResponseSchema>;
@@ -37,6 +36,10 @@ type CompaniesResponse = z.infer<typeof CompaniesResponseSchema>;
 export interface CompanyFilters {
   search?: string;
   include_deleted?: boolean;
+  /** Column to sort by (the API defaults to created_at) */
+  sort?: (typeof COMPANY_SORT_COLUMNS)[number];
+  /** Sort direction (the API defaults to desc) */
+  order?: "asc" | "desc";
 }
 
 /**
@@ -61,7 +64,7 @@ const DEFAULT_PAGE_SIZE = 20;
  * ```
  */
 export function useCompanies(filters: CompanyFilters = {}) {
-  return useEntityList<Company, CompanyFilters, number, CompaniesResponse>({
+  return useEntityList<Company, CompanyFilters, string, CompaniesResponse>({
     filters,
     endpoint: "/api/admin/companies",
     buildParams: (filters, pageParam) => {
@@ -73,22 +76,80 @@ export function useCompanies(filters: CompanyFilters = {}) {
       if (filters.include_deleted) {
         params.append("include_deleted", "true");
       }
+      if (filters.sort) {
+        params.append("sort", filters.sort);
+      }
+      if (filters.order) {
+        params.append("order", filters.order);
+      }
 
-      params.append("offset", pageParam.toString());
+      // Keyset pagination keeps pages stable while rows are added or removed
+      params.append("cursor", pageParam);
       params.append("limit", DEFAULT_PAGE_SIZE.toString());
+      // Planner estimates are close for the full list but can be far off
+      // for a search, so searched totals are counted exactly
+      params.append("count", filters.search ? "exact" : "estimated");
 
       return params;
     },
     responseSchema: CompaniesResponseSchema as z.ZodSchema<CompaniesResponse>,
     queryKey: ["companies"],
-    getNextPageParam: (lastPage, allPages) => {
-      if (!lastPage.pagination.has_next) {
-        return undefined;
+    getNextPageParam: (lastPage) =>
+      lastPage.has_next ? (lastPage.next_cursor ?? undefined) : undefined,
+    initialPageParam: "",
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+}
+
+/**
+ * Number of companies offered by useCompanyLookup
+ */
+const LOOKUP_LIMIT = 20;
+
+/**
+ * Company lookup response schema (first page of matching companies)
+ */
+const CompanyLookupResponseSchema = z.object({
+  companies: z.array(CompaniesResponseSchema.shape.companies.element),
+});
+
+/**
+ * Custom hook for looking up active companies by name
+ *
+ * Returns the first companies (alphabetically) whose name matches the
+ * search, for comboboxes that search on the server as the user types.
+ *
+ * @param search - Name search term (empty for the first companies)
+ * @returns Query result with matching companies
+ *
+ * @example
+ * ```tsx
+ * const { data: companies = [] } = useCompanyLookup(debouncedSearch);
+ * ```
+ */
+export function useCompanyLookup(search: string) {
+  return useQuery<Company[]>({
+    queryKey: ["companies", "lookup", search],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        limit: LOOKUP_LIMIT.toString(),
+        sort: "name",
+        order: "asc",
+        count: "estimated",
+      });
+      if (search) {
+        params.append("search", search);
+      }
+
+      const response = await fetch(`/api/admin/companies?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch companies");
       }
-      return allPages.length * DEFAULT_PAGE_SIZE;
+
+      const data = await response.json();
+      return CompanyLookupResponseSchema.parse(data).companies;
     },
-    initialPageParam: 0,
-    pageSize: DEFAULT_PAGE_SIZE,
+    staleTime: 60 * 1000,
   });
 }
 
@@ -7,9 +7,12 @@ import {
   useCreateEntity,
   useUpdateEntity,
   useDeleteEntity,
+  useBulkEntityMutation,
 } from "@/hooks/use-entity-mutations";
+import type { BulkActionResult } from "@/lib/bulk-actions";
 import type { Company } from "../lib/company-service";
 import type {
+  BulkCompanyActionInput,
   CreateCompanyInput,
   UpdateCompanyInput,
 } from "../schemas/company.schema";
@@ -149,3 +152,38 @@ export function useDeleteCompany(_options?: {
     entityName: "company",
   });
 }
+
+/**
+ * Hook for soft-deleting or restoring many companies at once
+ *
+ * @param options - Optional mutation options
+ * @returns Mutation hook for bulk company actions
+ *
+ * @example
+ * ```tsx
+ * const { mutate: bulkUpdateCompanies, isPending } = useBulkCompanyAction({
+ *   onSuccess: (result) => {
+ *     toast.success(`${result.succeeded} companies deleted`);
+ *   },
+ * });
+ *
+ * bulkUpdateCompanies({ action: "soft_delete", ids: companyIds });
+ * ```
+ */
+export function useBulkCompanyAction(options?: {
+  onSuccess?: (result: BulkActionResult) => void;
+  onError?: (error: Error) => void;
+}) {
+  return useBulkEntityMutation<BulkCompanyActionInput>(
+    {
+      endpoint: "/api/admin/companies/bulk",
+      errorSchema: ErrorResponseSchema,
+      queryKeys: {
+        detail: ["company"],
+        list: ["companies"],
+      },
+      entityName: "companies",
+    },
+    options
+  );
+}
@@ -10,6 +10,13 @@ import type {
   UpdateCompanyInput,
   CompanyQueryInput,
 } from "../schemas/company.schema";
+import type { PermissionFilter } from "@/lib/auth/permission-conditions";
+import {
+  decodeListCursor,
+  encodeListCursor,
+  getKeysetFilter,
+} from "@/lib/pagination";
+import { emitWebhookEvent } from "@/features/webhooks/lib/webhook-delivery";
 
 /**
  * Company type from database
@@ -138,17 +145,50 @@ export async function assignCompanyByEmail(
 }
 
 /**
- * Fetches a list of companies with optional search and pagination
+ * Page of companies returned by getCompanies
+ */
+export interface CompanyListPage {
+  companies: Company[];
+  /** Matching companies (estimated when `query.count` is "estimated") */
+  total: number;
+  /** Whether more companies follow this page */
+  hasNext: boolean;
+  /** Cursor of the next page (null on the last page) */
+  nextCursor: string | null;
+}
+
+/**
+ * Fetches a list of companies with optional search, sorting and pagination
+ * Pages by `query.cursor` when it is set (an empty cursor is the first page),
+ * otherwise by `query.offset`.
  *
  * @param query - Query parameters for filtering and pagination
+ * @param permissionFilter - Rows the caller's companies.view grants allow
  * @returns Promise resolving to companies array and pagination info
+ * @throws Error if the cursor is invalid or the query fails
  */
 export async function getCompanies(
-  query: CompanyQueryInput
-): Promise<{ companies: Company[]; total: number }> {
+  query: CompanyQueryInput,
+  permissionFilter: PermissionFilter
+): Promise<CompanyListPage> {
+  if (permissionFilter.type === "none") {
+    return { companies: [], total: 0, hasNext: false, nextCursor: null };
+  }
+
+  const cursor = query.cursor
+    ? decodeListCursor(query.cursor, query.sort, query.order)
+    : null;
+
   const supabase = createAdminClient();
 
-  let queryBuilder = supabase.from("companies").select("*", { count: "exact" });
+  let queryBuilder = supabase
+    .from("companies")
+    .select("*", { count: query.count });
+
+  // Restrict to rows allowed by conditional permissions
+  if (permissionFilter.type === "filtered") {
+    queryBuilder = queryBuilder.or(permissionFilter.filter);
+  }
 
   // Filter deleted companies
   if (!query.include_deleted) {
@@ -160,12 +200,18 @@ export async function getCompanies(
     queryBuilder = queryBuilder.ilike("name", `%${query.search}%`);
   }
 
-  // Apply pagination
-  const from = query.offset;
-  const to = from + query.limit - 1;
+  // Continue after the cursor
+  if (cursor) {
+    queryBuilder = queryBuilder.or(getKeysetFilter(cursor));
+  }
+
+  // Apply pagination, fetching one extra row to tell if a next page exists
+  const from = query.cursor === undefined ? query.offset : 0;
+  const ascending = query.order === "asc";
   queryBuilder = queryBuilder
-    .range(from, to)
-    .order("created_at", { ascending: false });
+    .order(query.sort, { ascending, nullsFirst: false })
+    .order("id", { ascending })
+    .range(from, from + query.limit);
 
   const { data, error, count } = await queryBuilder;
 
@@ -177,12 +223,28 @@ export async function getCompanies(
     return {
       companies: [],
       total: count || 0,
+      hasNext: false,
+      nextCursor: null,
     };
   }
 
+  const hasNext = data.length > query.limit;
+  const companies = hasNext ? data.slice(0, query.limit) : data;
+  const lastRow = companies[companies.length - 1];
+
   return {
-    companies: data,
+    companies,
     total: count || 0,
+    hasNext,
+    nextCursor:
+      hasNext && lastRow
+        ? encodeListCursor({
+            sort: query.sort,
+            order: query.order,
+            value: lastRow[query.sort],
+            id: lastRow.id,
+          })
+        : null,
   };
 }
 
@@ -226,6 +288,8 @@ export async function createCompany(
     throw new Error(`Failed to create company: ${companyError.message}`);
   }
 
+  await emitWebhookEvent("company.created", { company });
+
   return company;
 }
 
@@ -287,6 +351,11 @@ export async function updateCompany(
     throw new Error(`Failed to update company: ${companyError.message}`);
   }
 
+  await emitWebhookEvent("company.updated", {
+    company,
+    previous: { name: currentCompany.name },
+  });
+
   return { company, conflict: hasConflict || false };
 }
 
@@ -311,12 +380,60 @@ export async function softDeleteCompany(companyId: string): Promise<void> {
   }
 
   // Soft delete company
+  const deletedAt = new Date().toISOString();
   const { error } = await adminSupabase
     .from("companies")
-    .update({ deleted_at: new Date().toISOString() })
+    .update({ deleted_at: deletedAt })
     .eq("id", companyId);
 
   if (error) {
     throw new Error(`Failed to delete company: ${error.message}`);
   }
+
+  await emitWebhookEvent("company.deleted", {
+    company: { ...company, deleted_at: deletedAt },
+  });
+}
+
+/**
+ * Restores a soft-deleted company by clearing deleted_at timestamp
+ *
+ * @param companyId - Company ID to restore
+ * @returns Promise resolving to the restored company
+ * @throws Error if company not found, not deleted, or the update fails
+ */
+export async function restoreCompany(companyId: string): Promise<Company> {
+  const adminSupabase = createAdminClient();
+
+  // Check if company exists (getCompanyById skips deleted companies)
+  const { data: company, error: fetchError } = await adminSupabase
+    .from("companies")
+    .select("id, deleted_at")
+    .eq("id", companyId)
+    .single();
+
+  if (fetchError) {
+    if (fetchError.code === "PGRST116") {
+      throw new Error("Company not found");
+    }
+    throw new Error(`Failed to fetch company: ${fetchError.message}`);
+  }
+
+  // Check if actually soft-deleted
+  if (!company.deleted_at) {
+    throw new Error("Company is not soft-deleted");
+  }
+
+  const { data, error } = await adminSupabase
+    .from("companies")
+    .update({ deleted_at: null })
+    .eq("id", companyId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to restore company: ${error.message}`);
+  }
+
+  return data;
 }
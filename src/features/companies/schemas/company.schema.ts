@@ -4,6 +4,7 @@
  */
 
 import { z } from "zod";
+import { bulkIdsSchema } from "@/lib/bulk-actions";
 
 /**
  * Schema for creating a new company
@@ -30,15 +31,37 @@ export const updateCompanySchema = z.object({
   updated_at: z.string().datetime().optional(),
 });
 
+/**
+ * Columns the company list can be sorted by
+ */
+export const COMPANY_SORT_COLUMNS = ["name", "created_at"] as const;
+
 /**
  * Schema for querying companies (list/search/filter)
  * Used for GET /api/admin/companies endpoint
+ * Defaults to newest first; ties are broken by ID so pages stay stable
+ * Setting `cursor` (empty for the first page) switches from offset to keyset
+ * pagination; `count: "estimated"` uses the planner's row estimate for
+ * large results instead of counting every row
  */
 export const companyQuerySchema = z.object({
   offset: z.coerce.number().int().min(0).default(0),
   limit: z.coerce.number().int().min(1).max(100).default(20),
   search: z.string().optional(),
   include_deleted: z.coerce.boolean().default(false),
+  sort: z.enum(COMPANY_SORT_COLUMNS).default("created_at"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().max(1024).optional(),
+  count: z.enum(["exact", "estimated"]).default("exact"),
+});
+
+/**
+ * Schema for bulk company actions
+ * Used for POST /api/admin/companies/bulk
+ */
+export const bulkCompanyActionSchema = z.object({
+  action: z.enum(["soft_delete", "restore"]),
+  ids: bulkIdsSchema,
 });
 
 /**
@@ -47,3 +70,4 @@ export const companyQuerySchema = z.object({
 export type CreateCompanyInput = z.infer<typeof createCompanySchema>;
 export type UpdateCompanyInput = z.infer<typeof updateCompanySchema>;
 export type CompanyQueryInput = z.infer<typeof companyQuerySchema>;
+export type BulkCompanyActionInput = z.infer<typeof bulkCompanyActionSchema>;
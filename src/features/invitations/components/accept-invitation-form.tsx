@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Form for accepting a user invitation
+ * @module features/invitations/components/accept-invitation-form
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useAcceptInvitation } from "../hooks/use-invitations";
+
+/**
+ * Props for AcceptInvitationForm component
+ */
+export interface AcceptInvitationFormProps {
+  /** Plain invitation token from the email link */
+  token: string;
+  /** Path to continue to once signed in */
+  redirectTo: string;
+}
+
+/**
+ * Accept invitation form
+ *
+ * Accepting creates the account and signs the user in, then continues to
+ * `redirectTo`.
+ *
+ * @param props - Component props
+ * @returns React element containing the accept button
+ */
+export function AcceptInvitationForm({
+  token,
+  redirectTo,
+}: AcceptInvitationFormProps): ReactElement {
+  const router = useRouter();
+  const acceptInvitation = useAcceptInvitation();
+
+  const handleAccept = (): void => {
+    acceptInvitation.mutate(token, {
+      onSuccess: () => {
+        router.push(redirectTo);
+        router.refresh();
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {acceptInvitation.isError && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          {acceptInvitation.error.message}
+        </div>
+      )}
+      <Button
+        className="w-full"
+        onClick={handleAccept}
+        disabled={acceptInvitation.isPending || acceptInvitation.isSuccess}
+      >
+        {acceptInvitation.isPending || acceptInvitation.isSuccess
+          ? "Creating your account..."
+          : "Accept Invitation"}
+      </Button>
+    </div>
+  );
+}
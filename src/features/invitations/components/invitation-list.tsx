@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Invitation list for the users page
+ * @module features/invitations/components/invitation-list
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  useInvitations,
+  useResendInvitation,
+  useRevokeInvitation,
+} from "../hooks/use-invitations";
+import type {
+  Invitation,
+  InvitationStatus,
+} from "../schemas/invitation.schema";
+
+/**
+ * Select value for "no status filter"
+ */
+const ALL_STATUSES = "all";
+
+/**
+ * Status filter options
+ */
+const STATUS_OPTIONS: { value: InvitationStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "accepted", label: "Accepted" },
+  { value: "expired", label: "Expired" },
+  { value: "revoked", label: "Revoked" },
+];
+
+/**
+ * Badge variant for each invitation status
+ */
+const STATUS_BADGE_VARIANTS: Record<
+  InvitationStatus,
+  "success" | "info" | "outline"
+> = {
+  pending: "info",
+  accepted: "success",
+  expired: "outline",
+  revoked: "outline",
+};
+
+/**
+ * Formats an ISO timestamp as a short date
+ *
+ * @param value - ISO timestamp
+ * @returns Localized date (e.g. "Oct 19, 2026")
+ */
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Invitation list
+ *
+ * Lists invitations with their role, company, status and expiry. Pending
+ * and expired invitations can be resent; pending ones can be revoked.
+ *
+ * @returns React element containing the invitation list
+ */
+export function InvitationList(): ReactElement {
+  const [status, setStatus] = useState<InvitationStatus | undefined>("pending");
+  const {
+    data: invitations = [],
+    isLoading,
+    isError,
+    error,
+  } = useInvitations(status);
+  const resendInvitation = useResendInvitation();
+  const revokeInvitation = useRevokeInvitation();
+  const canManage = useHasPermission(PERMISSIONS.users.create);
+  const [invitationToRevoke, setInvitationToRevoke] =
+    useState<Invitation | null>(null);
+
+  const handleResend = (invitation: Invitation): void => {
+    resendInvitation.mutate(invitation.id, {
+      onSuccess: () => {
+        toast.success(`Invitation resent to ${invitation.email}`);
+      },
+      onError: (resendError) => {
+        toast.error("Failed to resend invitation", {
+          description: resendError.message,
+        });
+      },
+    });
+  };
+
+  const handleRevoke = (): void => {
+    if (!invitationToRevoke) return;
+
+    revokeInvitation.mutate(invitationToRevoke.id, {
+      onSuccess: () => {
+        toast.success(`Invitation for ${invitationToRevoke.email} revoked`);
+        setInvitationToRevoke(null);
+      },
+      onError: (revokeError) => {
+        toast.error("Failed to revoke invitation", {
+          description: revokeError.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select
+          value={status ?? ALL_STATUSES}
+          onValueChange={(value) =>
+            setStatus(
+              value === ALL_STATUSES ? undefined : (value as InvitationStatus)
+            )
+          }
+        >
+          <SelectTrigger className="w-40" aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading invitations...</p>
+      ) : isError ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : invitations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No invitations found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Company</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Sent</TableHead>
+              <TableHead>Expires</TableHead>
+              {canManage && (
+                <TableHead className="text-right">
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map((invitation) => (
+              <TableRow key={invitation.id}>
+                <TableCell>
+                  <div className="font-medium">{invitation.email}</div>
+                  {invitation.full_name && (
+                    <div className="text-xs text-muted-foreground">
+                      {invitation.full_name}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="capitalize">{invitation.role}</TableCell>
+                <TableCell>
+                  {invitation.company_name ?? (
+                    <span className="text-muted-foreground">By email</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={STATUS_BADGE_VARIANTS[invitation.status]}
+                    size="sm"
+                    className="capitalize"
+                  >
+                    {invitation.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{formatDate(invitation.last_sent_at)}</TableCell>
+                <TableCell>{formatDate(invitation.expires_at)}</TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {(invitation.status === "pending" ||
+                        invitation.status === "expired") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleResend(invitation)}
+                          disabled={resendInvitation.isPending}
+                        >
+                          Resend
+                        </Button>
+                      )}
+                      {invitation.status === "pending" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setInvitationToRevoke(invitation)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AlertDialog
+        open={invitationToRevoke !== null}
+        onOpenChange={(open) => !open && setInvitationToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Invitation</AlertDialogTitle>
+            <AlertDialogDescription>
+              The invitation link sent to{" "}
+              <strong>{invitationToRevoke?.email}</strong> will stop working.
+              You can invite them again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revokeInvitation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              disabled={revokeInvitation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {revokeInvitation.isPending ? "Revoking..." : "Revoke Invitation"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Dialog for inviting a user by email
+ * @module features/invitations/components/invite-user-dialog
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import type { UserRole } from "@/features/auth/schemas/role.schema";
+import { useCompaniesSimple } from "@/features/companies/hooks/use-companies-simple";
+import { useCreateInvitation } from "../hooks/use-invitations";
+import { INVITATION_VALIDITY_DAYS } from "../schemas/invitation.schema";
+
+/**
+ * Select value for "assign the company matching the email domain"
+ */
+const EMAIL_DOMAIN_COMPANY = "email-domain";
+
+/**
+ * Role options for the role select field
+ */
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: "member", label: "Member" },
+  { value: "admin", label: "Admin" },
+  { value: "superadmin", label: "Superadmin" },
+];
+
+/**
+ * Props for InviteUserDialog component
+ */
+export interface InviteUserDialogProps {
+  /** Whether dialog is open */
+  open: boolean;
+  /** Handler for open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for inviting a user by email
+ *
+ * Roles above member are only offered with users.assign_role, and the
+ * company can only be picked with users.view_all (other admins always
+ * invite into their own company).
+ *
+ * @param props - Component props
+ * @returns React element containing the invite user dialog
+ */
+export function InviteUserDialog({
+  open,
+  onOpenChange,
+}: InviteUserDialogProps): ReactElement {
+  const createInvitation = useCreateInvitation();
+  const canAssignRole = useHasPermission(PERMISSIONS.users.assignRole);
+  const canPickCompany = useHasPermission(PERMISSIONS.users.viewAll);
+  const { data: companiesData } = useCompaniesSimple();
+  const companies = companiesData?.companies ?? [];
+  const [email, setEmail] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [role, setRole] = useState<UserRole>("member");
+  const [companyId, setCompanyId] = useState(EMAIL_DOMAIN_COMPANY);
+
+  const reset = (): void => {
+    setEmail("");
+    setFullName("");
+    setRole("member");
+    setCompanyId(EMAIL_DOMAIN_COMPANY);
+    createInvitation.reset();
+  };
+
+  const handleOpenChange = (nextOpen: boolean): void => {
+    if (!nextOpen) {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleInvite = (): void => {
+    createInvitation.mutate(
+      {
+        email,
+        full_name: fullName.trim() || null,
+        role,
+        ...(companyId !== EMAIL_DOMAIN_COMPANY && { company_id: companyId }),
+      },
+      {
+        onSuccess: (invitation) => {
+          toast.success(`Invitation sent to ${invitation.email}`);
+          handleOpenChange(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+          <DialogDescription>
+            We&apos;ll email a link to join. It expires in{" "}
+            {INVITATION_VALIDITY_DAYS} days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invitation-email">Email Address</Label>
+            <Input
+              id="invitation-email"
+              type="email"
+              value={email}
+              placeholder="user@example.com"
+              onChange={(event) => setEmail(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invitation-full-name">Full Name</Label>
+            <Input
+              id="invitation-full-name"
+              value={fullName}
+              maxLength={255}
+              placeholder="John Doe"
+              onChange={(event) => setFullName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invitation-role">Role</Label>
+            <Select
+              value={role}
+              onValueChange={(value) => setRole(value as UserRole)}
+              disabled={!canAssignRole}
+            >
+              <SelectTrigger id="invitation-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {canPickCompany && (
+            <div className="space-y-2">
+              <Label htmlFor="invitation-company">Company</Label>
+              <Select value={companyId} onValueChange={setCompanyId}>
+                <SelectTrigger id="invitation-company">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EMAIL_DOMAIN_COMPANY}>
+                    Match email domain
+                  </SelectItem>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {createInvitation.isError && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              {createInvitation.error.message}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={createInvitation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleInvite}
+            disabled={createInvitation.isPending || email.trim().length === 0}
+          >
+            {createInvitation.isPending ? "Sending..." : "Send Invitation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
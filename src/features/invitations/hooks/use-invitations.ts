@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Query and mutation hooks for user invitations
+ * @module features/invitations/hooks/use-invitations
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  invitationSchema,
+  type CreateInvitationInput,
+  type Invitation,
+  type InvitationStatus,
+} from "../schemas/invitation.schema";
+
+/**
+ * Query key for invitation lists
+ */
+const INVITATIONS_QUERY_KEY = ["invitations"] as const;
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for listing invitations
+ *
+ * @param status - Optional status filter
+ * @returns Query result with the invitations (newest first)
+ *
+ * @example
+ * ```tsx
+ * const { data: invitations = [], isLoading } = useInvitations("pending");
+ * ```
+ */
+export function useInvitations(status?: InvitationStatus) {
+  return useQuery<Invitation[]>({
+    queryKey: [...INVITATIONS_QUERY_KEY, status ?? "all"],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (status) {
+        params.set("status", status);
+      }
+
+      const response = await fetch(`/api/admin/invitations?${params}`);
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch invitations")
+        );
+      }
+
+      const responseData = await response.json();
+      return z
+        .object({ invitations: z.array(invitationSchema) })
+        .parse(responseData).invitations;
+    },
+  });
+}
+
+/**
+ * Hook for inviting a user by email
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const createInvitation = useCreateInvitation();
+ * createInvitation.mutate({ email: "user@example.com", role: "member" });
+ * ```
+ */
+export function useCreateInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Invitation, Error, CreateInvitationInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/admin/invitations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to send invitation")
+        );
+      }
+
+      const responseData = await response.json();
+      return invitationSchema.parse(responseData.invitation);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INVITATIONS_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for sending an invitation again with a new link
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const resendInvitation = useResendInvitation();
+ * resendInvitation.mutate(invitationId);
+ * ```
+ */
+export function useResendInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Invitation, Error, string>({
+    mutationFn: async (invitationId) => {
+      const response = await fetch(
+        `/api/admin/invitations/${invitationId}/resend`,
+        { method: "POST" }
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to resend invitation")
+        );
+      }
+
+      const responseData = await response.json();
+      return invitationSchema.parse(responseData.invitation);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INVITATIONS_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for revoking an invitation
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const revokeInvitation = useRevokeInvitation();
+ * revokeInvitation.mutate(invitationId);
+ * ```
+ */
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (invitationId) => {
+      const response = await fetch(`/api/admin/invitations/${invitationId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to revoke invitation")
+        );
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INVITATIONS_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for accepting an invitation
+ * On success the new user is signed in.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const acceptInvitation = useAcceptInvitation();
+ * acceptInvitation.mutate(token, { onSuccess: () => router.push("/admin") });
+ * ```
+ */
+export function useAcceptInvitation() {
+  return useMutation<void, Error, string>({
+    mutationFn: async (token) => {
+      const response = await fetch("/api/auth/invitations/accept", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to accept invitation")
+        );
+      }
+    },
+  });
+}
@@ -0,0 +1,545 @@
+/**
+ * @fileoverview Invitation service for inviting users by email
+ * @module features/invitations/lib/invitation-service
+ *
+ * An invitation records who was invited, by whom, with which role and
+ * company, and until when. The invitee receives a link with a random token;
+ * only its SHA-256 hash is stored. Accepting the invitation creates the
+ * auth user and profile (see `acceptInvitation`). Invitations are scoped to
+ * the inviter's company like users (see lib/auth/company-scope).
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { User as AuthUser } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import type { CompanyScope } from "@/lib/auth/company-scope";
+import { sendMail } from "@/lib/mail/mailer";
+import { createUser } from "@/features/users/lib/user-service";
+import type { User } from "@/features/users/types/user.types";
+import {
+  INVITATION_VALIDITY_DAYS,
+  invitationSchema,
+  type CreateInvitationInput,
+  type Invitation,
+  type InvitationQueryInput,
+  type InvitationStatus,
+} from "../schemas/invitation.schema";
+
+/**
+ * Table name for invitations in Supabase
+ */
+const INVITATIONS_TABLE_NAME = "invitations" as const;
+
+/**
+ * Columns returned for invitations (never the token hash)
+ */
+const INVITATION_COLUMNS =
+  "id, email, full_name, role, company_id, invited_by, expires_at, accepted_at, revoked_at, last_sent_at, created_at, companies!invitations_company_id_fkey(name)";
+
+/**
+ * Path of the page where invitations are accepted
+ */
+export const ACCEPT_INVITATION_PATH = "/auth/invite";
+
+/**
+ * Invitation row as selected with `INVITATION_COLUMNS`
+ */
+interface InvitationRow {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: string;
+  company_id: string | null;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  last_sent_at: string;
+  created_at: string;
+  /** Many-to-one join, returned as an object (typed as an array by the client) */
+  companies?: unknown;
+}
+
+/**
+ * Derives the status of an invitation
+ *
+ * @param invitation - Invitation timestamps
+ * @returns Invitation status
+ */
+export function getInvitationStatus(invitation: {
+  accepted_at: string | null;
+  revoked_at: string | null;
+  expires_at: string;
+}): InvitationStatus {
+  if (invitation.accepted_at) return "accepted";
+  if (invitation.revoked_at) return "revoked";
+  if (new Date(invitation.expires_at) <= new Date()) return "expired";
+  return "pending";
+}
+
+/**
+ * Maps a database row to an Invitation
+ *
+ * @param row - Invitation row
+ * @returns Validated invitation
+ */
+function toInvitation(row: InvitationRow): Invitation {
+  const { companies, ...invitation } = row;
+  const company = companies as { name: string } | null | undefined;
+  return invitationSchema.parse({
+    ...invitation,
+    company_name: company?.name ?? null,
+    status: getInvitationStatus(invitation),
+  });
+}
+
+/**
+ * Hashes an invitation token for storage and lookup
+ *
+ * @param token - Plain token
+ * @returns SHA-256 hash as hex
+ */
+function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a new invitation token and its expiry
+ *
+ * @returns Plain token, its hash and the expiry timestamp
+ */
+function issueInvitationToken(): {
+  token: string;
+  tokenHash: string;
+  expiresAt: string;
+} {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(
+      Date.now() + INVITATION_VALIDITY_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  };
+}
+
+/**
+ * Escapes text for inclusion in an HTML email
+ *
+ * @param value - Plain text
+ * @returns HTML-escaped text
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Sends the invitation email with the accept link
+ *
+ * @param invitation - Invitation being sent
+ * @param token - Plain invitation token
+ * @returns Promise resolving when the email is handed to the transport
+ * @throws Error if the email cannot be sent
+ */
+async function sendInvitationEmail(
+  invitation: Invitation,
+  token: string
+): Promise<void> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const acceptUrl = `${appUrl}${ACCEPT_INVITATION_PATH}?token=${encodeURIComponent(token)}`;
+  const greeting = invitation.full_name ? `Hi ${invitation.full_name},` : "Hi,";
+  const companyLine = invitation.company_name
+    ? ` to join ${invitation.company_name}`
+    : "";
+  const expiresOn = new Date(invitation.expires_at).toDateString();
+
+  await sendMail({
+    to: invitation.email,
+    subject: "You're invited to AppName",
+    text: [
+      greeting,
+      "",
+      `You have been invited${companyLine} on AppName.`,
+      "",
+      `Accept the invitation: ${acceptUrl}`,
+      "",
+      `This link expires on ${expiresOn}. If you weren't expecting this invitation, you can ignore this email.`,
+    ].join("\n"),
+    html: [
+      `<p>${escapeHtml(greeting)}</p>`,
+      `<p>You have been invited${escapeHtml(companyLine)} on AppName.</p>`,
+      `<p><a href="${acceptUrl}">Accept the invitation</a></p>`,
+      `<p>This link expires on ${expiresOn}. If you weren't expecting this invitation, you can ignore this email.</p>`,
+    ].join("\n"),
+  });
+}
+
+/**
+ * Lists invitations, newest first
+ *
+ * @param query - Optional status filter
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving to the invitations
+ * @throws Error if database query fails
+ */
+export async function listInvitations(
+  query: InvitationQueryInput,
+  scope: CompanyScope
+): Promise<Invitation[]> {
+  const adminClient = createAdminClient();
+  const now = new Date().toISOString();
+
+  let queryBuilder = adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .select(INVITATION_COLUMNS)
+    .order("created_at", { ascending: false });
+
+  // Out-of-scope invitations are hidden; callers without a company only see
+  // their own invitations
+  if (scope) {
+    queryBuilder = scope.companyId
+      ? queryBuilder.eq("company_id", scope.companyId)
+      : queryBuilder.eq("invited_by", scope.userId);
+  }
+
+  switch (query.status) {
+    case "accepted":
+      queryBuilder = queryBuilder.not("accepted_at", "is", null);
+      break;
+    case "revoked":
+      queryBuilder = queryBuilder
+        .is("accepted_at", null)
+        .not("revoked_at", "is", null);
+      break;
+    case "expired":
+      queryBuilder = queryBuilder
+        .is("accepted_at", null)
+        .is("revoked_at", null)
+        .lte("expires_at", now);
+      break;
+    case "pending":
+      queryBuilder = queryBuilder
+        .is("accepted_at", null)
+        .is("revoked_at", null)
+        .gt("expires_at", now);
+      break;
+  }
+
+  const { data, error } = await queryBuilder;
+
+  if (error) {
+    throw new Error(`Failed to fetch invitations: ${error.message}`);
+  }
+
+  return (data as InvitationRow[]).map(toInvitation);
+}
+
+/**
+ * Retrieves an invitation by ID
+ *
+ * @param invitationId - Invitation ID
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving to the invitation, or null if not found or out of scope
+ * @throws Error if database query fails
+ */
+export async function getInvitation(
+  invitationId: string,
+  scope: CompanyScope
+): Promise<Invitation | null> {
+  const adminClient = createAdminClient();
+  let queryBuilder = adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .select(INVITATION_COLUMNS)
+    .eq("id", invitationId);
+
+  if (scope) {
+    queryBuilder = scope.companyId
+      ? queryBuilder.eq("company_id", scope.companyId)
+      : queryBuilder.eq("invited_by", scope.userId);
+  }
+
+  const { data, error } = await queryBuilder.maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch invitation: ${error.message}`);
+  }
+
+  return data ? toInvitation(data as InvitationRow) : null;
+}
+
+/**
+ * Creates an invitation and emails it to the invitee
+ * Callers limited to a company always invite into their own company.
+ *
+ * @param input - Validated invitation data
+ * @param inviter - User sending the invitation
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving to the created invitation
+ * @throws Error if the email is already in use or has a pending invitation,
+ * the company is out of scope, or the email cannot be sent
+ */
+export async function createInvitation(
+  input: CreateInvitationInput,
+  inviter: AuthUser,
+  scope: CompanyScope
+): Promise<Invitation> {
+  const adminClient = createAdminClient();
+
+  if (
+    scope &&
+    input.company_id !== undefined &&
+    input.company_id !== scope.companyId
+  ) {
+    throw new Error("Cannot invite users to a company outside your scope");
+  }
+
+  const { data: existingProfile, error: profileError } = await adminClient
+    .from("profiles")
+    .select("id")
+    .eq("email", input.email)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Failed to check email: ${profileError.message}`);
+  }
+
+  if (existingProfile) {
+    throw new Error(`Email ${input.email} is already in use`);
+  }
+
+  const { token, tokenHash, expiresAt } = issueInvitationToken();
+  const { data, error } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .insert({
+      email: input.email,
+      full_name: input.full_name || null,
+      role: input.role,
+      company_id: scope ? scope.companyId : (input.company_id ?? null),
+      token_hash: tokenHash,
+      invited_by: inviter.id,
+      expires_at: expiresAt,
+    })
+    .select(INVITATION_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error(`A pending invitation for ${input.email} already exists`);
+    }
+    throw new Error(`Failed to create invitation: ${error.message}`);
+  }
+
+  const invitation = toInvitation(data as InvitationRow);
+
+  try {
+    await sendInvitationEmail(invitation, token);
+  } catch (sendError) {
+    // Don't keep an invitation nobody received; the admin can try again
+    await adminClient
+      .from(INVITATIONS_TABLE_NAME)
+      .delete()
+      .eq("id", invitation.id);
+    throw sendError;
+  }
+
+  return invitation;
+}
+
+/**
+ * Sends an invitation again with a new token and expiry
+ * The previous link stops working.
+ *
+ * @param invitationId - Invitation ID
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving to the updated invitation
+ * @throws Error if the invitation is not found, accepted or revoked, or the
+ * email cannot be sent
+ */
+export async function resendInvitation(
+  invitationId: string,
+  scope: CompanyScope
+): Promise<Invitation> {
+  const existing = await getInvitation(invitationId, scope);
+
+  if (!existing) {
+    throw new Error("Invitation not found");
+  }
+
+  if (existing.status === "accepted" || existing.status === "revoked") {
+    throw new Error(`Invitation is already ${existing.status}`);
+  }
+
+  const { token, tokenHash, expiresAt } = issueInvitationToken();
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .update({
+      token_hash: tokenHash,
+      expires_at: expiresAt,
+      last_sent_at: new Date().toISOString(),
+    })
+    .eq("id", invitationId)
+    .select(INVITATION_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update invitation: ${error.message}`);
+  }
+
+  const invitation = toInvitation(data as InvitationRow);
+  await sendInvitationEmail(invitation, token);
+
+  return invitation;
+}
+
+/**
+ * Revokes an invitation so its link can no longer be accepted
+ *
+ * @param invitationId - Invitation ID
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving when the invitation is revoked
+ * @throws Error if the invitation is not found, accepted or already revoked
+ */
+export async function revokeInvitation(
+  invitationId: string,
+  scope: CompanyScope
+): Promise<void> {
+  const existing = await getInvitation(invitationId, scope);
+
+  if (!existing) {
+    throw new Error("Invitation not found");
+  }
+
+  if (existing.status === "accepted" || existing.status === "revoked") {
+    throw new Error(`Invitation is already ${existing.status}`);
+  }
+
+  const adminClient = createAdminClient();
+  const { error } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", invitationId);
+
+  if (error) {
+    throw new Error(`Failed to revoke invitation: ${error.message}`);
+  }
+}
+
+/**
+ * Looks up an invitation by its plain token
+ *
+ * @param token - Plain invitation token
+ * @returns Promise resolving to the invitation, or null if no invitation has this token
+ * @throws Error if database query fails
+ */
+export async function getInvitationByToken(
+  token: string
+): Promise<Invitation | null> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .select(INVITATION_COLUMNS)
+    .eq("token_hash", hashInvitationToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch invitation: ${error.message}`);
+  }
+
+  return data ? toInvitation(data as InvitationRow) : null;
+}
+
+/**
+ * Checks whether an email address has a pending invitation
+ * Used by the sign-up policy to send invitees to their invitation instead
+ * of letting them sign up themselves.
+ *
+ * @param email - Email address
+ * @returns Promise resolving to true if a pending, unexpired invitation exists
+ * @throws Error if database query fails
+ */
+export async function hasPendingInvitation(email: string): Promise<boolean> {
+  const adminClient = createAdminClient();
+  const { count, error } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .select("id", { count: "exact", head: true })
+    .eq("email", email.trim().toLowerCase())
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Failed to check invitations: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Accepts an invitation, creating the invitee's user and profile
+ * The invitation is claimed first so a token can only be used once; if the
+ * user cannot be created the claim is released.
+ *
+ * @param token - Plain invitation token
+ * @returns Promise resolving to the accepted invitation and the created user
+ * @throws Error if the invitation is invalid, expired, accepted or revoked,
+ * or the user cannot be created
+ */
+export async function acceptInvitation(
+  token: string
+): Promise<{ invitation: Invitation; user: User }> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .update({ accepted_at: new Date().toISOString() })
+    .eq("token_hash", hashInvitationToken(token))
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select(INVITATION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to accept invitation: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error("Invitation is invalid or has expired");
+  }
+
+  const invitation = toInvitation(data as InvitationRow);
+
+  let user: User;
+  try {
+    user = await createUser(
+      {
+        email: invitation.email,
+        full_name: invitation.full_name,
+        role: invitation.role,
+      },
+      null,
+      invitation.company_id ? { companyId: invitation.company_id } : {}
+    );
+  } catch (createError) {
+    await adminClient
+      .from(INVITATIONS_TABLE_NAME)
+      .update({ accepted_at: null })
+      .eq("id", invitation.id);
+    throw createError;
+  }
+
+  const { error: acceptedByError } = await adminClient
+    .from(INVITATIONS_TABLE_NAME)
+    .update({ accepted_by: user.id })
+    .eq("id", invitation.id);
+
+  if (acceptedByError) {
+    console.error("Failed to record invitation acceptance:", acceptedByError);
+  }
+
+  return { invitation, user };
+}
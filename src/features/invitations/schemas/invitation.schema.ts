@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Zod schemas for invitation validation
+ * @module features/invitations/schemas/invitation.schema
+ */
+
+import { z } from "zod";
+import { UserRoleSchema } from "@/features/auth/schemas/role.schema";
+
+/**
+ * How long an invitation stays valid after it is sent, in days
+ */
+export const INVITATION_VALIDITY_DAYS = 7;
+
+/**
+ * Invitation statuses
+ * Derived from `accepted_at`, `revoked_at` and `expires_at`
+ */
+export const invitationStatusSchema = z.enum([
+  "pending",
+  "accepted",
+  "revoked",
+  "expired",
+]);
+
+/**
+ * Schema for creating an invitation
+ * Without `company_id` the invitee is assigned to a company by email domain.
+ */
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email format"),
+  full_name: z.string().trim().max(255).nullable().optional(),
+  role: UserRoleSchema.default("member"),
+  company_id: z.string().uuid().nullable().optional(),
+});
+
+/**
+ * Schema for querying invitations
+ * Used for GET /api/admin/invitations
+ */
+export const invitationQuerySchema = z.object({
+  status: invitationStatusSchema.optional(),
+});
+
+/**
+ * Schema for an invitation as returned by the API
+ * The token hash is never returned.
+ */
+export const invitationSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string(),
+  full_name: z.string().nullable(),
+  role: UserRoleSchema,
+  company_id: z.string().uuid().nullable(),
+  company_name: z.string().nullable(),
+  invited_by: z.string().uuid().nullable(),
+  status: invitationStatusSchema,
+  expires_at: z.string(),
+  accepted_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+  last_sent_at: z.string(),
+  created_at: z.string(),
+});
+
+/**
+ * Schema for accepting an invitation
+ */
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
+export type InvitationQueryInput = z.infer<typeof invitationQuerySchema>;
+export type Invitation = z.infer<typeof invitationSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
@@ -0,0 +1,330 @@
+/**
+ * @fileoverview Conditional permission editor for custom roles
+ * @module features/roles/components/conditional-permission-editor
+ *
+ * Edits permissions a custom role grants only on resources that meet
+ * conditions, e.g. "users.edit" on the holder's own user. Every condition of
+ * an entry must hold; entries for the same permission are alternatives.
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ALL_PERMISSIONS,
+  getPermissionCategory,
+  matchesPermission,
+  type Permission,
+  type RegisteredPermission,
+} from "@/lib/auth/permissions";
+import { getPermissionConditionField } from "@/lib/auth/permission-conditions";
+import {
+  PERMISSION_CONDITION_LABELS,
+  PERMISSION_CONDITION_TYPES,
+  conditionalPermissionSchema,
+  type ConditionalPermission,
+  type PermissionCondition,
+  type PermissionConditionType,
+} from "@/features/auth/schemas/permission.schema";
+
+/**
+ * Props for ConditionalPermissionEditor component
+ */
+export interface ConditionalPermissionEditorProps {
+  /** Conditional permissions of the role */
+  value: ConditionalPermission[];
+  /** Callback with the next conditional permissions */
+  onChange: (value: ConditionalPermission[]) => void;
+  /** Permissions the role grants outright (conditions on them have no effect) */
+  effectivePermissions: readonly Permission[];
+  /** Whether to show validation messages (after a submit attempt) */
+  showErrors?: boolean;
+  /** Whether the editor is read-only */
+  disabled?: boolean;
+}
+
+/**
+ * Builds a condition of a type with empty settings
+ *
+ * @param type - Condition type
+ * @returns New condition
+ */
+function createCondition(type: PermissionConditionType): PermissionCondition {
+  return type === "field_equals" ? { type, field: "", value: "" } : { type };
+}
+
+/**
+ * Returns the condition types that apply to a permission
+ *
+ * @param permission - Registered permission
+ * @returns Condition types whose column exists for the permission's resources
+ */
+function getConditionTypes(
+  permission: RegisteredPermission
+): PermissionConditionType[] {
+  const category = getPermissionCategory(permission);
+  return PERMISSION_CONDITION_TYPES.filter(
+    (type) =>
+      getPermissionConditionField(createCondition(type), category) !== null
+  );
+}
+
+/**
+ * Conditional permission editor component
+ *
+ * @param props - Component props
+ * @returns React element containing the conditional permission editor
+ *
+ * @example
+ * ```tsx
+ * <ConditionalPermissionEditor
+ *   value={conditionalPermissions}
+ *   onChange={setConditionalPermissions}
+ *   effectivePermissions={effective}
+ * />
+ * ```
+ */
+export function ConditionalPermissionEditor({
+  value,
+  onChange,
+  effectivePermissions,
+  showErrors = false,
+  disabled = false,
+}: ConditionalPermissionEditorProps): ReactElement {
+  const updateEntry = (index: number, entry: ConditionalPermission): void => {
+    onChange(value.map((current, i) => (i === index ? entry : current)));
+  };
+
+  const changePermission = (
+    index: number,
+    permission: RegisteredPermission
+  ): void => {
+    const entry = value[index]!;
+    const types = getConditionTypes(permission);
+    // Keep the conditions that still apply to the new permission
+    const conditions = entry.conditions.filter((condition) =>
+      types.includes(condition.type)
+    );
+    updateEntry(index, {
+      permission,
+      conditions:
+        conditions.length > 0 ? conditions : [createCondition(types[0]!)],
+    });
+  };
+
+  const updateCondition = (
+    index: number,
+    conditionIndex: number,
+    condition: PermissionCondition
+  ): void => {
+    const entry = value[index]!;
+    updateEntry(index, {
+      ...entry,
+      conditions: entry.conditions.map((current, i) =>
+        i === conditionIndex ? condition : current
+      ),
+    });
+  };
+
+  const addEntry = (): void => {
+    const permission = ALL_PERMISSIONS[0]!;
+    onChange([
+      ...value,
+      {
+        permission,
+        conditions: [createCondition(getConditionTypes(permission)[0]!)],
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No conditional permissions. Add one to grant a permission only on
+          resources the holder owns, in their company, or with a given field
+          value.
+        </p>
+      )}
+
+      {value.map((entry, index) => {
+        const types = getConditionTypes(entry.permission);
+        const grantedOutright = effectivePermissions.some((granted) =>
+          matchesPermission(granted, entry.permission)
+        );
+        const validation = conditionalPermissionSchema.safeParse(entry);
+
+        return (
+          <fieldset
+            key={index}
+            className="space-y-3 rounded-md border p-3"
+            disabled={disabled}
+          >
+            <div className="flex items-center gap-2">
+              <Select
+                value={entry.permission}
+                onValueChange={(permission) =>
+                  changePermission(index, permission as RegisteredPermission)
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger
+                  className="w-56"
+                  aria-label="Conditional permission"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALL_PERMISSIONS.filter(
+                    (permission) => getConditionTypes(permission).length > 0
+                  ).map((permission) => (
+                    <SelectItem key={permission} value={permission}>
+                      {permission}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">when</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="ml-auto size-8"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <Trash2 className="text-muted-foreground" />
+                <span className="sr-only">Remove conditional permission</span>
+              </Button>
+            </div>
+
+            {entry.conditions.map((condition, conditionIndex) => (
+              <div key={conditionIndex} className="flex items-center gap-2">
+                <Select
+                  value={condition.type}
+                  onValueChange={(type) =>
+                    updateCondition(
+                      index,
+                      conditionIndex,
+                      createCondition(type as PermissionConditionType)
+                    )
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-40" aria-label="Condition">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {types.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {PERMISSION_CONDITION_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {condition.type === "field_equals" && (
+                  <>
+                    <Input
+                      value={condition.field}
+                      onChange={(event) =>
+                        updateCondition(index, conditionIndex, {
+                          ...condition,
+                          field: event.target.value,
+                        })
+                      }
+                      placeholder="column"
+                      aria-label="Field"
+                      className="w-36"
+                    />
+                    <span className="text-sm text-muted-foreground">=</span>
+                    <Input
+                      value={String(condition.value ?? "")}
+                      onChange={(event) =>
+                        updateCondition(index, conditionIndex, {
+                          ...condition,
+                          value: event.target.value,
+                        })
+                      }
+                      placeholder="value"
+                      aria-label="Value"
+                      className="w-36"
+                    />
+                  </>
+                )}
+                {entry.conditions.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto size-8"
+                    onClick={() =>
+                      updateEntry(index, {
+                        ...entry,
+                        conditions: entry.conditions.filter(
+                          (_, i) => i !== conditionIndex
+                        ),
+                      })
+                    }
+                    disabled={disabled}
+                  >
+                    <Trash2 className="text-muted-foreground" />
+                    <span className="sr-only">Remove condition</span>
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                updateEntry(index, {
+                  ...entry,
+                  conditions: [...entry.conditions, createCondition(types[0]!)],
+                })
+              }
+              disabled={disabled}
+            >
+              <Plus />
+              Add condition
+            </Button>
+
+            {grantedOutright && (
+              <p className="text-sm text-muted-foreground">
+                The role already grants this permission on every resource, so
+                these conditions have no effect.
+              </p>
+            )}
+            {showErrors && !validation.success && (
+              <p className="text-sm text-destructive">
+                {validation.error.errors[0]?.message}
+              </p>
+            )}
+          </fieldset>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addEntry}
+        disabled={disabled}
+      >
+        <Plus />
+        Add conditional permission
+      </Button>
+    </div>
+  );
+}
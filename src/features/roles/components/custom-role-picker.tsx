@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Custom role picker for the user detail page
+ * @module features/roles/components/custom-role-picker
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useRoles } from "../hooks/use-roles";
+import { useAssignCustomRole } from "../hooks/use-role-mutations";
+
+/**
+ * Select value representing "no custom role" (Radix Select disallows empty values)
+ */
+const NO_CUSTOM_ROLE = "none";
+
+/**
+ * Props for CustomRolePicker component
+ */
+export interface CustomRolePickerProps {
+  /** ID of the user whose custom role is being managed */
+  userId: string;
+  /** Currently assigned custom role ID, or null if none */
+  currentRoleId: string | null;
+}
+
+/**
+ * Custom role picker component
+ *
+ * Lets a superadmin assign or clear a user's custom role.
+ * A custom role extends its base role with added and revoked permissions.
+ *
+ * @param props - Component props
+ * @returns React element containing the custom role picker
+ */
+export function CustomRolePicker({
+  userId,
+  currentRoleId,
+}: CustomRolePickerProps): ReactElement {
+  const router = useRouter();
+  const { data: roles = [], isLoading } = useRoles();
+  const { mutate: assignRole, isPending } = useAssignCustomRole();
+  const [selected, setSelected] = useState(currentRoleId ?? NO_CUSTOM_ROLE);
+
+  const isDirty = selected !== (currentRoleId ?? NO_CUSTOM_ROLE);
+
+  const handleSave = (): void => {
+    const customRoleId = selected === NO_CUSTOM_ROLE ? null : selected;
+    assignRole(
+      { userId, customRoleId },
+      {
+        onSuccess: () => {
+          toast.success("Custom role updated", {
+            description: customRoleId
+              ? "The user's permissions now come from the selected role."
+              : "The user's permissions now come from their system role.",
+            duration: 5000,
+          });
+          router.refresh();
+        },
+        onError: (error) => {
+          toast.error("Failed to update custom role", {
+            description:
+              error.message || "An error occurred while assigning the role.",
+            duration: 5000,
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Custom Role</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          A custom role extends its base role with added and revoked
+          permissions.{" "}
+          <Link href="/admin/roles" className="underline">
+            Manage roles
+          </Link>
+        </p>
+        <div className="flex gap-4">
+          <Select
+            value={selected}
+            onValueChange={setSelected}
+            disabled={isLoading || isPending}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a role" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CUSTOM_ROLE}>
+                None (use system role)
+              </SelectItem>
+              {roles.map((role) => (
+                <SelectItem key={role.id} value={role.id}>
+                  {role.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleSave} disabled={!isDirty || isPending}>
+            {isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
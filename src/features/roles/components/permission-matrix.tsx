@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Permission matrix editor for custom roles
+ * @module features/roles/components/permission-matrix
+ *
+ * Renders every registered permission grouped by PERMISSIONS category.
+ * Custom roles extend a base system role, so the matrix shows the effective
+ * set and records changes as added and revoked permissions.
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  PERMISSIONS,
+  PERMISSION_CATEGORIES,
+  ROLE_PERMISSIONS,
+  getCategoryWildcard,
+  matchesPermission,
+  type Permission,
+  type PermissionCategory,
+} from "@/lib/auth/permissions";
+import { resolveCustomRolePermissions } from "@/lib/auth/permission-resolver";
+import type { CustomRoleBaseRole } from "@/features/auth/schemas/custom-role.schema";
+
+/**
+ * Added and revoked permissions edited by the matrix
+ */
+export interface PermissionChanges {
+  /** Permissions granted in addition to the base role */
+  permissions: Permission[];
+  /** Permissions removed from the base role and added permissions */
+  revokedPermissions: Permission[];
+}
+
+/**
+ * Props for PermissionMatrix component
+ */
+export interface PermissionMatrixProps extends PermissionChanges {
+  /** System role the custom role extends */
+  baseRole: CustomRoleBaseRole;
+  /** Callback with the next added/revoked permissions */
+  onChange: (changes: PermissionChanges) => void;
+  /** Whether the matrix is read-only */
+  disabled?: boolean;
+}
+
+/**
+ * Formats a permission category or action key for display
+ *
+ * @param key - Registry key or action segment (e.g. "view_all")
+ * @returns Human readable label (e.g. "View all")
+ */
+function formatLabel(key: string): string {
+  const words = key.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Returns the registered permissions for a category
+ *
+ * @param category - Permission category
+ * @returns Array of permission strings in registry order
+ */
+function getCategoryPermissions(category: PermissionCategory): Permission[] {
+  return Object.values(PERMISSIONS[category]);
+}
+
+/**
+ * Checks if a permission (or category wildcard) belongs to a category
+ *
+ * @param permission - Permission string
+ * @param category - Permission category
+ * @returns true if the permission is in the category
+ */
+function isInCategory(
+  permission: Permission,
+  category: PermissionCategory
+): boolean {
+  return permission.startsWith(`${category}.`);
+}
+
+/**
+ * Permission matrix editor component
+ *
+ * Checking a permission un-revokes it or adds it; unchecking removes it from
+ * the added set and revokes it if the base role still grants it. Category
+ * toggles use category wildcards ("users.*") and the full access toggle
+ * uses "*".
+ *
+ * @param props - Component props
+ * @returns React element containing the permission matrix
+ *
+ * @example
+ * ```tsx
+ * <PermissionMatrix
+ *   baseRole="member"
+ *   permissions={added}
+ *   revokedPermissions={revoked}
+ *   onChange={({ permissions, revokedPermissions }) => ...}
+ * />
+ * ```
+ */
+export function PermissionMatrix({
+  baseRole,
+  permissions,
+  revokedPermissions,
+  onChange,
+  disabled = false,
+}: PermissionMatrixProps): ReactElement {
+  const basePermissions = ROLE_PERMISSIONS[baseRole];
+  const hasFullAccess = permissions.includes(PERMISSIONS.all);
+
+  // Whether a permission is granted by a role built from the given changes
+  const grants = (changes: PermissionChanges, permission: Permission) =>
+    resolveCustomRolePermissions({
+      base_role: baseRole,
+      permissions: changes.permissions,
+      revoked_permissions: changes.revokedPermissions,
+    }).some((granted) => matchesPermission(granted, permission));
+
+  const current: PermissionChanges = { permissions, revokedPermissions };
+  const isGranted = (permission: Permission): boolean =>
+    grants(current, permission);
+
+  const toggleFullAccess = (checked: boolean): void => {
+    onChange({
+      permissions: checked ? [PERMISSIONS.all] : [],
+      revokedPermissions: [],
+    });
+  };
+
+  const toggleCategory = (
+    category: PermissionCategory,
+    checked: boolean
+  ): void => {
+    const wildcard = getCategoryWildcard(category);
+    const next: PermissionChanges = {
+      permissions: permissions.filter((perm) => !isInCategory(perm, category)),
+      revokedPermissions: revokedPermissions.filter(
+        (perm) => !isInCategory(perm, category)
+      ),
+    };
+
+    if (checked) {
+      if (!hasFullAccess) {
+        next.permissions.push(wildcard);
+      }
+    } else if (
+      getCategoryPermissions(category).some((perm) => grants(next, perm))
+    ) {
+      // Still granted by the base role or "*": revoke the whole category
+      next.revokedPermissions.push(wildcard);
+    }
+
+    onChange(next);
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean): void => {
+    const next: PermissionChanges = {
+      permissions: permissions.filter((perm) => perm !== permission),
+      revokedPermissions: revokedPermissions.filter(
+        (perm) => perm !== permission
+      ),
+    };
+
+    if (checked) {
+      // Narrow a revoked wildcard so only this permission is un-revoked
+      next.revokedPermissions = next.revokedPermissions.flatMap((revoked) =>
+        revoked !== permission && matchesPermission(revoked, permission)
+          ? getCategoryPermissions(
+              revoked.split(".")[0] as PermissionCategory
+            ).filter((perm) => perm !== permission)
+          : [revoked]
+      );
+      if (!grants(next, permission)) {
+        next.permissions.push(permission);
+      }
+    } else if (grants(next, permission)) {
+      // Still granted by the base role or a wildcard
+      next.revokedPermissions.push(permission);
+    }
+
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 rounded-md border p-3">
+        <Checkbox
+          id="permission-all"
+          checked={hasFullAccess}
+          onCheckedChange={(checked) => toggleFullAccess(checked === true)}
+          disabled={disabled}
+        />
+        <div>
+          <Label htmlFor="permission-all" className="font-medium">
+            Full access
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            Grants every permission, including ones added in the future (*)
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {PERMISSION_CATEGORIES.map((category) => {
+          const wildcard = getCategoryWildcard(category);
+          const categoryPermissions = getCategoryPermissions(category);
+          const grantedCount = categoryPermissions.filter(isGranted).length;
+          const categoryState =
+            grantedCount === categoryPermissions.length
+              ? true
+              : grantedCount > 0
+                ? "indeterminate"
+                : false;
+
+          return (
+            <fieldset
+              key={category}
+              className="space-y-2 rounded-md border p-3"
+              disabled={disabled}
+            >
+              <div className="flex items-center gap-3 border-b pb-2">
+                <Checkbox
+                  id={`permission-${category}`}
+                  checked={categoryState}
+                  onCheckedChange={(checked) =>
+                    toggleCategory(category, checked === true)
+                  }
+                  disabled={disabled}
+                />
+                <Label
+                  htmlFor={`permission-${category}`}
+                  className="font-medium"
+                >
+                  {formatLabel(category)}
+                </Label>
+                <code className="ml-auto text-xs text-muted-foreground">
+                  {wildcard}
+                </code>
+              </div>
+              {categoryPermissions.map((permission) => {
+                const action = permission.slice(category.length + 1);
+                const id = `permission-${permission}`;
+                const granted = isGranted(permission);
+                const inherited = basePermissions.includes(permission);
+                return (
+                  <div key={permission} className="flex items-center gap-3">
+                    <Checkbox
+                      id={id}
+                      size="sm"
+                      checked={granted}
+                      onCheckedChange={(checked) =>
+                        togglePermission(permission, checked === true)
+                      }
+                      disabled={disabled}
+                    />
+                    <Label htmlFor={id} className="text-sm font-normal">
+                      {formatLabel(action)}
+                    </Label>
+                    {inherited && (
+                      <span
+                        className={
+                          granted
+                            ? "ml-auto text-xs text-muted-foreground"
+                            : "ml-auto text-xs text-destructive"
+                        }
+                      >
+                        {granted ? "From base role" : "Revoked"}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </fieldset>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
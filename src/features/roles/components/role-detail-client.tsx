@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Client component for custom role detail page interactivity
+ * @module features/roles/components/role-detail-client
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { RoleForm } from "./role-form";
+import { useDeleteRole } from "../hooks/use-role-mutations";
+import { toast } from "sonner";
+import { Trash2, Users } from "lucide-react";
+import type { CustomRoleDetails } from "@/features/auth/schemas/custom-role.schema";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+/**
+ * Props for RoleDetailClient component
+ */
+export interface RoleDetailClientProps {
+  /** Custom role data to display, including its user count */
+  role: CustomRoleDetails;
+}
+
+/**
+ * Client component for custom role detail page
+ *
+ * Handles the edit form and delete dialog.
+ * Receives role data as props from server component.
+ *
+ * @param props - Component props
+ * @returns React element containing role detail with interactive actions
+ */
+export function RoleDetailClient({
+  role,
+}: RoleDetailClientProps): ReactElement {
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const { mutate: deleteRole, isPending: isDeleting } = useDeleteRole({
+    onSuccess: () => {
+      toast.success("Role deleted successfully", {
+        description: `Role "${role.name}" has been deleted.`,
+        duration: 5000,
+      });
+    },
+    onError: (error) => {
+      toast.error("Failed to delete role", {
+        description:
+          error.message || "An error occurred while deleting the role.",
+        duration: 5000,
+      });
+    },
+  });
+
+  // Convert role data to form initial data format
+  const initialData = {
+    name: role.name,
+    description: role.description ?? "",
+    base_role: role.base_role,
+    permissions: role.permissions,
+    revoked_permissions: role.revoked_permissions,
+    conditional_permissions: role.conditional_permissions,
+    require_mfa: role.require_mfa,
+  };
+
+  const handleDelete = (): void => {
+    deleteRole(role.id);
+    setIsDeleteDialogOpen(false);
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Edit Role</h1>
+          <p className="mt-1 flex items-center gap-1.5 text-sm text-muted-foreground">
+            <Users className="size-4" />
+            {role.user_count === 1
+              ? "1 user holds this role"
+              : `${role.user_count} users hold this role`}
+          </p>
+        </div>
+        <Button
+          onClick={() => setIsDeleteDialogOpen(true)}
+          variant="destructive"
+        >
+          <Trash2 className="mr-2 size-4" />
+          Delete Role
+        </Button>
+      </div>
+      <RoleForm roleId={role.id} initialData={initialData} />
+      <AlertDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Role</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{role.name}&quot;? This
+              action cannot be undone.
+              {role.user_count > 0 &&
+                ` ${role.user_count} user(s) holding this role will fall back to their system role.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
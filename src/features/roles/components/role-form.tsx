@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Custom role creation/editing form component
+ * @module features/roles/components/role-form
+ *
+ * Form for creating and editing custom roles.
+ * Handles form submission and validation.
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { FormInput } from "@/components/forms/form-input";
+import { FormTextarea } from "@/components/forms/form-textarea";
+import { FormSelect, type FormOption } from "@/components/forms/form-select";
+import { FormSwitch } from "@/components/forms/form-switch";
+import { PermissionMatrix } from "./permission-matrix";
+import { ConditionalPermissionEditor } from "./conditional-permission-editor";
+import { resolveCustomRolePermissions } from "@/lib/auth/permission-resolver";
+import { useCreateRole, useUpdateRole } from "../hooks/use-role-mutations";
+import {
+  createCustomRoleSchema,
+  type CreateCustomRoleInput,
+} from "@/features/auth/schemas/custom-role.schema";
+
+/**
+ * Props for RoleForm component
+ */
+export interface RoleFormProps {
+  /** Optional initial role data for edit mode */
+  initialData?: Partial<CreateCustomRoleInput>;
+  /** Role ID for edit mode (if provided, form operates in edit mode) */
+  roleId?: string | null;
+  /** Callback when form is successfully submitted */
+  onSuccess?: () => void;
+  /** Callback when form submission is cancelled */
+  onCancel?: () => void;
+}
+
+/**
+ * Base role options for the base role select field
+ * Superadmin cannot be extended by a custom role
+ */
+const BASE_ROLE_OPTIONS: FormOption[] = [
+  { value: "member", label: "Member" },
+  { value: "admin", label: "Admin" },
+];
+
+/**
+ * Custom role creation/editing form component
+ *
+ * Provides a form for creating and editing custom roles with:
+ * - Name field (required, immutable after creation)
+ * - Description field (optional)
+ * - Base role the custom role extends
+ * - Whether holders must use two-factor authentication
+ * - Permission matrix (added and revoked permissions)
+ * - Conditional permissions (granted only on matching resources)
+ *
+ * @param props - Component props
+ * @returns React element containing the role form
+ *
+ * @example
+ * ```tsx
+ * <RoleForm onCancel={() => router.back()} />
+ * ```
+ */
+export function RoleForm({
+  initialData,
+  roleId,
+  onSuccess,
+  onCancel,
+}: RoleFormProps): ReactElement {
+  const router = useRouter();
+  const isEditMode = !!roleId;
+  const { mutate: createRole, isPending: isCreating } = useCreateRole();
+  const { mutate: updateRole, isPending: isUpdating } = useUpdateRole();
+  const isPending = isCreating || isUpdating;
+
+  const form = useForm<CreateCustomRoleInput>({
+    resolver: zodResolver(createCustomRoleSchema),
+    defaultValues: {
+      name: initialData?.name || "",
+      description: initialData?.description || "",
+      base_role: initialData?.base_role || "member",
+      permissions: initialData?.permissions || [],
+      revoked_permissions: initialData?.revoked_permissions || [],
+      conditional_permissions: initialData?.conditional_permissions || [],
+      require_mfa: initialData?.require_mfa ?? false,
+    },
+  });
+  const baseRole = form.watch("base_role") ?? "member";
+  const revokedPermissions = form.watch("revoked_permissions") ?? [];
+  const effectivePermissions = resolveCustomRolePermissions({
+    base_role: baseRole,
+    permissions: form.watch("permissions"),
+    revoked_permissions: revokedPermissions,
+  });
+
+  // Handle form submission
+  const onSubmit = (data: CreateCustomRoleInput): void => {
+    if (isEditMode && roleId) {
+      // Role names are immutable; only send editable fields
+      updateRole(
+        {
+          id: roleId,
+          data: {
+            description: data.description ?? "",
+            base_role: data.base_role ?? "member",
+            permissions: data.permissions,
+            revoked_permissions: data.revoked_permissions ?? [],
+            conditional_permissions: data.conditional_permissions ?? [],
+            require_mfa: data.require_mfa ?? false,
+          },
+        },
+        {
+          onSuccess: (updatedRole) => {
+            toast.success("Role updated successfully", {
+              description: `Role "${updatedRole.name}" has been updated.`,
+              duration: 5000,
+            });
+            onSuccess?.();
+            router.refresh();
+          },
+          onError: (error) => {
+            toast.error("Failed to update role", {
+              description:
+                error.message || "An error occurred while updating the role.",
+              duration: 5000,
+            });
+          },
+        }
+      );
+    } else {
+      // Create new role
+      createRole(data, {
+        onSuccess: (newRole) => {
+          toast.success("Role created successfully", {
+            description: `Role "${newRole.name}" has been created.`,
+            duration: 5000,
+          });
+          onSuccess?.();
+          router.push(`/admin/roles/${newRole.id}`);
+        },
+        onError: (error) => {
+          toast.error("Failed to create role", {
+            description:
+              error.message || "An error occurred while creating the role.",
+            duration: 5000,
+          });
+        },
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isEditMode ? "Edit Role" : "Create New Role"}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="space-y-4">
+              <FormInput
+                control={form.control}
+                name="name"
+                label="Role Name"
+                description={
+                  isEditMode
+                    ? "Role names cannot be changed after creation"
+                    : "Lowercase letters, numbers, hyphens, and underscores"
+                }
+                required
+                disabled={isEditMode}
+                placeholder="support-agent"
+              />
+              <FormTextarea
+                control={form.control}
+                name="description"
+                label="Description"
+                placeholder="What this role is for"
+                config={{ maxLength: 500, rows: 2 }}
+              />
+              <FormSelect
+                control={form.control}
+                name="base_role"
+                label="Base Role"
+                description="Holders get this role's permissions and access level"
+                required
+                options={BASE_ROLE_OPTIONS}
+                disabled={isPending}
+              />
+              <FormSwitch
+                control={form.control}
+                name="require_mfa"
+                label="Require Two-Factor Authentication"
+                description="Holders must verify with an authenticator app before role-protected pages and APIs allow them in"
+                disabled={isPending}
+              />
+              <FormField
+                control={form.control}
+                name="permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permissions</FormLabel>
+                    <FormDescription>
+                      A custom role extends its base role. Grant extra
+                      permissions or revoke inherited ones.
+                    </FormDescription>
+                    <FormControl>
+                      <PermissionMatrix
+                        baseRole={baseRole}
+                        permissions={field.value}
+                        revokedPermissions={revokedPermissions}
+                        onChange={({ permissions, revokedPermissions }) => {
+                          field.onChange(permissions);
+                          form.setValue(
+                            "revoked_permissions",
+                            revokedPermissions,
+                            { shouldDirty: true }
+                          );
+                        }}
+                        disabled={isPending}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="conditional_permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Conditional Permissions</FormLabel>
+                    <FormDescription>
+                      Grant a permission only on resources that meet conditions,
+                      such as users in the holder&apos;s own company.
+                    </FormDescription>
+                    <FormControl>
+                      <ConditionalPermissionEditor
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                        effectivePermissions={effectivePermissions}
+                        showErrors={form.formState.isSubmitted}
+                        disabled={isPending}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Form Actions */}
+            <div className="flex justify-end gap-4">
+              {onCancel && (
+                <Button type="button" variant="outline" onClick={onCancel}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isPending}>
+                {isPending
+                  ? isEditMode
+                    ? "Updating..."
+                    : "Creating..."
+                  : isEditMode
+                    ? "Update Role"
+                    : "Create Role"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Custom role list component
+ * @module features/roles/components/role-list
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import Link from "next/link";
+import { ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { useRoles } from "../hooks/use-roles";
+
+/**
+ * Custom role list component
+ *
+ * Displays all custom roles with their permission and user counts.
+ * Each row links to the role editor.
+ *
+ * @returns React element containing the role table
+ */
+export function RoleList(): ReactElement {
+  const { data: roles, isLoading, error } = useRoles();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md border border-destructive/50 p-4 text-sm text-destructive">
+        {error.message || "Failed to load roles"}
+      </div>
+    );
+  }
+
+  if (!roles || roles.length === 0) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center py-12 text-center">
+        <ShieldCheck className="mb-4 h-12 w-12 text-muted-foreground" />
+        <h3 className="mb-2 text-lg font-semibold">No custom roles</h3>
+        <p className="text-muted-foreground">
+          Create a role to grant a tailored set of permissions.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Description</TableHead>
+          <TableHead>Base Role</TableHead>
+          <TableHead className="text-right">Permissions</TableHead>
+          <TableHead className="text-right">Users</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {roles.map((role) => (
+          <TableRow key={role.id}>
+            <TableCell className="font-medium">
+              <Link
+                href={`/admin/roles/${role.id}`}
+                className="hover:underline"
+              >
+                {role.name}
+              </Link>
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {role.description || "—"}
+            </TableCell>
+            <TableCell className="capitalize">{role.base_role}</TableCell>
+            <TableCell className="text-right">
+              {role.effective_permissions.includes(PERMISSIONS.all) ? (
+                <Badge variant="warning" appearance="light">
+                  Full access
+                </Badge>
+              ) : (
+                role.effective_permissions.length
+              )}
+            </TableCell>
+            <TableCell className="text-right">{role.user_count}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
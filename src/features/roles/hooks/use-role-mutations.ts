@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Mutation hooks for custom role operations
+ * @module features/roles/hooks/use-role-mutations
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useCreateEntity,
+  useUpdateEntity,
+  useDeleteEntity,
+} from "@/hooks/use-entity-mutations";
+import {
+  customRoleDetailsSchema,
+  errorResponseSchema,
+  type CreateCustomRoleInput,
+  type CustomRoleDetails,
+  type UpdateCustomRoleInput,
+} from "@/features/auth/schemas/custom-role.schema";
+import { z } from "zod";
+
+/**
+ * Response schema for role operations
+ */
+const RoleResponseSchema = z.object({
+  role: customRoleDetailsSchema,
+});
+
+/**
+ * Hook for creating a new custom role
+ *
+ * @param options - Optional mutation options
+ * @returns Mutation hook for creating roles
+ *
+ * @example
+ * ```tsx
+ * const { mutate: createRole, isPending } = useCreateRole();
+ *
+ * createRole({ name: "support", permissions: ["users.view"] });
+ * ```
+ */
+export function useCreateRole(options?: {
+  onSuccess?: (role: CustomRoleDetails) => void;
+  onError?: (error: Error) => void;
+}) {
+  return useCreateEntity<CustomRoleDetails, CreateCustomRoleInput>(
+    {
+      endpoint: "/api/admin/roles",
+      responseSchema: RoleResponseSchema.transform((data) => ({
+        entity: data.role,
+      })) as unknown as z.ZodSchema<{ entity: CustomRoleDetails }>,
+      errorSchema: errorResponseSchema,
+      queryKeys: ["roles"],
+      entityName: "role",
+    },
+    options
+  );
+}
+
+/**
+ * Hook for updating an existing custom role
+ *
+ * The description, base role and permissions can be changed; role names
+ * are immutable once created.
+ *
+ * @param options - Optional mutation options
+ * @returns Mutation hook for updating roles
+ *
+ * @example
+ * ```tsx
+ * const { mutate: updateRole, isPending } = useUpdateRole();
+ *
+ * updateRole({ id: roleId, data: { permissions: ["users.*"] } });
+ * ```
+ */
+export function useUpdateRole(options?: {
+  onSuccess?: (role: CustomRoleDetails) => void;
+  onError?: (error: Error) => void;
+}) {
+  return useUpdateEntity<CustomRoleDetails, UpdateCustomRoleInput>(
+    {
+      endpoint: (id) => `/api/admin/roles/${id}`,
+      responseSchema: RoleResponseSchema.transform((data) => ({
+        entity: data.role,
+      })) as unknown as z.ZodSchema<{ entity: CustomRoleDetails }>,
+      errorSchema: errorResponseSchema,
+      queryKeys: {
+        detail: (id) => ["role", id],
+        list: ["roles"],
+      },
+      entityName: "role",
+    },
+    options
+  );
+}
+
+/**
+ * Hook for deleting a custom role
+ *
+ * Users holding the role fall back to their system role's permissions.
+ *
+ * @param options - Optional mutation options
+ * @returns Mutation hook for deleting roles
+ *
+ * @example
+ * ```tsx
+ * const { mutate: deleteRole, isPending } = useDeleteRole();
+ *
+ * deleteRole(roleId);
+ * ```
+ */
+export function useDeleteRole(options?: {
+  onSuccess?: () => void;
+  onError?: (error: Error) => void;
+}) {
+  return useDeleteEntity(
+    {
+      endpoint: (id) => `/api/admin/roles/${id}`,
+      errorSchema: errorResponseSchema,
+      queryKeys: {
+        detail: ["role"],
+        list: ["roles"],
+      },
+      redirectPath: "/admin/roles",
+      entityName: "role",
+    },
+    options
+  );
+}
+
+/**
+ * Assigns (or clears) a user's custom role via the API
+ *
+ * @param params - User ID and custom role ID (null to clear)
+ * @returns Promise resolving when the assignment is saved
+ * @throws Error if assignment fails
+ */
+async function assignCustomRoleAPI({
+  userId,
+  customRoleId,
+}: {
+  userId: string;
+  customRoleId: string | null;
+}): Promise<void> {
+  const response = await fetch(`/api/admin/users/${userId}/role`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ custom_role_id: customRoleId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({
+      error: "UNKNOWN_ERROR",
+      message: "Failed to assign role",
+    }));
+
+    throw new Error(errorData.message || "Failed to assign role");
+  }
+}
+
+/**
+ * Hook for assigning a custom role to a user
+ *
+ * Invalidates the roles list so user counts stay accurate.
+ *
+ * @returns Mutation object with mutate function and state
+ *
+ * @example
+ * ```tsx
+ * const { mutate: assignRole, isPending } = useAssignCustomRole();
+ *
+ * assignRole({ userId, customRoleId: roleId });
+ * ```
+ */
+export function useAssignCustomRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: assignCustomRoleAPI,
+    onSuccess: (_data, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: ["user", userId] });
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
+      queryClient.invalidateQueries({ queryKey: ["role"] });
+    },
+  });
+}
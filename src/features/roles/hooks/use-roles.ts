@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Query hooks for custom roles
+ * @module features/roles/hooks/use-roles
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { useEntityQuery } from "@/hooks/use-entity-query";
+import {
+  customRoleDetailsSchema,
+  errorResponseSchema,
+  type CustomRoleDetails,
+} from "@/features/auth/schemas/custom-role.schema";
+
+/**
+ * Roles list response schema
+ */
+const RolesResponseSchema = z.object({
+  roles: z.array(customRoleDetailsSchema),
+});
+
+/**
+ * Single role response schema
+ */
+const RoleResponseSchema = z.object({
+  role: customRoleDetailsSchema,
+});
+
+/**
+ * Custom hook to fetch all custom roles
+ *
+ * Roles are few and unpaginated, so the whole list is fetched at once.
+ * Each role includes the number of users currently holding it.
+ *
+ * @returns Query result with all custom roles
+ *
+ * @example
+ * ```tsx
+ * const { data: roles = [], isLoading } = useRoles();
+ * ```
+ */
+export function useRoles() {
+  return useQuery<CustomRoleDetails[]>({
+    queryKey: ["roles"],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/roles");
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({
+          error: "UNKNOWN_ERROR",
+          message: "Failed to fetch roles",
+        }));
+        throw new Error(errorResponseSchema.parse(errorData).message);
+      }
+
+      const data = await response.json();
+      return RolesResponseSchema.parse(data).roles;
+    },
+  });
+}
+
+/**
+ * Custom hook to fetch a single custom role by ID
+ *
+ * @param roleId - Custom role ID (null to disable the query)
+ * @returns Query result with the custom role
+ *
+ * @example
+ * ```tsx
+ * const { data: role, isLoading } = useRole(roleId);
+ * ```
+ */
+export function useRole(roleId: string | null) {
+  return useEntityQuery<CustomRoleDetails>({
+    id: roleId,
+    endpoint: (id) => `/api/admin/roles/${id}`,
+    responseSchema: RoleResponseSchema.transform((data) => ({
+      entity: data.role,
+    })) as unknown as z.ZodSchema<{ entity: CustomRoleDetails }>,
+    errorSchema: errorResponseSchema,
+    queryKey: (id) => ["role", id],
+    entityName: "role",
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Impersonation confirmation dialog component
+ * @module features/users/components/impersonate-user-dialog
+ *
+ * Lets a superadmin start a "view as user" session, read-only by default.
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useStartImpersonation } from "@/features/auth/hooks/use-impersonation";
+import type { User } from "../types/user.types";
+
+/**
+ * Props for ImpersonateUserDialog component
+ */
+export interface ImpersonateUserDialogProps {
+  /** User to impersonate */
+  user: User;
+  /** Whether dialog is open */
+  open: boolean;
+  /** Handler for open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Impersonation confirmation dialog component
+ *
+ * Starts an impersonation session for the user and navigates to the admin
+ * dashboard, which then renders as that user until the session is exited.
+ *
+ * @param props - Component props
+ * @returns React element containing impersonation confirmation dialog
+ *
+ * @example
+ * ```tsx
+ * <ImpersonateUserDialog
+ *   user={user}
+ *   open={isOpen}
+ *   onOpenChange={setIsOpen}
+ * />
+ * ```
+ */
+export function ImpersonateUserDialog({
+  user,
+  open,
+  onOpenChange,
+}: ImpersonateUserDialogProps): ReactElement {
+  const router = useRouter();
+  const [allowMutations, setAllowMutations] = useState(false);
+  const {
+    mutate: startImpersonation,
+    isPending,
+    isError,
+    error,
+  } = useStartImpersonation();
+
+  const handleStart = (event: React.MouseEvent): void => {
+    // Keep the dialog open until the session has started
+    event.preventDefault();
+
+    startImpersonation(
+      { user_id: user.id, allow_mutations: allowMutations },
+      {
+        onSuccess: () => {
+          toast.success(`Now viewing as ${user.full_name || user.email}`);
+          onOpenChange(false);
+          router.push("/admin");
+          router.refresh();
+        },
+      }
+    );
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-slot="impersonate-user-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle>View as User</AlertDialogTitle>
+          <AlertDialogDescription>
+            You will see the app as{" "}
+            <strong>{user.full_name || user.email}</strong> does, with their
+            role and permissions, for up to one hour. The session is recorded.
+            Use the banner at the top of the page to exit.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="impersonation-allow-mutations"
+            checked={allowMutations}
+            onCheckedChange={(checked) => setAllowMutations(checked === true)}
+            disabled={isPending}
+          />
+          <div className="grid gap-1">
+            <Label htmlFor="impersonation-allow-mutations">Allow changes</Label>
+            <p className="text-sm text-muted-foreground">
+              Changes made while impersonating are saved as this user. Leave
+              unchecked for a read-only session.
+            </p>
+          </div>
+        </div>
+
+        {isError && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            {error?.message ||
+              "Failed to start impersonation. Please try again."}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleStart} disabled={isPending}>
+            {isPending ? "Starting..." : "View as User"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview MFA reset confirmation dialog component
+ * @module features/users/components/reset-mfa-dialog
+ *
+ * Lets an admin remove a user's authenticator and recovery codes, for users
+ * who lost both.
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useResetUserMfa } from "@/features/auth/hooks/use-mfa";
+import type { User } from "../types/user.types";
+
+/**
+ * Props for ResetMfaDialog component
+ */
+export interface ResetMfaDialogProps {
+  /** User whose MFA is reset */
+  user: User;
+  /** Whether dialog is open */
+  open: boolean;
+  /** Handler for open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * MFA reset confirmation dialog component
+ *
+ * @param props - Component props
+ * @returns React element containing MFA reset confirmation dialog
+ *
+ * @example
+ * ```tsx
+ * <ResetMfaDialog user={user} open={isOpen} onOpenChange={setIsOpen} />
+ * ```
+ */
+export function ResetMfaDialog({
+  user,
+  open,
+  onOpenChange,
+}: ResetMfaDialogProps): ReactElement {
+  const {
+    mutate: resetMfa,
+    isPending,
+    isError,
+    error,
+  } = useResetUserMfa(user.id);
+
+  const handleReset = (event: React.MouseEvent): void => {
+    // Keep the dialog open until the reset has finished
+    event.preventDefault();
+
+    resetMfa(undefined, {
+      onSuccess: () => {
+        toast.success(
+          `Two-factor authentication reset for ${user.full_name || user.email}`
+        );
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-slot="reset-mfa-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+          <AlertDialogDescription>
+            Every authenticator and recovery code of{" "}
+            <strong>{user.full_name || user.email}</strong> will be removed. If
+            their role requires two-factor authentication, they will have to set
+            up a new authenticator the next time they open an admin page.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isError && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            {error?.message || "Failed to reset MFA. Please try again."}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleReset}
+            disabled={isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isPending ? "Resetting..." : "Reset MFA"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Bulk actions for the users selected in the user list
+ * @module features/users/components/user-bulk-actions
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import { RotateCcw, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import {
+  describeBulkFailures,
+  type BulkActionResult,
+} from "@/lib/bulk-actions";
+import { safeValidateRole } from "@/features/auth/schemas/role.schema";
+import { CompanyCombobox } from "@/features/companies/components/company-combobox";
+import { useBulkUserAction } from "../hooks/use-user-mutations";
+import {
+  NO_COMPANY_FILTER,
+  type BulkUserActionInput,
+} from "../schemas/user.schema";
+import type { User } from "../types/user.types";
+
+/**
+ * Props for UserBulkActions component
+ */
+export interface UserBulkActionsProps {
+  /** Selected users */
+  users: User[];
+  /** Clears the selection */
+  onClearSelection: () => void;
+}
+
+/**
+ * Bulk actions for the users selected in the user list
+ *
+ * Deletes, restores, changes the role of, or assigns a company to every
+ * selected user in one request. Each action is only offered with the
+ * permissions it needs. When some users cannot be changed, the others are
+ * still updated and a notification lists the failures; the selection is kept
+ * so they can be retried.
+ *
+ * @param props - Component props
+ * @returns React element containing the bulk action controls
+ */
+export function UserBulkActions({
+  users,
+  onClearSelection,
+}: UserBulkActionsProps): ReactElement {
+  const canDelete = useHasPermission(PERMISSIONS.users.delete);
+  const canEdit = useHasPermission(PERMISSIONS.users.edit);
+  const canAssignRole = useHasPermission(PERMISSIONS.users.assignRole);
+  const canAssignCompany = useHasPermission(PERMISSIONS.users.viewAll);
+  const { mutate: runBulkAction, isPending } = useBulkUserAction();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const activeUsers = users.filter((user) => !user.deleted_at);
+  const deletedUsers = users.filter((user) => user.deleted_at);
+
+  const getUserLabel = (userId: string): string => {
+    const user = users.find((selected) => selected.id === userId);
+    return user?.full_name || user?.email || userId;
+  };
+
+  const handleBulkAction = (input: BulkUserActionInput, verb: string): void => {
+    runBulkAction(input, {
+      onSuccess: (result: BulkActionResult) => {
+        if (result.failed === 0) {
+          toast.success(
+            `${result.succeeded} ${result.succeeded === 1 ? "user" : "users"} ${verb}`
+          );
+          onClearSelection();
+          return;
+        }
+
+        toast.error(
+          `${result.failed} of ${result.results.length} users could not be ${verb}`,
+          {
+            description: describeBulkFailures(result, getUserLabel),
+            duration: 10000,
+          }
+        );
+      },
+      onError: (error) => {
+        toast.error("Bulk action failed", {
+          description: error.message,
+        });
+      },
+    });
+  };
+
+  const handleRoleChange = (value: string): void => {
+    const result = safeValidateRole(value);
+    if (!result.success) return;
+    handleBulkAction(
+      {
+        action: "set_role",
+        ids: users.map((user) => user.id),
+        role: result.data,
+      },
+      "updated"
+    );
+  };
+
+  const handleCompanyChange = (value: string): void => {
+    if (!value) return;
+    handleBulkAction(
+      {
+        action: "assign_company",
+        ids: users.map((user) => user.id),
+        company_id: value === NO_COMPANY_FILTER ? null : value,
+      },
+      "moved"
+    );
+  };
+
+  return (
+    <>
+      {canEdit && canAssignRole && (
+        <Select value="" onValueChange={handleRoleChange} disabled={isPending}>
+          <SelectTrigger size="sm" className="w-36" aria-label="Change role">
+            <SelectValue placeholder="Change role" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="member">Member</SelectItem>
+            <SelectItem value="admin">Admin</SelectItem>
+            <SelectItem value="superadmin">Superadmin</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      {canEdit && canAssignCompany && (
+        <CompanyCombobox
+          value=""
+          onValueChange={handleCompanyChange}
+          placeholder="Assign company"
+          noneValue={NO_COMPANY_FILTER}
+          className="h-8 w-48"
+        />
+      )}
+      {canDelete && deletedUsers.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() =>
+            handleBulkAction(
+              {
+                action: "restore",
+                ids: deletedUsers.map((user) => user.id),
+              },
+              "restored"
+            )
+          }
+        >
+          <RotateCcw />
+          Restore {deletedUsers.length}
+        </Button>
+      )}
+      {canDelete && activeUsers.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => setIsDeleteDialogOpen(true)}
+        >
+          <Trash2 />
+          Delete {activeUsers.length}
+        </Button>
+      )}
+
+      <AlertDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Users</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete{" "}
+              <strong>
+                {activeUsers.length}{" "}
+                {activeUsers.length === 1 ? "user" : "users"}
+              </strong>
+              ? Their access will be revoked, but all data is preserved for
+              audit purposes and they can be restored later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                handleBulkAction(
+                  {
+                    action: "soft_delete",
+                    ids: activeUsers.map((user) => user.id),
+                  },
+                  "deleted"
+                )
+              }
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Users
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
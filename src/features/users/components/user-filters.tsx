@@ -18,6 +18,10 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useQueryState } from "nuqs";
 import { cn } from "@/lib/utils";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { CompanyCombobox } from "@/features/companies/components/company-combobox";
+import { NO_COMPANY_FILTER } from "../schemas/user.schema";
 
 /**
  * Props for UserFilters component
@@ -30,8 +34,9 @@ export interface UserFiltersProps {
 /**
  * Filter controls component for user filtering
  *
- * Provides dropdown filters for role that sync with URL parameters.
- * Allows users to filter users by role.
+ * Provides dropdown filters for role and company that sync with URL
+ * parameters. The company filter is only offered with users.view_all (other
+ * admins only see their own company).
  *
  * @param props - Component props
  * @returns React element containing filter controls
@@ -47,6 +52,12 @@ export function UserFilters({ className }: UserFiltersProps): ReactElement {
     clearOnDefault: true,
     history: "push",
   });
+  const [companyId, setCompanyId] = useQueryState("company_id", {
+    defaultValue: "",
+    clearOnDefault: true,
+    history: "push",
+  });
+  const canFilterByCompany = useHasPermission(PERMISSIONS.users.viewAll);
   const [includeDeleted, setIncludeDeleted] = useQueryState("include_deleted", {
     defaultValue: false,
     parse: (value) => value === "true",
@@ -57,10 +68,11 @@ export function UserFilters({ className }: UserFiltersProps): ReactElement {
 
   const handleClearFilters = (): void => {
     setRole("");
+    setCompanyId("");
     setIncludeDeleted(false);
   };
 
-  const hasActiveFilters = !!role || includeDeleted;
+  const hasActiveFilters = !!role || !!companyId || includeDeleted;
 
   return (
     <div
@@ -94,6 +106,18 @@ export function UserFilters({ className }: UserFiltersProps): ReactElement {
         )}
       </div>
 
+      {canFilterByCompany && (
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="company-filter">Company</Label>
+          <CompanyCombobox
+            id="company-filter"
+            value={companyId}
+            onValueChange={(value) => setCompanyId(value)}
+            noneValue={NO_COMPANY_FILTER}
+          />
+        </div>
+      )}
+
       <div className="flex items-end gap-4">
         <div className="flex items-center space-x-2">
           <Checkbox
@@ -9,10 +9,14 @@ import React, { useMemo, useCallback, type ReactElement } from "react";
 import { useRouter } from "next/navigation";
 import { useQueryState } from "nuqs";
 import { DataGrid } from "@/components/data-grid";
-import { useUsers } from "../hooks/use-users";
+import { useHasPermission } from "@/lib/auth/gateways/client";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { useUsers, type UserFilters } from "../hooks/use-users";
+import { USER_SORT_COLUMNS } from "../schemas/user.schema";
 import { useUserSearch } from "../hooks/use-user-search";
 import { useColumnLayout } from "../hooks/use-column-layout";
 import { EmptyState } from "./empty-state";
+import { UserBulkActions } from "./user-bulk-actions";
 import { createUserColumns, getUserSortColumn } from "./user-table-columns";
 import type { User } from "../types/user.types";
 import { Icons } from "@/components/icons";
@@ -33,6 +37,8 @@ function useFlattenedUsers(data: ReturnType<typeof useUsers>["data"]) {
 export interface UserListProps {
   /** Additional CSS classes */
   className?: string;
+  /** Only list members of this company (overrides the company_id filter) */
+  companyId?: string;
   /** Optional column layout state (if not provided, uses internal hook) */
   columnLayout?: Pick<
     UseColumnLayoutReturn,
@@ -73,36 +79,41 @@ export const COLUMN_DEFINITIONS = [
  * User list component for displaying users
  *
  * Provides a table view of users with infinite scroll pagination,
- * sorting, and column customization.
+ * sorting, and column customization. Users allowed to edit or delete users
+ * can select rows and act on them in bulk.
  *
  * @param props - Component props
  * @returns React element containing users list
  */
 export function UserList({
   className: _className,
+  companyId,
   columnLayout,
 }: UserListProps): ReactElement {
   const router = useRouter();
+  const canDeleteUsers = useHasPermission(PERMISSIONS.users.delete);
+  const canEditUsers = useHasPermission(PERMISSIONS.users.edit);
   const [search] = useUserSearch();
   const [role] = useQueryState("role", { defaultValue: "" });
+  const [companyFilter] = useQueryState("company_id", { defaultValue: "" });
+  const company = companyId ?? companyFilter;
   const [includeDeleted] = useQueryState("include_deleted", {
     defaultValue: false,
     parse: (value) => value === "true",
   });
 
   // Sort state management
-  const [sort, setSort] = useQueryState<
-    "full_name" | "email" | "role" | "created_at"
-  >("sort", {
-    clearOnDefault: true,
-    parse: (value) => {
-      const validSorts = ["full_name", "email", "role", "created_at"] as const;
-      return validSorts.includes(value as (typeof validSorts)[number])
-        ? (value as (typeof validSorts)[number])
-        : null;
-    },
-    serialize: (value) => value ?? "",
-  });
+  const [sort, setSort] = useQueryState<(typeof USER_SORT_COLUMNS)[number]>(
+    "sort",
+    {
+      clearOnDefault: true,
+      parse: (value) =>
+        USER_SORT_COLUMNS.includes(value as (typeof USER_SORT_COLUMNS)[number])
+          ? (value as (typeof USER_SORT_COLUMNS)[number])
+          : null,
+      serialize: (value) => value ?? "",
+    }
+  );
 
   const [order, setOrder] = useQueryState<"asc" | "desc">("order", {
     clearOnDefault: true,
@@ -111,18 +122,20 @@ export function UserList({
   });
 
   const filters = useMemo(() => {
-    const filterObj: {
-      search?: string;
-      role?: "member" | "admin" | "superadmin";
-      include_deleted?: boolean;
-    } = {};
+    const filterObj: UserFilters = {};
 
     if (search) filterObj.search = search;
     if (role) filterObj.role = role as "member" | "admin" | "superadmin";
+    if (company) filterObj.company_id = company;
     if (includeDeleted) filterObj.include_deleted = includeDeleted;
+    // Sorting happens on the server so it spans every page
+    if (sort) {
+      filterObj.sort = sort;
+      filterObj.order = order ?? "asc";
+    }
 
     return filterObj;
-  }, [search, role, includeDeleted]);
+  }, [search, role, company, includeDeleted, sort, order]);
 
   const {
     data,
@@ -205,8 +218,24 @@ export function UserList({
 
   // Determine if filters are applied
   const hasFilters = useMemo(() => {
-    return !!(search || role || includeDeleted);
-  }, [search, role, includeDeleted]);
+    return !!(
+      search ||
+      role ||
+      (!companyId && companyFilter) ||
+      includeDeleted
+    );
+  }, [search, role, companyId, companyFilter, includeDeleted]);
+
+  // Bulk actions for the selected users
+  const renderSelectionActions = useCallback(
+    (selectedUsers: User[], clearSelection: () => void) => (
+      <UserBulkActions
+        users={selectedUsers}
+        onClearSelection={clearSelection}
+      />
+    ),
+    []
+  );
 
   // Empty state component
   const emptyState = useMemo(
@@ -238,6 +267,8 @@ export function UserList({
       enableColumnReordering={true}
       enableColumnVisibility={true}
       enableSorting={true}
+      enableRowSelection={canDeleteUsers || canEditUsers}
+      renderSelectionActions={renderSelectionActions}
       // Column management
       columnOrder={columnOrder}
       setColumnOrder={setColumnOrder}
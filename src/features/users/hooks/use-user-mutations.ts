@@ -2,12 +2,18 @@
  * @fileoverview TanStack Query mutation hooks for user operations
  * @module features/users/hooks/use-user-mutations
  *
- * Provides mutation hooks for creating, updating, deleting, and restoring users.
+ * Provides mutation hooks for creating, updating, deleting, and restoring users,
+ * and for bulk actions over many users.
  * All hooks use TanStack Query for server state management and automatic cache invalidation.
  */
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import type { CreateUserInput, UpdateUserInput } from "../schemas/user.schema";
+import { useBulkEntityMutation } from "@/hooks/use-entity-mutations";
+import type {
+  BulkUserActionInput,
+  CreateUserInput,
+  UpdateUserInput,
+} from "../schemas/user.schema";
 import type { User } from "../types/user.types";
 
 /**
@@ -255,3 +261,30 @@ export function useRestoreUser() {
     },
   });
 }
+
+/**
+ * Custom hook for bulk user actions with TanStack Query
+ *
+ * Soft-deletes, restores, changes the role of, or assigns a company to many
+ * users in one request. The result reports which users succeeded and which
+ * failed. Invalidates the user caches once after the action.
+ *
+ * @returns Mutation object with mutate function and state
+ *
+ * @example
+ * ```tsx
+ * const { mutate: bulkUpdateUsers, isPending } = useBulkUserAction();
+ *
+ * bulkUpdateUsers({ action: "set_role", ids: userIds, role: "admin" });
+ * ```
+ */
+export function useBulkUserAction() {
+  return useBulkEntityMutation<BulkUserActionInput>({
+    endpoint: "/api/admin/users/bulk",
+    queryKeys: {
+      detail: ["user"],
+      list: ["users"],
+    },
+    entityName: "users",
+  });
+}
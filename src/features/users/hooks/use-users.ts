@@ -7,6 +7,7 @@ import type { User } from "../types/user.types";
 import { z } from "zod";
 import { useEntityQuery } from "@/hooks/use-entity-query";
 import { useEntityList } from "@/hooks/use-entity-list";
+import type { USER_SORT_COLUMNS } from "../schemas/user.schema";
 
 /**
  * User query response schema
@@ -38,12 +39,9 @@ const UsersResponseSchema = z.object({
       updated_at: z.string(),
     })
   ),
-  pagination: z.object({
-    offset: z.number(),
-    limit: z.number(),
-    total: z.number(),
-    has_next: z.boolean(),
-  }),
+  next_cursor: z.string().nullable(),
+  has_next: z.boolean(),
+  total: z.number(),
 });
 
 type UsersResponse = z.infer<typeof UsersResponseSchema>;
@@ -54,7 +52,13 @@ type UsersResponse = z.infer<typeof UsersResponseSchema>;
 export interface UserFilters {
   search?: string;
   role?: "member" | "admin" | "superadmin";
+  /** Company ID, or "none" for users without a company */
+  company_id?: string;
   include_deleted?: boolean;
+  /** Column to sort by (the API defaults to created_at) */
+  sort?: (typeof USER_SORT_COLUMNS)[number];
+  /** Sort direction (the API defaults to desc) */
+  order?: "asc" | "desc";
 }
 
 /**
@@ -80,7 +84,7 @@ const DEFAULT_PAGE_SIZE = 20;
  * ```
  */
 export function useUsers(filters: UserFilters = {}) {
-  return useEntityList<User, UserFilters, number, UsersResponse>({
+  return useEntityList<User, UserFilters, string, UsersResponse>({
     filters,
     endpoint: "/api/admin/users",
     buildParams: (filters, pageParam) => {
@@ -92,24 +96,36 @@ export function useUsers(filters: UserFilters = {}) {
       if (filters.role) {
         params.append("role", filters.role);
       }
+      if (filters.company_id) {
+        params.append("company_id", filters.company_id);
+      }
       if (filters.include_deleted) {
         params.append("include_deleted", "true");
       }
+      if (filters.sort) {
+        params.append("sort", filters.sort);
+      }
+      if (filters.order) {
+        params.append("order", filters.order);
+      }
 
-      params.append("offset", pageParam.toString());
+      // Keyset pagination keeps pages stable while rows are added or removed
+      params.append("cursor", pageParam);
       params.append("limit", DEFAULT_PAGE_SIZE.toString());
+      // Planner estimates are close for the full list but can be far off
+      // for a search or filter, so those totals are counted exactly
+      const isFiltered = Boolean(
+        filters.search || filters.role || filters.company_id
+      );
+      params.append("count", isFiltered ? "exact" : "estimated");
 
       return params;
     },
     responseSchema: UsersResponseSchema as z.ZodSchema<UsersResponse>,
     queryKey: ["users"],
-    getNextPageParam: (lastPage, allPages) => {
-      if (!lastPage.pagination.has_next) {
-        return undefined;
-      }
-      return allPages.length * DEFAULT_PAGE_SIZE;
-    },
-    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.has_next ? (lastPage.next_cursor ?? undefined) : undefined,
+    initialPageParam: "",
     pageSize: DEFAULT_PAGE_SIZE,
   });
 }
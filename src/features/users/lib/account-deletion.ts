@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Self-service account deletion with a grace period
+ * @module features/users/lib/account-deletion
+ *
+ * Deleting your own account soft-deletes it right away (see soft-delete:
+ * access is revoked immediately) and schedules a permanent purge for the
+ * end of the grace period (`ACCOUNT_DELETION_GRACE_DAYS`, default 30).
+ * Until then an admin can restore the user, which cancels the purge.
+ * `purgeDeletedAccounts` is run by the purge cron job.
+ */
+
+import { createAdminClient } from "@/utils/supabase/admin";
+import { softDeleteUser } from "./soft-delete";
+
+/**
+ * Grace period used when `ACCOUNT_DELETION_GRACE_DAYS` is not set
+ */
+const DEFAULT_ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+/**
+ * Storage bucket holding avatar uploads (one folder per user)
+ */
+const AVATARS_BUCKET = "avatars";
+
+/**
+ * Result of a purge run
+ */
+export interface PurgeDeletedAccountsResult {
+  /** Number of accounts permanently removed */
+  purged: number;
+  /** Accounts that could not be removed; they are retried on the next run */
+  failed: { user_id: string; error: string }[];
+}
+
+/**
+ * Returns the number of days a deleted account is kept before it is purged
+ *
+ * @returns Grace period in days
+ */
+export function getAccountDeletionGraceDays(): number {
+  const value = Number.parseInt(
+    process.env.ACCOUNT_DELETION_GRACE_DAYS ?? "",
+    10
+  );
+  return Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_ACCOUNT_DELETION_GRACE_DAYS;
+}
+
+/**
+ * Deletes the caller's own account
+ * The account is soft-deleted now and purged after the grace period.
+ *
+ * @param userId - ID of the user deleting their account
+ * @returns Promise resolving to when the account will be purged
+ * @throws Error if the account is already deleted or access cannot be revoked
+ */
+export async function deleteOwnAccount(
+  userId: string
+): Promise<{ purge_after: string }> {
+  const purgeAfter = new Date(
+    Date.now() + getAccountDeletionGraceDays() * 24 * 60 * 60 * 1000
+  );
+
+  await softDeleteUser(userId, null, { purgeAfter });
+
+  return { purge_after: purgeAfter.toISOString() };
+}
+
+/**
+ * Permanently removes accounts whose grace period has ended
+ * Deletes the user's avatar files and the auth user; the profile and the
+ * rest of the user's data are removed by the foreign key cascades.
+ *
+ * @returns Promise resolving to the number of accounts purged and the
+ * accounts that failed
+ * @throws Error if the accounts due for purging cannot be read
+ */
+export async function purgeDeletedAccounts(): Promise<PurgeDeletedAccountsResult> {
+  const adminClient = createAdminClient();
+  const { data: profiles, error } = await adminClient
+    .from("profiles")
+    .select("id")
+    .not("deleted_at", "is", null)
+    .lte("purge_after", new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch accounts to purge: ${error.message}`);
+  }
+
+  const result: PurgeDeletedAccountsResult = { purged: 0, failed: [] };
+
+  for (const { id } of profiles) {
+    const storage = adminClient.storage.from(AVATARS_BUCKET);
+    const { data: objects } = await storage.list(id);
+    if (objects && objects.length > 0) {
+      await storage.remove(objects.map((object) => `${id}/${object.name}`));
+    }
+
+    const { error: deleteError } = await adminClient.auth.admin.deleteUser(id);
+
+    // Keep going; the account is picked up again on the next run
+    if (deleteError) {
+      console.error(`Failed to purge account ${id}:`, deleteError);
+      result.failed.push({ user_id: id, error: deleteError.message });
+      continue;
+    }
+
+    result.purged += 1;
+  }
+
+  return result;
+}
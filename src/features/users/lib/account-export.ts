@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Self-service export of a user's personal data
+ * @module features/users/lib/account-export
+ *
+ * Collects everything stored about a user: the auth account, profile,
+ * company, uploaded avatar files and account activity (sessions, access
+ * tokens, MFA factors, impersonations of the user and invitations they
+ * sent). Secrets such as token and recovery code hashes are never included.
+ */
+
+import type { User as AuthUser } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getUserRole } from "@/lib/auth/roles";
+import { createZip } from "@/lib/zip";
+
+/**
+ * Storage bucket holding avatar uploads (one folder per user)
+ */
+const AVATARS_BUCKET = "avatars";
+
+/**
+ * Exported personal data
+ */
+export interface AccountExportData {
+  exported_at: string;
+  account: {
+    id: string;
+    email: string | null;
+    role: string;
+    created_at: string;
+    last_sign_in_at: string | null;
+  };
+  profile: Record<string, unknown> | null;
+  company: Record<string, unknown> | null;
+  avatar_files: string[];
+  activity: {
+    sessions: Record<string, unknown>[];
+    access_tokens: Record<string, unknown>[];
+    mfa_factors: Record<string, unknown>[];
+    impersonations: Record<string, unknown>[];
+    invitations_sent: Record<string, unknown>[];
+  };
+}
+
+/**
+ * Exported personal data with the uploaded files
+ */
+export interface AccountExport {
+  data: AccountExportData;
+  files: { name: string; data: Buffer }[];
+}
+
+/**
+ * Reads rows of a table belonging to a user
+ *
+ * @param table - Table name
+ * @param columns - Columns to select
+ * @param column - Column holding the user ID
+ * @param userId - User ID
+ * @param orderBy - Timestamp column to order by (newest first)
+ * @returns Promise resolving to the rows
+ * @throws Error if database query fails
+ */
+async function fetchUserRows(
+  table: string,
+  columns: string,
+  column: string,
+  userId: string,
+  orderBy = "created_at"
+): Promise<Record<string, unknown>[]> {
+  const { data, error } = await createAdminClient()
+    .from(table)
+    .select(columns)
+    .eq(column, userId)
+    .order(orderBy, { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to export ${table}: ${error.message}`);
+  }
+
+  return (data ?? []) as unknown as Record<string, unknown>[];
+}
+
+/**
+ * Downloads a user's avatar uploads
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the files, named by their storage path
+ * @throws Error if the files cannot be listed or downloaded
+ */
+async function fetchAvatarFiles(
+  userId: string
+): Promise<{ name: string; data: Buffer }[]> {
+  const storage = createAdminClient().storage.from(AVATARS_BUCKET);
+  const { data: objects, error } = await storage.list(userId);
+
+  if (error) {
+    throw new Error(`Failed to list avatar files: ${error.message}`);
+  }
+
+  return Promise.all(
+    objects
+      .filter((object) => object.id !== null)
+      .map(async (object) => {
+        const path = `${userId}/${object.name}`;
+        const { data, error: downloadError } = await storage.download(path);
+
+        if (downloadError) {
+          throw new Error(
+            `Failed to download avatar file: ${downloadError.message}`
+          );
+        }
+
+        return {
+          name: `avatars/${object.name}`,
+          data: Buffer.from(await data.arrayBuffer()),
+        };
+      })
+  );
+}
+
+/**
+ * Collects a user's personal data
+ *
+ * @param user - Auth user whose data is exported
+ * @returns Promise resolving to the export data and avatar files
+ * @throws Error if any part of the data cannot be read
+ */
+export async function buildAccountExport(
+  user: AuthUser
+): Promise<AccountExport> {
+  const adminClient = createAdminClient();
+
+  const { data: profile, error: profileError } = await adminClient
+    .from("profiles")
+    .select("*")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Failed to export profile: ${profileError.message}`);
+  }
+
+  let company: Record<string, unknown> | null = null;
+  if (profile?.company_id) {
+    const { data, error } = await adminClient
+      .from("companies")
+      .select("id, name, created_at")
+      .eq("id", profile.company_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to export company: ${error.message}`);
+    }
+    company = data;
+  }
+
+  const { data: factorData, error: factorError } =
+    await adminClient.auth.admin.mfa.listFactors({ userId: user.id });
+
+  if (factorError) {
+    throw new Error(`Failed to export MFA factors: ${factorError.message}`);
+  }
+
+  const [sessions, accessTokens, invitationsSent, impersonations, files] =
+    await Promise.all([
+      fetchUserRows(
+        "user_sessions",
+        "user_agent, ip_address, created_at, last_seen_at",
+        "user_id",
+        user.id
+      ),
+      fetchUserRows(
+        "personal_access_tokens",
+        "name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at",
+        "user_id",
+        user.id
+      ),
+      fetchUserRows(
+        "invitations",
+        "email, role, expires_at, accepted_at, revoked_at, created_at",
+        "invited_by",
+        user.id
+      ),
+      fetchUserRows(
+        "impersonation_sessions",
+        "allow_mutations, started_at, expires_at, ended_at",
+        "target_id",
+        user.id,
+        "started_at"
+      ),
+      fetchAvatarFiles(user.id),
+    ]);
+
+  return {
+    data: {
+      exported_at: new Date().toISOString(),
+      account: {
+        id: user.id,
+        email: user.email ?? null,
+        role: getUserRole(user),
+        created_at: user.created_at,
+        last_sign_in_at: user.last_sign_in_at ?? null,
+      },
+      profile,
+      company,
+      avatar_files: files.map((file) => file.name),
+      activity: {
+        sessions,
+        access_tokens: accessTokens,
+        mfa_factors: factorData.factors.map((factor) => ({
+          friendly_name: factor.friendly_name ?? null,
+          factor_type: factor.factor_type,
+          status: factor.status,
+          created_at: factor.created_at,
+        })),
+        impersonations,
+        invitations_sent: invitationsSent,
+      },
+    },
+    files,
+  };
+}
+
+/**
+ * Packages an export as a ZIP archive
+ * The archive holds `account.json` and the avatar files under `avatars/`.
+ *
+ * @param accountExport - Export built by `buildAccountExport`
+ * @returns Archive contents
+ */
+export function createAccountExportZip(accountExport: AccountExport): Buffer {
+  return createZip([
+    {
+      name: "account.json",
+      data: JSON.stringify(accountExport.data, null, 2),
+    },
+    ...accountExport.files,
+  ]);
+}
@@ -6,7 +6,10 @@
 import { z } from "zod";
 import { getUserById } from "./user-service";
 import type { User } from "../types/user.types";
+import type { User as AuthUser } from "@supabase/supabase-js";
 import type { LimitedProfile } from "@/features/auth/types/auth.types";
+import type { CompanyScope } from "@/lib/auth/company-scope";
+import { getVisibleProfile } from "@/lib/auth/profile-visibility";
 
 /**
  * UUID validation schema for user ID
@@ -17,8 +20,10 @@ const UserIdSchema = z.string().uuid("User ID must be a valid UUID");
  * Options for fetching user data
  */
 export interface FetchUserOptions {
-  /** Optional viewer user ID for access control (if viewing another user's profile) */
-  viewerUserId?: string;
+  /** Viewer's company scope (null for unrestricted) */
+  scope: CompanyScope;
+  /** Optional viewer for access control (if viewing another user's profile) */
+  viewer?: AuthUser;
   /** Whether to return limited profile data (for non-admin viewers) */
   limitedView?: boolean;
 }
@@ -27,57 +32,52 @@ export interface FetchUserOptions {
  * Server-side function to fetch a user by ID
  *
  * Fetches user data directly from the database using the user service,
- * bypassing API routes. Supports both full admin view and limited profile view.
+ * bypassing API routes. Supports both full admin view and limited profile view
+ * (the fields the viewer may see under the profile visibility policy).
  *
  * @param id - User ID (UUID)
- * @param options - Optional configuration for access control and view mode
- * @returns Promise resolving to User or LimitedProfile if found, null if not found
+ * @param options - Company scope plus optional view mode configuration
+ * @returns Promise resolving to User or LimitedProfile if found, null if not found or out of scope
  * @throws Error for invalid UUID or database errors
  *
  * @example
  * ```ts
- * // Full admin view
- * const user = await fetchUserServer("e79f5e8e-7e19-4f78-97f4-eba979362d39");
+ * // Full admin view, limited to the admin's company unless they have users.view_all
+ * const scope = await getCompanyScope(currentUser, PERMISSIONS.users.viewAll);
+ * const user = await fetchUserServer("e79f5e8e-7e19-4f78-97f4-eba979362d39", {
+ *   scope,
+ * });
  *
  * // Limited profile view
  * const profile = await fetchUserServer(userId, {
- *   viewerUserId: currentUserId,
+ *   scope: null,
+ *   viewer: currentUser,
  *   limitedView: true
  * });
  * ```
  */
 export async function fetchUserServer(
   id: string,
-  options?: FetchUserOptions
+  options: FetchUserOptions
 ): Promise<User | LimitedProfile | null> {
   // Validate user ID format
   const validatedId = UserIdSchema.parse(id);
 
+  // Limited view of another user: only the fields the viewer may see
+  if (
+    options.limitedView &&
+    options.viewer &&
+    options.viewer.id !== validatedId
+  ) {
+    return getVisibleProfile(validatedId, options.viewer);
+  }
+
   // Fetch user from service layer
-  const user = await getUserById(validatedId);
+  const user = await getUserById(validatedId, options.scope);
 
   if (!user) {
     return null;
   }
 
-  // If viewing own profile or admin view, return full user data
-  if (
-    !options?.limitedView ||
-    !options?.viewerUserId ||
-    options.viewerUserId === validatedId
-  ) {
-    return user;
-  }
-
-  // Return limited profile data for non-admin viewers
-  // Access control can be added here based on business relationships
-  const limitedProfile: LimitedProfile = {
-    id: user.id,
-    full_name: user.full_name,
-    phone: user.phone,
-    avatar_url: user.avatar_url,
-    title: user.title,
-  };
-
-  return limitedProfile;
+  return user;
 }
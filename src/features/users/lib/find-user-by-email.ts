@@ -54,7 +54,7 @@ export async function findUserByEmail(email: string): Promise<User | null> {
 
   if (profileByEmail) {
     // Found by profiles.email, fetch full user data
-    return await getUserById(profileByEmail.id);
+    return await getUserById(profileByEmail.id, null);
   }
 
   // If not found in profiles.email, check auth.users.email
@@ -76,7 +76,7 @@ export async function findUserByEmail(email: string): Promise<User | null> {
 
     if (matchingAuthUser) {
       // Found by auth.users.email, fetch profile
-      return await getUserById(matchingAuthUser.id);
+      return await getUserById(matchingAuthUser.id, null);
     }
   } catch {
     // If listing users fails, return null
@@ -6,24 +6,55 @@
 import { createAdminClient } from "@/utils/supabase/admin";
 import type { User } from "../types/user.types";
 import type { UserRole } from "@/features/auth/schemas/role.schema";
+import {
+  getCompanyScopeFilter,
+  type CompanyScope,
+} from "@/lib/auth/company-scope";
+import {
+  restoreAccountAccess,
+  revokeAccountAccess,
+} from "@/lib/auth/account-status";
+import {
+  emitWebhookEvent,
+  toWebhookUser,
+} from "@/features/webhooks/lib/webhook-delivery";
+
+/**
+ * Options for soft deleting a user
+ */
+export interface SoftDeleteOptions {
+  /** When the account is permanently removed (see account-deletion) */
+  purgeAfter?: Date;
+}
 
 /**
  * Soft deletes a user by setting deleted_at timestamp
- * Preserves all data but revokes access
+ * Preserves all data but revokes access: the auth user is banned and signed
+ * out of every session. If that fails, the profile change is rolled back.
  *
  * @param userId - User ID to soft delete
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @param options - Optional purge schedule
  * @returns Promise resolving to soft-deleted User
- * @throws Error if user not found or already deleted
+ * @throws Error if user not found (or out of scope), already deleted, or access cannot be revoked
  */
-export async function softDeleteUser(userId: string): Promise<User> {
+export async function softDeleteUser(
+  userId: string,
+  scope: CompanyScope,
+  options: SoftDeleteOptions = {}
+): Promise<User> {
   const supabase = createAdminClient();
 
-  // Check if user exists and is not already deleted
-  const { data: existingUser, error: fetchError } = await supabase
+  // Check if user exists (within scope) and is not already deleted
+  let fetchQuery = supabase
     .from("profiles")
     .select("id, deleted_at")
-    .eq("id", userId)
-    .single();
+    .eq("id", userId);
+  if (scope) {
+    const { column, value } = getCompanyScopeFilter(scope);
+    fetchQuery = fetchQuery.eq(column, value);
+  }
+  const { data: existingUser, error: fetchError } = await fetchQuery.single();
 
   if (fetchError) {
     if (fetchError.code === "PGRST116") {
@@ -39,7 +70,10 @@ export async function softDeleteUser(userId: string): Promise<User> {
   // Soft delete: set deleted_at timestamp (with company join)
   const { data: profile, error: updateError } = await supabase
     .from("profiles")
-    .update({ deleted_at: new Date().toISOString() })
+    .update({
+      deleted_at: new Date().toISOString(),
+      purge_after: options.purgeAfter?.toISOString() ?? null,
+    })
     .eq("id", userId)
     .select("*, companies!profiles_company_id_fkey(id, name)")
     .single();
@@ -48,6 +82,16 @@ export async function softDeleteUser(userId: string): Promise<User> {
     throw new Error(`Failed to soft delete user: ${updateError.message}`);
   }
 
+  try {
+    await revokeAccountAccess(userId);
+  } catch (error) {
+    await supabase
+      .from("profiles")
+      .update({ deleted_at: null, purge_after: null })
+      .eq("id", userId);
+    throw error;
+  }
+
   const company = (profile as { companies?: { name: string } | null })
     .companies;
 
@@ -68,7 +112,7 @@ export async function softDeleteUser(userId: string): Promise<User> {
     role = "member";
   }
 
-  return {
+  const user: User = {
     id: profile.id,
     // Use profiles.email if set, otherwise fallback to auth.users.email
     email: profile.email || authEmail || null,
@@ -91,25 +135,42 @@ export async function softDeleteUser(userId: string): Promise<User> {
     created_at: profile.created_at,
     updated_at: profile.updated_at,
   };
+
+  await emitWebhookEvent("user.deleted", {
+    user: toWebhookUser(user),
+    deleted_at: user.deleted_at,
+    purge_after: options.purgeAfter?.toISOString() ?? null,
+  });
+
+  return user;
 }
 
 /**
  * Restores a soft-deleted user by clearing deleted_at timestamp
- * Reinstates access to the account
+ * Reinstates access to the account by lifting the auth ban and cancels a
+ * scheduled purge. If that fails, the profile change is rolled back.
  *
  * @param userId - User ID to restore
+ * @param scope - Caller's company scope (null for unrestricted)
  * @returns Promise resolving to restored User
- * @throws Error if user not found or not deleted
+ * @throws Error if user not found (or out of scope), not deleted, or the ban cannot be lifted
  */
-export async function restoreUser(userId: string): Promise<User> {
+export async function restoreUser(
+  userId: string,
+  scope: CompanyScope
+): Promise<User> {
   const supabase = createAdminClient();
 
-  // Check if user exists and is deleted
-  const { data: existingUser, error: fetchError } = await supabase
+  // Check if user exists (within scope) and is deleted
+  let fetchQuery = supabase
     .from("profiles")
-    .select("id, deleted_at")
-    .eq("id", userId)
-    .single();
+    .select("id, deleted_at, purge_after")
+    .eq("id", userId);
+  if (scope) {
+    const { column, value } = getCompanyScopeFilter(scope);
+    fetchQuery = fetchQuery.eq(column, value);
+  }
+  const { data: existingUser, error: fetchError } = await fetchQuery.single();
 
   if (fetchError) {
     if (fetchError.code === "PGRST116") {
@@ -125,7 +186,7 @@ export async function restoreUser(userId: string): Promise<User> {
   // Restore: clear deleted_at timestamp (with company join)
   const { data: profile, error: updateError } = await supabase
     .from("profiles")
-    .update({ deleted_at: null })
+    .update({ deleted_at: null, purge_after: null })
     .eq("id", userId)
     .select("*, companies!profiles_company_id_fkey(id, name)")
     .single();
@@ -134,6 +195,19 @@ export async function restoreUser(userId: string): Promise<User> {
     throw new Error(`Failed to restore user: ${updateError.message}`);
   }
 
+  try {
+    await restoreAccountAccess(userId);
+  } catch (error) {
+    await supabase
+      .from("profiles")
+      .update({
+        deleted_at: existingUser.deleted_at,
+        purge_after: existingUser.purge_after,
+      })
+      .eq("id", userId);
+    throw error;
+  }
+
   const company = (profile as { companies?: { name: string } | null })
     .companies;
 
@@ -154,7 +228,7 @@ export async function restoreUser(userId: string): Promise<User> {
     role = "member";
   }
 
-  return {
+  const user: User = {
     id: profile.id,
     // Use profiles.email if set, otherwise fallback to auth.users.email
     email: profile.email || authEmail || null,
@@ -177,4 +251,8 @@ export async function restoreUser(userId: string): Promise<User> {
     created_at: profile.created_at,
     updated_at: profile.updated_at,
   };
+
+  await emitWebhookEvent("user.restored", { user: toWebhookUser(user) });
+
+  return user;
 }
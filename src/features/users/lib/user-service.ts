@@ -5,33 +5,101 @@
 
 import { createAdminClient } from "@/utils/supabase/admin";
 import type { User } from "../types/user.types";
-import type {
-  CreateUserInput,
-  UpdateUserInput,
-  UserQueryInput,
+import {
+  NO_COMPANY_FILTER,
+  type CreateUserInput,
+  type UpdateUserInput,
+  type UserQueryInput,
 } from "../schemas/user.schema";
-import { getUserRole } from "@/lib/auth/roles";
-import type { UserRole } from "@/features/auth/schemas/role.schema";
-import { assignCompanyByEmail } from "@/features/companies/lib/company-service";
+import { getUserRole, syncProfileRole } from "@/lib/auth/roles";
+import {
+  DEFAULT_ROLE,
+  safeValidateRole,
+  type UserRole,
+} from "@/features/auth/schemas/role.schema";
+import {
+  assignCompanyByEmail,
+  getCompanyById,
+} from "@/features/companies/lib/company-service";
+import {
+  getCompanyScopeFilter,
+  type CompanyScope,
+} from "@/lib/auth/company-scope";
+import type { PermissionFilter } from "@/lib/auth/permission-conditions";
+import {
+  decodeListCursor,
+  encodeListCursor,
+  getKeysetFilter,
+} from "@/lib/pagination";
+import {
+  emitWebhookEvent,
+  toWebhookUser,
+} from "@/features/webhooks/lib/webhook-delivery";
 
 /**
- * Fetches a list of users with optional search, filters, and pagination
+ * Page of users returned by getUsers
+ */
+export interface UserListPage {
+  users: User[];
+  /** Matching users (estimated when `query.count` is "estimated") */
+  total: number;
+  /** Whether more users follow this page */
+  hasNext: boolean;
+  /** Cursor of the next page (null on the last page) */
+  nextCursor: string | null;
+}
+
+/**
+ * Fetches a list of users with optional search, filters, sorting and pagination
+ * Pages by `query.cursor` when it is set (an empty cursor is the first page),
+ * otherwise by `query.offset`.
  *
  * @param query - Query parameters for filtering and pagination
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @param permissionFilter - Rows the caller's users.view grants allow
  * @returns Promise resolving to users array and pagination info
+ * @throws Error if the cursor is invalid or the query fails
  */
 export async function getUsers(
-  query: UserQueryInput
-): Promise<{ users: User[]; total: number }> {
+  query: UserQueryInput,
+  scope: CompanyScope,
+  permissionFilter: PermissionFilter
+): Promise<UserListPage> {
+  if (permissionFilter.type === "none") {
+    return { users: [], total: 0, hasNext: false, nextCursor: null };
+  }
+
+  const cursor = query.cursor
+    ? decodeListCursor(query.cursor, query.sort, query.order)
+    : null;
+
   const supabase = createAdminClient();
 
   // Join with companies table to fetch company name
   let queryBuilder = supabase
     .from("profiles")
     .select("*, companies!profiles_company_id_fkey(id, name)", {
-      count: "exact",
+      count: query.count,
     });
 
+  // Restrict to the caller's company
+  if (scope) {
+    const { column, value } = getCompanyScopeFilter(scope);
+    queryBuilder = queryBuilder.eq(column, value);
+  }
+
+  // Restrict to rows allowed by conditional permissions
+  if (permissionFilter.type === "filtered") {
+    queryBuilder = queryBuilder.or(permissionFilter.filter);
+  }
+
+  // Filter by company ("none" matches users without a company)
+  if (query.company_id === NO_COMPANY_FILTER) {
+    queryBuilder = queryBuilder.is("company_id", null);
+  } else if (query.company_id) {
+    queryBuilder = queryBuilder.eq("company_id", query.company_id);
+  }
+
   // Filter deleted users
   if (!query.include_deleted) {
     queryBuilder = queryBuilder.is("deleted_at", null);
@@ -44,16 +112,23 @@ export async function getUsers(
     );
   }
 
-  // Apply role filter (requires joining with auth.users)
-  // Note: Role is stored in auth.users.app_metadata, so we'll filter in application layer
-  // or use a database function/view if available
+  // Apply role filter (role is mirrored into profiles by syncProfileRole)
+  if (query.role) {
+    queryBuilder = queryBuilder.eq("role", query.role);
+  }
 
-  // Apply pagination
-  const from = query.offset;
-  const to = from + query.limit - 1;
+  // Continue after the cursor
+  if (cursor) {
+    queryBuilder = queryBuilder.or(getKeysetFilter(cursor));
+  }
+
+  // Apply pagination, fetching one extra row to tell if a next page exists
+  const from = query.cursor === undefined ? query.offset : 0;
+  const ascending = query.order === "asc";
   queryBuilder = queryBuilder
-    .range(from, to)
-    .order("created_at", { ascending: false });
+    .order(query.sort, { ascending, nullsFirst: false })
+    .order("id", { ascending })
+    .range(from, from + query.limit);
 
   const { data, error, count } = await queryBuilder;
 
@@ -65,38 +140,25 @@ export async function getUsers(
     return {
       users: [],
       total: count || 0,
+      hasNext: false,
+      nextCursor: null,
     };
   }
 
-  // Fetch roles from auth.users for all profiles
-  const userIds = data.map((profile) => profile.id);
-  const authUsersMap = new Map<string, { role: UserRole }>();
-
-  // Fetch auth users in batches (Supabase admin API has limits)
-  for (const userId of userIds) {
-    try {
-      const { data: authUserData } =
-        await supabase.auth.admin.getUserById(userId);
-      if (authUserData?.user) {
-        const role = getUserRole(authUserData.user);
-        authUsersMap.set(userId, { role });
-      }
-    } catch {
-      // If user not found in auth, use default role
-      authUsersMap.set(userId, { role: "member" });
-    }
-  }
+  const hasNext = data.length > query.limit;
+  const rows = hasNext ? data.slice(0, query.limit) : data;
+  const lastRow = rows[rows.length - 1];
 
-  // Transform data to include role from auth.users and company name
-  let users: User[] = data.map((profile) => {
-    const authUser = authUsersMap.get(profile.id);
+  // Transform data to include company name
+  const users: User[] = rows.map((profile) => {
+    const roleValidation = safeValidateRole(profile.role);
     const company = (profile as { companies?: { name: string } | null })
       .companies;
 
     return {
       id: profile.id,
       email: profile.email || null,
-      role: authUser?.role || ("member" as const),
+      role: roleValidation.success ? roleValidation.data : DEFAULT_ROLE,
       full_name: profile.full_name,
       avatar_url: profile.avatar_url,
       bio: profile.bio,
@@ -119,14 +181,19 @@ export async function getUsers(
     };
   });
 
-  // Apply role filter in application layer if needed
-  if (query.role) {
-    users = users.filter((user) => user.role === query.role);
-  }
-
   return {
     users,
     total: count || 0,
+    hasNext,
+    nextCursor:
+      hasNext && lastRow
+        ? encodeListCursor({
+            sort: query.sort,
+            order: query.order,
+            value: lastRow[query.sort],
+            id: lastRow.id,
+          })
+        : null,
   };
 }
 
@@ -134,17 +201,28 @@ export async function getUsers(
  * Fetches a single user by ID
  *
  * @param userId - User ID to fetch
- * @returns Promise resolving to User or null if not found
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving to User or null if not found (or out of scope)
  */
-export async function getUserById(userId: string): Promise<User | null> {
+export async function getUserById(
+  userId: string,
+  scope: CompanyScope
+): Promise<User | null> {
   const supabase = createAdminClient();
 
   // Join with companies table to fetch company name
-  const { data, error } = await supabase
+  let queryBuilder = supabase
     .from("profiles")
     .select("*, companies!profiles_company_id_fkey(id, name)")
-    .eq("id", userId)
-    .single();
+    .eq("id", userId);
+
+  // Out-of-scope users are reported as not found
+  if (scope) {
+    const { column, value } = getCompanyScopeFilter(scope);
+    queryBuilder = queryBuilder.eq(column, value);
+  }
+
+  const { data, error } = await queryBuilder.single();
 
   if (error) {
     if (error.code === "PGRST116") {
@@ -196,13 +274,47 @@ export async function getUserById(userId: string): Promise<User | null> {
   };
 }
 
+/**
+ * Options for creating a user
+ */
+export interface CreateUserOptions {
+  /** Company to assign (omit to assign by email domain) */
+  companyId?: string | null;
+}
+
 /**
  * Creates a new user account
+ * Scoped callers can only add users to their own company.
  *
  * @param input - User creation data
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @param options - Creation options
  * @returns Promise resolving to created User
+ * @throws Error if the email is in use, or the company is not found (or
+ * outside the scope)
  */
-export async function createUser(input: CreateUserInput): Promise<User> {
+export async function createUser(
+  input: CreateUserInput,
+  scope: CompanyScope,
+  options: CreateUserOptions = {}
+): Promise<User> {
+  if (scope) {
+    if (!scope.companyId) {
+      throw new Error("Cannot create users outside your company");
+    }
+    if (
+      options.companyId !== undefined &&
+      options.companyId !== scope.companyId
+    ) {
+      throw new Error("Company not found");
+    }
+  }
+
+  // getCompanyById skips soft-deleted companies
+  if (options.companyId && !(await getCompanyById(options.companyId))) {
+    throw new Error("Company not found");
+  }
+
   const adminSupabase = createAdminClient();
 
   // Check email uniqueness (including soft-deleted users)
@@ -233,8 +345,14 @@ export async function createUser(input: CreateUserInput): Promise<User> {
     throw new Error(`Failed to create user: ${authError.message}`);
   }
 
-  // Determine company assignment based on email domain
-  const companyId = await assignCompanyByEmail(input.email);
+  // Use the given company, the caller's company, or determine it based on
+  // email domain
+  const companyId =
+    options.companyId !== undefined
+      ? options.companyId
+      : scope
+        ? scope.companyId
+        : await assignCompanyByEmail(input.email);
 
   // Create profile with company join to fetch company name
   const { data: profile, error: profileError } = await adminSupabase
@@ -254,6 +372,7 @@ export async function createUser(input: CreateUserInput): Promise<User> {
       country: input.country || null,
       title: input.title || null,
       company_id: companyId,
+      role: input.role,
     })
     .select("*, companies!profiles_company_id_fkey(id, name)")
     .single();
@@ -267,7 +386,7 @@ export async function createUser(input: CreateUserInput): Promise<User> {
   const company = (profile as { companies?: { name: string } | null })
     .companies;
 
-  return {
+  const user: User = {
     id: profile.id,
     email: profile.email || null,
     role: input.role,
@@ -289,6 +408,10 @@ export async function createUser(input: CreateUserInput): Promise<User> {
     created_at: profile.created_at,
     updated_at: profile.updated_at,
   };
+
+  await emitWebhookEvent("user.created", { user: toWebhookUser(user) });
+
+  return user;
 }
 
 /**
@@ -296,16 +419,19 @@ export async function createUser(input: CreateUserInput): Promise<User> {
  *
  * @param userId - User ID to update
  * @param input - User update data
+ * @param scope - Caller's company scope (null for unrestricted)
  * @returns Promise resolving to updated User
+ * @throws Error if user not found or out of scope
  */
 export async function updateUser(
   userId: string,
-  input: UpdateUserInput
+  input: UpdateUserInput,
+  scope: CompanyScope
 ): Promise<{ user: User; conflict: boolean }> {
   const adminSupabase = createAdminClient();
 
   // Fetch current user data
-  const currentUser = await getUserById(userId);
+  const currentUser = await getUserById(userId, scope);
   if (!currentUser) {
     throw new Error("User not found");
   }
@@ -385,13 +511,71 @@ export async function updateUser(
         throw new Error(`Failed to update auth user: ${authError.message}`);
       }
     }
+
+    if (input.role) {
+      await syncProfileRole(userId, { role: input.role });
+    }
   }
 
   // Fetch updated user with role
-  const updatedUser = await getUserById(userId);
+  const updatedUser = await getUserById(userId, null);
   if (!updatedUser) {
     throw new Error("Failed to fetch updated user");
   }
 
+  if (input.role && input.role !== currentUser.role) {
+    await emitWebhookEvent("user.role_changed", {
+      user: toWebhookUser(updatedUser),
+      previous_role: currentUser.role,
+    });
+  }
+
   return { user: updatedUser, conflict: hasConflict || false };
 }
+
+/**
+ * Moves a user to a company, or removes them from their company
+ *
+ * @param userId - User ID to update
+ * @param companyId - Company to assign (null for no company)
+ * @param scope - Caller's company scope (null for unrestricted)
+ * @returns Promise resolving to updated User
+ * @throws Error if user not found (or out of scope), or the company is not
+ * found or soft-deleted
+ */
+export async function assignUserCompany(
+  userId: string,
+  companyId: string | null,
+  scope: CompanyScope
+): Promise<User> {
+  const currentUser = await getUserById(userId, scope);
+  if (!currentUser) {
+    throw new Error("User not found");
+  }
+
+  // getCompanyById skips soft-deleted companies
+  if (companyId && !(await getCompanyById(companyId))) {
+    throw new Error("Company not found");
+  }
+
+  if (currentUser.company_id === companyId) {
+    return currentUser;
+  }
+
+  const adminSupabase = createAdminClient();
+  const { error } = await adminSupabase
+    .from("profiles")
+    .update({ company_id: companyId })
+    .eq("id", userId);
+
+  if (error) {
+    throw new Error(`Failed to update user company: ${error.message}`);
+  }
+
+  const updatedUser = await getUserById(userId, null);
+  if (!updatedUser) {
+    throw new Error("Failed to fetch updated user");
+  }
+
+  return updatedUser;
+}
@@ -5,6 +5,7 @@
 
 import { z } from "zod";
 import { UserRoleSchema } from "@/features/auth/schemas/role.schema";
+import { bulkIdsSchema } from "@/lib/bulk-actions";
 
 /**
  * Schema for creating a new user
@@ -14,6 +15,7 @@ export const createUserSchema = z.object({
   email: z.string().email("Invalid email format"),
   full_name: z.string().max(255).nullable().optional(),
   role: UserRoleSchema,
+  company_id: z.string().uuid().nullable().optional(),
   avatar_url: z
     .string()
     .url("Avatar URL must be a valid URL")
@@ -56,21 +58,68 @@ export const updateUserSchema = z.object({
   updated_at: z.string().datetime().optional(),
 });
 
+/**
+ * Columns the user list can be sorted by
+ */
+export const USER_SORT_COLUMNS = [
+  "full_name",
+  "email",
+  "role",
+  "created_at",
+] as const;
+
+/**
+ * `company_id` filter value matching users without a company
+ */
+export const NO_COMPANY_FILTER = "none";
+
 /**
  * Schema for querying users (list/search/filter)
  * Used for GET /api/admin/users endpoint
+ * Defaults to newest first; ties are broken by ID so pages stay stable
+ * Setting `cursor` (empty for the first page) switches from offset to keyset
+ * pagination; `count: "estimated"` uses the planner's row estimate for
+ * large results instead of counting every row
  */
 export const userQuerySchema = z.object({
   offset: z.coerce.number().int().min(0).default(0),
   limit: z.coerce.number().int().min(1).max(100).default(20),
   search: z.string().optional(),
   role: UserRoleSchema.optional(),
+  company_id: z
+    .union([z.string().uuid(), z.literal(NO_COMPANY_FILTER)])
+    .optional(),
   include_deleted: z.coerce.boolean().default(false),
+  sort: z.enum(USER_SORT_COLUMNS).default("created_at"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().max(1024).optional(),
+  count: z.enum(["exact", "estimated"]).default("exact"),
 });
 
+/**
+ * Schema for bulk user actions
+ * Used for POST /api/admin/users/bulk; `company_id: null` removes the users
+ * from their company
+ */
+export const bulkUserActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("soft_delete"), ids: bulkIdsSchema }),
+  z.object({ action: z.literal("restore"), ids: bulkIdsSchema }),
+  z.object({
+    action: z.literal("set_role"),
+    ids: bulkIdsSchema,
+    role: UserRoleSchema,
+  }),
+  z.object({
+    action: z.literal("assign_company"),
+    ids: bulkIdsSchema,
+    company_id: z.string().uuid().nullable(),
+  }),
+]);
+
 /**
  * TypeScript types inferred from schemas
  */
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type UserQueryInput = z.infer<typeof userQuerySchema>;
+export type BulkUserActionInput = z.infer<typeof bulkUserActionSchema>;
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Dialog listing the recent deliveries to a webhook endpoint
+ * @module features/webhooks/components/webhook-deliveries-dialog
+ */
+
+"use client";
+
+import { type ReactElement } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useWebhookDeliveries } from "../hooks/use-webhooks";
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from "../schemas/webhook.schema";
+
+/**
+ * Badge variant of each delivery status
+ */
+const STATUS_BADGE_VARIANTS: Record<
+  WebhookDeliveryStatus,
+  "success" | "warning" | "destructive"
+> = {
+  succeeded: "success",
+  pending: "warning",
+  failed: "destructive",
+};
+
+/**
+ * Formats an ISO timestamp with date and time
+ *
+ * @param value - ISO timestamp
+ * @returns Localized date and time (e.g. "Oct 19, 2026, 2:30 PM")
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Describes the outcome of a delivery's latest attempt
+ *
+ * @param delivery - Webhook delivery
+ * @returns Short description (e.g. "HTTP 500, retry at ...")
+ */
+function describeOutcome(delivery: WebhookDelivery): string {
+  if (delivery.attempts === 0) {
+    return "Not attempted yet";
+  }
+
+  const outcome =
+    delivery.error ??
+    (delivery.response_status !== null
+      ? `HTTP ${delivery.response_status}`
+      : "Delivered");
+
+  return delivery.status === "pending" && delivery.next_attempt_at
+    ? `${outcome}, retry at ${formatDateTime(delivery.next_attempt_at)}`
+    : outcome;
+}
+
+/**
+ * Props for WebhookDeliveriesDialog component
+ */
+export interface WebhookDeliveriesDialogProps {
+  /** Endpoint whose deliveries are shown (null closes the dialog) */
+  webhook: WebhookSubscription | null;
+  /** Handler for closing the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Dialog listing the 50 most recent deliveries to a webhook endpoint
+ *
+ * @param props - Component props
+ * @returns React element containing the deliveries dialog
+ */
+export function WebhookDeliveriesDialog({
+  webhook,
+  onClose,
+}: WebhookDeliveriesDialogProps): ReactElement {
+  const {
+    data: deliveries = [],
+    isLoading,
+    isError,
+    error,
+  } = useWebhookDeliveries(webhook?.id ?? null);
+
+  return (
+    <Dialog open={webhook !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Recent Deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">
+              Loading deliveries...
+            </p>
+          ) : isError ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No events have been sent to this endpoint yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>
+                      <div className="font-mono text-xs">
+                        {delivery.event_type}
+                      </div>
+                      <code className="text-xs text-muted-foreground">
+                        {delivery.id}
+                      </code>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(delivery.created_at)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={STATUS_BADGE_VARIANTS[delivery.status]}
+                        size="sm"
+                      >
+                        {delivery.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell className="max-w-64 text-sm text-muted-foreground">
+                      {describeOutcome(delivery)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Dialog for registering or editing a webhook endpoint
+ * @module features/webhooks/components/webhook-dialog
+ */
+
+"use client";
+
+import { type ReactElement, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCreateWebhook, useUpdateWebhook } from "../hooks/use-webhooks";
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+  type WebhookSubscription,
+} from "../schemas/webhook.schema";
+
+/**
+ * Props for WebhookDialog component
+ */
+export interface WebhookDialogProps {
+  /** Whether dialog is open */
+  open: boolean;
+  /** Handler for open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Endpoint to edit (omit to register a new one) */
+  webhook?: WebhookSubscription | null;
+}
+
+/**
+ * Dialog for registering or editing a webhook endpoint
+ *
+ * Edits the URL, description and subscribed events. After registration the
+ * signing secret is shown once.
+ *
+ * @param props - Component props
+ * @returns React element containing the webhook dialog
+ */
+export function WebhookDialog({
+  open,
+  onOpenChange,
+  webhook = null,
+}: WebhookDialogProps): ReactElement {
+  const createWebhook = useCreateWebhook();
+  const updateWebhook = useUpdateWebhook();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const mutation = webhook ? updateWebhook : createWebhook;
+
+  // Load the endpoint being edited whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setUrl(webhook?.url ?? "");
+    setDescription(webhook?.description ?? "");
+    setEventTypes(webhook?.event_types ?? []);
+  }, [open, webhook]);
+
+  const handleOpenChange = (nextOpen: boolean): void => {
+    if (!nextOpen) {
+      setCreatedSecret(null);
+      createWebhook.reset();
+      updateWebhook.reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const toggleEventType = (eventType: WebhookEventType, checked: boolean) => {
+    setEventTypes((current) =>
+      checked
+        ? [...current, eventType]
+        : current.filter((existing) => existing !== eventType)
+    );
+  };
+
+  const handleSave = (): void => {
+    const data = {
+      url,
+      description: description.trim() || null,
+      event_types: eventTypes,
+    };
+
+    if (webhook) {
+      updateWebhook.mutate(
+        { id: webhook.id, data },
+        {
+          onSuccess: () => {
+            toast.success("Webhook updated");
+            handleOpenChange(false);
+          },
+        }
+      );
+      return;
+    }
+
+    createWebhook.mutate(data, {
+      onSuccess: ({ secret }) => setCreatedSecret(secret),
+    });
+  };
+
+  const handleCopy = async (): Promise<void> => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast.success("Secret copied to clipboard");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {createdSecret
+              ? "Webhook Created"
+              : webhook
+                ? "Edit Webhook"
+                : "New Webhook"}
+          </DialogTitle>
+          <DialogDescription>
+            {createdSecret
+              ? "Copy the signing secret now. It will not be shown again."
+              : "Events are POSTed to the URL as JSON, signed with HMAC-SHA256."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdSecret ? (
+          <div className="flex items-center gap-2">
+            <Input
+              readOnly
+              value={createdSecret}
+              className="font-mono text-xs"
+              aria-label="Signing secret"
+              onFocus={(event) => event.target.select()}
+            />
+            <Button variant="outline" size="icon" onClick={handleCopy}>
+              <Copy className="size-4" />
+              <span className="sr-only">Copy secret</span>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={url}
+                maxLength={2048}
+                placeholder="https://example.com/webhooks"
+                onChange={(event) => setUrl(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Textarea
+                id="webhook-description"
+                value={description}
+                maxLength={500}
+                rows={2}
+                placeholder="e.g. Sync users to the billing system"
+                onChange={(event) => setDescription(event.target.value)}
+              />
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Events</legend>
+              <div className="space-y-2 rounded-md border p-3">
+                {WEBHOOK_EVENT_TYPES.map((eventType) => {
+                  const id = `webhook-event-${eventType}`;
+                  return (
+                    <div key={eventType} className="flex items-start gap-2">
+                      <Checkbox
+                        id={id}
+                        size="sm"
+                        checked={eventTypes.includes(eventType)}
+                        onCheckedChange={(checked) =>
+                          toggleEventType(eventType, checked === true)
+                        }
+                      />
+                      <Label htmlFor={id} className="block space-y-0.5">
+                        <span className="block font-mono text-xs">
+                          {eventType}
+                        </span>
+                        <span className="block text-xs font-normal text-muted-foreground">
+                          {WEBHOOK_EVENT_LABELS[eventType]}
+                        </span>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </fieldset>
+
+            {mutation.isError && (
+              <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                {mutation.error.message}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {createdSecret ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={
+                  mutation.isPending ||
+                  url.trim().length === 0 ||
+                  eventTypes.length === 0
+                }
+              >
+                {mutation.isPending
+                  ? "Saving..."
+                  : webhook
+                    ? "Save Webhook"
+                    : "Create Webhook"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
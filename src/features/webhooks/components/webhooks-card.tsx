@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Webhook endpoint management for the settings page
+ * @module features/webhooks/components/webhooks-card
+ */
+
+"use client";
+
+import { type ReactElement, useState } from "react";
+import { toast } from "sonner";
+import { History, Pencil, Plus, Trash2, Webhook } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardHeading,
+  CardTitle,
+  CardToolbar,
+} from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useDeleteWebhook,
+  useUpdateWebhook,
+  useWebhooks,
+} from "../hooks/use-webhooks";
+import type { WebhookSubscription } from "../schemas/webhook.schema";
+import { WebhookDialog } from "./webhook-dialog";
+import { WebhookDeliveriesDialog } from "./webhook-deliveries-dialog";
+
+/**
+ * Webhook endpoint management card
+ *
+ * Lists the registered endpoints with their events, and lets admins
+ * register, edit, disable or delete endpoints and inspect their recent
+ * deliveries.
+ *
+ * @returns React element containing the webhooks card
+ */
+export function WebhooksCard(): ReactElement {
+  const { data: webhooks = [], isLoading, isError, error } = useWebhooks();
+  const updateWebhook = useUpdateWebhook();
+  const deleteWebhook = useDeleteWebhook();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [webhookToEdit, setWebhookToEdit] =
+    useState<WebhookSubscription | null>(null);
+  const [webhookToInspect, setWebhookToInspect] =
+    useState<WebhookSubscription | null>(null);
+  const [webhookToDelete, setWebhookToDelete] =
+    useState<WebhookSubscription | null>(null);
+
+  const openDialog = (webhook: WebhookSubscription | null): void => {
+    setWebhookToEdit(webhook);
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleActive = (
+    webhook: WebhookSubscription,
+    isActive: boolean
+  ): void => {
+    updateWebhook.mutate(
+      { id: webhook.id, data: { is_active: isActive } },
+      {
+        onError: (updateError) => {
+          toast.error("Failed to update webhook", {
+            description: updateError.message,
+          });
+        },
+      }
+    );
+  };
+
+  const handleDelete = (): void => {
+    if (!webhookToDelete) return;
+
+    deleteWebhook.mutate(webhookToDelete.id, {
+      onSuccess: () => {
+        toast.success("Webhook deleted");
+        setWebhookToDelete(null);
+      },
+      onError: (deleteError) => {
+        toast.error("Failed to delete webhook", {
+          description: deleteError.message,
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeading>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="size-4" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Notify other systems when users sign up, change role, are deleted or
+            restored, and when companies change. Failed deliveries are retried
+            with backoff.
+          </CardDescription>
+        </CardHeading>
+        <CardToolbar>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus />
+            New Webhook
+          </Button>
+        </CardToolbar>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No webhooks have been registered.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook.id}>
+                  <TableCell className="max-w-64">
+                    <div className="truncate font-medium" title={webhook.url}>
+                      {webhook.url}
+                    </div>
+                    {webhook.description && (
+                      <div className="truncate text-xs text-muted-foreground">
+                        {webhook.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex max-w-64 flex-wrap gap-1">
+                      {webhook.event_types.map((eventType) => (
+                        <Badge key={eventType} variant="outline" size="sm">
+                          {eventType}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.is_active}
+                      onCheckedChange={(checked) =>
+                        handleToggleActive(webhook, checked)
+                      }
+                      disabled={updateWebhook.isPending}
+                      aria-label={`Deliver events to ${webhook.url}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      onClick={() => setWebhookToInspect(webhook)}
+                    >
+                      <History className="text-muted-foreground" />
+                      <span className="sr-only">View deliveries</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      onClick={() => openDialog(webhook)}
+                    >
+                      <Pencil className="text-muted-foreground" />
+                      <span className="sr-only">Edit webhook</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      onClick={() => setWebhookToDelete(webhook)}
+                    >
+                      <Trash2 className="text-muted-foreground" />
+                      <span className="sr-only">Delete webhook</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <WebhookDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        webhook={webhookToEdit}
+      />
+
+      <WebhookDeliveriesDialog
+        webhook={webhookToInspect}
+        onClose={() => setWebhookToInspect(null)}
+      />
+
+      <AlertDialog
+        open={webhookToDelete !== null}
+        onOpenChange={(open) => !open && setWebhookToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong className="break-all">{webhookToDelete?.url}</strong> will
+              stop receiving events and its delivery log will be removed. This
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteWebhook.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteWebhook.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteWebhook.isPending ? "Deleting..." : "Delete Webhook"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
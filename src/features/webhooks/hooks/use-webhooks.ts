@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Query and mutation hooks for webhook endpoints
+ * @module features/webhooks/hooks/use-webhooks
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import {
+  createdWebhookSchema,
+  webhookDeliverySchema,
+  webhookSubscriptionSchema,
+  type CreateWebhookInput,
+  type CreatedWebhook,
+  type UpdateWebhookInput,
+  type WebhookDelivery,
+  type WebhookSubscription,
+} from "../schemas/webhook.schema";
+
+/**
+ * Query key for webhook endpoints (delivery logs are nested under it)
+ */
+const WEBHOOKS_QUERY_KEY = ["admin", "webhooks"] as const;
+
+/**
+ * Reads the error message from a failed API response
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has none
+ * @returns Error message
+ */
+async function getErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorData = await response.json().catch(() => ({
+    message: fallback,
+  }));
+  return errorData.message || fallback;
+}
+
+/**
+ * Hook for listing webhook endpoints
+ *
+ * @returns Query result with the endpoints (newest first)
+ *
+ * @example
+ * ```tsx
+ * const { data: webhooks = [], isLoading } = useWebhooks();
+ * ```
+ */
+export function useWebhooks() {
+  return useQuery<WebhookSubscription[]>({
+    queryKey: WEBHOOKS_QUERY_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/admin/webhooks");
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch webhooks")
+        );
+      }
+
+      const responseData = await response.json();
+      return z
+        .object({ webhooks: z.array(webhookSubscriptionSchema) })
+        .parse(responseData).webhooks;
+    },
+  });
+}
+
+/**
+ * Hook for listing the recent deliveries to a webhook endpoint
+ *
+ * @param webhookId - Endpoint ID (null disables the query)
+ * @returns Query result with the deliveries (newest first)
+ *
+ * @example
+ * ```tsx
+ * const { data: deliveries = [] } = useWebhookDeliveries(webhook.id);
+ * ```
+ */
+export function useWebhookDeliveries(webhookId: string | null) {
+  return useQuery<WebhookDelivery[]>({
+    queryKey: [...WEBHOOKS_QUERY_KEY, webhookId, "deliveries"],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/admin/webhooks/${webhookId}/deliveries`
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to fetch deliveries")
+        );
+      }
+
+      const responseData = await response.json();
+      return z
+        .object({ deliveries: z.array(webhookDeliverySchema) })
+        .parse(responseData).deliveries;
+    },
+    enabled: webhookId !== null,
+  });
+}
+
+/**
+ * Hook for registering a webhook endpoint
+ * The signing secret is only available in the mutation result.
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const createWebhook = useCreateWebhook();
+ * const { secret } = await createWebhook.mutateAsync({
+ *   url: "https://example.com/hooks",
+ *   event_types: ["user.created"],
+ * });
+ * ```
+ */
+export function useCreateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation<CreatedWebhook, Error, CreateWebhookInput>({
+    mutationFn: async (data) => {
+      const response = await fetch("/api/admin/webhooks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to create webhook")
+        );
+      }
+
+      return createdWebhookSchema.parse(await response.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for updating a webhook endpoint
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const updateWebhook = useUpdateWebhook();
+ * updateWebhook.mutate({ id: webhook.id, data: { is_active: false } });
+ * ```
+ */
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    WebhookSubscription,
+    Error,
+    { id: string; data: UpdateWebhookInput }
+  >({
+    mutationFn: async ({ id, data }) => {
+      const response = await fetch(`/api/admin/webhooks/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to update webhook")
+        );
+      }
+
+      const responseData = await response.json();
+      return z
+        .object({ webhook: webhookSubscriptionSchema })
+        .parse(responseData).webhook;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for deleting a webhook endpoint
+ *
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ *
+ * @example
+ * ```tsx
+ * const deleteWebhook = useDeleteWebhook();
+ * deleteWebhook.mutate(webhookId);
+ * ```
+ */
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: async (webhookId) => {
+      const response = await fetch(`/api/admin/webhooks/${webhookId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          await getErrorMessage(response, "Failed to delete webhook")
+        );
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+  });
+}
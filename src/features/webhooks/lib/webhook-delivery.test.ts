@@ -0,0 +1,240 @@
+// @vitest-environment node
+
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type RequestListener,
+  type Server,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  WEBHOOK_RETRY_DELAYS,
+  attemptWebhookDelivery,
+} from "./webhook-delivery";
+import { verifyWebhookSignature } from "./webhook-signature";
+
+/**
+ * In-memory stand-in for the webhook_deliveries table
+ * `claim` is the row returned by the claiming update (null = not due);
+ * every update's values are recorded in order.
+ */
+const deliveries = vi.hoisted(() => ({
+  claim: null as Record<string, unknown> | null,
+  updates: [] as Record<string, unknown>[],
+}));
+
+vi.mock("@/utils/supabase/admin", () => ({
+  createAdminClient: () => ({
+    from: () => {
+      const query = {
+        update: (values: Record<string, unknown>) => {
+          deliveries.updates.push(values);
+          return query;
+        },
+        eq: () => query,
+        lte: () => query,
+        select: () => query,
+        maybeSingle: async () => ({ data: deliveries.claim, error: null }),
+        then: (resolve: (result: { error: null }) => unknown) =>
+          Promise.resolve({ error: null }).then(resolve),
+      };
+      return query;
+    },
+  }),
+}));
+
+const secret = "whsec_test";
+const payload = {
+  id: "6f1c2a8e-3b4d-4e5f-9a0b-1c2d3e4f5a6b",
+  type: "user.created",
+  created_at: "2026-10-19T12:00:00.000Z",
+  data: { user: { id: "user-1" } },
+};
+
+interface ReceivedRequest {
+  url: string | undefined;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+let respond: RequestListener;
+let received: ReceivedRequest[];
+
+function claimDelivery(
+  overrides: { attempts?: number; is_active?: boolean } = {}
+): void {
+  deliveries.claim = {
+    id: "delivery-1",
+    event_type: payload.type,
+    payload,
+    attempts: overrides.attempts ?? 0,
+    webhook_subscriptions: {
+      url: `${baseUrl}/hooks`,
+      secret,
+      is_active: overrides.is_active ?? true,
+    },
+  };
+}
+
+/**
+ * Returns the outcome recorded after the attempt (the update after the claim)
+ */
+function recordedOutcome(): Record<string, unknown> | undefined {
+  return deliveries.updates[1];
+}
+
+describe("attemptWebhookDelivery", () => {
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.setEncoding("utf8");
+      request.on("data", (chunk: string) => {
+        body += chunk;
+      });
+      request.on("end", () => {
+        received.push({ url: request.url, headers: request.headers, body });
+        respond(request, response);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    deliveries.claim = null;
+    deliveries.updates = [];
+    received = [];
+    respond = (_request, response) => {
+      response.writeHead(204).end();
+    };
+  });
+
+  it("posts the signed event and marks the delivery succeeded", async () => {
+    claimDelivery();
+
+    await expect(attemptWebhookDelivery("delivery-1")).resolves.toBe(true);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request?.url).toBe("/hooks");
+    expect(request?.headers).toMatchObject({
+      "content-type": "application/json",
+      "x-webhook-event": "user.created",
+      "x-webhook-delivery": "delivery-1",
+    });
+    expect(JSON.parse(request?.body ?? "")).toEqual(payload);
+    expect(
+      verifyWebhookSignature(
+        secret,
+        String(request?.headers["x-webhook-signature"]),
+        String(request?.headers["x-webhook-timestamp"]),
+        request?.body ?? ""
+      )
+    ).toBe(true);
+
+    expect(recordedOutcome()).toMatchObject({
+      status: "succeeded",
+      attempts: 1,
+      next_attempt_at: null,
+      response_status: 204,
+      error: null,
+    });
+  });
+
+  it("reschedules a failed attempt with backoff", async () => {
+    respond = (_request, response) => {
+      response.writeHead(500).end("Internal Server Error");
+    };
+    claimDelivery({ attempts: 1 });
+
+    const before = Date.now();
+    await expect(attemptWebhookDelivery("delivery-1")).resolves.toBe(false);
+    const after = Date.now();
+
+    const outcome = recordedOutcome();
+    expect(outcome).toMatchObject({
+      status: "pending",
+      attempts: 2,
+      response_status: 500,
+      error: "Endpoint responded with 500",
+    });
+    const nextAttemptAt = Date.parse(String(outcome?.next_attempt_at));
+    const retryDelay = WEBHOOK_RETRY_DELAYS[1];
+    expect(nextAttemptAt).toBeGreaterThanOrEqual(before + retryDelay);
+    expect(nextAttemptAt).toBeLessThanOrEqual(after + retryDelay);
+  });
+
+  it("marks the delivery failed once the attempts run out", async () => {
+    respond = (_request, response) => {
+      response.writeHead(503).end();
+    };
+    claimDelivery({ attempts: WEBHOOK_RETRY_DELAYS.length });
+
+    await expect(attemptWebhookDelivery("delivery-1")).resolves.toBe(false);
+
+    expect(recordedOutcome()).toMatchObject({
+      status: "failed",
+      attempts: WEBHOOK_RETRY_DELAYS.length + 1,
+      next_attempt_at: null,
+      response_status: 503,
+    });
+  });
+
+  it("does not follow redirects", async () => {
+    respond = (request, response) => {
+      if (request.url === "/hooks") {
+        response.writeHead(307, { Location: `${baseUrl}/elsewhere` }).end();
+      } else {
+        response.writeHead(204).end();
+      }
+    };
+    claimDelivery();
+
+    await expect(attemptWebhookDelivery("delivery-1")).resolves.toBe(false);
+
+    expect(received.map((request) => request.url)).toEqual(["/hooks"]);
+    expect(recordedOutcome()).toMatchObject({
+      status: "pending",
+      response_status: 307,
+      error: "Endpoint responded with 307",
+    });
+  });
+
+  it("fails deliveries to a disabled endpoint without sending them", async () => {
+    claimDelivery({ is_active: false });
+
+    await expect(attemptWebhookDelivery("delivery-1")).resolves.toBe(false);
+
+    expect(received).toHaveLength(0);
+    expect(recordedOutcome()).toMatchObject({
+      status: "failed",
+      next_attempt_at: null,
+      error: "Webhook is disabled",
+    });
+  });
+
+  it("skips deliveries that are not due", async () => {
+    await expect(attemptWebhookDelivery("delivery-1")).resolves.toBe(null);
+
+    expect(received).toHaveLength(0);
+    expect(recordedOutcome()).toBeUndefined();
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * @fileoverview Emission and delivery of webhook events
+ * @module features/webhooks/lib/webhook-delivery
+ *
+ * `emitWebhookEvent` queues one `webhook_deliveries` row per active
+ * subscription to the event type, then attempts them once the current
+ * response has been sent. Each attempt POSTs the event as JSON, signed as
+ * described in webhook-signature. A 2xx response marks the delivery
+ * succeeded; anything else is retried with backoff (`WEBHOOK_RETRY_DELAYS`)
+ * by the `/api/cron/webhooks` job until the attempts run out.
+ *
+ * Emitting never throws: a webhook problem must not fail the user or company
+ * change that caused it. Delivery is at least once, so receivers should
+ * de-duplicate on the event `id`.
+ */
+
+import { randomUUID } from "node:crypto";
+import { after } from "next/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import type { Json } from "@/types/database.types";
+import type { User } from "@/features/users/types/user.types";
+import { signWebhookPayload } from "./webhook-signature";
+import type { WebhookEventType } from "../schemas/webhook.schema";
+
+/**
+ * Table name for webhook deliveries in Supabase
+ */
+const WEBHOOK_DELIVERIES_TABLE_NAME = "webhook_deliveries" as const;
+
+/**
+ * Delay before each retry, in milliseconds (the first attempt is immediate)
+ * A delivery is attempted at most `WEBHOOK_RETRY_DELAYS.length + 1` times.
+ */
+export const WEBHOOK_RETRY_DELAYS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+] as const;
+
+/**
+ * How long a claimed delivery is reserved for one attempt, in milliseconds
+ * Longer than the request timeout, so two workers never send it at once.
+ */
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+/**
+ * Timeout of a delivery request, in milliseconds
+ */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Maximum number of due deliveries attempted per retry run
+ */
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * Maximum length of the error stored for a failed attempt
+ */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Event data, specific to the event type
+ */
+export type WebhookEventData = { [key: string]: Json | undefined };
+
+/**
+ * Body POSTed to webhook endpoints
+ */
+export interface WebhookEvent {
+  /** Event ID, identical across retries and endpoints */
+  id: string;
+  /** Event type */
+  type: WebhookEventType;
+  /** When the event happened (ISO timestamp) */
+  created_at: string;
+  /** Event data */
+  data: WebhookEventData;
+}
+
+/**
+ * Builds the user object included in user events
+ *
+ * @param user - User the event is about
+ * @returns User fields sent to endpoints
+ */
+export function toWebhookUser(
+  user: Pick<User, "id" | "email" | "full_name" | "role" | "company_id">
+): WebhookEventData {
+  return {
+    id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    company_id: user.company_id,
+  };
+}
+
+/**
+ * Emits an event to the endpoints subscribed to its type
+ * Errors are logged, never thrown.
+ *
+ * @param type - Event type
+ * @param data - Event data
+ * @returns Promise resolving once the deliveries are queued
+ *
+ * @example
+ * ```typescript
+ * await emitWebhookEvent("user.deleted", { user: toWebhookUser(user) });
+ * ```
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  data: WebhookEventData
+): Promise<void> {
+  try {
+    const adminClient = createAdminClient();
+    const { data: subscriptions, error: subscriptionsError } = await adminClient
+      .from("webhook_subscriptions")
+      .select("id")
+      .eq("is_active", true)
+      .contains("event_types", [type]);
+
+    if (subscriptionsError) {
+      throw new Error(subscriptionsError.message);
+    }
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    const { data: deliveries, error: insertError } = await adminClient
+      .from(WEBHOOK_DELIVERIES_TABLE_NAME)
+      .insert(
+        subscriptions.map((subscription) => ({
+          subscription_id: subscription.id,
+          event_id: event.id,
+          event_type: type,
+          payload: event as unknown as Json,
+        }))
+      )
+      .select("id");
+
+    if (insertError) {
+      throw new Error(insertError.message);
+    }
+
+    scheduleDeliveries(deliveries.map((delivery) => delivery.id));
+  } catch (error) {
+    console.error(
+      `Failed to emit webhook event ${type}:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+/**
+ * Attempts deliveries after the current response has been sent
+ * Outside a request (e.g. in a script) `after` is unavailable; the
+ * deliveries are then left to the retry job.
+ *
+ * @param deliveryIds - Queued deliveries
+ */
+function scheduleDeliveries(deliveryIds: string[]): void {
+  try {
+    after(async () => {
+      for (const deliveryId of deliveryIds) {
+        await attemptWebhookDelivery(deliveryId);
+      }
+    });
+  } catch {
+    // Not in a request scope: /api/cron/webhooks picks them up
+  }
+}
+
+/**
+ * Delivery claimed for an attempt, with its endpoint
+ */
+interface ClaimedDelivery {
+  id: string;
+  event_type: string;
+  payload: Json;
+  attempts: number;
+  /** Many-to-one join, returned as an object (typed loosely by the client) */
+  webhook_subscriptions: unknown;
+}
+
+/**
+ * Reserves a due delivery for one attempt
+ * The conditional update succeeds for only one caller, so a delivery picked
+ * up by both `after` and the retry job is sent once.
+ *
+ * @param deliveryId - Delivery ID
+ * @returns Promise resolving to the delivery, or null if it is not due
+ * @throws Error if the update fails
+ */
+async function claimDelivery(
+  deliveryId: string
+): Promise<ClaimedDelivery | null> {
+  const now = new Date();
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(WEBHOOK_DELIVERIES_TABLE_NAME)
+    .update({
+      next_attempt_at: new Date(
+        now.getTime() + DELIVERY_LEASE_MS
+      ).toISOString(),
+    })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .select(
+      "id, event_type, payload, attempts, webhook_subscriptions!webhook_deliveries_subscription_id_fkey(url, secret, is_active)"
+    )
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim webhook delivery: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Sends a delivery to its endpoint
+ *
+ * @param delivery - Claimed delivery
+ * @param endpoint - Endpoint URL and signing secret
+ * @returns Promise resolving to the response status (null if there was no
+ * response) and an error message for failed attempts
+ */
+async function sendDelivery(
+  delivery: ClaimedDelivery,
+  endpoint: { url: string; secret: string }
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AppName-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event_type,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      // Redirects are not followed: the signature is for the registered URL
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+
+    return {
+      responseStatus: response.status,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  }
+}
+
+/**
+ * Makes one attempt at a delivery and records the outcome
+ * Failed attempts are rescheduled with backoff until the attempts run out.
+ * Deliveries to an endpoint that has since been disabled are marked failed.
+ *
+ * @param deliveryId - Delivery ID
+ * @returns Promise resolving to true if the endpoint accepted the delivery,
+ * false if it failed, or null if the delivery was not due
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: string
+): Promise<boolean | null> {
+  try {
+    const delivery = await claimDelivery(deliveryId);
+    if (!delivery) {
+      return null;
+    }
+
+    const endpoint = delivery.webhook_subscriptions as {
+      url: string;
+      secret: string;
+      is_active: boolean;
+    } | null;
+
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    const result =
+      endpoint && endpoint.is_active
+        ? await sendDelivery(delivery, endpoint)
+        : { responseStatus: null, error: "Webhook is disabled" };
+    const succeeded = result.error === null;
+    const retryDelay = WEBHOOK_RETRY_DELAYS[attempts - 1];
+    const canRetry =
+      !succeeded && endpoint?.is_active === true && retryDelay !== undefined;
+
+    const adminClient = createAdminClient();
+    const { error } = await adminClient
+      .from(WEBHOOK_DELIVERIES_TABLE_NAME)
+      .update({
+        status: succeeded ? "succeeded" : canRetry ? "pending" : "failed",
+        attempts,
+        last_attempt_at: now.toISOString(),
+        next_attempt_at: canRetry
+          ? new Date(now.getTime() + retryDelay).toISOString()
+          : null,
+        response_status: result.responseStatus,
+        error: result.error?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      })
+      .eq("id", delivery.id);
+
+    if (error) {
+      throw new Error(`Failed to record webhook delivery: ${error.message}`);
+    }
+
+    return succeeded;
+  } catch (error) {
+    // The lease expires and the retry job tries again
+    console.error(
+      `Webhook delivery ${deliveryId} failed:`,
+      error instanceof Error ? error.message : error
+    );
+    return false;
+  }
+}
+
+/**
+ * Attempts deliveries whose retry is due, oldest first
+ * Called by the `/api/cron/webhooks` job.
+ *
+ * @returns Promise resolving to the number of deliveries attempted and how
+ * many of them succeeded
+ * @throws Error if due deliveries cannot be listed
+ */
+export async function retryDueWebhookDeliveries(): Promise<{
+  attempted: number;
+  succeeded: number;
+}> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(WEBHOOK_DELIVERIES_TABLE_NAME)
+    .select("id")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(RETRY_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch due webhook deliveries: ${error.message}`);
+  }
+
+  let attempted = 0;
+  let succeeded = 0;
+  for (const { id } of data) {
+    const result = await attemptWebhookDelivery(id);
+    if (result === null) continue;
+    attempted++;
+    if (result) succeeded++;
+  }
+
+  return { attempted, succeeded };
+}
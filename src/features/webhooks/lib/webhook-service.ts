@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Webhook subscription service
+ * @module features/webhooks/lib/webhook-service
+ *
+ * Admins register endpoints that receive user and company events (see
+ * webhook-delivery). Each endpoint gets a random signing secret, returned
+ * only when it is registered; receivers use it to verify the
+ * `X-Webhook-Signature` header.
+ */
+
+import { randomBytes } from "node:crypto";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+  webhookDeliverySchema,
+  webhookSubscriptionSchema,
+  type CreateWebhookInput,
+  type CreatedWebhook,
+  type UpdateWebhookInput,
+  type WebhookDelivery,
+  type WebhookSubscription,
+} from "../schemas/webhook.schema";
+
+/**
+ * Table name for webhook subscriptions in Supabase
+ */
+const WEBHOOK_SUBSCRIPTIONS_TABLE_NAME = "webhook_subscriptions" as const;
+
+/**
+ * Table name for webhook deliveries in Supabase
+ */
+const WEBHOOK_DELIVERIES_TABLE_NAME = "webhook_deliveries" as const;
+
+/**
+ * Columns returned for subscriptions (never the secret)
+ */
+const WEBHOOK_SUBSCRIPTION_COLUMNS =
+  "id, url, description, event_types, is_active, created_by, created_at, updated_at";
+
+/**
+ * Columns returned for deliveries (the payload is not listed)
+ */
+const WEBHOOK_DELIVERY_COLUMNS =
+  "id, subscription_id, event_id, event_type, status, attempts, next_attempt_at, last_attempt_at, response_status, error, created_at";
+
+/**
+ * Prefix of signing secrets, so they are recognizable when leaked
+ */
+const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+/**
+ * Maximum number of deliveries listed for an endpoint
+ */
+const WEBHOOK_DELIVERY_LIST_LIMIT = 50;
+
+/**
+ * Lists webhook subscriptions, newest first
+ *
+ * @returns Promise resolving to the subscriptions
+ * @throws Error if database query fails
+ */
+export async function listWebhooks(): Promise<WebhookSubscription[]> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(WEBHOOK_SUBSCRIPTIONS_TABLE_NAME)
+    .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch webhooks: ${error.message}`);
+  }
+
+  return data.map((row) => webhookSubscriptionSchema.parse(row));
+}
+
+/**
+ * Registers a webhook endpoint
+ *
+ * @param input - Validated endpoint settings
+ * @param createdBy - ID of the admin registering the endpoint
+ * @returns Promise resolving to the subscription and its plain signing secret
+ * @throws Error if the insert fails
+ */
+export async function createWebhook(
+  input: CreateWebhookInput,
+  createdBy: string
+): Promise<CreatedWebhook> {
+  const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(WEBHOOK_SUBSCRIPTIONS_TABLE_NAME)
+    .insert({
+      url: input.url,
+      description: input.description || null,
+      event_types: input.event_types,
+      secret,
+      created_by: createdBy,
+    })
+    .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create webhook: ${error.message}`);
+  }
+
+  return { webhook: webhookSubscriptionSchema.parse(data), secret };
+}
+
+/**
+ * Updates a webhook endpoint
+ * Deliveries already queued keep their original event and endpoint.
+ *
+ * @param webhookId - Subscription ID
+ * @param input - Validated changes
+ * @returns Promise resolving to the updated subscription
+ * @throws Error if the subscription is not found or the update fails
+ */
+export async function updateWebhook(
+  webhookId: string,
+  input: UpdateWebhookInput
+): Promise<WebhookSubscription> {
+  const updateData: {
+    url?: string;
+    description?: string | null;
+    event_types?: string[];
+    is_active?: boolean;
+  } = {};
+  if (input.url !== undefined) updateData.url = input.url;
+  if (input.description !== undefined)
+    updateData.description = input.description || null;
+  if (input.event_types !== undefined)
+    updateData.event_types = input.event_types;
+  if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(WEBHOOK_SUBSCRIPTIONS_TABLE_NAME)
+    .update(updateData)
+    .eq("id", webhookId)
+    .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update webhook: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error("Webhook not found");
+  }
+
+  return webhookSubscriptionSchema.parse(data);
+}
+
+/**
+ * Deletes a webhook endpoint and its delivery log
+ *
+ * @param webhookId - Subscription ID
+ * @returns Promise resolving when the subscription is deleted
+ * @throws Error if the subscription is not found or the delete fails
+ */
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(WEBHOOK_SUBSCRIPTIONS_TABLE_NAME)
+    .delete()
+    .eq("id", webhookId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete webhook: ${error.message}`);
+  }
+
+  if (data.length === 0) {
+    throw new Error("Webhook not found");
+  }
+}
+
+/**
+ * Lists the most recent deliveries to a webhook endpoint, newest first
+ *
+ * @param webhookId - Subscription ID
+ * @returns Promise resolving to the deliveries
+ * @throws Error if the subscription is not found or the query fails
+ */
+export async function listWebhookDeliveries(
+  webhookId: string
+): Promise<WebhookDelivery[]> {
+  const adminClient = createAdminClient();
+
+  const { data: subscription, error: subscriptionError } = await adminClient
+    .from(WEBHOOK_SUBSCRIPTIONS_TABLE_NAME)
+    .select("id")
+    .eq("id", webhookId)
+    .maybeSingle();
+
+  if (subscriptionError) {
+    throw new Error(`Failed to fetch webhook: ${subscriptionError.message}`);
+  }
+
+  if (!subscription) {
+    throw new Error("Webhook not found");
+  }
+
+  const { data, error } = await adminClient
+    .from(WEBHOOK_DELIVERIES_TABLE_NAME)
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .eq("subscription_id", webhookId)
+    .order("created_at", { ascending: false })
+    .limit(WEBHOOK_DELIVERY_LIST_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook deliveries: ${error.message}`);
+  }
+
+  return data.map((row) => webhookDeliverySchema.parse(row));
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Signing and verification of webhook deliveries
+ * @module features/webhooks/lib/webhook-signature
+ *
+ * Each delivery carries `X-Webhook-Timestamp` (Unix seconds) and
+ * `X-Webhook-Signature: sha256=<hex>`, the HMAC-SHA256 of
+ * `<timestamp>.<raw body>` keyed with the endpoint's secret. Receivers
+ * recompute the HMAC over the raw body and reject stale timestamps to stop
+ * replays; `verifyWebhookSignature` does both.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Prefix of the signature header value
+ */
+const SIGNATURE_PREFIX = "sha256=";
+
+/**
+ * How far a delivery timestamp may be from the receiver's clock, in seconds
+ */
+export const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Signs a webhook body
+ *
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix timestamp in seconds, sent as `X-Webhook-Timestamp`
+ * @param body - Raw JSON body
+ * @returns Signature header value (`sha256=<hex>`)
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Verifies the signature of a received webhook
+ *
+ * @param secret - Endpoint signing secret
+ * @param signature - `X-Webhook-Signature` header value
+ * @param timestamp - `X-Webhook-Timestamp` header value
+ * @param body - Raw request body, exactly as received
+ * @param now - Current time (defaults to now)
+ * @returns true if the signature matches and the timestamp is recent
+ *
+ * @example
+ * ```typescript
+ * const valid = verifyWebhookSignature(
+ *   secret,
+ *   request.headers.get("x-webhook-signature") ?? "",
+ *   request.headers.get("x-webhook-timestamp") ?? "",
+ *   await request.text()
+ * );
+ * ```
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string,
+  timestamp: string,
+  body: string,
+  now: Date = new Date()
+): boolean {
+  const seconds = Number(timestamp);
+  if (
+    !/^\d+$/.test(timestamp) ||
+    Math.abs(now.getTime() / 1000 - seconds) >
+      WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
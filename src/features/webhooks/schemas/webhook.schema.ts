@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Zod schemas for webhook subscriptions and deliveries
+ * @module features/webhooks/schemas/webhook.schema
+ */
+
+import { z } from "zod";
+
+/**
+ * Events that can be delivered to webhook endpoints
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  "user.created",
+  "user.role_changed",
+  "user.deleted",
+  "user.restored",
+  "company.created",
+  "company.updated",
+  "company.deleted",
+] as const;
+
+/**
+ * Schema for a webhook event type
+ */
+export const webhookEventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES);
+
+/**
+ * Human-readable descriptions of the event types
+ */
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "user.created": "A user signs up or is created",
+  "user.role_changed": "A user's role or custom role changes",
+  "user.deleted": "A user is soft-deleted",
+  "user.restored": "A soft-deleted user is restored",
+  "company.created": "A company is created",
+  "company.updated": "A company is updated",
+  "company.deleted": "A company is soft-deleted",
+};
+
+/**
+ * Delivery statuses
+ */
+export const webhookDeliveryStatusSchema = z.enum([
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+/**
+ * Schema for webhook endpoint URLs
+ */
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url("Invalid URL")
+  .max(2048, "URL must be at most 2048 characters")
+  .refine((url) => /^https?:\/\//i.test(url), {
+    message: "URL must start with http:// or https://",
+  });
+
+/**
+ * Schema for the event types of a subscription (no duplicates)
+ */
+const webhookEventTypesSchema = z
+  .array(webhookEventTypeSchema)
+  .min(1, "Select at least one event")
+  .transform((eventTypes) => [...new Set(eventTypes)]);
+
+/**
+ * Schema for registering a webhook endpoint
+ */
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  description: z
+    .string()
+    .trim()
+    .max(500, "Description must be at most 500 characters")
+    .nullable()
+    .optional(),
+  event_types: webhookEventTypesSchema,
+});
+
+/**
+ * Schema for updating a webhook endpoint
+ * The secret cannot be changed; delete and re-register the endpoint instead.
+ */
+export const updateWebhookSchema = createWebhookSchema.partial().extend({
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * Schema for a webhook subscription as returned by the API
+ * The signing secret is never returned after creation.
+ */
+export const webhookSubscriptionSchema = z.object({
+  id: z.string().uuid(),
+  url: z.string(),
+  description: z.string().nullable(),
+  event_types: z
+    .array(z.string())
+    .transform((eventTypes) =>
+      eventTypes.filter(
+        (eventType): eventType is WebhookEventType =>
+          webhookEventTypeSchema.safeParse(eventType).success
+      )
+    ),
+  is_active: z.boolean(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+/**
+ * Schema for the registration response
+ * `secret` is only ever returned once
+ */
+export const createdWebhookSchema = z.object({
+  webhook: webhookSubscriptionSchema,
+  secret: z.string(),
+});
+
+/**
+ * Schema for a delivery as returned by the API
+ */
+export const webhookDeliverySchema = z.object({
+  id: z.string().uuid(),
+  subscription_id: z.string().uuid(),
+  event_id: z.string().uuid(),
+  event_type: z.string(),
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  next_attempt_at: z.string().nullable(),
+  last_attempt_at: z.string().nullable(),
+  response_status: z.number().int().nullable(),
+  error: z.string().nullable(),
+  created_at: z.string(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type WebhookSubscription = z.infer<typeof webhookSubscriptionSchema>;
+export type CreatedWebhook = z.infer<typeof createdWebhookSchema>;
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
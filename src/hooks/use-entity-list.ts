@@ -80,13 +80,13 @@ export interface UseEntityListConfig<TEntity, TFilters, TPageParam, TResponse> {
  *   buildParams: (filters, cursor) => {
  *     const params = new URLSearchParams();
  *     if (filters.search) params.append('search', filters.search);
- *     if (cursor) params.append('cursor', JSON.stringify(cursor));
+ *     params.append('cursor', cursor); // empty for the first page
  *     return params;
  *   },
  *   responseSchema: UsersListResponseSchema,
  *   queryKey: ['users'],
  *   getNextPageParam: (lastPage) => lastPage.has_next ? lastPage.next_cursor : undefined,
- *   initialPageParam: null,
+ *   initialPageParam: '',
  * });
  * ```
  */
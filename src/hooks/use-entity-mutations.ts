@@ -2,8 +2,8 @@
  * @fileoverview Generic mutation hooks factory for entity CRUD operations
  * @module hooks/use-entity-mutations
  *
- * Provides reusable mutation hooks for create, update, and delete operations
- * with automatic cache invalidation and optional redirects.
+ * Provides reusable mutation hooks for create, update, delete, and bulk
+ * operations with automatic cache invalidation and optional redirects.
  */
 
 import {
@@ -13,6 +13,10 @@ import {
 } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { z } from "zod";
+import {
+  bulkActionResultSchema,
+  type BulkActionResult,
+} from "@/lib/bulk-actions";
 
 /**
  * Configuration for create mutation
@@ -81,6 +85,25 @@ export interface DeleteMutationConfig<TResponse = unknown> {
   readonly _?: TResponse;
 }
 
+/**
+ * Configuration for bulk mutation
+ */
+export interface BulkMutationConfig {
+  /** API endpoint for the bulk action */
+  endpoint: string;
+  /** Zod schema for validating error responses (optional) */
+  errorSchema?: z.ZodSchema<{ error: string; message: string }>;
+  /** Query keys to invalidate once the action completes */
+  queryKeys: {
+    /** Query key pattern for entity detail (will be invalidated for all entities) */
+    detail: string[];
+    /** Query keys for entity lists */
+    list: string[];
+  };
+  /** Entity name for error messages (plural) */
+  entityName?: string;
+}
+
 /**
  * Options for mutation hooks
  */
@@ -337,3 +360,81 @@ export function useDeleteEntity<TResponse = unknown>(
     },
   });
 }
+
+/**
+ * Creates a mutation hook applying one action to many entities
+ *
+ * The request succeeds even when some items fail; the result reports the
+ * outcome of each item. Caches are invalidated once for the whole action
+ * rather than once per item.
+ *
+ * @param config - Configuration for the bulk mutation
+ * @param options - Optional mutation options
+ * @returns Mutation hook result
+ *
+ * @example
+ * ```tsx
+ * const bulkUsers = useBulkEntityMutation<BulkUserActionInput>({
+ *   endpoint: "/api/admin/users/bulk",
+ *   queryKeys: { detail: ["user"], list: ["users"] },
+ *   entityName: "users",
+ * });
+ *
+ * bulkUsers.mutate({ action: "soft_delete", ids });
+ * ```
+ */
+export function useBulkEntityMutation<TInput extends { ids: string[] }>(
+  config: BulkMutationConfig,
+  options?: MutationOptions<BulkActionResult, Error>
+): UseMutationResult<BulkActionResult, Error, TInput> {
+  const { endpoint, errorSchema, queryKeys, entityName = "entities" } = config;
+  const { onSuccess, onError } = options ?? {};
+
+  const queryClient = useQueryClient();
+
+  return useMutation<BulkActionResult, Error, TInput>({
+    mutationFn: async (data: TInput): Promise<BulkActionResult> => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({
+          error: "UNKNOWN_ERROR",
+          message: `Failed to update ${entityName}`,
+        }));
+
+        if (errorSchema) {
+          const error = errorSchema.parse(errorData);
+          throw new Error(error.message);
+        }
+
+        throw new Error(errorData.message || `Failed to update ${entityName}`);
+      }
+
+      const responseData = await response.json();
+      return bulkActionResultSchema.parse(responseData);
+    },
+    onSuccess: (result) => {
+      // Invalidate detail queries (all entities)
+      queryKeys.detail.forEach((key) => {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      });
+
+      // Invalidate list queries
+      queryKeys.list.forEach((key) => {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      });
+
+      // Call custom success callback
+      onSuccess?.(result);
+    },
+    onError: (error) => {
+      onError?.(error);
+    },
+  });
+}
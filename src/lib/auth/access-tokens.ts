@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Personal access tokens for the admin API
+ * @module lib/auth/access-tokens
+ *
+ * Users create named, scoped, expiring tokens from their profile and send
+ * them as `Authorization: Bearer <token>`. Only a SHA-256 hash of each token
+ * is stored. While a token-authenticated request is handled, its scopes are
+ * kept in async context so every permission check for the owner is limited
+ * to the intersection of the token's scopes and the owner's permissions
+ * (see `getUserPermissions`).
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomBytes } from "node:crypto";
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { isValidPermission, type Permission } from "@/lib/auth/permissions";
+import { isAccountDeactivated } from "@/lib/auth/account-status";
+import {
+  accessTokenSchema,
+  type AccessToken,
+  type CreateAccessTokenInput,
+  type CreatedAccessToken,
+} from "@/features/auth/schemas/access-token.schema";
+
+/**
+ * Table name for personal access tokens in Supabase
+ */
+const ACCESS_TOKENS_TABLE_NAME = "personal_access_tokens" as const;
+
+/**
+ * Columns returned to token owners (never the hash)
+ */
+const ACCESS_TOKEN_COLUMNS =
+  "id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at";
+
+/**
+ * Prefix identifying personal access tokens
+ */
+export const ACCESS_TOKEN_PREFIX = "pat_";
+
+/**
+ * Number of leading token characters stored for display
+ */
+const TOKEN_DISPLAY_LENGTH = ACCESS_TOKEN_PREFIX.length + 8;
+
+/**
+ * Token that authenticated the current request
+ */
+export interface AccessTokenContext {
+  /** Token ID */
+  id: string;
+  /** Owner user ID */
+  userId: string;
+  /** Permissions the token may use */
+  scopes: Permission[];
+}
+
+/**
+ * Async context holding the token of the request being handled
+ */
+const accessTokenStorage = new AsyncLocalStorage<AccessTokenContext>();
+
+/**
+ * Runs a function with an access token as the current request's token
+ *
+ * @param token - Token that authenticated the request
+ * @param fn - Function to run (including the permission checks and handler)
+ * @returns Result of `fn`
+ */
+export function runWithAccessToken<T>(
+  token: AccessTokenContext,
+  fn: () => T
+): T {
+  return accessTokenStorage.run(token, fn);
+}
+
+/**
+ * Returns the token that authenticated the current request, if any
+ *
+ * @returns Current access token, or null for cookie sessions
+ */
+export function getCurrentAccessToken(): AccessTokenContext | null {
+  return accessTokenStorage.getStore() ?? null;
+}
+
+/**
+ * Hashes a plain token for storage and lookup
+ *
+ * @param token - Plain token
+ * @returns SHA-256 hash as hex
+ */
+function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Lists a user's tokens, newest first
+ *
+ * @param userId - Owner user ID
+ * @returns Promise resolving to the user's tokens (including revoked and expired ones)
+ * @throws Error if database query fails
+ */
+export async function listAccessTokens(userId: string): Promise<AccessToken[]> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(ACCESS_TOKENS_TABLE_NAME)
+    .select(ACCESS_TOKEN_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list access tokens: ${error.message}`);
+  }
+
+  return data.map((token) => accessTokenSchema.parse(token));
+}
+
+/**
+ * Creates a token for a user
+ * The plain token is only returned here; it cannot be recovered later.
+ *
+ * @param userId - Owner user ID
+ * @param input - Validated token name, scopes and lifetime
+ * @returns Promise resolving to the stored token and the plain token
+ * @throws Error if database insert fails
+ */
+export async function createAccessToken(
+  userId: string,
+  input: CreateAccessTokenInput
+): Promise<CreatedAccessToken> {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const expiresAt = new Date(
+    Date.now() + input.expires_in_days * 24 * 60 * 60 * 1000
+  );
+
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(ACCESS_TOKENS_TABLE_NAME)
+    .insert({
+      user_id: userId,
+      name: input.name,
+      token_prefix: token.slice(0, TOKEN_DISPLAY_LENGTH),
+      token_hash: hashAccessToken(token),
+      scopes: input.scopes,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select(ACCESS_TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create access token: ${error.message}`);
+  }
+
+  return { access_token: accessTokenSchema.parse(data), token };
+}
+
+/**
+ * Revokes one of a user's tokens
+ *
+ * @param userId - Owner user ID
+ * @param tokenId - Token ID
+ * @returns Promise resolving to the revoked token
+ * @throws Error if the token is not found, already revoked, or the update fails
+ */
+export async function revokeAccessToken(
+  userId: string,
+  tokenId: string
+): Promise<AccessToken> {
+  const adminClient = createAdminClient();
+  const { data: existing, error: fetchError } = await adminClient
+    .from(ACCESS_TOKENS_TABLE_NAME)
+    .select("id, revoked_at")
+    .eq("id", tokenId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch access token: ${fetchError.message}`);
+  }
+
+  if (!existing) {
+    throw new Error("Access token not found");
+  }
+
+  if (existing.revoked_at) {
+    throw new Error("Access token is already revoked");
+  }
+
+  const { data, error } = await adminClient
+    .from(ACCESS_TOKENS_TABLE_NAME)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", tokenId)
+    .select(ACCESS_TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to revoke access token: ${error.message}`);
+  }
+
+  return accessTokenSchema.parse(data);
+}
+
+/**
+ * Authenticates a plain token
+ * Revoked and expired tokens, and tokens of deactivated (soft-deleted) users,
+ * are rejected; `last_used_at` is updated on success.
+ *
+ * @param token - Plain token from the Authorization header
+ * @returns Promise resolving to the owner and token, or null if the token is invalid
+ * @throws Error if database query fails
+ */
+export async function authenticateAccessToken(
+  token: string
+): Promise<{ user: User; token: AccessTokenContext } | null> {
+  if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(ACCESS_TOKENS_TABLE_NAME)
+    .select("id, user_id, scopes, expires_at, revoked_at")
+    .eq("token_hash", hashAccessToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch access token: ${error.message}`);
+  }
+
+  if (!data || data.revoked_at || new Date(data.expires_at) <= new Date()) {
+    return null;
+  }
+
+  const {
+    data: { user },
+    error: userError,
+  } = await adminClient.auth.admin.getUserById(data.user_id);
+
+  if (userError || !user || (await isAccountDeactivated(user.id))) {
+    return null;
+  }
+
+  // Usage tracking must not fail the request
+  await adminClient
+    .from(ACCESS_TOKENS_TABLE_NAME)
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", data.id);
+
+  return {
+    user,
+    token: {
+      id: data.id,
+      userId: data.user_id,
+      scopes: (data.scopes as string[]).filter(isValidPermission),
+    },
+  };
+}
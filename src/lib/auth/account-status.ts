@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Account access for soft-deleted (deactivated) users
+ * @module lib/auth/account-status
+ *
+ * Soft-deleting a profile bans the Supabase auth user and deletes every one
+ * of their sessions, so they cannot sign in or refresh a token. As a second
+ * line of defence, the server gateways, the middleware and personal access
+ * token authentication reject any user whose profile has `deleted_at` set.
+ *
+ * Users without a profile never completed sign-up (the auth callback only
+ * creates a profile once the sign-up policy allows the user), so the server
+ * gateways and the middleware reject them as well.
+ */
+
+import { cache } from "react";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { revokeAllUserSessions } from "@/lib/auth/sessions";
+
+/**
+ * Path of the page deactivated users are redirected to
+ */
+export const ACCOUNT_DEACTIVATED_PATH = "/account-deactivated";
+
+/**
+ * Ban duration applied to deactivated auth users (effectively permanent)
+ */
+const DEACTIVATED_BAN_DURATION = "876000h"; // 100 years
+
+/**
+ * Access state of a user's account
+ * - `active`: the user has a profile that is not soft-deleted
+ * - `deactivated`: the profile is soft-deleted
+ * - `missing`: the user has no profile (sign-up was never completed)
+ */
+export type AccountStatus = "active" | "deactivated" | "missing";
+
+/**
+ * Reads a user's account status, once per request
+ * Uses the admin client because RLS hides deleted profiles from their owner.
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the account status
+ * @throws Error if database query fails
+ */
+export const getAccountStatus = cache(
+  async (userId: string): Promise<AccountStatus> => {
+    const adminClient = createAdminClient();
+    const { data, error } = await adminClient
+      .from("profiles")
+      .select("deleted_at")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch account status: ${error.message}`);
+    }
+
+    if (!data) {
+      return "missing";
+    }
+
+    return data.deleted_at ? "deactivated" : "active";
+  }
+);
+
+/**
+ * Checks whether a user's profile is soft-deleted, once per request
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to true if the profile has `deleted_at` set
+ * @throws Error if database query fails
+ */
+export async function isAccountDeactivated(userId: string): Promise<boolean> {
+  return (await getAccountStatus(userId)) === "deactivated";
+}
+
+/**
+ * Signs a user out of every session and bans them
+ * The ban is placed last, so a failure leaves no ban behind for callers that
+ * roll back the deactivation.
+ *
+ * @param userId - User ID
+ * @returns Promise resolving when access is revoked
+ * @throws Error if the session revocation or ban fails
+ */
+export async function revokeAccountAccess(userId: string): Promise<void> {
+  await revokeAllUserSessions(userId);
+
+  const adminClient = createAdminClient();
+  const { error: banError } = await adminClient.auth.admin.updateUserById(
+    userId,
+    { ban_duration: DEACTIVATED_BAN_DURATION }
+  );
+
+  if (banError) {
+    throw new Error(`Failed to ban user: ${banError.message}`);
+  }
+}
+
+/**
+ * Lifts the ban placed by `revokeAccountAccess`
+ * The user has to sign in again; revoked sessions are not restored.
+ *
+ * @param userId - User ID
+ * @returns Promise resolving when the ban is lifted
+ * @throws Error if the update fails
+ */
+export async function restoreAccountAccess(userId: string): Promise<void> {
+  const adminClient = createAdminClient();
+
+  const { error } = await adminClient.auth.admin.updateUserById(userId, {
+    ban_duration: "none",
+  });
+
+  if (error) {
+    throw new Error(`Failed to lift user ban: ${error.message}`);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Company-scoped access for user management
+ * @module lib/auth/company-scope
+ *
+ * Admins holding `users.view_all` can manage every user. Anyone else is
+ * limited to profiles that share their `company_id`. Out-of-scope users are
+ * treated as not found so their existence is not revealed.
+ *
+ * The same rule is enforced in RLS on `public.profiles` (see the
+ * `20261019120200_add_company_scoped_profile_policies` migration).
+ */
+
+import { cache } from "react";
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { hasPermission } from "@/lib/auth/permission-checker";
+import type { Permission } from "@/lib/auth/permissions";
+
+/**
+ * Company restriction for a caller
+ * `null` means unrestricted. A caller without a company is limited to their
+ * own profile.
+ */
+export type CompanyScope = {
+  /** Company the caller belongs to (null if unassigned) */
+  companyId: string | null;
+  /** Caller's user ID */
+  userId: string;
+} | null;
+
+/**
+ * Loads a user's company ID once per request
+ */
+export const getUserCompanyId = cache(
+  async (userId: string): Promise<string | null> => {
+    const adminClient = createAdminClient();
+    const { data, error } = await adminClient
+      .from("profiles")
+      .select("company_id")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch user company: ${error.message}`);
+    }
+
+    return data?.company_id ?? null;
+  }
+);
+
+/**
+ * Resolves the company scope for a caller
+ *
+ * @param user - Authenticated user
+ * @param viewAllPermission - Permission that lifts the restriction
+ * @returns Promise resolving to the caller's scope, or null if unrestricted
+ *
+ * @example
+ * ```typescript
+ * const scope = await getCompanyScope(user, PERMISSIONS.users.viewAll);
+ * const { users } = await getUsers(query, scope);
+ * ```
+ */
+export async function getCompanyScope(
+  user: User,
+  viewAllPermission: Permission
+): Promise<CompanyScope> {
+  if (await hasPermission(user, viewAllPermission)) {
+    return null;
+  }
+
+  return { companyId: await getUserCompanyId(user.id), userId: user.id };
+}
+
+/**
+ * Returns the `profiles` column filter that restricts a query to a scope
+ * Callers that share no company only match their own profile.
+ *
+ * @param scope - Caller's company scope (must not be null)
+ * @returns Column and value for an `.eq()` filter on `profiles`
+ *
+ * @example
+ * ```typescript
+ * if (scope) {
+ *   const { column, value } = getCompanyScopeFilter(scope);
+ *   queryBuilder = queryBuilder.eq(column, value);
+ * }
+ * ```
+ */
+export function getCompanyScopeFilter(scope: NonNullable<CompanyScope>): {
+  column: "company_id" | "id";
+  value: string;
+} {
+  return scope.companyId
+    ? { column: "company_id", value: scope.companyId }
+    : { column: "id", value: scope.userId };
+}
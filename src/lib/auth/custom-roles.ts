@@ -5,18 +5,27 @@
 
 import { createClient } from "@/utils/supabase/server";
 import { createAdminClient } from "@/utils/supabase/admin";
+import { invalidateCachedCustomRole } from "@/lib/auth/permission-cache";
+import { resolveCustomRolePermissions } from "@/lib/auth/permission-resolver";
+import { getUserRole, syncProfileRole } from "@/lib/auth/roles";
 import {
   customRoleSchema,
   createCustomRoleSchema,
+  updateCustomRoleSchema,
   type CreateCustomRoleInput,
   type CustomRole,
+  type CustomRoleBaseRole,
+  type CustomRoleDetails,
   type UpdateCustomRoleInput,
 } from "@/features/auth/schemas/custom-role.schema";
+import type { TablesInsert, TablesUpdate } from "@/types/database.types";
+import { emitWebhookEvent } from "@/features/webhooks/lib/webhook-delivery";
+import type { User } from "@supabase/supabase-js";
 
 /**
  * Table name for custom roles in Supabase
  */
-const CUSTOM_ROLES_TABLE_NAME = "custom_roles";
+const CUSTOM_ROLES_TABLE_NAME = "custom_roles" as const;
 
 /**
  * Retrieves a custom role by ID
@@ -45,6 +54,32 @@ export async function getCustomRole(
   return customRoleSchema.parse(data);
 }
 
+/**
+ * Retrieves a custom role for permission resolution
+ * Uses the service role so permissions also resolve for requests without a
+ * cookie session (personal access tokens)
+ *
+ * @param roleId - UUID of the custom role
+ * @returns Promise resolving to CustomRole or null if not found
+ * @throws Error if database query fails
+ */
+export async function getCustomRoleForResolution(
+  roleId: string
+): Promise<CustomRole | null> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(CUSTOM_ROLES_TABLE_NAME)
+    .select("*")
+    .eq("id", roleId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch custom role: ${error.message}`);
+  }
+
+  return data ? customRoleSchema.parse(data) : null;
+}
+
 /**
  * Retrieves a custom role by name
  *
@@ -92,6 +127,127 @@ export async function listCustomRoles(): Promise<CustomRole[]> {
   return data.map((role) => customRoleSchema.parse(role));
 }
 
+/**
+ * Counts how many users hold each custom role
+ * Reads the custom role mirrored into profiles.custom_role_id.
+ *
+ * @returns Promise resolving to a map of custom role ID to user count
+ * @throws Error if the profiles query fails
+ */
+export async function countUsersByCustomRole(): Promise<Map<string, number>> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from("profiles")
+    .select("custom_role_id")
+    .not("custom_role_id", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to count custom role users: ${error.message}`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const { custom_role_id: customRoleId } of data) {
+    if (customRoleId) {
+      counts.set(customRoleId, (counts.get(customRoleId) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Adds the effective permission set and user count to a custom role
+ *
+ * @param role - Custom role
+ * @param userCounts - User counts from countUsersByCustomRole
+ * @returns Custom role details as returned by the roles API
+ */
+export function toCustomRoleDetails(
+  role: CustomRole,
+  userCounts: Map<string, number>
+): CustomRoleDetails {
+  return {
+    ...role,
+    effective_permissions: resolveCustomRolePermissions(role),
+    user_count: userCounts.get(role.id) ?? 0,
+  };
+}
+
+/**
+ * Mirrors a custom role's base role into the app_metadata of every holder
+ * Keeps synchronous role hierarchy checks (hasMinRole) in step with the role.
+ * Holders are found through profiles.custom_role_id.
+ *
+ * @param roleId - Custom role ID
+ * @param baseRole - New base role
+ * @throws Error if listing or updating users fails
+ */
+async function syncCustomRoleBaseRole(
+  roleId: string,
+  baseRole: CustomRoleBaseRole
+): Promise<void> {
+  const adminClient = createAdminClient();
+  const { data: profiles, error: profilesError } = await adminClient
+    .from("profiles")
+    .select("id")
+    .eq("custom_role_id", roleId);
+
+  if (profilesError) {
+    throw new Error(
+      `Failed to list custom role users: ${profilesError.message}`
+    );
+  }
+
+  const holders: User[] = [];
+  for (const { id } of profiles) {
+    const { data, error } = await adminClient.auth.admin.getUserById(id);
+    if (error) {
+      throw new Error(`Failed to get user ${id}: ${error.message}`);
+    }
+    if (data.user.app_metadata?.custom_role_base_role !== baseRole) {
+      holders.push(data.user);
+    }
+  }
+
+  for (const holder of holders) {
+    const { error } = await adminClient.auth.admin.updateUserById(holder.id, {
+      app_metadata: {
+        ...holder.app_metadata,
+        custom_role_base_role: baseRole,
+      },
+    });
+
+    if (error) {
+      throw new Error(
+        `Failed to update base role for user ${holder.id}: ${error.message}`
+      );
+    }
+  }
+}
+
+/**
+ * Retrieves the custom role ID assigned to a user
+ *
+ * @param userId - User ID to look up
+ * @returns Promise resolving to the custom role ID, or null if none is assigned
+ * @throws Error if the user cannot be fetched
+ */
+export async function getUserCustomRoleId(
+  userId: string
+): Promise<string | null> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient.auth.admin.getUserById(userId);
+
+  if (error || !data.user) {
+    throw new Error(
+      `Failed to get user: ${error?.message ?? "User not found"}`
+    );
+  }
+
+  const customRoleId = data.user.app_metadata?.custom_role_id;
+  return typeof customRoleId === "string" ? customRoleId : null;
+}
+
 /**
  * Creates a new custom role
  * ⚠️ Requires superadmin authorization (check before calling)
@@ -108,15 +264,21 @@ export async function createCustomRole(
   // Validate input
   const validatedInput = createCustomRoleSchema.parse(input);
 
+  const insertData: TablesInsert<"custom_roles"> = {
+    name: validatedInput.name,
+    description: validatedInput.description ?? null,
+    base_role: validatedInput.base_role,
+    permissions: validatedInput.permissions,
+    revoked_permissions: validatedInput.revoked_permissions,
+    conditional_permissions: validatedInput.conditional_permissions,
+    require_mfa: validatedInput.require_mfa,
+    created_by: createdBy,
+  };
+
   const supabase = await createClient();
   const { data, error } = await supabase
     .from(CUSTOM_ROLES_TABLE_NAME)
-    .insert({
-      name: validatedInput.name,
-      description: validatedInput.description ?? null,
-      permissions: validatedInput.permissions,
-      created_by: createdBy,
-    })
+    .insert(insertData)
     .select()
     .single();
 
@@ -145,25 +307,41 @@ export async function updateCustomRole(
   input: UpdateCustomRoleInput
 ): Promise<CustomRole> {
   const supabase = await createClient();
+  const validatedInput = updateCustomRoleSchema.parse(input);
 
   // Build update object (only include provided fields)
-  const updateData: Partial<{
-    description: string | null;
-    permissions: string[];
-  }> = {};
+  const updateData: Pick<
+    TablesUpdate<"custom_roles">,
+    | "description"
+    | "base_role"
+    | "permissions"
+    | "revoked_permissions"
+    | "conditional_permissions"
+    | "require_mfa"
+  > = {};
+
+  if (validatedInput.description !== undefined) {
+    updateData.description = validatedInput.description || null;
+  }
 
-  if (input.description !== undefined) {
-    updateData.description = input.description ?? null;
+  if (validatedInput.base_role !== undefined) {
+    updateData.base_role = validatedInput.base_role;
   }
 
-  if (input.permissions !== undefined) {
-    // Validate permissions if provided
-    const validatedInput = createCustomRoleSchema.partial().parse({
-      permissions: input.permissions,
-    });
-    if (validatedInput.permissions) {
-      updateData.permissions = validatedInput.permissions;
-    }
+  if (validatedInput.permissions !== undefined) {
+    updateData.permissions = validatedInput.permissions;
+  }
+
+  if (validatedInput.revoked_permissions !== undefined) {
+    updateData.revoked_permissions = validatedInput.revoked_permissions;
+  }
+
+  if (validatedInput.conditional_permissions !== undefined) {
+    updateData.conditional_permissions = validatedInput.conditional_permissions;
+  }
+
+  if (validatedInput.require_mfa !== undefined) {
+    updateData.require_mfa = validatedInput.require_mfa;
   }
 
   const { data, error } = await supabase
@@ -180,18 +358,51 @@ export async function updateCustomRole(
     throw new Error(`Failed to update custom role: ${error.message}`);
   }
 
-  return customRoleSchema.parse(data);
+  // Later permission checks in this request must see the new permissions
+  invalidateCachedCustomRole(roleId);
+
+  const role = customRoleSchema.parse(data);
+
+  if (validatedInput.base_role !== undefined) {
+    await syncCustomRoleBaseRole(role.id, role.base_role);
+  }
+
+  return role;
 }
 
 /**
  * Deletes a custom role
+ * Holders are moved back to their system role first (app_metadata, profile
+ * and `user.role_changed` webhook, as when the role is unassigned), so no
+ * user keeps the deleted role's ID or base role.
  * ⚠️ Requires superadmin authorization (check before calling)
  *
  * @param roleId - UUID of the custom role to delete
  * @returns Promise resolving to void
- * @throws Error if deletion fails or role not found
+ * @throws Error if a holder cannot be updated or deletion fails
  */
 export async function deleteCustomRole(roleId: string): Promise<void> {
+  const adminClient = createAdminClient();
+  const { data: profiles, error: profilesError } = await adminClient
+    .from("profiles")
+    .select("id")
+    .eq("custom_role_id", roleId);
+
+  if (profilesError) {
+    throw new Error(
+      `Failed to list custom role users: ${profilesError.message}`
+    );
+  }
+
+  for (const { id } of profiles) {
+    const result = await assignCustomRoleToUser(id, null);
+    if (!result.success) {
+      throw new Error(
+        `Failed to remove custom role from user ${id}: ${result.error.message}`
+      );
+    }
+  }
+
   const supabase = await createClient();
   const { error } = await supabase
     .from(CUSTOM_ROLES_TABLE_NAME)
@@ -201,6 +412,8 @@ export async function deleteCustomRole(roleId: string): Promise<void> {
   if (error) {
     throw new Error(`Failed to delete custom role: ${error.message}`);
   }
+
+  invalidateCachedCustomRole(roleId);
 }
 
 /**
@@ -238,6 +451,7 @@ export async function assignCustomRoleToUser(
       app_metadata: Record<string, unknown> & {
         role?: string;
         custom_role_id?: string | null;
+        custom_role_base_role?: CustomRoleBaseRole | null;
       };
     } = {
       app_metadata: {
@@ -245,25 +459,41 @@ export async function assignCustomRoleToUser(
       } as Record<string, unknown> & {
         role?: string;
         custom_role_id?: string | null;
+        custom_role_base_role?: CustomRoleBaseRole | null;
       },
     };
 
+    const previousCustomRoleId =
+      typeof existingMetadata.custom_role_id === "string"
+        ? existingMetadata.custom_role_id
+        : null;
+    let customRole: CustomRole | null = null;
+
     if (customRoleId === null) {
       // Remove custom role, revert to system role
-      delete updateData.app_metadata.custom_role_id;
+      // (app_metadata updates are merged, so keys are cleared with null)
+      updateData.app_metadata.custom_role_id = null;
+      updateData.app_metadata.custom_role_base_role = null;
       // If no system role, set to default
       if (!updateData.app_metadata.role) {
         updateData.app_metadata.role = "member";
       }
     } else {
-      // Assign custom role
+      customRole = await getCustomRole(customRoleId);
+      if (!customRole) {
+        return {
+          success: false,
+          error: new Error(`Custom role with id "${customRoleId}" not found`),
+        };
+      }
+
+      // Assign custom role; the base role is mirrored for hasMinRole checks
       updateData.app_metadata.custom_role_id = customRoleId;
+      updateData.app_metadata.custom_role_base_role = customRole.base_role;
     }
 
-    const { error: updateError } = await adminClient.auth.admin.updateUserById(
-      userId,
-      updateData
-    );
+    const { data: updatedData, error: updateError } =
+      await adminClient.auth.admin.updateUserById(userId, updateData);
 
     if (updateError) {
       return {
@@ -272,6 +502,26 @@ export async function assignCustomRoleToUser(
       };
     }
 
+    await syncProfileRole(userId, {
+      role: getUserRole(updatedData.user),
+      custom_role_id: customRoleId,
+    });
+
+    if (customRoleId !== previousCustomRoleId) {
+      await emitWebhookEvent("user.role_changed", {
+        user: { id: userId, email: userData.user.email ?? null },
+        role: updateData.app_metadata.role ?? null,
+        custom_role: customRole
+          ? {
+              id: customRole.id,
+              name: customRole.name,
+              base_role: customRole.base_role,
+            }
+          : null,
+        previous_custom_role_id: previousCustomRoleId,
+      });
+    }
+
     return { success: true };
   } catch (error) {
     return {
@@ -4,21 +4,36 @@
  *
  * Provides wrapper functions for API route handlers with consistent
  * error responses and type safety.
+ *
+ * Requests are authenticated with the Supabase cookie session or a personal
+ * access token (`Authorization: Bearer <token>`). Token requests run with the
+ * token in async context, so permission checks made by the wrapper and the
+ * handler are limited to the token's scopes (see lib/auth/access-tokens).
+ * Cookie requests are also held to the MFA policy (see lib/auth/mfa).
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { getAuth, type AuthResult } from "./server";
+import {
+  authenticateAccessToken,
+  runWithAccessToken,
+} from "@/lib/auth/access-tokens";
+import { getUserRole, hasRole, hasMinRole } from "@/lib/auth/roles";
+import { getMfaRequirement } from "@/lib/auth/mfa";
+import { runWithPermissionCache } from "@/lib/auth/permission-cache";
 import {
-  requireAuth,
-  requireRole,
-  requireMinRole,
-  requirePermission,
-  requireAnyPermission,
-  requireAllPermissions,
-  type AuthResult,
-} from "./server";
+  getPermissionAccess,
+  hasPermission,
+  hasAnyPermission,
+  hasAllPermissions,
+} from "@/lib/auth/permission-checker";
 import type { UserRole } from "@/features/auth/schemas/role.schema";
-import type { Permission } from "@/lib/auth/permissions";
+import {
+  PERMISSIONS,
+  type Permission,
+  type RegisteredPermission,
+} from "@/lib/auth/permissions";
 
 /**
  * Error response schema for API routes
@@ -37,7 +52,7 @@ interface ErrorResponse {
  * @param status - HTTP status code
  * @returns NextResponse with error JSON
  */
-function createErrorResponse(
+export function createErrorResponse(
   error: string,
   message: string,
   status: number
@@ -60,6 +75,140 @@ type AuthenticatedHandler = (
   context: AuthResult
 ) => Promise<NextResponse>;
 
+/**
+ * Authorization check run before the handler
+ * Returns an error response to reject the request, or null to continue.
+ */
+type AuthorizationCheck = (
+  auth: AuthResult
+) => Promise<NextResponse | null> | NextResponse | null;
+
+/**
+ * Scheme prefix of the Authorization header for personal access tokens
+ */
+const BEARER_PREFIX = "Bearer ";
+
+/**
+ * Authenticates a request with a personal access token or the cookie session
+ * A request that sends a Bearer token is never authenticated by cookie.
+ *
+ * @param request - Incoming request
+ * @returns Promise resolving to AuthResult, or null if not authenticated
+ */
+async function authenticateRequest(
+  request: NextRequest
+): Promise<AuthResult | null> {
+  const authorization = request.headers.get("authorization");
+
+  if (authorization?.startsWith(BEARER_PREFIX)) {
+    const authenticated = await authenticateAccessToken(
+      authorization.slice(BEARER_PREFIX.length).trim()
+    );
+
+    if (!authenticated) {
+      return null;
+    }
+
+    return {
+      user: authenticated.user,
+      role: getUserRole(authenticated.user),
+      accessToken: authenticated.token,
+    };
+  }
+
+  return getAuth();
+}
+
+/**
+ * Builds a wrapped handler that authenticates, authorizes, applies the MFA
+ * policy and then runs the handler with a per-request permission cache (and
+ * inside the access token's context for token requests)
+ *
+ * @param check - Authorization check
+ * @param handler - API route handler function
+ * @returns Wrapped handler
+ */
+function createAuthenticatedHandler(
+  check: AuthorizationCheck,
+  handler: AuthenticatedHandler
+) {
+  return async (request: NextRequest): Promise<NextResponse> => {
+    let auth: AuthResult | null;
+    try {
+      auth = await authenticateRequest(request);
+    } catch {
+      auth = null;
+    }
+
+    if (!auth) {
+      return createErrorResponse(
+        "UNAUTHORIZED",
+        "Authentication required",
+        401
+      );
+    }
+
+    const authorizeAndHandle = async (): Promise<NextResponse> => {
+      const denied = (await check(auth)) ?? (await rejectMissingMfa(auth));
+      return denied ?? (await handler(request, auth));
+    };
+
+    return runWithPermissionCache(() =>
+      auth.accessToken
+        ? runWithAccessToken(auth.accessToken, authorizeAndHandle)
+        : authorizeAndHandle()
+    );
+  };
+}
+
+/**
+ * Rejects role-protected requests made with a scoped access token
+ * Roles are not limited by scopes, so only tokens with the "*" scope
+ * can use role-protected routes.
+ *
+ * @param auth - Authenticated request context
+ * @returns Error response, or null if the request may continue
+ */
+function rejectScopedToken(auth: AuthResult): NextResponse | null {
+  if (auth.accessToken && !auth.accessToken.scopes.includes(PERMISSIONS.all)) {
+    return createErrorResponse(
+      "FORBIDDEN",
+      `Access token scope '${PERMISSIONS.all}' required`,
+      403
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Rejects cookie requests that have not satisfied the MFA policy
+ * Access tokens are issued after sign-in and are not held to the policy.
+ *
+ * @param auth - Authenticated request context
+ * @returns Promise resolving to an error response, or null if the request may continue
+ */
+async function rejectMissingMfa(
+  auth: AuthResult
+): Promise<NextResponse | null> {
+  if (auth.accessToken) {
+    return null;
+  }
+
+  const requirement = await getMfaRequirement(auth.impersonator ?? auth.user);
+  if (!requirement) {
+    return null;
+  }
+
+  return createErrorResponse(
+    "MFA_REQUIRED",
+    requirement === "enroll"
+      ? "Two-factor authentication must be set up to access this resource"
+      : "Two-factor authentication must be verified to access this resource",
+    403
+  );
+}
+
 /**
  * Wraps an API route handler to require authentication
  *
@@ -74,22 +223,7 @@ type AuthenticatedHandler = (
  * ```
  */
 export function withAuth(handler: AuthenticatedHandler) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    try {
-      const auth = await requireAuth();
-      return await handler(request, auth);
-    } catch (error) {
-      if (error instanceof Response) {
-        // Redirect was thrown, return it
-        return error as NextResponse;
-      }
-      return createErrorResponse(
-        "UNAUTHORIZED",
-        "Authentication required",
-        401
-      );
-    }
-  };
+  return createAuthenticatedHandler(() => null, handler);
 }
 
 /**
@@ -110,22 +244,18 @@ export function withRole(
   requiredRole: UserRole,
   handler: AuthenticatedHandler
 ) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    try {
-      const auth = await requireRole(requiredRole);
-      return await handler(request, auth);
-    } catch (error) {
-      if (error instanceof Response) {
-        // Redirect was thrown, return it
-        return error as NextResponse;
-      }
-      return createErrorResponse(
-        "FORBIDDEN",
-        `Role '${requiredRole}' required`,
-        403
-      );
-    }
-  };
+  return createAuthenticatedHandler(
+    (auth) =>
+      rejectScopedToken(auth) ??
+      (hasRole(auth.user, requiredRole)
+        ? null
+        : createErrorResponse(
+            "FORBIDDEN",
+            `Role '${requiredRole}' required`,
+            403
+          )),
+    handler
+  );
 }
 
 /**
@@ -143,22 +273,18 @@ export function withRole(
  * ```
  */
 export function withMinRole(minRole: UserRole, handler: AuthenticatedHandler) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    try {
-      const auth = await requireMinRole(minRole);
-      return await handler(request, auth);
-    } catch (error) {
-      if (error instanceof Response) {
-        // Redirect was thrown, return it
-        return error as NextResponse;
-      }
-      return createErrorResponse(
-        "FORBIDDEN",
-        `Minimum role '${minRole}' required`,
-        403
-      );
-    }
-  };
+  return createAuthenticatedHandler(
+    (auth) =>
+      rejectScopedToken(auth) ??
+      (hasMinRole(auth.user, minRole)
+        ? null
+        : createErrorResponse(
+            "FORBIDDEN",
+            `Minimum role '${minRole}' required`,
+            403
+          )),
+    handler
+  );
 }
 
 /**
@@ -182,21 +308,55 @@ export function withPermission(
   permission: Permission,
   handler: AuthenticatedHandler
 ) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    try {
-      const auth = await requirePermission(permission);
-      return await handler(request, auth);
-    } catch (error) {
-      if (error instanceof Response) {
-        return error as NextResponse;
-      }
-      return createErrorResponse(
-        "FORBIDDEN",
-        `Permission '${permission}' required`,
-        403
-      );
-    }
-  };
+  return createAuthenticatedHandler(
+    async (auth) =>
+      (await hasPermission(auth.user, permission))
+        ? null
+        : createErrorResponse(
+            "FORBIDDEN",
+            `Permission '${permission}' required`,
+            403
+          ),
+    handler
+  );
+}
+
+/**
+ * Wraps an API route handler to require a permission held outright or
+ * conditionally
+ * The handler must limit what it returns or changes to resources the user
+ * may access, with `can` or `getPermissionFilter`.
+ *
+ * @param permission - Registered permission required to access the route
+ * @param handler - API route handler function
+ * @returns Wrapped handler that ensures the permission is held in some form
+ *
+ * @example
+ * ```typescript
+ * export const GET = withConditionalPermission(
+ *   PERMISSIONS.users.view,
+ *   async (request, { user }) => {
+ *     const filter = await getPermissionFilter(user, PERMISSIONS.users.view);
+ *     // Apply the filter to the list query
+ *   }
+ * );
+ * ```
+ */
+export function withConditionalPermission(
+  permission: RegisteredPermission,
+  handler: AuthenticatedHandler
+) {
+  return createAuthenticatedHandler(
+    async (auth) =>
+      (await getPermissionAccess(auth.user, permission)).type !== "none"
+        ? null
+        : createErrorResponse(
+            "FORBIDDEN",
+            `Permission '${permission}' required`,
+            403
+          ),
+    handler
+  );
 }
 
 /**
@@ -210,17 +370,13 @@ export function withAnyPermission(
   permissions: Permission[],
   handler: AuthenticatedHandler
 ) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    try {
-      const auth = await requireAnyPermission(permissions);
-      return await handler(request, auth);
-    } catch (error) {
-      if (error instanceof Response) {
-        return error as NextResponse;
-      }
-      return createErrorResponse("FORBIDDEN", "Insufficient permissions", 403);
-    }
-  };
+  return createAuthenticatedHandler(
+    async (auth) =>
+      (await hasAnyPermission(auth.user, permissions))
+        ? null
+        : createErrorResponse("FORBIDDEN", "Insufficient permissions", 403),
+    handler
+  );
 }
 
 /**
@@ -234,15 +390,11 @@ export function withAllPermissions(
   permissions: Permission[],
   handler: AuthenticatedHandler
 ) {
-  return async (request: NextRequest): Promise<NextResponse> => {
-    try {
-      const auth = await requireAllPermissions(permissions);
-      return await handler(request, auth);
-    } catch (error) {
-      if (error instanceof Response) {
-        return error as NextResponse;
-      }
-      return createErrorResponse("FORBIDDEN", "Insufficient permissions", 403);
-    }
-  };
+  return createAuthenticatedHandler(
+    async (auth) =>
+      (await hasAllPermissions(auth.user, permissions))
+        ? null
+        : createErrorResponse("FORBIDDEN", "Insufficient permissions", 403),
+    handler
+  );
 }
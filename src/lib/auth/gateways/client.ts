@@ -9,13 +9,16 @@
 
 import { useEffect, useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { permissionSchema } from "@/features/auth/schemas/permission.schema";
+import {
+  impersonationStatusSchema,
+  type ImpersonationSession,
+} from "@/features/auth/schemas/impersonation.schema";
 import { createClient } from "@/utils/supabase/client";
 import { getUserRole, hasRole, hasMinRole } from "@/lib/auth/roles";
-import {
-  hasPermissionClient,
-  getUserPermissionsClient,
-} from "@/lib/auth/permission-checker-client";
-import type { Permission } from "@/lib/auth/permissions";
+import { matchesPermission, type Permission } from "@/lib/auth/permissions";
 import type { UserRole } from "@/features/auth/schemas/role.schema";
 import type { User } from "@supabase/supabase-js";
 
@@ -26,11 +29,19 @@ export interface AuthState {
   user: User | null;
   role: UserRole;
   loading: boolean;
+  /** Superadmin signed in as `user` (null unless impersonating) */
+  impersonator: User | null;
 }
 
+/**
+ * Query key for the signed-in user's impersonation session
+ */
+export const IMPERSONATION_QUERY_KEY = ["auth", "impersonation"] as const;
+
 /**
  * Hook to get current user and role
- * Does not redirect, useful for conditional rendering
+ * Does not redirect, useful for conditional rendering. While a superadmin is
+ * impersonating, resolves as the impersonated user (see /api/auth/impersonation).
  *
  * @returns AuthState with user, role, and loading status
  *
@@ -73,9 +84,36 @@ export function useAuth(): AuthState {
     };
   }, [supabase.auth]);
 
-  const role = useMemo(() => getUserRole(user), [user]);
+  // Only superadmins can impersonate, so nobody else needs to ask
+  const canImpersonate = getUserRole(user) === "superadmin";
+
+  const { data: impersonation, isLoading: impersonationLoading } =
+    useQuery<ImpersonationSession | null>({
+      queryKey: [...IMPERSONATION_QUERY_KEY, user?.id],
+      queryFn: async () => {
+        const response = await fetch("/api/auth/impersonation");
 
-  return { user, role, loading };
+        if (!response.ok) {
+          throw new Error("Failed to fetch impersonation session");
+        }
+
+        const responseData = await response.json();
+        return impersonationStatusSchema.parse(responseData).impersonation;
+      },
+      enabled: canImpersonate,
+      staleTime: 60 * 1000, // 1 minute
+    });
+
+  const effectiveUser = (canImpersonate && impersonation?.target) || user;
+  const impersonator = effectiveUser !== user ? user : null;
+  const role = useMemo(() => getUserRole(effectiveUser), [effectiveUser]);
+
+  return {
+    user: effectiveUser,
+    role,
+    loading: loading || (canImpersonate && impersonationLoading),
+    impersonator,
+  };
 }
 
 /**
@@ -240,29 +278,26 @@ export function useHasMinRole(minRole: UserRole): boolean {
  * ```
  */
 export function useHasPermission(permission: Permission): boolean {
-  const { user } = useAuth();
-  const [hasAccess, setHasAccess] = useState(false);
-  const [, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!user) {
-      setHasAccess(false);
-      setLoading(false);
-      return;
-    }
+  const permissions = usePermissions();
 
-    // Use client-safe permission check (synchronous, only checks system roles)
-    const result = hasPermissionClient(user, permission);
-    setHasAccess(result);
-    setLoading(false);
-  }, [user, permission]);
-
-  return hasAccess;
+  return useMemo(
+    () =>
+      permissions.some((userPerm) => matchesPermission(userPerm, permission)),
+    [permissions, permission]
+  );
 }
 
+/**
+ * Response schema for GET /api/auth/permissions
+ */
+const permissionsResponseSchema = z.object({
+  permissions: z.array(permissionSchema),
+});
+
 /**
  * Hook that returns all user permissions
- * Useful for complex permission checks
+ * Permissions are resolved on the server (system role, custom role) via
+ * /api/auth/permissions and shared between components through the query cache.
  *
  * @returns Array of permissions the user has, or empty array if loading/not authenticated
  *
@@ -277,21 +312,22 @@ export function useHasPermission(permission: Permission): boolean {
  */
 export function usePermissions(): Permission[] {
   const { user } = useAuth();
-  const [permissions, setPermissions] = useState<Permission[]>([]);
-  const [, setLoading] = useState(true);
 
-  useEffect(() => {
-    if (!user) {
-      setPermissions([]);
-      setLoading(false);
-      return;
-    }
+  const { data } = useQuery<Permission[]>({
+    queryKey: ["auth", "permissions", user?.id],
+    queryFn: async () => {
+      const response = await fetch("/api/auth/permissions");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch permissions");
+      }
 
-    // Use client-safe permission check (synchronous, only checks system roles)
-    const perms = getUserPermissionsClient(user);
-    setPermissions(perms);
-    setLoading(false);
-  }, [user]);
+      const responseData = await response.json();
+      return permissionsResponseSchema.parse(responseData).permissions;
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000, // 1 minute
+  });
 
-  return permissions;
+  return useMemo(() => (user && data ? data : []), [user, data]);
 }
@@ -9,6 +9,14 @@
 import { redirect } from "next/navigation";
 import { createClient } from "@/utils/supabase/server";
 import { getUserRole, hasRole, hasMinRole } from "@/lib/auth/roles";
+import { getActiveImpersonation } from "@/lib/auth/impersonation";
+import {
+  ACCOUNT_DEACTIVATED_PATH,
+  getAccountStatus,
+} from "@/lib/auth/account-status";
+import { getMfaRequirement } from "@/lib/auth/mfa";
+import { MFA_PATH } from "@/lib/auth/mfa-policy";
+import type { AccessTokenContext } from "@/lib/auth/access-tokens";
 import {
   hasPermission,
   hasAnyPermission,
@@ -24,14 +32,78 @@ import type { User } from "@supabase/supabase-js";
 export interface AuthResult {
   user: User;
   role: UserRole;
+  /** Superadmin signed in as `user` (only set while impersonating) */
+  impersonator?: User;
+  /** Personal access token that authenticated the request (API routes only) */
+  accessToken?: AccessTokenContext;
+}
+
+/**
+ * Gets the user signed in through Supabase Auth, ignoring impersonation
+ *
+ * @returns Promise resolving to the session user, or null if not authenticated
+ */
+async function getSessionUser(): Promise<User | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
+
+/**
+ * Resolves the effective user for a session user
+ * While a superadmin is impersonating, the target user is returned with the
+ * superadmin as `impersonator`.
+ *
+ * @param sessionUser - User signed in through Supabase Auth
+ * @returns Promise resolving to AuthResult for the effective user
+ */
+async function resolveAuth(sessionUser: User): Promise<AuthResult> {
+  const impersonation = await getActiveImpersonation(sessionUser);
+
+  if (impersonation) {
+    return {
+      user: impersonation.target,
+      role: getUserRole(impersonation.target),
+      impersonator: sessionUser,
+    };
+  }
+
+  return { user: sessionUser, role: getUserRole(sessionUser) };
+}
+
+/**
+ * Sends users covered by the MFA policy to enroll or verify a factor
+ * The policy applies to the user signed in to the session, so it is checked
+ * for the superadmin while they impersonate someone.
+ *
+ * @param auth - Authenticated user
+ * @throws Redirects to /auth/mfa if the session has not reached AAL2
+ */
+async function enforceMfaPolicy(auth: AuthResult): Promise<void> {
+  if (await getMfaRequirement(auth.impersonator ?? auth.user)) {
+    redirect(MFA_PATH);
+  }
 }
 
 /**
  * Ensures user is authenticated
- * Throws redirect if user is not authenticated
+ * Throws redirect if user is not authenticated, has no profile (sign-up not
+ * completed) or their account is deactivated (soft-deleted), and sends users
+ * covered by the MFA policy to verify a second factor first. While a
+ * superadmin is impersonating, resolves as the impersonated user.
  *
  * @returns Promise resolving to AuthResult with user and role
- * @throws Redirects to /auth/sign-in if not authenticated
+ * @throws Redirects to /auth/sign-in if not authenticated or without a profile
+ * @throws Redirects to /account-deactivated if the profile is soft-deleted
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
@@ -40,26 +112,35 @@ export interface AuthResult {
  * ```
  */
 export async function requireAuth(): Promise<AuthResult> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-    error,
-  } = await supabase.auth.getUser();
+  const user = await getSessionUser();
 
-  if (error || !user) {
+  if (!user) {
     redirect("/auth/sign-in");
   }
 
-  const role = getUserRole(user);
+  const status = await getAccountStatus(user.id);
+
+  if (status === "missing") {
+    redirect("/auth/sign-in?error=signup_error");
+  }
+
+  if (status === "deactivated") {
+    redirect(ACCOUNT_DEACTIVATED_PATH);
+  }
+
+  const auth = await resolveAuth(user);
+  await enforceMfaPolicy(auth);
 
-  return { user, role };
+  return auth;
 }
 
 /**
  * Safely gets current user and role without throwing
- * Useful when you want to handle unauthenticated state gracefully
+ * Useful when you want to handle unauthenticated state gracefully.
+ * While a superadmin is impersonating, resolves as the impersonated user.
  *
- * @returns Promise resolving to AuthResult or null if not authenticated
+ * @returns Promise resolving to AuthResult, or null if not authenticated,
+ * without a profile or the account is deactivated
  *
  * @example
  * ```typescript
@@ -70,29 +151,51 @@ export async function requireAuth(): Promise<AuthResult> {
  * ```
  */
 export async function getAuth(): Promise<AuthResult | null> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-    error,
-  } = await supabase.auth.getUser();
+  const user = await getSessionUser();
 
-  if (error || !user) {
+  if (!user || (await getAccountStatus(user.id)) !== "active") {
     return null;
   }
 
-  const role = getUserRole(user);
+  return resolveAuth(user);
+}
+
+/**
+ * Gets the user signed in through Supabase Auth without resolving impersonation
+ * Only for code that must act as the real user, such as starting or stopping
+ * an impersonation session
+ *
+ * @returns Promise resolving to AuthResult, or null if not authenticated,
+ * without a profile or the account is deactivated
+ *
+ * @example
+ * ```typescript
+ * const sessionAuth = await getSessionAuth();
+ * if (sessionAuth?.role === "superadmin") {
+ *   await stopImpersonation(sessionAuth.user);
+ * }
+ * ```
+ */
+export async function getSessionAuth(): Promise<AuthResult | null> {
+  const user = await getSessionUser();
+
+  if (!user || (await getAccountStatus(user.id)) !== "active") {
+    return null;
+  }
 
-  return { user, role };
+  return { user, role: getUserRole(user) };
 }
 
 /**
  * Ensures user has a specific role
- * Throws redirect if user is not authenticated or doesn't have the role
+ * Throws redirect if user is not authenticated or doesn't have the role, and
+ * sends users covered by the MFA policy to verify a second factor first
  *
  * @param requiredRole - Role required to access the resource
  * @returns Promise resolving to AuthResult with user and role
  * @throws Redirects to /auth/sign-in if not authenticated
  * @throws Redirects to /admin if role insufficient (or appropriate error page)
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
@@ -113,12 +216,14 @@ export async function requireRole(requiredRole: UserRole): Promise<AuthResult> {
 
 /**
  * Ensures user has one of the specified roles
- * Throws redirect if user is not authenticated or doesn't have any of the roles
+ * Throws redirect if user is not authenticated or doesn't have any of the roles,
+ * and sends users covered by the MFA policy to verify a second factor first
  *
  * @param allowedRoles - Array of roles that can access the resource
  * @returns Promise resolving to AuthResult with user and role
  * @throws Redirects to /auth/sign-in if not authenticated
  * @throws Redirects to /admin if role insufficient
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
@@ -142,12 +247,14 @@ export async function requireAnyRole(
 
 /**
  * Ensures user has minimum role level
- * Throws redirect if user is not authenticated or doesn't meet minimum role
+ * Throws redirect if user is not authenticated or doesn't meet minimum role,
+ * and sends users covered by the MFA policy to verify a second factor first
  *
  * @param minRole - Minimum role required (hierarchy: member < admin < superadmin)
  * @returns Promise resolving to AuthResult with user and role
  * @throws Redirects to /auth/sign-in if not authenticated
  * @throws Redirects to /admin if role insufficient
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
@@ -173,6 +280,7 @@ export async function requireMinRole(minRole: UserRole): Promise<AuthResult> {
  * @returns Promise resolving to AuthResult with user and role
  * @throws Redirects to /auth/sign-in if not authenticated
  * @throws Redirects to /admin if permission insufficient
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
@@ -201,6 +309,7 @@ export async function requirePermission(
  * @returns Promise resolving to AuthResult with user and role
  * @throws Redirects to /auth/sign-in if not authenticated
  * @throws Redirects to /admin if permissions insufficient
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
@@ -232,6 +341,7 @@ export async function requireAnyPermission(
  * @returns Promise resolving to AuthResult with user and role
  * @throws Redirects to /auth/sign-in if not authenticated
  * @throws Redirects to /admin if permissions insufficient
+ * @throws Redirects to /auth/mfa if MFA is required and not yet verified
  *
  * @example
  * ```typescript
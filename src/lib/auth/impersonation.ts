@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Superadmin impersonation ("view as user") sessions
+ * @module lib/auth/impersonation
+ *
+ * A superadmin can start a time-limited session in which the server gateways
+ * (`requireAuth`/`getAuth`) and the client `useAuth` hook resolve as another
+ * user. Sessions are stored in `public.impersonation_sessions` and referenced
+ * by an httpOnly cookie; rows are never deleted, so every start and stop is
+ * recorded with its actor and target.
+ *
+ * Sessions are read-only unless started with `allowMutations`; the middleware
+ * rejects write requests to `/api/*` for read-only sessions.
+ */
+
+import { cache } from "react";
+import { cookies } from "next/headers";
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getUserRole } from "@/lib/auth/roles";
+import { isAccountDeactivated } from "@/lib/auth/account-status";
+
+/**
+ * Cookie holding the active impersonation session ID
+ */
+export const IMPERSONATION_COOKIE = "impersonation_session";
+
+/**
+ * How long an impersonation session stays valid
+ */
+export const IMPERSONATION_DURATION_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * API path used to start and stop impersonation (never blocked as a mutation)
+ */
+export const IMPERSONATION_API_PATH = "/api/auth/impersonation";
+
+/**
+ * HTTP methods that are allowed during a read-only impersonation session
+ */
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Active impersonation session resolved for a request
+ */
+export interface ActiveImpersonation {
+  /** Session ID (stored in the impersonation cookie) */
+  id: string;
+  /** Impersonated user */
+  target: User;
+  /** Whether write requests are allowed */
+  allowMutations: boolean;
+  /** ISO timestamp when the session started */
+  startedAt: string;
+  /** ISO timestamp when the session expires */
+  expiresAt: string;
+}
+
+/**
+ * Options for starting an impersonation session
+ */
+export interface StartImpersonationOptions {
+  /** Allow write requests while impersonating (default: read-only) */
+  allowMutations: boolean;
+}
+
+/**
+ * Checks whether a request must be rejected during a read-only session
+ *
+ * @param method - HTTP method of the request
+ * @param pathname - Request path
+ * @returns true for write requests to API routes other than the impersonation API
+ */
+export function isImpersonationBlockedRequest(
+  method: string,
+  pathname: string
+): boolean {
+  return (
+    !SAFE_METHODS.has(method.toUpperCase()) &&
+    pathname.startsWith("/api/") &&
+    !pathname.startsWith(IMPERSONATION_API_PATH)
+  );
+}
+
+/**
+ * Loads the active session for an actor once per request
+ */
+const loadActiveImpersonation = cache(
+  async (
+    actorId: string,
+    sessionId: string
+  ): Promise<ActiveImpersonation | null> => {
+    const adminClient = createAdminClient();
+    const { data: session, error } = await adminClient
+      .from("impersonation_sessions")
+      .select("id, target_id, allow_mutations, started_at, expires_at")
+      .eq("id", sessionId)
+      .eq("actor_id", actorId)
+      .is("ended_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch impersonation session: ${error.message}`
+      );
+    }
+
+    // The target's ID is cleared when the user is deleted
+    if (!session?.target_id) {
+      return null;
+    }
+
+    const {
+      data: { user: target },
+      error: targetError,
+    } = await adminClient.auth.admin.getUserById(session.target_id);
+
+    // A target deactivated mid-session ends the impersonation
+    if (targetError || !target || (await isAccountDeactivated(target.id))) {
+      return null;
+    }
+
+    return {
+      id: session.id,
+      target,
+      allowMutations: session.allow_mutations,
+      startedAt: session.started_at,
+      expiresAt: session.expires_at,
+    };
+  }
+);
+
+/**
+ * Resolves the impersonation session of the signed-in user, if any
+ * Only superadmins can impersonate; a stale cookie for anyone else is ignored.
+ *
+ * @param sessionUser - User signed in through Supabase Auth (the actor)
+ * @returns Promise resolving to the active session, or null
+ *
+ * @example
+ * ```typescript
+ * const impersonation = await getActiveImpersonation(sessionUser);
+ * const user = impersonation?.target ?? sessionUser;
+ * ```
+ */
+export async function getActiveImpersonation(
+  sessionUser: User
+): Promise<ActiveImpersonation | null> {
+  const cookieStore = await cookies();
+  const sessionId = cookieStore.get(IMPERSONATION_COOKIE)?.value;
+
+  if (!sessionId || getUserRole(sessionUser) !== "superadmin") {
+    return null;
+  }
+
+  return loadActiveImpersonation(sessionUser.id, sessionId);
+}
+
+/**
+ * Ends every open session started by an actor
+ *
+ * @param actorId - Superadmin user ID
+ * @returns Promise resolving to the number of sessions ended
+ */
+async function endOpenSessions(actorId: string): Promise<number> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from("impersonation_sessions")
+    .update({ ended_at: new Date().toISOString() })
+    .eq("actor_id", actorId)
+    .is("ended_at", null)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to end impersonation session: ${error.message}`);
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * Starts impersonating a user and sets the session cookie
+ * Any session the actor already has open is ended first.
+ *
+ * @param actor - Superadmin starting the session
+ * @param targetId - ID of the user to impersonate
+ * @param options - Session options
+ * @returns Promise resolving to the new session
+ * @throws Error if the actor is not a superadmin or the target cannot be impersonated
+ *
+ * @example
+ * ```typescript
+ * const session = await startImpersonation(user, targetId, {
+ *   allowMutations: false,
+ * });
+ * ```
+ */
+export async function startImpersonation(
+  actor: User,
+  targetId: string,
+  options: StartImpersonationOptions
+): Promise<ActiveImpersonation> {
+  if (getUserRole(actor) !== "superadmin") {
+    throw new Error("Only superadmins can impersonate users");
+  }
+
+  if (actor.id === targetId) {
+    throw new Error("Cannot impersonate yourself");
+  }
+
+  const adminClient = createAdminClient();
+
+  const {
+    data: { user: target },
+    error: targetError,
+  } = await adminClient.auth.admin.getUserById(targetId);
+
+  if (targetError || !target) {
+    throw new Error("User not found");
+  }
+
+  if (getUserRole(target) === "superadmin") {
+    throw new Error("Cannot impersonate another superadmin");
+  }
+
+  const { data: profile } = await adminClient
+    .from("profiles")
+    .select("deleted_at")
+    .eq("id", targetId)
+    .maybeSingle();
+
+  if (profile?.deleted_at) {
+    throw new Error("Cannot impersonate a deleted user");
+  }
+
+  await endOpenSessions(actor.id);
+
+  const expiresAt = new Date(Date.now() + IMPERSONATION_DURATION_MS);
+  const { data: session, error } = await adminClient
+    .from("impersonation_sessions")
+    .insert({
+      actor_id: actor.id,
+      target_id: targetId,
+      // Kept in the audit log after either user is deleted
+      actor_email: actor.email ?? null,
+      target_email: target.email ?? null,
+      allow_mutations: options.allowMutations,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select("id, allow_mutations, started_at, expires_at")
+    .single();
+
+  if (error || !session) {
+    throw new Error(
+      `Failed to start impersonation session: ${error?.message ?? "unknown error"}`
+    );
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(IMPERSONATION_COOKIE, session.id, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+
+  return {
+    id: session.id,
+    target,
+    allowMutations: session.allow_mutations,
+    startedAt: session.started_at,
+    expiresAt: session.expires_at,
+  };
+}
+
+/**
+ * Stops impersonating and clears the session cookie
+ *
+ * @param actor - Superadmin who started the session
+ * @returns Promise resolving to true if an open session was ended
+ *
+ * @example
+ * ```typescript
+ * await stopImpersonation(sessionUser);
+ * ```
+ */
+export async function stopImpersonation(actor: User): Promise<boolean> {
+  const ended = await endOpenSessions(actor.id);
+
+  const cookieStore = await cookies();
+  cookieStore.delete(IMPERSONATION_COOKIE);
+
+  return ended > 0;
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview MFA policy shared by server code and middleware
+ * @module lib/auth/mfa-policy
+ *
+ * Contains no data access so it can run anywhere, including the Edge runtime.
+ * Factor enrollment, assurance levels and recovery codes live in lib/auth/mfa.
+ */
+
+import type { User } from "@supabase/supabase-js";
+import { getBaseRole } from "@/lib/auth/roles";
+import type { UserRole } from "@/features/auth/schemas/role.schema";
+
+/**
+ * Path of the page where users enroll or verify a factor
+ */
+export const MFA_PATH = "/auth/mfa";
+
+/**
+ * Base roles that always require MFA
+ */
+export const MFA_REQUIRED_ROLES: readonly UserRole[] = ["admin", "superadmin"];
+
+/**
+ * Checks whether a user's base role requires MFA
+ * Holders of other custom roles are covered when the role sets `require_mfa`.
+ *
+ * @param user - Supabase user object
+ * @returns true if the base role is in MFA_REQUIRED_ROLES
+ */
+export function hasMfaRequiredRole(user: User): boolean {
+  return MFA_REQUIRED_ROLES.includes(getBaseRole(user));
+}
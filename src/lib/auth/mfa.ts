@@ -0,0 +1,306 @@
+/**
+ * @fileoverview TOTP multi-factor authentication policy and recovery codes
+ * @module lib/auth/mfa
+ *
+ * Factors are enrolled and verified with Supabase Auth MFA; a session that
+ * has been verified with a TOTP code is at assurance level `aal2`. Admins,
+ * superadmins and holders of custom roles with `require_mfa` must reach
+ * `aal2` before the auth gateways (`requireAuth`, `withAuth`, ...) and the
+ * middleware let them into the admin area (see lib/auth/mfa-policy).
+ *
+ * Recovery codes are single-use and stored as SHA-256 hashes in
+ * `public.mfa_recovery_codes`. Redeeming one removes the user's factors so
+ * they can enroll a new authenticator.
+ */
+
+import { cache } from "react";
+import { createHash, randomBytes } from "node:crypto";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { hasMfaRequiredRole } from "@/lib/auth/mfa-policy";
+import type {
+  AssuranceLevel,
+  MfaRequirement,
+} from "@/features/auth/schemas/mfa.schema";
+
+/**
+ * Number of recovery codes generated at a time
+ */
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Table name for recovery codes in Supabase
+ */
+const RECOVERY_CODES_TABLE_NAME = "mfa_recovery_codes" as const;
+
+/**
+ * Assurance levels of the current cookie session
+ */
+export interface AssuranceLevels {
+  /** Level the session has reached */
+  currentLevel: AssuranceLevel | null;
+  /** Level the session can reach (aal2 once a factor is verified) */
+  nextLevel: AssuranceLevel | null;
+}
+
+/**
+ * Checks whether a custom role requires MFA, once per request
+ *
+ * @param roleId - Custom role ID
+ * @returns Promise resolving to the role's `require_mfa` flag (false if not found)
+ * @throws Error if database query fails
+ */
+const customRoleRequiresMfa = cache(
+  async (roleId: string): Promise<boolean> => {
+    const adminClient = createAdminClient();
+    const { data, error } = await adminClient
+      .from("custom_roles")
+      .select("require_mfa")
+      .eq("id", roleId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch custom role: ${error.message}`);
+    }
+
+    return Boolean(data?.require_mfa);
+  }
+);
+
+/**
+ * Checks whether the MFA policy applies to a user
+ *
+ * @param user - Supabase user object
+ * @returns Promise resolving to true if the user must use MFA
+ * @throws Error if the custom role cannot be loaded
+ */
+export async function isMfaRequired(user: User): Promise<boolean> {
+  if (hasMfaRequiredRole(user)) {
+    return true;
+  }
+
+  const customRoleId = user.app_metadata?.custom_role_id;
+  if (typeof customRoleId !== "string") {
+    return false;
+  }
+
+  return customRoleRequiresMfa(customRoleId);
+}
+
+/**
+ * Gets the assurance levels of the current cookie session
+ *
+ * @returns Promise resolving to the current and next assurance levels
+ * @throws Error if the levels cannot be read
+ */
+export async function getAssuranceLevels(): Promise<AssuranceLevels> {
+  const supabase = await createClient();
+  const { data, error } =
+    await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (error) {
+    throw new Error(`Failed to read assurance level: ${error.message}`);
+  }
+
+  return {
+    currentLevel: data.currentLevel,
+    nextLevel: data.nextLevel,
+  };
+}
+
+/**
+ * Works out what a user still has to do to satisfy the MFA policy
+ * Must be called for the user signed in with the current cookie session.
+ *
+ * @param user - Session user
+ * @returns Promise resolving to "enroll", "verify", or null if satisfied
+ *
+ * @example
+ * ```typescript
+ * const requirement = await getMfaRequirement(user);
+ * if (requirement) redirect(MFA_PATH);
+ * ```
+ */
+export async function getMfaRequirement(
+  user: User
+): Promise<MfaRequirement | null> {
+  if (!(await isMfaRequired(user))) {
+    return null;
+  }
+
+  const { currentLevel, nextLevel } = await getAssuranceLevels();
+
+  if (currentLevel === "aal2") {
+    return null;
+  }
+
+  return nextLevel === "aal2" ? "verify" : "enroll";
+}
+
+/**
+ * Normalizes a recovery code for hashing (case and separators ignored)
+ *
+ * @param code - Recovery code as entered
+ * @returns Normalized code
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Hashes a recovery code for storage and lookup
+ *
+ * @param code - Recovery code
+ * @returns SHA-256 hash as hex
+ */
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * Creates a random recovery code
+ *
+ * @returns Recovery code (e.g. "4f9c2-a71be")
+ */
+function createRecoveryCode(): string {
+  const value = randomBytes(5).toString("hex");
+  return `${value.slice(0, 5)}-${value.slice(5)}`;
+}
+
+/**
+ * Replaces a user's recovery codes with a new set
+ * The plain codes are only returned here; they cannot be recovered later.
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the new plain codes
+ * @throws Error if database operation fails
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, createRecoveryCode);
+
+  await deleteRecoveryCodes(userId);
+
+  const adminClient = createAdminClient();
+  const { error } = await adminClient.from(RECOVERY_CODES_TABLE_NAME).insert(
+    codes.map((code) => ({
+      user_id: userId,
+      code_hash: hashRecoveryCode(code),
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to store recovery codes: ${error.message}`);
+  }
+
+  return codes;
+}
+
+/**
+ * Counts a user's unused recovery codes
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the number of unused codes
+ * @throws Error if database query fails
+ */
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const adminClient = createAdminClient();
+  const { count, error } = await adminClient
+    .from(RECOVERY_CODES_TABLE_NAME)
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("used_at", null);
+
+  if (error) {
+    throw new Error(`Failed to count recovery codes: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Deletes all of a user's recovery codes
+ *
+ * @param userId - User ID
+ * @returns Promise resolving when the codes are deleted
+ * @throws Error if database delete fails
+ */
+async function deleteRecoveryCodes(userId: string): Promise<void> {
+  const adminClient = createAdminClient();
+  const { error } = await adminClient
+    .from(RECOVERY_CODES_TABLE_NAME)
+    .delete()
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to delete recovery codes: ${error.message}`);
+  }
+}
+
+/**
+ * Removes every MFA factor of a user along with their recovery codes
+ * Used when an admin resets a user's MFA and after a recovery code is
+ * redeemed. The user has to enroll again before passing the MFA policy.
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the number of factors removed
+ * @throws Error if the factors cannot be listed or deleted
+ */
+export async function resetMfaFactors(userId: string): Promise<number> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient.auth.admin.mfa.listFactors({
+    userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to list MFA factors: ${error.message}`);
+  }
+
+  for (const factor of data.factors) {
+    const { error: deleteError } =
+      await adminClient.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+
+    if (deleteError) {
+      throw new Error(`Failed to delete MFA factor: ${deleteError.message}`);
+    }
+  }
+
+  await deleteRecoveryCodes(userId);
+
+  return data.factors.length;
+}
+
+/**
+ * Redeems a recovery code
+ * Marks the code used and removes the user's factors and remaining codes,
+ * so the user can enroll a new authenticator.
+ *
+ * @param userId - User ID
+ * @param code - Recovery code as entered
+ * @returns Promise resolving when the code is redeemed
+ * @throws Error if the code is invalid or already used, or the reset fails
+ */
+export async function redeemRecoveryCode(
+  userId: string,
+  code: string
+): Promise<void> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(RECOVERY_CODES_TABLE_NAME)
+    .update({ used_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("code_hash", hashRecoveryCode(code))
+    .is("used_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to redeem recovery code: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error("Invalid recovery code");
+  }
+
+  await resetMfaFactors(userId);
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Lockout after repeated one-time code failures
+ * @module lib/auth/otp-lockout
+ *
+ * Wrong sign-in and re-authentication codes are counted per email address
+ * with the `otpFailures` rate limit rule. Once the limit is reached the
+ * address is locked out until the window ends, whatever code is entered;
+ * a successful verification clears the count.
+ */
+
+import {
+  RATE_LIMITS,
+  consumeRateLimit,
+  formatRetryAfter,
+  peekRateLimit,
+  resetRateLimit,
+} from "@/lib/rate-limit/rate-limiter";
+import type { RateLimitResult } from "@/lib/rate-limit/rate-limiter";
+
+/**
+ * Builds the lockout subject of an email address
+ *
+ * @param email - Email address
+ * @returns Rate limit subject
+ */
+function getLockoutSubject(email: string): string {
+  return `email:${email.trim().toLowerCase()}`;
+}
+
+/**
+ * Checks whether an email address is locked out
+ *
+ * @param email - Email address
+ * @returns Promise resolving to the rate limit result (`allowed` is false
+ * while the address is locked out)
+ */
+export async function getOtpLockout(email: string): Promise<RateLimitResult> {
+  return peekRateLimit(RATE_LIMITS.otpFailures, getLockoutSubject(email));
+}
+
+/**
+ * Counts a failed code for an email address
+ *
+ * @param email - Email address
+ * @returns Promise resolving to the rate limit result (`allowed` is false
+ * once this failure locks the address out)
+ */
+export async function recordOtpFailure(
+  email: string
+): Promise<RateLimitResult> {
+  const result = await consumeRateLimit(
+    RATE_LIMITS.otpFailures,
+    getLockoutSubject(email)
+  );
+  return { ...result, allowed: result.remaining > 0 };
+}
+
+/**
+ * Clears the failed codes of an email address after a successful verification
+ *
+ * @param email - Email address
+ * @returns Promise resolving when the count is cleared
+ */
+export async function clearOtpFailures(email: string): Promise<void> {
+  await resetRateLimit(RATE_LIMITS.otpFailures, getLockoutSubject(email));
+}
+
+/**
+ * Message shown while an email address is locked out
+ *
+ * @param result - Lockout result
+ * @returns User-facing message
+ */
+export function getOtpLockoutMessage(result: RateLimitResult): string {
+  return `Too many incorrect codes. Try again in ${formatRetryAfter(result.retryAfterSeconds)}.`;
+}
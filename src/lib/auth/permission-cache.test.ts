@@ -0,0 +1,61 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  getCachedCustomRole,
+  invalidateCachedCustomRole,
+  runWithPermissionCache,
+} from "./permission-cache";
+import type { ResolvableCustomRole } from "./permission-resolver";
+
+const role: ResolvableCustomRole = {
+  base_role: "member",
+  permissions: ["users.view"],
+  revoked_permissions: [],
+};
+
+describe("getCachedCustomRole", () => {
+  it("loads a role once per request", async () => {
+    const load = vi.fn(async () => role);
+
+    await runWithPermissionCache(async () => {
+      await getCachedCustomRole("role-1", load);
+      await getCachedCustomRole("role-1", load);
+    });
+
+    expect(load).toHaveBeenCalledOnce();
+  });
+
+  it("does not share loads between requests", async () => {
+    const load = vi.fn(async () => role);
+
+    await runWithPermissionCache(() => getCachedCustomRole("role-1", load));
+    await runWithPermissionCache(() => getCachedCustomRole("role-1", load));
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("reloads a role after it is invalidated", async () => {
+    const load = vi.fn(async () => role);
+
+    await runWithPermissionCache(async () => {
+      await getCachedCustomRole("role-1", load);
+      invalidateCachedCustomRole("role-1");
+      await getCachedCustomRole("role-1", load);
+    });
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a failed load", async () => {
+    const load = vi
+      .fn<(roleId: string) => Promise<ResolvableCustomRole | null>>()
+      .mockRejectedValueOnce(new Error("Failed to fetch custom role"))
+      .mockResolvedValue(role);
+
+    await runWithPermissionCache(async () => {
+      await expect(getCachedCustomRole("role-1", load)).rejects.toThrow();
+      await expect(getCachedCustomRole("role-1", load)).resolves.toBe(role);
+    });
+  });
+});
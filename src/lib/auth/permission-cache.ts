@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Request-scoped cache for permission resolution
+ * @module lib/auth/permission-cache
+ *
+ * A single request often checks several permissions, and each check
+ * resolves the user's permissions. Custom roles are loaded from the database,
+ * so loads are memoized for the lifetime of the current request. API route
+ * handlers run inside `runWithPermissionCache` (see lib/auth/gateways/api),
+ * which keeps the cache in async context; Server Component renders fall back
+ * to React `cache`. Nothing is shared between requests.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { cache } from "react";
+import type { ResolvableCustomRole } from "@/lib/auth/permission-resolver";
+
+/**
+ * Custom role loads keyed by role ID
+ * Pending promises are stored so concurrent checks share one query.
+ */
+type CustomRoleCache = Map<string, Promise<ResolvableCustomRole | null>>;
+
+/**
+ * Async context holding the cache of the request being handled
+ */
+const permissionCacheStorage = new AsyncLocalStorage<CustomRoleCache>();
+
+/**
+ * Returns the custom role loads for the current render
+ * Outside a render (and outside `runWithPermissionCache`) each call returns
+ * a new map, so nothing is memoized.
+ */
+const getRenderCustomRoles = cache((): CustomRoleCache => new Map());
+
+/**
+ * Runs a function with a new permission cache for the current request
+ *
+ * @param fn - Function to run (including the permission checks and handler)
+ * @returns Result of `fn`
+ */
+export function runWithPermissionCache<T>(fn: () => T): T {
+  return permissionCacheStorage.run(new Map(), fn);
+}
+
+/**
+ * Returns the custom role loads for the current request
+ *
+ * @returns Cache from async context, or the render cache
+ */
+function getRequestCustomRoles(): CustomRoleCache {
+  return permissionCacheStorage.getStore() ?? getRenderCustomRoles();
+}
+
+/**
+ * Loads a custom role at most once per request
+ *
+ * @param roleId - Custom role ID
+ * @param load - Loader used on a cache miss
+ * @returns Promise resolving to the custom role, or null if not found
+ */
+export function getCachedCustomRole(
+  roleId: string,
+  load: (roleId: string) => Promise<ResolvableCustomRole | null>
+): Promise<ResolvableCustomRole | null> {
+  const rolesById = getRequestCustomRoles();
+  const cached = rolesById.get(roleId);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = load(roleId);
+  rolesById.set(roleId, pending);
+  // Don't keep failed loads around; the next check retries
+  pending.catch(() => rolesById.delete(roleId));
+  return pending;
+}
+
+/**
+ * Drops a custom role from the current request's cache
+ * Called after a role is edited or deleted so later checks in the same
+ * request see the new permissions.
+ *
+ * @param roleId - Custom role ID
+ */
+export function invalidateCachedCustomRole(roleId: string): void {
+  getRequestCustomRoles().delete(roleId);
+}
@@ -4,18 +4,64 @@
  */
 
 import type { User } from "@supabase/supabase-js";
-import { getUserRole } from "@/lib/auth/roles";
-import { getCustomRole } from "@/lib/auth/custom-roles";
+import { getCustomRoleForResolution } from "@/lib/auth/custom-roles";
+import { getCurrentAccessToken } from "@/lib/auth/access-tokens";
+import { getCachedCustomRole } from "@/lib/auth/permission-cache";
 import {
-  ROLE_PERMISSIONS,
-  PERMISSIONS,
+  getCustomRoleIdToResolve,
+  intersectPermissions,
+  resolveConditionalPermissions,
+  resolveUserPermissions,
+  type ResolvableCustomRole,
+} from "@/lib/auth/permission-resolver";
+import {
+  compilePermissionConditions,
+  matchesPermissionConditions,
+  type PermissionConditionContext,
+  type PermissionFilter,
+  type PermissionResource,
+} from "@/lib/auth/permission-conditions";
+import { getUserCompanyId } from "@/lib/auth/company-scope";
+import {
+  getPermissionCategory,
   matchesPermission,
   type Permission,
+  type RegisteredPermission,
 } from "@/lib/auth/permissions";
+import type { PermissionCondition } from "@/features/auth/schemas/permission.schema";
+
+/**
+ * How a user holds a permission
+ * - full: on every resource
+ * - conditional: only on resources meeting all conditions of one grant
+ * - none: not at all
+ */
+export type PermissionAccess =
+  | { type: "full" }
+  | { type: "conditional"; grants: PermissionCondition[][] }
+  | { type: "none" };
+
+/**
+ * Loads the custom role a user's permissions depend on
+ *
+ * @param user - Supabase user object
+ * @returns Promise resolving to the custom role, or null if none/not found
+ */
+async function getResolvableCustomRole(
+  user: User | null
+): Promise<ResolvableCustomRole | null> {
+  const customRoleId = getCustomRoleIdToResolve(user);
+  return customRoleId
+    ? getCachedCustomRole(customRoleId, getCustomRoleForResolution)
+    : null;
+}
 
 /**
  * Gets all permissions for a user
- * Resolves system role permissions or custom role permissions
+ * Resolves system role permissions or custom role permissions.
+ * Custom roles are loaded once per request (see permission-cache). When the
+ * request was authenticated with the user's personal access token, the
+ * result is limited to the token's scopes.
  *
  * @param user - Supabase user object
  * @returns Promise resolving to array of permissions
@@ -23,29 +69,15 @@ import {
 export async function getUserPermissions(
   user: User | null
 ): Promise<Permission[]> {
-  if (!user) {
-    return [];
-  }
-
-  // Superadmin always has all permissions
-  const systemRole = getUserRole(user);
-  if (systemRole === "superadmin") {
-    return [PERMISSIONS.all];
-  }
+  // If custom role not found, resolution falls back to system role
+  const customRole = await getResolvableCustomRole(user);
 
-  // Check for custom role
-  const customRoleId = user.app_metadata?.custom_role_id;
-  if (customRoleId) {
-    const customRole = await getCustomRole(customRoleId);
-    if (customRole) {
-      // Custom role permissions override system role permissions
-      return customRole.permissions as Permission[];
-    }
-    // If custom role not found, fall back to system role
-  }
+  const permissions = resolveUserPermissions(user, customRole);
 
-  // Return system role default permissions
-  return [...ROLE_PERMISSIONS[systemRole]];
+  const accessToken = getCurrentAccessToken();
+  return accessToken && user && accessToken.userId === user.id
+    ? intersectPermissions(permissions, accessToken.scopes)
+    : permissions;
 }
 
 /**
@@ -123,3 +155,122 @@ export async function hasAllPermissions(
     )
   );
 }
+
+/**
+ * Resolves how a user holds a permission
+ * Outright grants win over conditional ones. A personal access token must
+ * include the permission in its scopes for conditional grants to apply.
+ *
+ * @param user - Supabase user object
+ * @param permission - Registered permission to check
+ * @returns Promise resolving to the user's access
+ */
+export async function getPermissionAccess(
+  user: User | null,
+  permission: RegisteredPermission
+): Promise<PermissionAccess> {
+  if (!user) {
+    return { type: "none" };
+  }
+
+  if (await hasPermission(user, permission)) {
+    return { type: "full" };
+  }
+
+  const accessToken = getCurrentAccessToken();
+  if (
+    accessToken &&
+    accessToken.userId === user.id &&
+    !accessToken.scopes.some((scope) => matchesPermission(scope, permission))
+  ) {
+    return { type: "none" };
+  }
+
+  const grants = resolveConditionalPermissions(
+    user,
+    await getResolvableCustomRole(user)
+  )
+    .filter((grant) => grant.permission === permission)
+    .map((grant) => grant.conditions);
+
+  return grants.length > 0 ? { type: "conditional", grants } : { type: "none" };
+}
+
+/**
+ * Loads the user attributes conditions are compared with
+ *
+ * @param user - Supabase user object
+ * @returns Promise resolving to the condition context
+ */
+async function getConditionContext(
+  user: User
+): Promise<PermissionConditionContext> {
+  return { userId: user.id, companyId: await getUserCompanyId(user.id) };
+}
+
+/**
+ * Checks if user may perform an action on a specific resource
+ * Evaluates conditional grants (own, same company, field equality) against
+ * the resource; outright grants allow any resource.
+ *
+ * @param user - Supabase user object
+ * @param action - Registered permission for the action
+ * @param resource - Resource row (at least the columns conditions read)
+ * @returns Promise resolving to true if the action is allowed
+ *
+ * @example
+ * ```typescript
+ * const target = await getUserById(userId, scope);
+ * if (!(await can(user, PERMISSIONS.users.edit, target))) {
+ *   // Forbidden
+ * }
+ * ```
+ */
+export async function can(
+  user: User | null,
+  action: RegisteredPermission,
+  resource: PermissionResource
+): Promise<boolean> {
+  const access = await getPermissionAccess(user, action);
+  if (access.type !== "conditional" || !user) {
+    return access.type === "full";
+  }
+
+  return matchesPermissionConditions(
+    access.grants,
+    getPermissionCategory(action),
+    resource,
+    await getConditionContext(user)
+  );
+}
+
+/**
+ * Builds the row filter for a permission, for list queries
+ *
+ * @param user - Supabase user object
+ * @param action - Registered permission for the action
+ * @returns Promise resolving to the rows the user may access
+ *
+ * @example
+ * ```typescript
+ * const filter = await getPermissionFilter(user, PERMISSIONS.users.view);
+ * if (filter.type === "filtered") {
+ *   queryBuilder = queryBuilder.or(filter.filter);
+ * }
+ * ```
+ */
+export async function getPermissionFilter(
+  user: User | null,
+  action: RegisteredPermission
+): Promise<PermissionFilter> {
+  const access = await getPermissionAccess(user, action);
+  if (access.type !== "conditional" || !user) {
+    return { type: access.type === "full" ? "all" : "none" };
+  }
+
+  return compilePermissionConditions(
+    access.grants,
+    getPermissionCategory(action),
+    await getConditionContext(user)
+  );
+}
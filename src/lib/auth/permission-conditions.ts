@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Evaluation of conditional permissions
+ * @module lib/auth/permission-conditions
+ *
+ * Custom roles can grant a permission only on resources that meet
+ * conditions (see `conditionalPermissionSchema`). Conditions in one grant
+ * must all hold; a permission granted several times conditionally holds if
+ * any grant does. The same rules are checked against a single resource
+ * (`can` in permission-checker) or compiled into a PostgREST filter so list
+ * queries only return rows the user may access.
+ *
+ * Contains no data access; callers supply the user's ID and company.
+ */
+
+import {
+  PERMISSION_RESOURCE_FIELDS,
+  type PermissionCategory,
+} from "@/lib/auth/permissions";
+import type { PermissionCondition } from "@/features/auth/schemas/permission.schema";
+
+/**
+ * User attributes conditions are compared with
+ */
+export interface PermissionConditionContext {
+  /** ID of the user being authorized */
+  userId: string;
+  /** User's company (null if unassigned) */
+  companyId: string | null;
+}
+
+/**
+ * Resource row (or an object with the columns of it that conditions read)
+ */
+export type PermissionResource = object;
+
+/**
+ * Rows a user may access for a permission
+ * - all: the permission is granted outright
+ * - none: the permission is not granted, or no condition can hold
+ * - filtered: only rows matching `filter`, a PostgREST `or` filter
+ */
+export type PermissionFilter =
+  | { type: "all" }
+  | { type: "none" }
+  | { type: "filtered"; filter: string };
+
+/**
+ * Returns the resource column a condition compares
+ *
+ * @param condition - Permission condition
+ * @param category - Category of the conditionally granted permission
+ * @returns Column name, or null if the category has no such column
+ */
+export function getPermissionConditionField(
+  condition: PermissionCondition,
+  category: PermissionCategory
+): string | null {
+  switch (condition.type) {
+    case "own":
+      return PERMISSION_RESOURCE_FIELDS[category].owner;
+    case "same_company":
+      return PERMISSION_RESOURCE_FIELDS[category].company;
+    case "field_equals":
+      return condition.field;
+  }
+}
+
+/**
+ * Returns the value a condition requires its column to hold
+ *
+ * @param condition - Permission condition
+ * @param context - User attributes
+ * @returns Required value, or undefined if the condition can never hold
+ * (e.g. same company for a user without a company)
+ */
+function getRequiredValue(
+  condition: PermissionCondition,
+  context: PermissionConditionContext
+): string | number | boolean | null | undefined {
+  switch (condition.type) {
+    case "own":
+      return context.userId;
+    case "same_company":
+      return context.companyId ?? undefined;
+    case "field_equals":
+      return condition.value;
+  }
+}
+
+/**
+ * Checks a resource against conditional grants of a permission
+ *
+ * @param grants - Conditions of each grant (any grant may match)
+ * @param category - Category of the permission
+ * @param resource - Resource being accessed
+ * @param context - User attributes
+ * @returns true if every condition of at least one grant holds
+ */
+export function matchesPermissionConditions(
+  grants: readonly (readonly PermissionCondition[])[],
+  category: PermissionCategory,
+  resource: PermissionResource,
+  context: PermissionConditionContext
+): boolean {
+  return grants.some((conditions) =>
+    conditions.every((condition) => {
+      const field = getPermissionConditionField(condition, category);
+      const required = getRequiredValue(condition, context);
+      return (
+        field !== null &&
+        required !== undefined &&
+        ((resource as Record<string, unknown>)[field] ?? null) === required
+      );
+    })
+  );
+}
+
+/**
+ * Formats a value for a PostgREST filter
+ * Strings are quoted so commas and parentheses cannot change the filter.
+ *
+ * @param value - Value to compare with
+ * @returns Operator and operand (e.g. `eq."abc"`, `is.null`)
+ */
+function formatFilterValue(value: string | number | boolean | null): string {
+  if (value === null || typeof value === "boolean") {
+    return `is.${value}`;
+  }
+  if (typeof value === "number") {
+    return `eq.${value}`;
+  }
+  return `eq."${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Compiles conditional grants of a permission into a row filter
+ *
+ * @param grants - Conditions of each grant (any grant may match)
+ * @param category - Category of the permission
+ * @param context - User attributes
+ * @returns Row filter for the permission's table
+ *
+ * @example
+ * ```typescript
+ * compilePermissionConditions([[{ type: "own" }]], "users", context);
+ * // { type: "filtered", filter: 'id.eq."<user id>"' }
+ * ```
+ */
+export function compilePermissionConditions(
+  grants: readonly (readonly PermissionCondition[])[],
+  category: PermissionCategory,
+  context: PermissionConditionContext
+): PermissionFilter {
+  const clauses: string[] = [];
+
+  for (const conditions of grants) {
+    const filters = conditions.map((condition) => {
+      const field = getPermissionConditionField(condition, category);
+      const required = getRequiredValue(condition, context);
+      return field === null || required === undefined
+        ? null
+        : `${field}.${formatFilterValue(required)}`;
+    });
+
+    // A grant with a condition that can never hold matches no rows
+    if (!filters.every((filter): filter is string => filter !== null)) {
+      continue;
+    }
+
+    clauses.push(
+      filters.length === 1 ? filters.join("") : `and(${filters.join(",")})`
+    );
+  }
+
+  return clauses.length > 0
+    ? { type: "filtered", filter: clauses.join(",") }
+    : { type: "none" };
+}
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Pure permission resolution shared by server code and middleware
+ * @module lib/auth/permission-resolver
+ *
+ * Contains no data access so it can run anywhere, including the Edge runtime.
+ * Callers are responsible for loading the user's custom role (if any).
+ */
+
+import type { User } from "@supabase/supabase-js";
+import { getUserRole } from "@/lib/auth/roles";
+import {
+  ALL_PERMISSIONS,
+  ROLE_PERMISSIONS,
+  PERMISSIONS,
+  isValidPermission,
+  matchesPermission,
+  type Permission,
+} from "@/lib/auth/permissions";
+import type { CustomRoleBaseRole } from "@/features/auth/schemas/custom-role.schema";
+import type { ConditionalPermission } from "@/features/auth/schemas/permission.schema";
+
+/**
+ * Minimal custom role shape needed to resolve permissions
+ */
+export interface ResolvableCustomRole {
+  /** System role whose default permissions the custom role starts from */
+  base_role: CustomRoleBaseRole;
+  /** Permissions granted in addition to the base role (unregistered values are ignored) */
+  permissions: readonly string[];
+  /** Permissions removed from the base role and added permissions */
+  revoked_permissions: readonly string[];
+  /** Permissions granted only on resources that meet conditions */
+  conditional_permissions?: readonly ConditionalPermission[];
+}
+
+/**
+ * Removes revoked permissions from a granted set
+ * Wildcards that overlap a revocation are expanded to the registered
+ * permissions they cover so the rest of the wildcard stays granted.
+ *
+ * @param granted - Granted permissions (may contain wildcards)
+ * @param revoked - Revoked permissions (may contain category wildcards)
+ * @returns Granted permissions with revocations applied
+ */
+function applyRevocations(
+  granted: Permission[],
+  revoked: Permission[]
+): Permission[] {
+  if (revoked.length === 0) {
+    return granted;
+  }
+
+  const isRevoked = (permission: Permission): boolean =>
+    revoked.some((revokedPerm) => matchesPermission(revokedPerm, permission));
+
+  const effective = new Set<Permission>();
+  for (const permission of granted) {
+    const covered = ALL_PERMISSIONS.filter((registered) =>
+      matchesPermission(permission, registered)
+    );
+
+    if (isRevoked(permission) || covered.some(isRevoked)) {
+      covered
+        .filter((registered) => !isRevoked(registered))
+        .forEach((registered) => effective.add(registered));
+    } else {
+      effective.add(permission);
+    }
+  }
+
+  return [...effective];
+}
+
+/**
+ * Computes a custom role's effective permissions
+ * (base role defaults + added permissions - revoked permissions)
+ *
+ * @param customRole - Custom role definition
+ * @returns Array of effective permissions
+ */
+export function resolveCustomRolePermissions(
+  customRole: ResolvableCustomRole
+): Permission[] {
+  const granted = [
+    ...new Set([
+      ...ROLE_PERMISSIONS[customRole.base_role],
+      ...customRole.permissions.filter(isValidPermission),
+    ]),
+  ];
+
+  return applyRevocations(
+    granted,
+    customRole.revoked_permissions.filter(isValidPermission)
+  );
+}
+
+/**
+ * Returns the custom role ID a user's permissions depend on
+ * Superadmins never need their custom role loaded
+ *
+ * @param user - Supabase user object
+ * @returns Custom role ID to load, or null if none is needed
+ */
+export function getCustomRoleIdToResolve(user: User | null): string | null {
+  if (!user || getUserRole(user) === "superadmin") {
+    return null;
+  }
+
+  const customRoleId = user.app_metadata?.custom_role_id;
+  return typeof customRoleId === "string" && customRoleId ? customRoleId : null;
+}
+
+/**
+ * Resolves a user's effective permissions from their system role and
+ * (already loaded) custom role
+ *
+ * @param user - Supabase user object
+ * @param customRole - The user's custom role, or null if none/not found
+ * @returns Array of permissions
+ */
+export function resolveUserPermissions(
+  user: User | null,
+  customRole: ResolvableCustomRole | null
+): Permission[] {
+  if (!user) {
+    return [];
+  }
+
+  // Superadmin always has all permissions
+  const systemRole = getUserRole(user);
+  if (systemRole === "superadmin") {
+    return [PERMISSIONS.all];
+  }
+
+  // Custom roles extend their base system role
+  if (getCustomRoleIdToResolve(user) && customRole) {
+    return resolveCustomRolePermissions(customRole);
+  }
+
+  // Return system role default permissions
+  return [...ROLE_PERMISSIONS[systemRole]];
+}
+
+/**
+ * Resolves the conditional permissions of a user's custom role
+ * Revocations apply to conditional permissions too. Superadmins and users
+ * without a custom role have none.
+ *
+ * @param user - Supabase user object
+ * @param customRole - The user's custom role, or null if none/not found
+ * @returns Conditional permissions that are not revoked
+ */
+export function resolveConditionalPermissions(
+  user: User | null,
+  customRole: ResolvableCustomRole | null
+): ConditionalPermission[] {
+  if (!customRole || !getCustomRoleIdToResolve(user)) {
+    return [];
+  }
+
+  const revoked = customRole.revoked_permissions.filter(isValidPermission);
+  return (customRole.conditional_permissions ?? []).filter(
+    ({ permission }) =>
+      !revoked.some((revokedPerm) => matchesPermission(revokedPerm, permission))
+  );
+}
+
+/**
+ * Intersects two permission sets that may both contain wildcards
+ * Used to limit a personal access token to the scopes it was granted
+ * without ever exceeding its owner's current permissions.
+ *
+ * @param granted - Permissions held by the owner
+ * @param scopes - Permissions the token is allowed to use
+ * @returns Permissions present in both sets (narrowest form of each overlap)
+ *
+ * @example
+ * ```typescript
+ * intersectPermissions(["users.*"], ["users.view", "companies.view"]);
+ * // ["users.view"]
+ * ```
+ */
+export function intersectPermissions(
+  granted: readonly Permission[],
+  scopes: readonly Permission[]
+): Permission[] {
+  const intersection = new Set<Permission>();
+
+  for (const grantedPerm of granted) {
+    for (const scope of scopes) {
+      if (matchesPermission(scope, grantedPerm)) {
+        intersection.add(grantedPerm);
+      } else if (matchesPermission(grantedPerm, scope)) {
+        intersection.add(scope);
+      }
+    }
+  }
+
+  return [...intersection];
+}
@@ -6,12 +6,6 @@
  * Permissions follow a dot-notation pattern: resource.action
  */
 
-/**
- * Permission string type
- * Format: resource.action or resource.subresource.action
- */
-export type Permission = string;
-
 /**
  * Permission registry - all available permissions in the system
  * Organized by resource category for clarity
@@ -27,6 +21,15 @@ export const PERMISSIONS = {
     viewAll: "users.view_all",
   },
 
+  // Company management
+  companies: {
+    view: "companies.view",
+    create: "companies.create",
+    edit: "companies.edit",
+    delete: "companies.delete",
+    restore: "companies.restore",
+  },
+
   // Interview management
   interviews: {
     view: "interviews.view",
@@ -62,21 +65,99 @@ export const PERMISSIONS = {
   all: "*",
 } as const;
 
+/**
+ * Permission resource categories (every registry key except the global wildcard)
+ */
+export type PermissionCategory = Exclude<keyof typeof PERMISSIONS, "all">;
+
+/**
+ * A registered permission (e.g. "users.view")
+ */
+export type RegisteredPermission = {
+  [C in PermissionCategory]: (typeof PERMISSIONS)[C][keyof (typeof PERMISSIONS)[C]];
+}[PermissionCategory];
+
+/**
+ * A category wildcard granting every action in a category (e.g. "users.*")
+ */
+export type CategoryWildcard = `${PermissionCategory}.*`;
+
+/**
+ * Permission string type
+ * A registered permission, a category wildcard or the global wildcard ("*")
+ */
+export type Permission =
+  | RegisteredPermission
+  | CategoryWildcard
+  | typeof PERMISSIONS.all;
+
 /**
  * Flattened array of all permissions for easy iteration
  */
-export const ALL_PERMISSIONS: readonly Permission[] = Object.values(PERMISSIONS)
+export const ALL_PERMISSIONS: readonly RegisteredPermission[] = Object.values(
+  PERMISSIONS
+)
   .flatMap((category) => {
     if (typeof category === "string") {
       return [category];
     }
     return Object.values(category);
   })
-  .filter((perm) => perm !== PERMISSIONS.all) as Permission[];
+  .filter((perm) => perm !== PERMISSIONS.all) as RegisteredPermission[];
+
+/**
+ * Ordered list of permission categories, used to group permissions in UIs
+ */
+export const PERMISSION_CATEGORIES = Object.keys(PERMISSIONS).filter(
+  (key) => key !== "all"
+) as PermissionCategory[];
+
+/**
+ * Builds the wildcard permission for a category (e.g. "users.*")
+ *
+ * @param category - Permission category
+ * @returns Wildcard permission granting every action in the category
+ */
+export function getCategoryWildcard(
+  category: PermissionCategory
+): CategoryWildcard {
+  return `${category}.*`;
+}
+
+/**
+ * Returns the category of a registered permission
+ *
+ * @param permission - Registered permission (e.g. "users.edit")
+ * @returns Permission category (e.g. "users")
+ */
+export function getPermissionCategory(
+  permission: RegisteredPermission
+): PermissionCategory {
+  return permission.split(".")[0] as PermissionCategory;
+}
+
+/**
+ * Resource columns compared by permission conditions, per category
+ * `owner` holds the ID of the user a resource belongs to and `company` the
+ * ID of its company. `null` means the category's resources have no such
+ * column, so the matching condition cannot be granted for its permissions.
+ */
+export const PERMISSION_RESOURCE_FIELDS: Record<
+  PermissionCategory,
+  { owner: string | null; company: string | null }
+> = {
+  users: { owner: "id", company: "company_id" },
+  companies: { owner: null, company: "id" },
+  interviews: { owner: "created_by", company: "company_id" },
+  roles: { owner: "created_by", company: null },
+  settings: { owner: null, company: null },
+  profiles: { owner: "id", company: "company_id" },
+};
 
 /**
  * Default permissions for system roles
- * These are the base permissions that each role gets by default
+ * These are the base permissions that each role gets by default.
+ * Mirrored by public.role_default_permissions() for RLS; keep them in sync.
  */
 export const ROLE_PERMISSIONS: Record<
   "member" | "admin" | "superadmin",
@@ -98,21 +179,34 @@ export const ROLE_PERMISSIONS: Record<
     PERMISSIONS.interviews.viewAll,
     PERMISSIONS.users.view,
     PERMISSIONS.users.viewAll,
+    PERMISSIONS.companies.view,
     PERMISSIONS.settings.view,
   ] as const,
 
   superadmin: [PERMISSIONS.all] as const,
 } as const;
 
+/**
+ * Every valid permission value: "*", category wildcards, then registered
+ * permissions. Backs the shared zod permission schema.
+ */
+export const PERMISSION_VALUES = [
+  PERMISSIONS.all,
+  ...PERMISSION_CATEGORIES.map(getCategoryWildcard),
+  ...ALL_PERMISSIONS,
+] as const satisfies readonly Permission[];
+
 /**
  * Validates if a permission string is valid
+ * Accepts registered permissions, category wildcards ("users.*") and "*"
  *
  * @param permission - Permission string to validate
  * @returns true if valid, false otherwise
  */
-export function isValidPermission(permission: Permission): boolean {
-  if (permission === PERMISSIONS.all) return true;
-  return ALL_PERMISSIONS.includes(permission);
+export function isValidPermission(
+  permission: string
+): permission is Permission {
+  return (PERMISSION_VALUES as readonly string[]).includes(permission);
 }
 
 /**
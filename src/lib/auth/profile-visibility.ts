@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Field-level visibility of profiles shown to other users
+ * @module lib/auth/profile-visibility
+ *
+ * Each field in `PROFILE_VISIBILITY_FIELDS` has a visibility level (self,
+ * admins, company, everyone). The defaults are a single row in
+ * `public.profile_visibility_policy`, edited by holders of `settings.system`.
+ * Where the policy marks a field as user-configurable, users can tighten it
+ * for their own profile (`profiles.field_visibility`); they can never make a
+ * field more visible than the policy allows.
+ *
+ * The viewer's relationship to the profile owner decides which levels they
+ * pass: the owner sees everything, admins who can view the owner (users.view
+ * within their company scope) pass "admins", members of the owner's company
+ * pass "company", and everyone else only "everyone". Full profiles in the
+ * admin user views are not affected.
+ */
+
+import type { User as AuthUser } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { hasPermission } from "@/lib/auth/permission-checker";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { getCompanyScope, getUserCompanyId } from "@/lib/auth/company-scope";
+import {
+  PROFILE_VISIBILITY_FIELDS,
+  PROFILE_VISIBILITY_FIELD_LABELS,
+  ownProfileVisibilitySchema,
+  profileVisibilityPolicySchema,
+  type OwnProfileVisibility,
+  type ProfileVisibilityField,
+  type ProfileVisibilityLevel,
+  type ProfileVisibilityPolicy,
+  type UpdateProfileVisibilityPolicyInput,
+} from "@/features/auth/schemas/profile-visibility.schema";
+import type { LimitedProfile } from "@/features/auth/types/auth.types";
+
+/**
+ * Table name for the profile visibility policy in Supabase
+ */
+const PROFILE_VISIBILITY_POLICY_TABLE_NAME =
+  "profile_visibility_policy" as const;
+
+/**
+ * Columns returned for the profile visibility policy
+ */
+const PROFILE_VISIBILITY_POLICY_COLUMNS = "fields, updated_by, updated_at";
+
+/**
+ * Policy fields used until an admin saves a policy (and for fields missing
+ * from a saved one)
+ * Email addresses and bios stay private until an admin opens them up.
+ */
+const DEFAULT_PROFILE_FIELD_POLICIES: ProfileVisibilityPolicy["fields"] = {
+  full_name: { visibility: "everyone", user_configurable: false },
+  avatar_url: { visibility: "everyone", user_configurable: true },
+  title: { visibility: "everyone", user_configurable: true },
+  email: { visibility: "self", user_configurable: true },
+  phone: { visibility: "company", user_configurable: true },
+  bio: { visibility: "self", user_configurable: true },
+};
+
+/**
+ * Viewer's relationship to a profile owner, from closest to most distant
+ */
+export type ProfileRelationship = "self" | "admin" | "company" | "other";
+
+/**
+ * Rank of each visibility level (higher is more restrictive)
+ */
+const VISIBILITY_RANK: Record<ProfileVisibilityLevel, number> = {
+  everyone: 0,
+  company: 1,
+  admins: 2,
+  self: 3,
+};
+
+/**
+ * Highest visibility level each relationship passes
+ */
+const RELATIONSHIP_RANK: Record<ProfileRelationship, number> = {
+  other: 0,
+  company: 1,
+  admin: 2,
+  self: 3,
+};
+
+/**
+ * Retrieves the profile visibility policy
+ *
+ * @returns Promise resolving to the policy (the default policy if none is saved)
+ * @throws Error if database query fails
+ */
+export async function getProfileVisibilityPolicy(): Promise<ProfileVisibilityPolicy> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(PROFILE_VISIBILITY_POLICY_TABLE_NAME)
+    .select(PROFILE_VISIBILITY_POLICY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(
+      `Failed to fetch profile visibility policy: ${error.message}`
+    );
+  }
+
+  return profileVisibilityPolicySchema.parse({
+    fields: {
+      ...DEFAULT_PROFILE_FIELD_POLICIES,
+      ...(data?.fields as object | null),
+    },
+    updated_by: data?.updated_by ?? null,
+    updated_at: data?.updated_at ?? null,
+  });
+}
+
+/**
+ * Saves the profile visibility policy
+ * Users' own settings are kept; where they are no longer allowed they are
+ * ignored when profiles are read.
+ *
+ * @param input - Validated policy
+ * @param updatedBy - ID of the user saving the policy
+ * @returns Promise resolving to the saved policy
+ * @throws Error if the update fails
+ */
+export async function updateProfileVisibilityPolicy(
+  input: UpdateProfileVisibilityPolicyInput,
+  updatedBy: string
+): Promise<ProfileVisibilityPolicy> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(PROFILE_VISIBILITY_POLICY_TABLE_NAME)
+    .upsert({ id: true, fields: input.fields, updated_by: updatedBy })
+    .select(PROFILE_VISIBILITY_POLICY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(
+      `Failed to update profile visibility policy: ${error.message}`
+    );
+  }
+
+  return profileVisibilityPolicySchema.parse(data);
+}
+
+/**
+ * Parses stored own visibility settings, dropping anything invalid
+ *
+ * @param value - `profiles.field_visibility` value
+ * @returns Own visibility settings
+ */
+function parseOwnProfileVisibility(value: unknown): OwnProfileVisibility {
+  const result = ownProfileVisibilitySchema.safeParse(value ?? {});
+  return result.success ? result.data : {};
+}
+
+/**
+ * Retrieves a user's own visibility settings
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the fields the user has tightened
+ * @throws Error if database query fails
+ */
+export async function getOwnProfileVisibility(
+  userId: string
+): Promise<OwnProfileVisibility> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from("profiles")
+    .select("field_visibility")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch profile visibility: ${error.message}`);
+  }
+
+  return parseOwnProfileVisibility(data?.field_visibility);
+}
+
+/**
+ * Checks a user's own visibility settings against the policy
+ *
+ * @param policy - Profile visibility policy
+ * @param fields - Requested own visibility settings
+ * @returns Error message for the first setting that is not allowed, or null
+ */
+export function validateOwnProfileVisibility(
+  policy: ProfileVisibilityPolicy,
+  fields: OwnProfileVisibility
+): string | null {
+  for (const field of PROFILE_VISIBILITY_FIELDS) {
+    const level = fields[field];
+    if (!level) continue;
+
+    const fieldPolicy = policy.fields[field];
+    if (!fieldPolicy.user_configurable && level !== fieldPolicy.visibility) {
+      return `${PROFILE_VISIBILITY_FIELD_LABELS[field]} visibility is set by your administrator`;
+    }
+    if (VISIBILITY_RANK[level] < VISIBILITY_RANK[fieldPolicy.visibility]) {
+      return `${PROFILE_VISIBILITY_FIELD_LABELS[field]} cannot be more visible than your organization allows`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Saves a user's own visibility settings
+ * Settings equal to the policy are not stored, so those fields follow later
+ * policy changes.
+ *
+ * @param userId - User ID
+ * @param policy - Profile visibility policy
+ * @param fields - Settings checked with `validateOwnProfileVisibility`
+ * @returns Promise resolving to the stored settings
+ * @throws Error if the update fails
+ */
+export async function updateOwnProfileVisibility(
+  userId: string,
+  policy: ProfileVisibilityPolicy,
+  fields: OwnProfileVisibility
+): Promise<OwnProfileVisibility> {
+  const tightened: OwnProfileVisibility = {};
+  for (const field of PROFILE_VISIBILITY_FIELDS) {
+    const level = fields[field];
+    if (level && level !== policy.fields[field].visibility) {
+      tightened[field] = level;
+    }
+  }
+
+  const adminClient = createAdminClient();
+  const { error } = await adminClient
+    .from("profiles")
+    .update({ field_visibility: tightened })
+    .eq("id", userId);
+
+  if (error) {
+    throw new Error(`Failed to update profile visibility: ${error.message}`);
+  }
+
+  return tightened;
+}
+
+/**
+ * Resolves the visibility of every field for one profile
+ * A user's own setting applies only where the field is user-configurable and
+ * only if it is more restrictive than the policy.
+ *
+ * @param policy - Profile visibility policy
+ * @param own - Profile owner's own settings
+ * @returns Effective visibility level of each field
+ */
+export function getEffectiveProfileVisibility(
+  policy: ProfileVisibilityPolicy,
+  own: OwnProfileVisibility
+): Record<ProfileVisibilityField, ProfileVisibilityLevel> {
+  return Object.fromEntries(
+    PROFILE_VISIBILITY_FIELDS.map((field) => {
+      const { visibility, user_configurable } = policy.fields[field];
+      const ownLevel = user_configurable ? own[field] : undefined;
+      return [
+        field,
+        ownLevel && VISIBILITY_RANK[ownLevel] > VISIBILITY_RANK[visibility]
+          ? ownLevel
+          : visibility,
+      ];
+    })
+  ) as Record<ProfileVisibilityField, ProfileVisibilityLevel>;
+}
+
+/**
+ * Checks whether a relationship passes a visibility level
+ *
+ * @param level - Field visibility level
+ * @param relationship - Viewer's relationship to the profile owner
+ * @returns true if the viewer may see the field
+ */
+export function isProfileFieldVisible(
+  level: ProfileVisibilityLevel,
+  relationship: ProfileRelationship
+): boolean {
+  return RELATIONSHIP_RANK[relationship] >= VISIBILITY_RANK[level];
+}
+
+/**
+ * Determines a viewer's relationship to a profile owner
+ *
+ * @param viewer - Authenticated viewer
+ * @param owner - Profile owner's ID and company
+ * @returns Promise resolving to the relationship
+ */
+export async function getProfileRelationship(
+  viewer: AuthUser,
+  owner: { id: string; company_id: string | null }
+): Promise<ProfileRelationship> {
+  if (viewer.id === owner.id) {
+    return "self";
+  }
+
+  if (await hasPermission(viewer, PERMISSIONS.users.view)) {
+    const scope = await getCompanyScope(viewer, PERMISSIONS.users.viewAll);
+    if (!scope || (scope.companyId && scope.companyId === owner.company_id)) {
+      return "admin";
+    }
+  }
+
+  if (owner.company_id) {
+    const viewerCompanyId = await getUserCompanyId(viewer.id);
+    if (viewerCompanyId === owner.company_id) {
+      return "company";
+    }
+  }
+
+  return "other";
+}
+
+/**
+ * Fetches the fields of a profile that a viewer is allowed to see
+ *
+ * @param id - Profile owner's ID
+ * @param viewer - Authenticated viewer
+ * @returns Promise resolving to the profile ID plus the visible fields, or
+ * null if the profile does not exist, is deleted, or shows the viewer nothing
+ * @throws Error if database query fails
+ */
+export async function getVisibleProfile(
+  id: string,
+  viewer: AuthUser
+): Promise<LimitedProfile | null> {
+  const adminClient = createAdminClient();
+  const { data: profile, error } = await adminClient
+    .from("profiles")
+    .select(
+      "id, company_id, field_visibility, full_name, avatar_url, title, email, phone, bio"
+    )
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch profile: ${error.message}`);
+  }
+
+  if (!profile) {
+    return null;
+  }
+
+  const [policy, relationship] = await Promise.all([
+    getProfileVisibilityPolicy(),
+    getProfileRelationship(viewer, profile),
+  ]);
+  const visibility = getEffectiveProfileVisibility(
+    policy,
+    parseOwnProfileVisibility(profile.field_visibility)
+  );
+
+  const visibleProfile: LimitedProfile = { id: profile.id };
+  for (const field of PROFILE_VISIBILITY_FIELDS) {
+    if (isProfileFieldVisible(visibility[field], relationship)) {
+      visibleProfile[field] = profile[field];
+    }
+  }
+
+  // Nothing to show: treat like a missing profile
+  if (Object.keys(visibleProfile).length === 1 && relationship !== "self") {
+    return null;
+  }
+
+  return visibleProfile;
+}
@@ -15,6 +15,10 @@ import type {
   UpdateProfileInput,
 } from "@/features/auth/types/auth.types";
 import { assignCompanyByEmail } from "@/features/companies/lib/company-service";
+import { SIGNUP_REJECTION_MESSAGES } from "@/features/auth/schemas/signup-policy.schema";
+import { checkSignupAllowed } from "@/lib/auth/signup-policy";
+import { getUserRole, syncProfileRole } from "@/lib/auth/roles";
+import { emitWebhookEvent } from "@/features/webhooks/lib/webhook-delivery";
 
 /**
  * Table name for profiles in Supabase
@@ -95,10 +99,13 @@ export async function updateProfile(
  * Creates a profile for the current user
  * Called automatically when a user signs up
  * Also sets default role 'member' in app_metadata
+ * Self-service sign-ups must pass the sign-up policy (see lib/auth/signup-policy)
+ * Emits a `user.created` webhook event
  *
  * @param input - Initial profile data (optional)
  * @returns Promise resolving to created Profile
- * @throws Error if creation fails or user is not authenticated
+ * @throws Error if creation fails, the user is not authenticated or the
+ * sign-up policy rejects the user
  */
 export async function createProfile(
   input?: Partial<UpdateProfileInput>
@@ -112,6 +119,11 @@ export async function createProfile(
     throw new Error("User not authenticated");
   }
 
+  const decision = await checkSignupAllowed(user);
+  if (!decision.allowed) {
+    throw new Error(SIGNUP_REJECTION_MESSAGES[decision.reason]);
+  }
+
   // Set default role in app_metadata for new users
   // Only set if role doesn't already exist
   if (!user.app_metadata?.role) {
@@ -147,7 +159,6 @@ export async function createProfile(
     avatar_url: input?.avatar_url ?? null,
     phone: input?.phone ?? null,
     dashboard_layout_preferences: input?.dashboard_layout_preferences ?? null,
-    company_id: companyId,
     address_1: input?.address_1 ?? null,
     address_2: input?.address_2 ?? null,
     city: input?.city ?? null,
@@ -167,5 +178,57 @@ export async function createProfile(
     throw new Error(`Failed to create profile: ${error.message}`);
   }
 
-  return profileSchema.parse(data);
+  let profile = profileSchema.parse(data);
+
+  // Users cannot write their company, so it is assigned with the service role
+  if (companyId) {
+    const adminClient = createAdminClient();
+    const { data: assigned, error: companyError } = await adminClient
+      .from(PROFILES_TABLE_NAME)
+      .update({ company_id: companyId })
+      .eq("id", user.id)
+      .select()
+      .single();
+
+    if (companyError) {
+      throw new Error(`Failed to assign company: ${companyError.message}`);
+    }
+
+    profile = profileSchema.parse(assigned);
+  }
+
+  // The insert above stores the default role (users cannot write the role
+  // columns), so mirror a role that was already assigned to the user
+  if (user.app_metadata?.role) {
+    const role = getUserRole(user);
+    const customRoleId =
+      typeof user.app_metadata.custom_role_id === "string"
+        ? user.app_metadata.custom_role_id
+        : null;
+    if (role !== DEFAULT_ROLE || customRoleId) {
+      try {
+        await syncProfileRole(user.id, {
+          role,
+          custom_role_id: customRoleId,
+        });
+      } catch (error) {
+        console.warn(
+          `Failed to sync role for user ${user.id}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+    }
+  }
+
+  await emitWebhookEvent("user.created", {
+    user: {
+      id: profile.id,
+      email: profile.email,
+      full_name: profile.full_name,
+      role: user.app_metadata?.role ?? DEFAULT_ROLE,
+      company_id: companyId,
+    },
+  });
+
+  return profile;
 }
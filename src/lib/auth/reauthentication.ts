@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Re-authentication with an emailed one-time code
+ * @module lib/auth/reauthentication
+ *
+ * Sensitive self-service actions (data export, account deletion) ask the
+ * signed-in user to prove they still control their email address. A sign-in
+ * code is emailed with `sendReauthenticationCode` and checked with
+ * `verifyReauthenticationCode`. Codes are verified on a separate client so
+ * the browser session (and its MFA assurance level) is left untouched; the
+ * session created by the verification is signed out straight away. Wrong
+ * codes count towards the sign-in lockout of the email address (see
+ * `lib/auth/otp-lockout`); callers check `getOtpLockout` first.
+ */
+
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import type { User } from "@supabase/supabase-js";
+import { env } from "@/lib/env";
+import { clearOtpFailures, recordOtpFailure } from "@/lib/auth/otp-lockout";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+/**
+ * Creates a Supabase client that never stores a session
+ *
+ * @returns Anonymous Supabase client
+ */
+function createStatelessClient() {
+  return createSupabaseClient(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
+
+/**
+ * Emails a one-time code to the user
+ *
+ * @param user - Signed-in user
+ * @returns Promise resolving when the code is sent
+ * @throws Error if the user has no email address or the code cannot be sent
+ */
+export async function sendReauthenticationCode(user: User): Promise<void> {
+  if (!user.email) {
+    throw new Error("Re-authentication requires an email address");
+  }
+
+  const { error } = await createStatelessClient().auth.signInWithOtp({
+    email: user.email,
+    options: { shouldCreateUser: false },
+  });
+
+  if (error) {
+    throw new Error(`Failed to send verification code: ${error.message}`);
+  }
+}
+
+/**
+ * Checks a one-time code sent by `sendReauthenticationCode`
+ *
+ * @param user - Signed-in user
+ * @param code - Code from the email
+ * @returns Promise resolving when the code is valid
+ * @throws Error "Invalid or expired verification code" if the code is wrong
+ */
+export async function verifyReauthenticationCode(
+  user: User,
+  code: string
+): Promise<void> {
+  if (!user.email) {
+    throw new Error("Re-authentication requires an email address");
+  }
+
+  const { data, error } = await createStatelessClient().auth.verifyOtp({
+    email: user.email,
+    token: code,
+    type: "email",
+  });
+
+  if (error || data.user?.id !== user.id) {
+    await recordOtpFailure(user.email);
+    throw new Error("Invalid or expired verification code");
+  }
+
+  await clearOtpFailures(user.email);
+
+  if (data.session) {
+    // Only the proof matters; don't leave a second session behind
+    await createAdminClient()
+      .auth.admin.signOut(data.session.access_token, "local")
+      .catch(() => undefined);
+  }
+}
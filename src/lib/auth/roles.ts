@@ -68,6 +68,34 @@ export function getUserRole(user: User | null): UserRole {
   return DEFAULT_ROLE;
 }
 
+/**
+ * Gets the role used for role hierarchy comparisons
+ * Users holding a custom role compare as the custom role's base system role,
+ * mirrored into app_metadata.custom_role_base_role when the role is assigned.
+ * Superadmins always compare as superadmin.
+ *
+ * @param user - Supabase user object
+ * @returns UserRole to compare against ROLE_HIERARCHY
+ *
+ * @example
+ * ```typescript
+ * const baseRole = getBaseRole(user); // "admin" for an admin-based custom role
+ * ```
+ */
+export function getBaseRole(user: User | null): UserRole {
+  const systemRole = getUserRole(user);
+  if (systemRole === "superadmin" || !user?.app_metadata?.custom_role_id) {
+    return systemRole;
+  }
+
+  const validation = safeValidateRole(user.app_metadata?.custom_role_base_role);
+  if (validation.success && validation.data !== "superadmin") {
+    return validation.data;
+  }
+
+  return systemRole;
+}
+
 /**
  * Checks if user has a specific role
  *
@@ -87,6 +115,7 @@ export function hasRole(user: User | null, role: UserRole): boolean {
 
 /**
  * Checks if user meets minimum role requirement
+ * Custom role holders are compared using their custom role's base role
  *
  * @param user - Supabase user object
  * @param minRole - Minimum role required
@@ -98,10 +127,90 @@ export function hasRole(user: User | null, role: UserRole): boolean {
  * ```
  */
 export function hasMinRole(user: User | null, minRole: UserRole): boolean {
-  const userRole = getUserRole(user);
+  const userRole = getBaseRole(user);
   return ROLE_HIERARCHY[userRole] >= ROLE_HIERARCHY[minRole];
 }
 
+/**
+ * Checks if a user may grant a role to other users
+ * `users.assign_role` only allows granting roles up to the granter's own
+ * (custom role holders compare as their base role), so it cannot be used
+ * to create or become a superadmin.
+ *
+ * @param granter - User assigning the role
+ * @param role - Role being granted
+ * @returns true if the role is at or below the granter's own role
+ *
+ * @example
+ * ```typescript
+ * if (!canGrantRole(authUser, input.role)) {
+ *   // Forbidden
+ * }
+ * ```
+ */
+export function canGrantRole(granter: User | null, role: UserRole): boolean {
+  return hasMinRole(granter, role);
+}
+
+/**
+ * Checks if a user may change another user's system role
+ * The new role and the user's current role must both be grantable by the
+ * caller (see canGrantRole), and nobody can change their own role.
+ *
+ * @param granter - User changing the role
+ * @param target - User whose role changes
+ * @param role - New role
+ * @returns Reason the change is forbidden, or null if it is allowed
+ *
+ * @example
+ * ```typescript
+ * const roleError = getRoleChangeError(authUser, target, "admin");
+ * ```
+ */
+export function getRoleChangeError(
+  granter: User,
+  target: { id: string; role: UserRole },
+  role: UserRole
+): string | null {
+  if (target.id === granter.id) {
+    return "Cannot change your own role";
+  }
+  if (!canGrantRole(granter, target.role)) {
+    return "Cannot change the role of a user above your own role";
+  }
+  if (!canGrantRole(granter, role)) {
+    return `Cannot assign the ${role} role`;
+  }
+  return null;
+}
+
+/**
+ * Checks if a user may deactivate (soft-delete) another user
+ * Like role changes, only users at or below the caller's own role can be
+ * deactivated, and nobody can deactivate themselves.
+ *
+ * @param deleter - User deleting the account
+ * @param target - User being deleted
+ * @returns Reason the deletion is forbidden, or null if it is allowed
+ *
+ * @example
+ * ```typescript
+ * const deleteError = getUserDeletionError(authUser, target);
+ * ```
+ */
+export function getUserDeletionError(
+  deleter: User,
+  target: { id: string; role: UserRole }
+): string | null {
+  if (target.id === deleter.id) {
+    return "Cannot delete your own account";
+  }
+  if (!canGrantRole(deleter, target.role)) {
+    return "Cannot delete a user above your own role";
+  }
+  return null;
+}
+
 /**
  * Compares two roles based on hierarchy
  *
@@ -123,6 +232,37 @@ export function compareRoles(role1: UserRole, role2: UserRole): number {
   return 0;
 }
 
+/**
+ * Mirrors a user's system role and/or custom role into their profile
+ * The profile columns let user lists filter, sort and count by role in SQL;
+ * authorization keeps reading app_metadata. Call this after every change to
+ * app_metadata.role or app_metadata.custom_role_id.
+ *
+ * @param userId - User ID
+ * @param values - Role columns to write (omitted columns are left unchanged)
+ * @returns Promise resolving when the profile is updated
+ * @throws Error if the update fails
+ *
+ * @example
+ * ```typescript
+ * await syncProfileRole(userId, { role: "admin", custom_role_id: null });
+ * ```
+ */
+export async function syncProfileRole(
+  userId: string,
+  values: { role?: UserRole; custom_role_id?: string | null }
+): Promise<void> {
+  const adminClient = createAdminClient();
+  const { error } = await adminClient
+    .from("profiles")
+    .update(values)
+    .eq("id", userId);
+
+  if (error) {
+    throw new Error(`Failed to sync profile role: ${error.message}`);
+  }
+}
+
 /**
  * Updates a user's role in Supabase auth metadata
  * ⚠️ WARNING: Only use in trusted server-side environments with proper authorization
@@ -184,6 +324,8 @@ export async function setUserRole(
       };
     }
 
+    await syncProfileRole(userId, { role });
+
     return { data: updatedUser.user, error: null };
   } catch (error) {
     return {
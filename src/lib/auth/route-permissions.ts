@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Declarative route to permission map for page routes
+ * @module lib/auth/route-permissions
+ *
+ * Consumed by the Next.js middleware to block navigation to pages the user
+ * cannot use. API routes are not listed here; they enforce permissions
+ * themselves through the `withPermission` gateways.
+ */
+
+import {
+  PERMISSIONS,
+  matchesPermission,
+  type Permission,
+} from "@/lib/auth/permissions";
+import type { ConditionalPermission } from "@/features/auth/schemas/permission.schema";
+
+/**
+ * Path of the page users are redirected to when a route is forbidden
+ */
+export const FORBIDDEN_PATH = "/forbidden";
+
+/**
+ * A page route and the permissions that grant access to it
+ * Patterns are matched segment by segment; `:name` matches any single segment.
+ * The user needs at least one of the listed permissions, outright or through
+ * a conditional grant (the page and its API apply the conditions).
+ */
+export interface RoutePermissionRule {
+  pattern: string;
+  permissions: readonly Permission[];
+}
+
+/**
+ * Route permission rules, checked in order (first match wins)
+ * Keep static segments (e.g. `/new`) above dynamic ones (e.g. `/:userId`).
+ * Routes with no matching rule only require authentication.
+ */
+export const ROUTE_PERMISSIONS: readonly RoutePermissionRule[] = [
+  // Users
+  { pattern: "/admin/users", permissions: [PERMISSIONS.users.view] },
+  { pattern: "/admin/users/new", permissions: [PERMISSIONS.users.create] },
+  {
+    // Members can open the limited profile view of other users
+    pattern: "/admin/users/:userId",
+    permissions: [PERMISSIONS.users.view, PERMISSIONS.profiles.view],
+  },
+
+  // Companies
+  { pattern: "/admin/companies", permissions: [PERMISSIONS.companies.view] },
+  {
+    pattern: "/admin/companies/new",
+    permissions: [PERMISSIONS.companies.create],
+  },
+  {
+    pattern: "/admin/companies/:companyId",
+    permissions: [PERMISSIONS.companies.view],
+  },
+
+  // Custom roles (pages additionally require superadmin, like the roles API)
+  { pattern: "/admin/roles", permissions: [PERMISSIONS.roles.view] },
+  { pattern: "/admin/roles/new", permissions: [PERMISSIONS.roles.create] },
+  { pattern: "/admin/roles/:roleId", permissions: [PERMISSIONS.roles.edit] },
+
+  // Profile
+  { pattern: "/admin/profile", permissions: [PERMISSIONS.profiles.view] },
+
+  // System settings
+  { pattern: "/admin/settings", permissions: [PERMISSIONS.settings.system] },
+];
+
+/**
+ * Splits a path into non-empty segments
+ *
+ * @param path - URL pathname or route pattern
+ * @returns Array of path segments
+ */
+function toSegments(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+/**
+ * Checks if a pathname matches a route pattern
+ *
+ * @param pattern - Route pattern (e.g. "/admin/users/:userId")
+ * @param pathname - URL pathname
+ * @returns true if every segment matches
+ */
+function matchesRoutePattern(pattern: string, pathname: string): boolean {
+  const patternSegments = toSegments(pattern);
+  const pathSegments = toSegments(pathname);
+
+  if (patternSegments.length !== pathSegments.length) {
+    return false;
+  }
+
+  return patternSegments.every(
+    (segment, index) =>
+      segment.startsWith(":") || segment === pathSegments[index]
+  );
+}
+
+/**
+ * Finds the permission rule for a pathname
+ *
+ * @param pathname - URL pathname
+ * @returns Matching rule, or null if the route has no permission requirement
+ *
+ * @example
+ * ```typescript
+ * getRoutePermissionRule("/admin/users/new");
+ * // { pattern: "/admin/users/new", permissions: ["users.create"] }
+ * ```
+ */
+export function getRoutePermissionRule(
+  pathname: string
+): RoutePermissionRule | null {
+  return (
+    ROUTE_PERMISSIONS.find((rule) =>
+      matchesRoutePattern(rule.pattern, pathname)
+    ) ?? null
+  );
+}
+
+/**
+ * Checks if a set of resolved permissions satisfies a route rule
+ *
+ * @param rule - Route permission rule
+ * @param userPermissions - User's resolved permissions
+ * @param conditionalPermissions - User's non-revoked conditional grants
+ * (see resolveConditionalPermissions)
+ * @returns true if the user holds at least one of the rule's permissions,
+ * outright or conditionally
+ */
+export function canAccessRoute(
+  rule: RoutePermissionRule,
+  userPermissions: readonly Permission[],
+  conditionalPermissions: readonly ConditionalPermission[] = []
+): boolean {
+  return rule.permissions.some(
+    (requiredPerm) =>
+      userPermissions.some((userPerm) =>
+        matchesPermission(userPerm, requiredPerm)
+      ) ||
+      conditionalPermissions.some(
+        ({ permission }) => permission === requiredPerm
+      )
+  );
+}
@@ -0,0 +1,79 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  SESSION_TOUCH_INTERVAL_MS,
+  formatSessionTouchCookie,
+  getAccessTokenSessionId,
+  isSessionTouchDue,
+} from "./sessions";
+
+vi.mock("@/utils/supabase/server", () => ({ createClient: vi.fn() }));
+vi.mock("@/utils/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+
+const sessionId = "0b7f3c2e-5d1a-4c8e-9f6b-2a4d8e1c3b5f";
+
+function createAccessToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}.signature`;
+}
+
+describe("getAccessTokenSessionId", () => {
+  it("reads the session_id claim", () => {
+    const token = createAccessToken({ sub: "user-1", session_id: sessionId });
+
+    expect(getAccessTokenSessionId(token)).toBe(sessionId);
+  });
+
+  it("returns null without a session_id claim", () => {
+    expect(getAccessTokenSessionId(createAccessToken({ sub: "user-1" }))).toBe(
+      null
+    );
+  });
+
+  it("returns null for a malformed token", () => {
+    expect(getAccessTokenSessionId("not-a-token")).toBe(null);
+    expect(getAccessTokenSessionId("a.%%%.c")).toBe(null);
+  });
+});
+
+describe("isSessionTouchDue", () => {
+  const now = Date.now();
+
+  it("is due without a cookie", () => {
+    expect(isSessionTouchDue(undefined, sessionId, now)).toBe(true);
+  });
+
+  it("is not due within the interval", () => {
+    const cookie = formatSessionTouchCookie(sessionId, now - 60_000);
+
+    expect(isSessionTouchDue(cookie, sessionId, now)).toBe(false);
+  });
+
+  it("is due once the interval has passed", () => {
+    const cookie = formatSessionTouchCookie(
+      sessionId,
+      now - SESSION_TOUCH_INTERVAL_MS
+    );
+
+    expect(isSessionTouchDue(cookie, sessionId, now)).toBe(true);
+  });
+
+  it("is due for a different session", () => {
+    const cookie = formatSessionTouchCookie("other-session", now);
+
+    expect(isSessionTouchDue(cookie, sessionId, now)).toBe(true);
+  });
+
+  it("is due for a malformed or future timestamp", () => {
+    expect(isSessionTouchDue(`${sessionId}:soon`, sessionId, now)).toBe(true);
+    expect(
+      isSessionTouchDue(
+        formatSessionTouchCookie(sessionId, now + 1),
+        sessionId,
+        now
+      )
+    ).toBe(true);
+  });
+});
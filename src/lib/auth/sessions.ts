@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Active sign-in session tracking and sign-out
+ * @module lib/auth/sessions
+ *
+ * Every Supabase auth session gets a row in `public.user_sessions` (keyed by
+ * the `session_id` JWT claim) that the middleware keeps up to date with the
+ * device, IP address and last activity through `touch_user_session()`, at
+ * most once every `SESSION_TOUCH_INTERVAL_MS` (tracked in a cookie).
+ * Signing a session out deletes the auth session itself, so its refresh
+ * token stops working and the tracking row is removed by the cascade.
+ */
+
+import { createClient } from "@/utils/supabase/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+  userSessionSchema,
+  type UserSession,
+} from "@/features/auth/schemas/session.schema";
+
+/**
+ * Table name for tracked sessions in Supabase
+ */
+const USER_SESSIONS_TABLE_NAME = "user_sessions" as const;
+
+/**
+ * Cookie recording when the middleware last touched the current session
+ * The value is `<session ID>:<epoch ms>`, so a new sign-in is recorded on its
+ * first request.
+ */
+export const SESSION_TOUCH_COOKIE = "session_touched";
+
+/**
+ * Minimum time between `touch_user_session()` calls for a session
+ */
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Reads the `session_id` claim of an access token without verifying it
+ * Only use this for the session touch throttle; the token has already been
+ * verified by `supabase.auth.getUser()`.
+ *
+ * @param accessToken - Supabase access token (JWT)
+ * @returns Session ID, or null if the token has none
+ */
+export function getAccessTokenSessionId(accessToken: string): string | null {
+  const payload = accessToken.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const claims: unknown = JSON.parse(
+      atob(payload.replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    const sessionId =
+      claims && typeof claims === "object" && "session_id" in claims
+        ? claims.session_id
+        : null;
+    return typeof sessionId === "string" && sessionId ? sessionId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether the middleware should touch a session on this request
+ *
+ * @param cookieValue - Value of the session touch cookie, if any
+ * @param sessionId - Session making the request
+ * @param now - Current time in epoch ms
+ * @returns True if the session was not touched within the interval
+ */
+export function isSessionTouchDue(
+  cookieValue: string | undefined,
+  sessionId: string,
+  now: number = Date.now()
+): boolean {
+  const [touchedSessionId, touchedAt] = cookieValue?.split(":") ?? [];
+  if (touchedSessionId !== sessionId) {
+    return true;
+  }
+
+  const touchedAtMs = Number(touchedAt);
+  return (
+    !Number.isFinite(touchedAtMs) ||
+    touchedAtMs > now ||
+    now - touchedAtMs >= SESSION_TOUCH_INTERVAL_MS
+  );
+}
+
+/**
+ * Builds the session touch cookie value for a session touched now
+ *
+ * @param sessionId - Session that was touched
+ * @param now - Current time in epoch ms
+ * @returns Cookie value
+ */
+export function formatSessionTouchCookie(
+  sessionId: string,
+  now: number = Date.now()
+): string {
+  return `${sessionId}:${now}`;
+}
+
+/**
+ * Returns the auth session ID of the current cookie session
+ *
+ * @returns Promise resolving to the session ID, or null without a session
+ */
+export async function getCurrentSessionId(): Promise<string | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.auth.getClaims();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data.claims.session_id ?? null;
+}
+
+/**
+ * Lists a user's active sessions, most recently used first
+ *
+ * @param userId - Session owner user ID
+ * @param currentSessionId - Session making the request (marked `current`)
+ * @returns Promise resolving to the user's sessions
+ * @throws Error if database query fails
+ */
+export async function listUserSessions(
+  userId: string,
+  currentSessionId: string | null
+): Promise<UserSession[]> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(USER_SESSIONS_TABLE_NAME)
+    .select("id, user_agent, ip_address, created_at, last_seen_at")
+    .eq("user_id", userId)
+    .order("last_seen_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list sessions: ${error.message}`);
+  }
+
+  return data.map((session) =>
+    userSessionSchema.parse({
+      ...session,
+      current: session.id === currentSessionId,
+    })
+  );
+}
+
+/**
+ * Signs a user out of one session
+ *
+ * @param userId - Session owner user ID
+ * @param sessionId - Session ID
+ * @returns Promise resolving when the session is revoked
+ * @throws Error if the session is not found or the revocation fails
+ */
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  const adminClient = createAdminClient();
+  const { data: existing, error: fetchError } = await adminClient
+    .from(USER_SESSIONS_TABLE_NAME)
+    .select("id")
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch session: ${fetchError.message}`);
+  }
+
+  if (!existing) {
+    throw new Error("Session not found");
+  }
+
+  const { error } = await adminClient.rpc("revoke_user_session", {
+    target_session_id: sessionId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to revoke session: ${error.message}`);
+  }
+}
+
+/**
+ * Signs a user out of every session
+ *
+ * @param userId - User ID
+ * @returns Promise resolving to the number of sessions revoked
+ * @throws Error if the revocation fails
+ */
+export async function revokeAllUserSessions(userId: string): Promise<number> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient.rpc("revoke_user_sessions", {
+    target_user_id: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to revoke user sessions: ${error.message}`);
+  }
+
+  return (data as number | null) ?? 0;
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Sign-up policy (allowed and blocked email domains, invite-only mode)
+ * @module lib/auth/signup-policy
+ *
+ * The policy is a single row in `public.signup_policy`, edited by holders of
+ * `settings.system`. It applies to self-service sign-ups only: users created
+ * by an admin or through an accepted invitation get their profile from
+ * `createUser` and are never checked. People with a pending invitation must
+ * accept it (which applies the invited role and company) rather than sign
+ * up themselves. Every user without a profile is
+ * checked, whatever their `app_metadata`, so a role left behind by a failed
+ * sign-up does not exempt anyone. The auth callback and the one-time code
+ * route reject new users before their profile is created, and
+ * `createProfile` checks again so no other path can create a profile for a
+ * rejected user.
+ */
+
+import type { User as AuthUser } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { hasPendingInvitation } from "@/features/invitations/lib/invitation-service";
+import {
+  signupPolicySchema,
+  type SignupPolicy,
+  type SignupRejectionReason,
+  type UpdateSignupPolicyInput,
+} from "@/features/auth/schemas/signup-policy.schema";
+
+/**
+ * Table name for the sign-up policy in Supabase
+ */
+const SIGNUP_POLICY_TABLE_NAME = "signup_policy" as const;
+
+/**
+ * Columns returned for the sign-up policy
+ */
+const SIGNUP_POLICY_COLUMNS =
+  "allowed_domains, blocked_domains, invite_only, updated_by, updated_at";
+
+/**
+ * Policy used until an admin saves one: anyone can sign up
+ */
+const DEFAULT_SIGNUP_POLICY: SignupPolicy = {
+  allowed_domains: [],
+  blocked_domains: [],
+  invite_only: false,
+  updated_by: null,
+  updated_at: null,
+};
+
+/**
+ * Error code used on the sign-in page for rejected sign-ups
+ */
+export const SIGNUP_NOT_ALLOWED_ERROR = "signup_not_allowed";
+
+/**
+ * Result of checking a sign-up against the policy
+ */
+export type SignupDecision =
+  | { allowed: true }
+  | { allowed: false; reason: SignupRejectionReason };
+
+/**
+ * Retrieves the sign-up policy
+ *
+ * @returns Promise resolving to the policy (the default policy if none is saved)
+ * @throws Error if database query fails
+ */
+export async function getSignupPolicy(): Promise<SignupPolicy> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(SIGNUP_POLICY_TABLE_NAME)
+    .select(SIGNUP_POLICY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch sign-up policy: ${error.message}`);
+  }
+
+  return data ? signupPolicySchema.parse(data) : DEFAULT_SIGNUP_POLICY;
+}
+
+/**
+ * Saves the sign-up policy
+ *
+ * @param input - Validated policy
+ * @param updatedBy - ID of the user saving the policy
+ * @returns Promise resolving to the saved policy
+ * @throws Error if the update fails
+ */
+export async function updateSignupPolicy(
+  input: UpdateSignupPolicyInput,
+  updatedBy: string
+): Promise<SignupPolicy> {
+  const adminClient = createAdminClient();
+  const { data, error } = await adminClient
+    .from(SIGNUP_POLICY_TABLE_NAME)
+    .upsert({ id: true, ...input, updated_by: updatedBy })
+    .select(SIGNUP_POLICY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update sign-up policy: ${error.message}`);
+  }
+
+  return signupPolicySchema.parse(data);
+}
+
+/**
+ * Checks whether an email domain matches a policy domain
+ * A policy domain also covers its subdomains ("example.com" matches
+ * "mail.example.com").
+ *
+ * @param emailDomain - Lowercase domain of the email address
+ * @param policyDomain - Domain from the policy
+ * @returns true if the domain matches
+ */
+function matchesDomain(emailDomain: string, policyDomain: string): boolean {
+  return (
+    emailDomain === policyDomain || emailDomain.endsWith(`.${policyDomain}`)
+  );
+}
+
+/**
+ * Evaluates an email address against a sign-up policy
+ * Invitees are sent to their invitation, whatever the policy: signing up
+ * themselves would skip the invited role and company and leave the
+ * invitation unusable. Otherwise blocked domains win over allowed ones.
+ *
+ * @param policy - Sign-up policy
+ * @param email - Email address signing up
+ * @param invited - Whether the email has a pending invitation
+ * @returns Sign-up decision
+ */
+export function evaluateSignupPolicy(
+  policy: Pick<
+    SignupPolicy,
+    "allowed_domains" | "blocked_domains" | "invite_only"
+  >,
+  email: string,
+  invited: boolean
+): SignupDecision {
+  if (invited) {
+    return { allowed: false, reason: "invitation_pending" };
+  }
+
+  const domain = email.trim().toLowerCase().split("@").pop() ?? "";
+
+  if (
+    policy.blocked_domains.some((blocked) => matchesDomain(domain, blocked))
+  ) {
+    return { allowed: false, reason: "domain_blocked" };
+  }
+
+  if (policy.invite_only) {
+    return { allowed: false, reason: "invite_only" };
+  }
+
+  if (
+    policy.allowed_domains.length > 0 &&
+    !policy.allowed_domains.some((allowed) => matchesDomain(domain, allowed))
+  ) {
+    return { allowed: false, reason: "domain_not_allowed" };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Checks whether a newly authenticated user (one without a profile) may sign
+ * up
+ *
+ * @param user - Supabase auth user
+ * @returns Promise resolving to the sign-up decision
+ * @throws Error if the policy or invitations cannot be read
+ */
+export async function checkSignupAllowed(
+  user: AuthUser
+): Promise<SignupDecision> {
+  const policy = await getSignupPolicy();
+  const restricted =
+    policy.invite_only ||
+    policy.allowed_domains.length > 0 ||
+    policy.blocked_domains.length > 0;
+
+  // Without an email address there is no domain or invitation to check
+  if (!user.email) {
+    return restricted
+      ? {
+          allowed: false,
+          reason: policy.invite_only ? "invite_only" : "domain_not_allowed",
+        }
+      : { allowed: true };
+  }
+
+  const invited = await hasPendingInvitation(user.email);
+  return evaluateSignupPolicy(policy, user.email, invited);
+}
+
+/**
+ * Removes the auth user created by a rejected sign-up
+ * The user never got a profile, so nothing else references them.
+ *
+ * @param userId - Auth user ID
+ * @returns Promise resolving when the user is deleted
+ * @throws Error if the deletion fails
+ */
+export async function discardRejectedSignup(userId: string): Promise<void> {
+  const adminClient = createAdminClient();
+  const { error } = await adminClient.auth.admin.deleteUser(userId);
+
+  if (error) {
+    throw new Error(`Failed to delete rejected user: ${error.message}`);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Bulk actions over many entities
+ * @module lib/bulk-actions
+ *
+ * Bulk endpoints apply one action to a list of IDs and report the outcome of
+ * each item instead of failing the whole request: an item that is missing,
+ * out of scope or in the wrong state fails on its own while the others are
+ * still processed.
+ */
+
+import { z } from "zod";
+
+/**
+ * Maximum number of items in one bulk request
+ */
+export const BULK_ACTION_MAX_ITEMS = 100;
+
+/**
+ * Schema for the IDs of a bulk request
+ */
+export const bulkIdsSchema = z
+  .array(z.string().uuid())
+  .min(1, "Select at least one item")
+  .max(
+    BULK_ACTION_MAX_ITEMS,
+    `At most ${BULK_ACTION_MAX_ITEMS} items can be changed at once`
+  );
+
+/**
+ * Schema for a bulk action response
+ */
+export const bulkActionResultSchema = z.object({
+  results: z.array(
+    z.object({
+      id: z.string(),
+      success: z.boolean(),
+      error: z.string().optional(),
+    })
+  ),
+  succeeded: z.number(),
+  failed: z.number(),
+});
+
+/**
+ * Outcome of a bulk action
+ */
+export type BulkActionResult = z.infer<typeof bulkActionResultSchema>;
+
+/**
+ * Outcome of a bulk action for one item
+ */
+export type BulkItemResult = BulkActionResult["results"][number];
+
+/**
+ * Applies an action to each ID in turn and collects the outcomes
+ * Items run one at a time, in order; duplicate IDs run once. An error thrown
+ * for an item is recorded as its failure.
+ *
+ * @param ids - IDs to process
+ * @param action - Action applied to one ID
+ * @returns Promise resolving to the per-item results and their totals
+ *
+ * @example
+ * ```typescript
+ * const result = await runBulkAction(ids, (id) => softDeleteUser(id, scope));
+ * ```
+ */
+export async function runBulkAction(
+  ids: string[],
+  action: (id: string) => Promise<unknown>
+): Promise<BulkActionResult> {
+  const results: BulkItemResult[] = [];
+
+  for (const id of new Set(ids)) {
+    try {
+      await action(id);
+      results.push({ id, success: true });
+    } catch (error) {
+      results.push({
+        id,
+        success: false,
+        error: error instanceof Error ? error.message : "Unexpected error",
+      });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
+/**
+ * Lists the failed items of a bulk action, for a notification
+ *
+ * @param result - Outcome of the bulk action
+ * @param getLabel - Name shown for an item ID
+ * @param limit - Maximum number of failures listed
+ * @returns The failures and their errors, plus a count of those left out
+ */
+export function describeBulkFailures(
+  result: BulkActionResult,
+  getLabel: (id: string) => string,
+  limit = 3
+): string {
+  const failures = result.results.filter((item) => !item.success);
+  const entries = failures
+    .slice(0, limit)
+    .map((item) => `${getLabel(item.id)}: ${item.error ?? "Failed"}`);
+
+  if (failures.length > limit) {
+    entries.push(`and ${failures.length - limit} more`);
+  }
+
+  return entries.join("; ");
+}
@@ -0,0 +1,73 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it } from "vitest";
+import { getClientIp, getTrustedProxyCount } from "./client-ip";
+
+describe("getClientIp", () => {
+  it("uses the entry added by a single proxy", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "203.0.113.9, 198.51.100.7",
+    });
+
+    expect(getClientIp(headers, 1)).toBe("198.51.100.7");
+  });
+
+  it("skips the entries added by inner proxies", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "203.0.113.9, 198.51.100.7, 10.0.0.2",
+    });
+
+    expect(getClientIp(headers, 2)).toBe("198.51.100.7");
+  });
+
+  it("uses the first entry of a chain shorter than the proxy count", () => {
+    const headers = new Headers({ "x-forwarded-for": "198.51.100.7" });
+
+    expect(getClientIp(headers, 3)).toBe("198.51.100.7");
+  });
+
+  it("falls back to x-real-ip", () => {
+    const headers = new Headers({ "x-real-ip": "198.51.100.7" });
+
+    expect(getClientIp(headers, 1)).toBe("198.51.100.7");
+  });
+
+  it("ignores the headers without a trusted proxy", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "198.51.100.7",
+      "x-real-ip": "198.51.100.7",
+    });
+
+    expect(getClientIp(headers, 0)).toBe(null);
+  });
+
+  it("returns null without proxy headers", () => {
+    expect(getClientIp(new Headers(), 1)).toBe(null);
+  });
+});
+
+describe("getTrustedProxyCount", () => {
+  const original = process.env.TRUSTED_PROXY_COUNT;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.TRUSTED_PROXY_COUNT;
+    } else {
+      process.env.TRUSTED_PROXY_COUNT = original;
+    }
+  });
+
+  it("reads TRUSTED_PROXY_COUNT", () => {
+    process.env.TRUSTED_PROXY_COUNT = "2";
+
+    expect(getTrustedProxyCount()).toBe(2);
+  });
+
+  it("defaults to one proxy", () => {
+    delete process.env.TRUSTED_PROXY_COUNT;
+    expect(getTrustedProxyCount()).toBe(1);
+
+    process.env.TRUSTED_PROXY_COUNT = "-1";
+    expect(getTrustedProxyCount()).toBe(1);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Client IP address of an incoming request
+ * @module lib/client-ip
+ *
+ * Behind a reverse proxy the client address is only known from the headers
+ * the proxy sets. Each proxy appends the address it received the request from
+ * to `X-Forwarded-For`, so only the right-most entries (one per trusted proxy,
+ * `TRUSTED_PROXY_COUNT`) can be trusted; anything to their left is sent by the
+ * client and may be forged.
+ */
+
+/**
+ * Trusted proxy count used when `TRUSTED_PROXY_COUNT` is not set (one proxy,
+ * such as Vercel's edge network)
+ */
+const DEFAULT_TRUSTED_PROXY_COUNT = 1;
+
+/**
+ * Returns the number of reverse proxies in front of the app
+ *
+ * @returns Trusted proxy count (0 when the app is reached directly)
+ */
+export function getTrustedProxyCount(): number {
+  const value = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? "", 10);
+  return Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_TRUSTED_PROXY_COUNT;
+}
+
+/**
+ * Returns the client IP address from the proxy headers
+ * Uses the `X-Forwarded-For` entry added by the outermost trusted proxy, or
+ * `X-Real-IP` (set by the proxy) without one. Without a trusted proxy the
+ * headers come from the client, so no address is returned.
+ *
+ * @param headers - Request headers
+ * @param trustedProxyCount - Number of reverse proxies in front of the app
+ * @returns Client IP address, or null if unknown
+ */
+export function getClientIp(
+  headers: Headers,
+  trustedProxyCount: number = getTrustedProxyCount()
+): string | null {
+  if (trustedProxyCount === 0) {
+    return null;
+  }
+
+  const forwardedFor = headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (forwardedFor && forwardedFor.length > 0) {
+    // A shorter chain than expected was started by a trusted proxy
+    return (
+      forwardedFor[Math.max(0, forwardedFor.length - trustedProxyCount)] ?? null
+    );
+  }
+
+  return headers.get("x-real-ip")?.trim() || null;
+}
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Outgoing email through a pluggable transport
+ * @module lib/mail/mailer
+ *
+ * Application code calls `sendMail()`; how mail leaves the app is decided by
+ * the active transport. `MAIL_TRANSPORT` selects a built-in transport:
+ *
+ * - `outbox` (default outside production): writes each message as an `.eml`
+ *   file to `MAIL_OUTBOX_DIR` (default `.outbox/`) for local development
+ * - `console`: logs each message to the server console
+ *
+ * Providers without a built-in transport are plugged in with
+ * `setMailTransport()` (e.g. from `instrumentation.ts`). In production a
+ * transport must be configured; sending fails otherwise.
+ */
+
+import { createConsoleTransport, createOutboxTransport } from "./transports";
+
+/**
+ * Email message as composed by application code
+ */
+export interface MailMessage {
+  /** Recipient address */
+  to: string;
+  /** Subject line */
+  subject: string;
+  /** Plain-text body */
+  text: string;
+  /** Optional HTML body */
+  html?: string;
+}
+
+/**
+ * Email message as handed to a transport
+ */
+export interface OutgoingMailMessage extends MailMessage {
+  /** Sender address (`MAIL_FROM`) */
+  from: string;
+}
+
+/**
+ * Delivers outgoing email
+ */
+export interface MailTransport {
+  /** Transport name, used in logs */
+  name: string;
+  /**
+   * Delivers one message
+   * @throws Error if the message cannot be delivered
+   */
+  send(message: OutgoingMailMessage): Promise<void>;
+}
+
+/**
+ * Sender address used when `MAIL_FROM` is not set
+ */
+const DEFAULT_MAIL_FROM = "AppName <no-reply@localhost>";
+
+/**
+ * Transport registered with `setMailTransport`, if any
+ */
+let registeredTransport: MailTransport | null = null;
+
+/**
+ * Replaces the mail transport for the whole process
+ *
+ * @param transport - Transport to use, or null to fall back to `MAIL_TRANSPORT`
+ *
+ * @example
+ * ```typescript
+ * setMailTransport({
+ *   name: "provider",
+ *   send: async (message) => { await provider.send(message); },
+ * });
+ * ```
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  registeredTransport = transport;
+}
+
+/**
+ * Returns the active mail transport
+ *
+ * @returns Registered transport, or the built-in one selected by `MAIL_TRANSPORT`
+ * @throws Error if `MAIL_TRANSPORT` is unknown, or nothing is configured in production
+ */
+export function getMailTransport(): MailTransport {
+  if (registeredTransport) {
+    return registeredTransport;
+  }
+
+  const transportName =
+    process.env.MAIL_TRANSPORT ??
+    (process.env.NODE_ENV === "production" ? undefined : "outbox");
+
+  switch (transportName) {
+    case "outbox":
+      return createOutboxTransport(process.env.MAIL_OUTBOX_DIR ?? ".outbox");
+    case "console":
+      return createConsoleTransport();
+    case undefined:
+      throw new Error(
+        "No mail transport configured. Set MAIL_TRANSPORT or call setMailTransport()."
+      );
+    default:
+      throw new Error(`Unknown mail transport: ${transportName}`);
+  }
+}
+
+/**
+ * Sends an email through the active transport
+ *
+ * @param message - Message to send
+ * @returns Promise resolving when the transport has accepted the message
+ * @throws Error if no transport is configured or delivery fails
+ *
+ * @example
+ * ```typescript
+ * await sendMail({ to: "user@example.com", subject: "Hello", text: "Hi!" });
+ * ```
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = getMailTransport();
+
+  try {
+    await transport.send({
+      ...message,
+      from: process.env.MAIL_FROM ?? DEFAULT_MAIL_FROM,
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to send email via ${transport.name}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Built-in mail transports for development
+ * @module lib/mail/transports
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { MailTransport, OutgoingMailMessage } from "./mailer";
+
+/**
+ * Formats a message as an RFC 5322 document
+ * With an HTML body the message is multipart/alternative.
+ *
+ * @param message - Outgoing message
+ * @returns Message source (CRLF line endings)
+ */
+function formatEml(message: OutgoingMailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\r\n");
+  }
+
+  const boundary = `boundary-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    message.html,
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+/**
+ * Creates a transport that writes each message to a directory as an `.eml`
+ * file, which any mail client can open
+ *
+ * @param directory - Outbox directory (relative to the working directory)
+ * @returns Outbox transport
+ */
+export function createOutboxTransport(directory: string): MailTransport {
+  return {
+    name: "outbox",
+    send: async (message) => {
+      const outboxPath = path.resolve(directory);
+      await mkdir(outboxPath, { recursive: true });
+
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+      await writeFile(path.join(outboxPath, fileName), formatEml(message));
+    },
+  };
+}
+
+/**
+ * Creates a transport that logs each message to the server console
+ *
+ * @returns Console transport
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    send: async (message) => {
+      console.info(
+        `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+      );
+    },
+  };
+}
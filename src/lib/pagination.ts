@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Keyset (cursor) pagination for list queries
+ * @module lib/pagination
+ *
+ * A cursor marks the last row of a page by its sort value and ID, so the next
+ * page starts right after that row however many rows were added or removed
+ * before it. Lists using a cursor must be ordered by the sort column with
+ * nulls last, then by `id` in the same direction.
+ *
+ * Cursors are opaque to clients: base64url-encoded JSON that also records
+ * the sort it was issued for, so it cannot be replayed against another one.
+ */
+
+/**
+ * Sort direction of a list
+ */
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Position of the last row of a page
+ */
+export interface ListCursor {
+  /** Sort column the cursor was issued for */
+  sort: string;
+  /** Sort direction the cursor was issued for */
+  order: SortOrder;
+  /** Sort column value of the row (null for rows without a value) */
+  value: string | null;
+  /** Row ID, breaking ties between equal sort values */
+  id: string;
+}
+
+/**
+ * Encodes a cursor for the `next_cursor` of a list response
+ *
+ * @param cursor - Position of the last row of the page
+ * @returns Opaque cursor string
+ */
+export function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id]),
+    "utf8"
+  ).toString("base64url");
+}
+
+/**
+ * Decodes a cursor sent by a client
+ *
+ * @param value - Opaque cursor string
+ * @param sort - Sort column of the request
+ * @param order - Sort direction of the request
+ * @returns Decoded cursor
+ * @throws Error if the cursor is malformed or was issued for another sort
+ */
+export function decodeListCursor(
+  value: string,
+  sort: string,
+  order: SortOrder
+): ListCursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 4 ||
+    parsed[0] !== sort ||
+    parsed[1] !== order ||
+    (parsed[2] !== null && typeof parsed[2] !== "string") ||
+    typeof parsed[3] !== "string"
+  ) {
+    throw new Error("Invalid cursor: it does not match the requested sort");
+  }
+
+  return { sort, order, value: parsed[2], id: parsed[3] };
+}
+
+/**
+ * Quotes a value for a PostgREST logic tree filter
+ *
+ * @param value - Filter value
+ * @returns Double-quoted value with quotes and backslashes escaped
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Builds the PostgREST `or` filter selecting the rows after a cursor
+ *
+ * @param cursor - Position of the last row of the previous page
+ * @returns Filter for the query builder's `.or()`
+ *
+ * @example
+ * ```typescript
+ * queryBuilder = queryBuilder.or(getKeysetFilter(cursor));
+ * ```
+ */
+export function getKeysetFilter(cursor: ListCursor): string {
+  const { sort, value } = cursor;
+  const operator = cursor.order === "asc" ? "gt" : "lt";
+  const id = quoteFilterValue(cursor.id);
+
+  // Nulls sort last, so only null rows can follow a null value
+  if (value === null) {
+    return `and(${sort}.is.null,id.${operator}.${id})`;
+  }
+
+  const quoted = quoteFilterValue(value);
+  return [
+    `${sort}.${operator}.${quoted}`,
+    `and(${sort}.eq.${quoted},id.${operator}.${id})`,
+    `${sort}.is.null`,
+  ].join(",");
+}
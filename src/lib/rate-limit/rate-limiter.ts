@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Fixed-window rate limiting with a pluggable store
+ * @module lib/rate-limit/rate-limiter
+ *
+ * A rule allows `limit` hits per subject (user, IP address, email) in each
+ * window of `windowMs`. Counters live in the active store, selected by
+ * `RATE_LIMIT_STORE`:
+ *
+ * - `memory` (default outside production): counters in process memory, per
+ *   server instance
+ * - `postgres` (default in production): counters in the `rate_limits` table,
+ *   shared by every instance
+ *
+ * Other backends are plugged in with `setRateLimitStore()`. Route handlers
+ * are limited with `withRateLimit()`; rejected requests get a 429 response
+ * with `Retry-After` and the standard error envelope. If the store is
+ * unavailable requests are let through (and the error logged) rather than
+ * taking the API down with it.
+ */
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getClientIp } from "@/lib/client-ip";
+import { createMemoryStore, createPostgresStore } from "./stores";
+
+/**
+ * Hits counted for a key in its current window
+ */
+export interface RateLimitWindow {
+  /** Hits in the current window */
+  hits: number;
+  /** When the current window ends */
+  resetAt: Date;
+}
+
+/**
+ * Keeps rate limit counters
+ */
+export interface RateLimitStore {
+  /** Store name, used in logs */
+  name: string;
+  /**
+   * Counts a hit, starting a new window of `windowMs` if none is active
+   * @throws Error if the store is unavailable
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitWindow>;
+  /**
+   * Returns the active window without counting a hit
+   * @throws Error if the store is unavailable
+   */
+  get(key: string): Promise<RateLimitWindow | null>;
+  /**
+   * Clears the counter of a key
+   * @throws Error if the store is unavailable
+   */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Rate limit rule
+ */
+export interface RateLimitRule {
+  /** Rule name, used as the key prefix */
+  name: string;
+  /** Hits allowed per window */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Outcome of checking a subject against a rule
+ */
+export interface RateLimitResult {
+  /** Whether the request may proceed */
+  allowed: boolean;
+  /** Hits allowed per window */
+  limit: number;
+  /** Hits left in the current window */
+  remaining: number;
+  /** When the current window ends */
+  resetAt: Date;
+  /** Seconds until the window ends (at least 1) */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Rate limit rules used across the application
+ */
+export const RATE_LIMITS = {
+  /** Sign-in emails (magic link and code) per email address */
+  otpSendPerEmail: { name: "otp-send", limit: 5, windowMs: 15 * 60 * 1000 },
+  /** Sign-in emails per client IP address */
+  otpSendPerIp: { name: "otp-send-ip", limit: 20, windowMs: 15 * 60 * 1000 },
+  /** Sign-in code attempts per client IP address */
+  otpVerifyPerIp: {
+    name: "otp-verify-ip",
+    limit: 30,
+    windowMs: 15 * 60 * 1000,
+  },
+  /** Failed one-time codes per email address before it is locked out */
+  otpFailures: { name: "otp-failures", limit: 5, windowMs: 15 * 60 * 1000 },
+  /** Re-authentication and MFA recovery attempts per user */
+  sensitiveAction: {
+    name: "sensitive-action",
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+  },
+  /** File uploads per user or client IP address */
+  upload: { name: "upload", limit: 10, windowMs: 60 * 1000 },
+  /** Admin create and write actions per user */
+  adminMutation: { name: "admin-mutation", limit: 30, windowMs: 60 * 1000 },
+} as const satisfies Record<string, RateLimitRule>;
+
+/**
+ * Store registered with `setRateLimitStore`, if any
+ */
+let registeredStore: RateLimitStore | null = null;
+
+/**
+ * Built-in store selected by `RATE_LIMIT_STORE`, created on first use
+ * (the memory store must outlive a single request)
+ */
+let builtInStore: RateLimitStore | null = null;
+
+/**
+ * Replaces the rate limit store for the whole process
+ *
+ * @param store - Store to use, or null to fall back to `RATE_LIMIT_STORE`
+ *
+ * @example
+ * ```typescript
+ * setRateLimitStore({
+ *   name: "redis",
+ *   hit: async (key, windowMs) => { ... },
+ *   get: async (key) => { ... },
+ *   reset: async (key) => { ... },
+ * });
+ * ```
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  registeredStore = store;
+}
+
+/**
+ * Returns the active rate limit store
+ *
+ * @returns Registered store, or the built-in one selected by `RATE_LIMIT_STORE`
+ * @throws Error if `RATE_LIMIT_STORE` is unknown
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (registeredStore) {
+    return registeredStore;
+  }
+
+  if (!builtInStore) {
+    const storeName =
+      process.env.RATE_LIMIT_STORE ??
+      (process.env.NODE_ENV === "production" ? "postgres" : "memory");
+
+    switch (storeName) {
+      case "memory":
+        builtInStore = createMemoryStore();
+        break;
+      case "postgres":
+        builtInStore = createPostgresStore();
+        break;
+      default:
+        throw new Error(`Unknown rate limit store: ${storeName}`);
+    }
+  }
+
+  return builtInStore;
+}
+
+/**
+ * Builds the store key of a rule and subject
+ *
+ * @param rule - Rate limit rule
+ * @param subject - Subject being limited (e.g. "user:<id>")
+ * @returns Store key
+ */
+function getRateLimitKey(rule: RateLimitRule, subject: string): string {
+  return `${rule.name}:${subject}`;
+}
+
+/**
+ * Builds a result from a window's hit count
+ *
+ * @param rule - Rate limit rule
+ * @param counter - Current window, or null if none is active
+ * @returns Rate limit result
+ */
+function toRateLimitResult(
+  rule: RateLimitRule,
+  counter: RateLimitWindow | null
+): RateLimitResult {
+  const hits = counter?.hits ?? 0;
+  const resetAt = counter?.resetAt ?? new Date(Date.now() + rule.windowMs);
+
+  return {
+    allowed: hits <= rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - hits),
+    resetAt,
+    retryAfterSeconds: Math.max(
+      1,
+      Math.ceil((resetAt.getTime() - Date.now()) / 1000)
+    ),
+  };
+}
+
+/**
+ * Counts a hit for a subject and checks it against the rule
+ * Fails open: if the store is unavailable the hit is allowed.
+ *
+ * @param rule - Rate limit rule
+ * @param subject - Subject being limited (e.g. "user:<id>", "ip:<address>")
+ * @returns Promise resolving to the rate limit result
+ */
+export async function consumeRateLimit(
+  rule: RateLimitRule,
+  subject: string
+): Promise<RateLimitResult> {
+  try {
+    const counter = await getRateLimitStore().hit(
+      getRateLimitKey(rule, subject),
+      rule.windowMs
+    );
+    return toRateLimitResult(rule, counter);
+  } catch (error) {
+    console.error(`Rate limit check failed for ${rule.name}:`, error);
+    return toRateLimitResult(rule, null);
+  }
+}
+
+/**
+ * Checks whether a subject has already used up a rule, without counting a hit
+ * Fails open: if the store is unavailable the subject is not limited.
+ *
+ * @param rule - Rate limit rule
+ * @param subject - Subject being limited
+ * @returns Promise resolving to the rate limit result (`allowed` is false
+ * once `limit` hits have been counted)
+ */
+export async function peekRateLimit(
+  rule: RateLimitRule,
+  subject: string
+): Promise<RateLimitResult> {
+  try {
+    const counter = await getRateLimitStore().get(
+      getRateLimitKey(rule, subject)
+    );
+    const result = toRateLimitResult(rule, counter);
+    return { ...result, allowed: (counter?.hits ?? 0) < rule.limit };
+  } catch (error) {
+    console.error(`Rate limit check failed for ${rule.name}:`, error);
+    return toRateLimitResult(rule, null);
+  }
+}
+
+/**
+ * Clears a subject's counter for a rule
+ * Errors are logged; the counter then expires with its window.
+ *
+ * @param rule - Rate limit rule
+ * @param subject - Subject being limited
+ * @returns Promise resolving when the counter is cleared
+ */
+export async function resetRateLimit(
+  rule: RateLimitRule,
+  subject: string
+): Promise<void> {
+  try {
+    await getRateLimitStore().reset(getRateLimitKey(rule, subject));
+  } catch (error) {
+    console.error(`Rate limit reset failed for ${rule.name}:`, error);
+  }
+}
+
+/**
+ * Adds the rate limit headers of a result to a response
+ *
+ * @param response - Response to decorate
+ * @param result - Rate limit result
+ * @returns The same response
+ */
+export function setRateLimitHeaders<T extends Response>(
+  response: T,
+  result: RateLimitResult
+): T {
+  response.headers.set("X-RateLimit-Limit", String(result.limit));
+  response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+  response.headers.set(
+    "X-RateLimit-Reset",
+    String(Math.ceil(result.resetAt.getTime() / 1000))
+  );
+  return response;
+}
+
+/**
+ * Formats a wait as a short duration for user-facing messages
+ *
+ * @param seconds - Seconds to wait
+ * @returns Duration (e.g. "30 seconds", "5 minutes")
+ */
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+/**
+ * Creates the 429 response for a rejected request
+ *
+ * @param result - Rate limit result of the rejected request
+ * @param options - Error code and message (defaults to RATE_LIMITED)
+ * @returns NextResponse with the error JSON and `Retry-After` header
+ */
+export function createRateLimitResponse(
+  result: RateLimitResult,
+  options: { error?: string; message?: string } = {}
+): NextResponse {
+  const response = NextResponse.json(
+    {
+      error: options.error ?? "RATE_LIMITED",
+      message:
+        options.message ??
+        `Too many requests. Try again in ${formatRetryAfter(result.retryAfterSeconds)}.`,
+      timestamp: new Date().toISOString(),
+    },
+    { status: 429 }
+  );
+  response.headers.set("Retry-After", String(result.retryAfterSeconds));
+  return setRateLimitHeaders(response, result);
+}
+
+/**
+ * Returns the rate limit subject of a request
+ * Authenticated requests are limited per user (the auth context passed by
+ * `withAuth` and friends), anonymous ones per client IP address.
+ *
+ * @param request - Incoming request
+ * @param context - Second handler argument (auth context or route context)
+ * @returns Rate limit subject
+ */
+function getRequestSubject(request: NextRequest, context: unknown): string {
+  if (typeof context === "object" && context !== null && "user" in context) {
+    const { user } = context as { user?: { id?: unknown } };
+    if (typeof user?.id === "string") {
+      return `user:${user.id}`;
+    }
+  }
+
+  return `ip:${getClientIp(request.headers) ?? "unknown"}`;
+}
+
+/**
+ * Wraps an API route handler with a rate limit
+ *
+ * Composes with the auth gateways: wrapped inside `withAuth`/`withPermission`
+ * the limit applies per user, wrapped around a plain handler it applies per
+ * client IP address. Allowed responses carry `X-RateLimit-*` headers.
+ *
+ * @param rule - Rate limit rule
+ * @param handler - API route handler function
+ * @returns Wrapped handler that rejects requests over the limit with 429
+ *
+ * @example
+ * ```typescript
+ * export const POST = withPermission(
+ *   PERMISSIONS.users.create,
+ *   withRateLimit(RATE_LIMITS.adminMutation, async (request, { user }) => {
+ *     return NextResponse.json({ created: true }, { status: 201 });
+ *   })
+ * );
+ * ```
+ */
+export function withRateLimit<Args extends unknown[], R extends Response>(
+  rule: RateLimitRule,
+  handler: (request: NextRequest, ...args: Args) => Promise<R>
+) {
+  return async (
+    request: NextRequest,
+    ...args: Args
+  ): Promise<R | NextResponse> => {
+    const result = await consumeRateLimit(
+      rule,
+      getRequestSubject(request, args[0])
+    );
+
+    if (!result.allowed) {
+      return createRateLimitResponse(result);
+    }
+
+    return setRateLimitHeaders(await handler(request, ...args), result);
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Built-in rate limit stores
+ * @module lib/rate-limit/stores
+ */
+
+import { createAdminClient } from "@/utils/supabase/admin";
+import type { RateLimitStore, RateLimitWindow } from "./rate-limiter";
+
+/**
+ * Number of entries after which the memory store sweeps expired windows
+ */
+const MEMORY_STORE_SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Creates a store that keeps counters in process memory
+ * Counters are per server instance and lost on restart, so this store is
+ * meant for development and single-instance deployments.
+ *
+ * @returns Memory rate limit store
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitWindow>();
+
+  const getActiveWindow = (key: string): RateLimitWindow | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.resetAt.getTime() <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    name: "memory",
+    async hit(key, windowMs) {
+      if (entries.size >= MEMORY_STORE_SWEEP_THRESHOLD) {
+        for (const existingKey of entries.keys()) {
+          getActiveWindow(existingKey);
+        }
+      }
+
+      const current = getActiveWindow(key);
+      const entry: RateLimitWindow = current
+        ? { hits: current.hits + 1, resetAt: current.resetAt }
+        : { hits: 1, resetAt: new Date(Date.now() + windowMs) };
+      entries.set(key, entry);
+      return entry;
+    },
+    async get(key) {
+      return getActiveWindow(key);
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a store that keeps counters in the `rate_limits` table
+ * Hits are counted atomically by `hit_rate_limit()`, so limits hold across
+ * every server instance.
+ *
+ * @returns Postgres rate limit store
+ */
+export function createPostgresStore(): RateLimitStore {
+  return {
+    name: "postgres",
+    async hit(key, windowMs) {
+      const { data, error } = await createAdminClient()
+        .rpc("hit_rate_limit", {
+          limit_key: key,
+          window_seconds: Math.ceil(windowMs / 1000),
+        })
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to record rate limit hit: ${error.message}`);
+      }
+
+      const row = data as { hits: number; reset_at: string };
+      return { hits: row.hits, resetAt: new Date(row.reset_at) };
+    },
+    async get(key) {
+      const { data, error } = await createAdminClient()
+        .from("rate_limits")
+        .select("hits, reset_at")
+        .eq("key", key)
+        .gt("reset_at", new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to read rate limit: ${error.message}`);
+      }
+
+      return data ? { hits: data.hits, resetAt: new Date(data.reset_at) } : null;
+    },
+    async reset(key) {
+      const { error } = await createAdminClient()
+        .from("rate_limits")
+        .delete()
+        .eq("key", key);
+
+      if (error) {
+        throw new Error(`Failed to reset rate limit: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Minimal ZIP archive writer
+ * @module lib/zip
+ *
+ * Builds a ZIP archive in memory from a list of files, compressing each with
+ * DEFLATE. Meant for small downloads such as account data exports; no ZIP64,
+ * so archives are limited to 4 GB and 65,535 entries.
+ */
+
+import { crc32, deflateRawSync } from "node:zlib";
+
+/**
+ * File to add to an archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive (use "/" as separator) */
+  name: string;
+  /** File contents; strings are encoded as UTF-8 */
+  data: Buffer | string;
+  /** Modification time (defaults to now) */
+  modifiedAt?: Date;
+}
+
+/**
+ * Encodes a date as MS-DOS time and date fields
+ *
+ * @param date - Date to encode (local time, 2-second precision)
+ * @returns DOS time and date
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Creates a ZIP archive
+ *
+ * @param entries - Files to include
+ * @returns Archive contents
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data =
+      typeof entry.data === "string"
+        ? Buffer.from(entry.data, "utf8")
+        : entry.data;
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0); // local file header signature
+    localHeader.writeUInt16LE(20, 4); // version needed to extract
+    localHeader.writeUInt16LE(0x0800, 6); // flags: UTF-8 file name
+    localHeader.writeUInt16LE(8, 8); // compression: DEFLATE
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28); // extra field length
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0); // central directory signature
+    centralHeader.writeUInt16LE(20, 4); // version made by
+    centralHeader.writeUInt16LE(20, 6); // version needed to extract
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(8, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(checksum, 16);
+    centralHeader.writeUInt32LE(compressed.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes are all zero
+    centralHeader.writeUInt32LE(offset, 42); // local header offset
+
+    localParts.push(localHeader, name, compressed);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+  end.writeUInt16LE(entries.length, 8); // entries on this disk
+  end.writeUInt16LE(entries.length, 10); // total entries
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16); // central directory offset
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Helpers for testing authenticated API routes
+ * @module test/auth
+ */
+
+import type { User } from "@supabase/supabase-js";
+import { NextRequest } from "next/server";
+import type { AuthResult } from "@/lib/auth/gateways/server";
+import type { UserRole } from "@/features/auth/schemas/role.schema";
+
+/**
+ * Creates a Supabase user holding a system role
+ *
+ * @param role - System role stored in app_metadata
+ * @param overrides - Fields merged into the user (app_metadata is merged too)
+ * @returns Supabase user object
+ */
+export function createTestUser(
+  role: UserRole,
+  overrides: Partial<User> = {}
+): User {
+  return {
+    id: crypto.randomUUID(),
+    aud: "authenticated",
+    email: `${role}@example.com`,
+    created_at: new Date().toISOString(),
+    user_metadata: {},
+    ...overrides,
+    app_metadata: { role, ...overrides.app_metadata },
+  };
+}
+
+/**
+ * Creates the auth result returned by `getAuth` for a user
+ *
+ * @param user - Signed-in user
+ * @returns Auth result with the user's system role
+ */
+export function createTestAuth(user: User): AuthResult {
+  return { user, role: user.app_metadata.role as UserRole };
+}
+
+/**
+ * Creates a request to an API route
+ *
+ * @param path - Request path, e.g. "/api/admin/users"
+ * @param init - Method and optional JSON body
+ * @returns Next.js request object
+ */
+export function createTestRequest(
+  path: string,
+  { method = "GET", body }: { method?: string; body?: unknown } = {}
+): NextRequest {
+  return new NextRequest(new URL(path, "http://localhost:3000"), {
+    method,
+    ...(body === undefined
+      ? {}
+      : {
+          body: JSON.stringify(body),
+          headers: { "Content-Type": "application/json" },
+        }),
+  });
+}
+
+/**
+ * Creates the route context Next.js passes to dynamic route handlers
+ *
+ * @param params - Route parameters
+ * @returns Route context with the parameters as a promise
+ */
+export function createRouteContext<P extends Record<string, string>>(
+  params: P
+): { params: Promise<P> } {
+  return { params: Promise.resolve(params) };
+}
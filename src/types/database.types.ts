@@ -63,6 +63,224 @@ export type Database = {
         };
         Relationships: [];
       };
+      custom_roles: {
+        Row: {
+          base_role: string;
+          conditional_permissions: Json;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          id: string;
+          name: string;
+          permissions: string[];
+          require_mfa: boolean;
+          revoked_permissions: string[];
+          updated_at: string;
+        };
+        Insert: {
+          base_role?: string;
+          conditional_permissions?: Json;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          name: string;
+          permissions: string[];
+          require_mfa?: boolean;
+          revoked_permissions?: string[];
+          updated_at?: string;
+        };
+        Update: {
+          base_role?: string;
+          conditional_permissions?: Json;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          permissions?: string[];
+          require_mfa?: boolean;
+          revoked_permissions?: string[];
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      impersonation_sessions: {
+        Row: {
+          actor_email: string | null;
+          actor_id: string | null;
+          allow_mutations: boolean;
+          ended_at: string | null;
+          expires_at: string;
+          id: string;
+          started_at: string;
+          target_email: string | null;
+          target_id: string | null;
+        };
+        Insert: {
+          actor_email?: string | null;
+          actor_id?: string | null;
+          allow_mutations?: boolean;
+          ended_at?: string | null;
+          expires_at: string;
+          id?: string;
+          started_at?: string;
+          target_email?: string | null;
+          target_id?: string | null;
+        };
+        Update: {
+          actor_email?: string | null;
+          actor_id?: string | null;
+          allow_mutations?: boolean;
+          ended_at?: string | null;
+          expires_at?: string;
+          id?: string;
+          started_at?: string;
+          target_email?: string | null;
+          target_id?: string | null;
+        };
+        Relationships: [];
+      };
+      invitations: {
+        Row: {
+          accepted_at: string | null;
+          accepted_by: string | null;
+          company_id: string | null;
+          created_at: string;
+          email: string;
+          expires_at: string;
+          full_name: string | null;
+          id: string;
+          invited_by: string | null;
+          last_sent_at: string;
+          revoked_at: string | null;
+          role: string;
+          token_hash: string;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          company_id?: string | null;
+          created_at?: string;
+          email: string;
+          expires_at: string;
+          full_name?: string | null;
+          id?: string;
+          invited_by?: string | null;
+          last_sent_at?: string;
+          revoked_at?: string | null;
+          role?: string;
+          token_hash: string;
+        };
+        Update: {
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          company_id?: string | null;
+          created_at?: string;
+          email?: string;
+          expires_at?: string;
+          full_name?: string | null;
+          id?: string;
+          invited_by?: string | null;
+          last_sent_at?: string;
+          revoked_at?: string | null;
+          role?: string;
+          token_hash?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "invitations_company_id_fkey";
+            columns: ["company_id"];
+            isOneToOne: false;
+            referencedRelation: "companies";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string;
+          created_at: string;
+          id: string;
+          used_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          code_hash: string;
+          created_at?: string;
+          id?: string;
+          used_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          code_hash?: string;
+          created_at?: string;
+          id?: string;
+          used_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      personal_access_tokens: {
+        Row: {
+          created_at: string;
+          expires_at: string;
+          id: string;
+          last_used_at: string | null;
+          name: string;
+          revoked_at: string | null;
+          scopes: string[];
+          token_hash: string;
+          token_prefix: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          expires_at: string;
+          id?: string;
+          last_used_at?: string | null;
+          name: string;
+          revoked_at?: string | null;
+          scopes: string[];
+          token_hash: string;
+          token_prefix: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          expires_at?: string;
+          id?: string;
+          last_used_at?: string | null;
+          name?: string;
+          revoked_at?: string | null;
+          scopes?: string[];
+          token_hash?: string;
+          token_prefix?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      profile_visibility_policy: {
+        Row: {
+          fields: Json;
+          id: boolean;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          fields?: Json;
+          id?: boolean;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          fields?: Json;
+          id?: boolean;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
       profiles: {
         Row: {
           address_1: string | null;
@@ -73,13 +291,17 @@ export type Database = {
           company_id: string | null;
           country: string | null;
           created_at: string;
+          custom_role_id: string | null;
           dashboard_layout_preferences: Json | null;
           deleted_at: string | null;
           email: string | null;
+          field_visibility: Json;
           full_name: string | null;
           id: string;
           phone: string | null;
           postal_code: string | null;
+          purge_after: string | null;
+          role: string;
           state: string | null;
           title: string | null;
           updated_at: string;
@@ -93,13 +315,17 @@ export type Database = {
           company_id?: string | null;
           country?: string | null;
           created_at?: string;
+          custom_role_id?: string | null;
           dashboard_layout_preferences?: Json | null;
           deleted_at?: string | null;
           email?: string | null;
+          field_visibility?: Json;
           full_name?: string | null;
           id: string;
           phone?: string | null;
           postal_code?: string | null;
+          purge_after?: string | null;
+          role?: string;
           state?: string | null;
           title?: string | null;
           updated_at?: string;
@@ -113,13 +339,17 @@ export type Database = {
           company_id?: string | null;
           country?: string | null;
           created_at?: string;
+          custom_role_id?: string | null;
           dashboard_layout_preferences?: Json | null;
           deleted_at?: string | null;
           email?: string | null;
+          field_visibility?: Json;
           full_name?: string | null;
           id?: string;
           phone?: string | null;
           postal_code?: string | null;
+          purge_after?: string | null;
+          role?: string;
           state?: string | null;
           title?: string | null;
           updated_at?: string;
@@ -132,14 +362,224 @@ export type Database = {
             referencedRelation: "companies";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "profiles_custom_role_id_fkey";
+            columns: ["custom_role_id"];
+            isOneToOne: false;
+            referencedRelation: "custom_roles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      rate_limits: {
+        Row: {
+          hits: number;
+          key: string;
+          reset_at: string;
+        };
+        Insert: {
+          hits?: number;
+          key: string;
+          reset_at: string;
+        };
+        Update: {
+          hits?: number;
+          key?: string;
+          reset_at?: string;
+        };
+        Relationships: [];
+      };
+      signup_policy: {
+        Row: {
+          allowed_domains: string[];
+          blocked_domains: string[];
+          id: boolean;
+          invite_only: boolean;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          allowed_domains?: string[];
+          blocked_domains?: string[];
+          id?: boolean;
+          invite_only?: boolean;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          allowed_domains?: string[];
+          blocked_domains?: string[];
+          id?: boolean;
+          invite_only?: boolean;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      user_sessions: {
+        Row: {
+          created_at: string;
+          id: string;
+          ip_address: string | null;
+          last_seen_at: string;
+          user_agent: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id: string;
+          ip_address?: string | null;
+          last_seen_at?: string;
+          user_agent?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          ip_address?: string | null;
+          last_seen_at?: string;
+          user_agent?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      webhook_deliveries: {
+        Row: {
+          attempts: number;
+          created_at: string;
+          error: string | null;
+          event_id: string;
+          event_type: string;
+          id: string;
+          last_attempt_at: string | null;
+          next_attempt_at: string | null;
+          payload: Json;
+          response_status: number | null;
+          status: string;
+          subscription_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string;
+          error?: string | null;
+          event_id: string;
+          event_type: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          next_attempt_at?: string | null;
+          payload: Json;
+          response_status?: number | null;
+          status?: string;
+          subscription_id: string;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string;
+          error?: string | null;
+          event_id?: string;
+          event_type?: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          next_attempt_at?: string | null;
+          payload?: Json;
+          response_status?: number | null;
+          status?: string;
+          subscription_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey";
+            columns: ["subscription_id"];
+            isOneToOne: false;
+            referencedRelation: "webhook_subscriptions";
+            referencedColumns: ["id"];
+          },
         ];
       };
+      webhook_subscriptions: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          event_types: string[];
+          id: string;
+          is_active: boolean;
+          secret: string;
+          updated_at: string;
+          url: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          event_types: string[];
+          id?: string;
+          is_active?: boolean;
+          secret: string;
+          updated_at?: string;
+          url: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          event_types?: string[];
+          id?: string;
+          is_active?: boolean;
+          secret?: string;
+          updated_at?: string;
+          url?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      can_access_company_profile: {
+        Args: { profile_company_id: string };
+        Returns: boolean;
+      };
+      current_user_company_id: {
+        Args: never;
+        Returns: string;
+      };
+      has_permission: {
+        Args: { permission: string };
+        Returns: boolean;
+      };
+      hit_rate_limit: {
+        Args: { limit_key: string; window_seconds: number };
+        Returns: {
+          hits: number;
+          reset_at: string;
+        }[];
+      };
+      is_superadmin: {
+        Args: never;
+        Returns: boolean;
+      };
+      permission_matches: {
+        Args: { granted: string; required: string };
+        Returns: boolean;
+      };
+      revoke_user_session: {
+        Args: { target_session_id: string };
+        Returns: boolean;
+      };
+      revoke_user_sessions: {
+        Args: { target_user_id: string };
+        Returns: number;
+      };
+      role_default_permissions: {
+        Args: { role: string };
+        Returns: string[];
+      };
+      touch_user_session: {
+        Args: { ip_address: string; user_agent: string };
+        Returns: undefined;
+      };
     };
     Enums: {
       [_ in never]: never;
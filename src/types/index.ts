@@ -1,4 +1,6 @@
 import { Icons } from "@/components/icons";
+import type { UserRole } from "@/features/auth/schemas/role.schema";
+import type { Permission } from "@/lib/auth/permissions";
 
 export interface NavItem {
   title: string;
@@ -10,6 +12,10 @@ export interface NavItem {
   label?: string;
   description?: string;
   isActive?: boolean;
+  /** Minimum role required to see the item (visible to everyone if omitted) */
+  minRole?: UserRole;
+  /** Permission required to see the item (visible to everyone if omitted) */
+  permission?: Permission;
   items?: NavItem[];
 }
 
@@ -1,13 +1,43 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
 import { env } from "@/lib/env";
+import { getClientIp } from "@/lib/client-ip";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+  getCustomRoleIdToResolve,
+  resolveConditionalPermissions,
+  resolveUserPermissions,
+  type ResolvableCustomRole,
+} from "@/lib/auth/permission-resolver";
+import {
+  FORBIDDEN_PATH,
+  canAccessRoute,
+  getRoutePermissionRule,
+} from "@/lib/auth/route-permissions";
+import { ACCOUNT_DEACTIVATED_PATH } from "@/lib/auth/account-status";
+import { MFA_PATH, hasMfaRequiredRole } from "@/lib/auth/mfa-policy";
+import {
+  IMPERSONATION_COOKIE,
+  isImpersonationBlockedRequest,
+} from "@/lib/auth/impersonation";
+import {
+  SESSION_TOUCH_COOKIE,
+  formatSessionTouchCookie,
+  getAccessTokenSessionId,
+  isSessionTouchDue,
+} from "@/lib/auth/sessions";
 
 /**
  * Updates the Supabase session by refreshing expired tokens and syncing cookies
  * This middleware helper is called from Next.js middleware to handle session management
  *
  * @param request - The incoming Next.js request
- * @returns NextResponse with updated session cookies or redirect to sign-in
+ * @returns NextResponse with updated session cookies, a redirect to sign-in
+ * (unauthenticated or no profile), the account deactivated page (soft-deleted
+ * profile), the MFA page (MFA policy not satisfied) or the forbidden page
+ * (missing route permission), or a 403 for API
+ * requests from deactivated accounts and accounts without a profile and write
+ * API requests during a read-only impersonation session
  */
 export async function updateSession(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -45,11 +75,7 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
 
-  // TODO: After feature development, implement permission-based route protection
-  // Currently all authenticated users can access /admin/* routes
-  // Future: Check specific permissions (e.g., PERMISSIONS.users.view) per route pattern
-
-  // Protect admin and superadmin routes - require authentication only
+  // Protect admin and superadmin routes - require authentication
   const isProtectedRoute =
     request.nextUrl.pathname.startsWith("/admin") ||
     request.nextUrl.pathname.startsWith("/superadmin");
@@ -61,6 +87,259 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
+  const isApiRoute = request.nextUrl.pathname.startsWith("/api/");
+  const isTrackedRoute = isProtectedRoute || isApiRoute;
+
+  // Permission-based route protection (see ROUTE_PERMISSIONS)
+  // Permissions are only resolved for routes that declare a requirement,
+  // and the custom role is only loaded for users that have one
+  const routeRule = user
+    ? getRoutePermissionRule(request.nextUrl.pathname)
+    : null;
+
+  // Superadmin impersonation (see lib/auth/impersonation). RLS only returns
+  // sessions to superadmins, so the cookie is ignored for anyone else.
+  const impersonationSessionId = user
+    ? request.cookies.get(IMPERSONATION_COOKIE)?.value
+    : undefined;
+
+  // The profile (with the custom role it mirrors) and the impersonation
+  // session are loaded in parallel, each in a single query. RLS hides deleted
+  // profiles from their owner, so the admin client is used.
+  const [
+    { data: profile, error: profileError },
+    { data: impersonationSession },
+  ] = await Promise.all([
+    user && (isTrackedRoute || routeRule)
+      ? createAdminClient()
+          .from("profiles")
+          .select(
+            "deleted_at, custom_role_id, custom_roles!profiles_custom_role_id_fkey(base_role, permissions, revoked_permissions, conditional_permissions, require_mfa)"
+          )
+          .eq("id", user.id)
+          .maybeSingle()
+      : { data: null, error: null },
+    user && impersonationSessionId
+      ? supabase
+          .from("impersonation_sessions")
+          .select("target_id, allow_mutations")
+          .eq("id", impersonationSessionId)
+          .eq("actor_id", user.id)
+          .is("ended_at", null)
+          .gt("expires_at", new Date().toISOString())
+          .maybeSingle()
+      : { data: null },
+  ]);
+
+  // Deactivated (soft-deleted) accounts are banned and signed out when
+  // deleted; this rejects any session or cookie that outlived that.
+  if (user && isTrackedRoute && profile?.deleted_at) {
+    const deactivatedResponse = isApiRoute
+      ? NextResponse.json(
+          {
+            error: "ACCOUNT_DEACTIVATED",
+            message: "This account has been deactivated",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 403 }
+        )
+      : NextResponse.redirect(
+          new URL(ACCOUNT_DEACTIVATED_PATH, request.nextUrl.origin)
+        );
+    supabaseResponse.cookies
+      .getAll()
+      .forEach((cookie) => deactivatedResponse.cookies.set(cookie));
+    return deactivatedResponse;
+  }
+
+  // Users without a profile never completed sign-up (the auth callback only
+  // creates one once the sign-up policy allows the user); sign them out
+  if (user && isTrackedRoute && !profile && !profileError) {
+    await supabase.auth.signOut();
+    const signUpResponse = isApiRoute
+      ? NextResponse.json(
+          {
+            error: "SIGNUP_INCOMPLETE",
+            message: "This account has not completed sign-up",
+            timestamp: new Date().toISOString(),
+          },
+          { status: 403 }
+        )
+      : NextResponse.redirect(
+          new URL("/auth/sign-in?error=signup_error", request.nextUrl.origin)
+        );
+    supabaseResponse.cookies
+      .getAll()
+      .forEach((cookie) => signUpResponse.cookies.set(cookie));
+    return signUpResponse;
+  }
+
+  // Session tracking for the Sessions panel (see lib/auth/sessions). Each
+  // session is touched at most once per SESSION_TOUCH_INTERVAL_MS, tracked in
+  // a cookie; tracking must not fail the request.
+  if (user && isTrackedRoute) {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const sessionId = session
+      ? getAccessTokenSessionId(session.access_token)
+      : null;
+
+    if (
+      sessionId &&
+      isSessionTouchDue(
+        request.cookies.get(SESSION_TOUCH_COOKIE)?.value,
+        sessionId
+      )
+    ) {
+      const { error } = await supabase.rpc("touch_user_session", {
+        user_agent: request.headers.get("user-agent"),
+        ip_address: getClientIp(request.headers),
+      });
+
+      if (!error) {
+        supabaseResponse.cookies.set(
+          SESSION_TOUCH_COOKIE,
+          formatSessionTouchCookie(sessionId),
+          {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: process.env.NODE_ENV === "production",
+            path: "/",
+          }
+        );
+      }
+    }
+  }
+
+  // A many-to-one embed is a single row (the admin client is untyped)
+  const profileCustomRole = profile?.custom_roles as unknown as
+    | (ResolvableCustomRole & { require_mfa: boolean })
+    | null
+    | undefined;
+
+  // MFA policy (see lib/auth/mfa). It applies to the user signed in to the
+  // session, so a superadmin must verify before impersonating anyone.
+  if (user && isProtectedRoute) {
+    let mfaRequired = hasMfaRequiredRole(user);
+    const customRoleId = user.app_metadata?.custom_role_id;
+
+    if (!mfaRequired && typeof customRoleId === "string") {
+      if (profile?.custom_role_id === customRoleId) {
+        mfaRequired = Boolean(profileCustomRole?.require_mfa);
+      } else {
+        const { data } = await supabase
+          .from("custom_roles")
+          .select("require_mfa")
+          .eq("id", customRoleId)
+          .maybeSingle();
+        mfaRequired = Boolean(data?.require_mfa);
+      }
+    }
+
+    if (mfaRequired) {
+      const { data: assurance } =
+        await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+      if (assurance?.currentLevel !== "aal2") {
+        const mfaResponse = NextResponse.redirect(
+          new URL(MFA_PATH, request.nextUrl.origin)
+        );
+        supabaseResponse.cookies
+          .getAll()
+          .forEach((cookie) => mfaResponse.cookies.set(cookie));
+        return mfaResponse;
+      }
+    }
+  }
+
+  // The target's ID is cleared when the user is deleted
+  const impersonation: { target_id: string; allow_mutations: boolean } | null =
+    impersonationSession?.target_id
+      ? {
+          target_id: impersonationSession.target_id,
+          allow_mutations: impersonationSession.allow_mutations,
+        }
+      : null;
+
+  // Read-only sessions cannot write through the API
+  if (
+    impersonation &&
+    !impersonation.allow_mutations &&
+    isImpersonationBlockedRequest(request.method, request.nextUrl.pathname)
+  ) {
+    const readOnlyResponse = NextResponse.json(
+      {
+        error: "IMPERSONATION_READ_ONLY",
+        message:
+          "Changes are disabled while impersonating. Stop impersonating or start a session that allows changes.",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 403 }
+    );
+    supabaseResponse.cookies
+      .getAll()
+      .forEach((cookie) => readOnlyResponse.cookies.set(cookie));
+    return readOnlyResponse;
+  }
+
+  if (user && routeRule) {
+    // While impersonating, routes are checked as the impersonated user
+    let routeUser = user;
+    if (impersonation) {
+      const {
+        data: { user: target },
+      } = await createAdminClient().auth.admin.getUserById(
+        impersonation.target_id
+      );
+      routeUser = target ?? user;
+    }
+
+    // app_metadata is the source of truth; the role embedded in the profile
+    // is only used while it matches
+    const customRoleId = getCustomRoleIdToResolve(routeUser);
+    let customRole: ResolvableCustomRole | null = null;
+
+    if (
+      customRoleId &&
+      routeUser.id === user.id &&
+      profile?.custom_role_id === customRoleId
+    ) {
+      customRole = profileCustomRole ?? null;
+    } else if (customRoleId) {
+      const { data } = await supabase
+        .from("custom_roles")
+        .select(
+          "base_role, permissions, revoked_permissions, conditional_permissions"
+        )
+        .eq("id", customRoleId)
+        .maybeSingle();
+      customRole = data;
+    }
+
+    // A conditional grant is enough to open the page; the page and its API
+    // apply the conditions to the rows shown
+    if (
+      !canAccessRoute(
+        routeRule,
+        resolveUserPermissions(routeUser, customRole),
+        resolveConditionalPermissions(routeUser, customRole)
+      )
+    ) {
+      const url = request.nextUrl.clone();
+      url.pathname = FORBIDDEN_PATH;
+      url.search = "";
+      url.searchParams.set("from", request.nextUrl.pathname);
+
+      // Keep any refreshed session cookies on the redirect
+      const forbiddenResponse = NextResponse.redirect(url);
+      supabaseResponse.cookies
+        .getAll()
+        .forEach((cookie) => forbiddenResponse.cookies.set(cookie));
+      return forbiddenResponse;
+    }
+  }
+
   // IMPORTANT: You *must* return the supabaseResponse object as it is. If you're
   // creating a new response object with NextResponse.next() make sure to:
   // 1. Pass the request in it, like so:
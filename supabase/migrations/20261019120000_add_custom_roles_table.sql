@@ -0,0 +1,98 @@
+-- Migration: Add custom_roles table
+-- Description: Creates the custom_roles table backing src/lib/auth/custom-roles.ts.
+--              Any authenticated user can read roles (needed for permission resolution);
+--              only superadmins (app_metadata.role = 'superadmin') can create, update or delete them.
+
+-- 1. Create helper to check superadmin role from the JWT
+CREATE OR REPLACE FUNCTION "public"."is_superadmin"() RETURNS boolean
+    LANGUAGE "sql" STABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT COALESCE(("auth"."jwt"() -> 'app_metadata' ->> 'role') = 'superadmin', false);
+$$;
+
+ALTER FUNCTION "public"."is_superadmin"() OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."is_superadmin"() IS 'Returns true when the requesting user has the superadmin system role (app_metadata.role)';
+
+-- 2. Create custom_roles table
+CREATE TABLE IF NOT EXISTS "public"."custom_roles" (
+    "id" "uuid" NOT NULL DEFAULT gen_random_uuid(),
+    "name" "text" NOT NULL,
+    "description" "text",
+    "permissions" "text"[] NOT NULL,
+    "created_by" "uuid" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "custom_roles_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "custom_roles_name_key" UNIQUE ("name"),
+    CONSTRAINT "custom_roles_name_format" CHECK ((("length"("name") <= 100) AND ("name" ~ '^[a-z0-9_-]+$'::"text"))),
+    CONSTRAINT "custom_roles_description_length" CHECK ((("description" IS NULL) OR ("length"("description") <= 500))),
+    CONSTRAINT "custom_roles_permissions_not_empty" CHECK (("cardinality"("permissions") > 0))
+);
+
+ALTER TABLE "public"."custom_roles" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."custom_roles" IS 'Superadmin-defined roles with a custom set of permissions, assigned via auth.users.app_metadata.custom_role_id';
+
+COMMENT ON COLUMN "public"."custom_roles"."id" IS 'Primary key (UUID)';
+
+COMMENT ON COLUMN "public"."custom_roles"."name" IS 'Role name (unique, lowercase letters, numbers, hyphens and underscores)';
+
+COMMENT ON COLUMN "public"."custom_roles"."description" IS 'Optional role description (max 500 characters)';
+
+COMMENT ON COLUMN "public"."custom_roles"."permissions" IS 'Permission strings granted by the role (see src/lib/auth/permissions.ts)';
+
+COMMENT ON COLUMN "public"."custom_roles"."created_by" IS 'Foreign key referencing auth.users.id of the superadmin who created the role';
+
+COMMENT ON COLUMN "public"."custom_roles"."created_at" IS 'Timestamp when role was created';
+
+COMMENT ON COLUMN "public"."custom_roles"."updated_at" IS 'Timestamp when role was last updated (automatically maintained)';
+
+-- 3. Add foreign key to the creating user
+ALTER TABLE ONLY "public"."custom_roles"
+    ADD CONSTRAINT "custom_roles_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "auth"."users"("id");
+
+-- 4. Create index on created_by for foreign key lookups
+CREATE INDEX "custom_roles_created_by_idx" ON "public"."custom_roles" USING "btree" ("created_by");
+
+-- 5. Create trigger for updated_at
+CREATE OR REPLACE TRIGGER "custom_roles_updated_at" BEFORE UPDATE ON "public"."custom_roles" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+-- 6. Grant permissions
+GRANT ALL ON FUNCTION "public"."is_superadmin"() TO "anon";
+GRANT ALL ON FUNCTION "public"."is_superadmin"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."is_superadmin"() TO "service_role";
+
+GRANT ALL ON TABLE "public"."custom_roles" TO "anon";
+GRANT ALL ON TABLE "public"."custom_roles" TO "authenticated";
+GRANT ALL ON TABLE "public"."custom_roles" TO "service_role";
+
+-- 7. Enable RLS on custom_roles table
+ALTER TABLE "public"."custom_roles" ENABLE ROW LEVEL SECURITY;
+
+-- 8. Create RLS policies for custom_roles
+-- Authenticated users can view roles (permission resolution reads the user's own custom role)
+CREATE POLICY "Authenticated users can view custom roles" ON "public"."custom_roles"
+    FOR SELECT
+    TO "authenticated"
+    USING (true);
+
+-- Only superadmins can create roles, and only in their own name
+CREATE POLICY "Superadmins can insert custom roles" ON "public"."custom_roles"
+    FOR INSERT
+    TO "authenticated"
+    WITH CHECK (("public"."is_superadmin"() AND ("created_by" = "auth"."uid"())));
+
+-- Only superadmins can update roles
+CREATE POLICY "Superadmins can update custom roles" ON "public"."custom_roles"
+    FOR UPDATE
+    TO "authenticated"
+    USING ("public"."is_superadmin"())
+    WITH CHECK ("public"."is_superadmin"());
+
+-- Only superadmins can delete roles
+CREATE POLICY "Superadmins can delete custom roles" ON "public"."custom_roles"
+    FOR DELETE
+    TO "authenticated"
+    USING ("public"."is_superadmin"());
@@ -0,0 +1,39 @@
+-- Migration: Custom roles extend a base system role
+-- Description: Custom roles now declare a base system role (member or admin) plus
+--              added (permissions) and revoked (revoked_permissions) permissions.
+--              The effective set is computed at resolution time in
+--              src/lib/auth/permission-resolver.ts.
+
+-- 1. Add base role and revoked permissions columns
+ALTER TABLE "public"."custom_roles"
+  ADD COLUMN "base_role" text DEFAULT 'member' NOT NULL,
+  ADD COLUMN "revoked_permissions" text[] DEFAULT '{}'::text[] NOT NULL;
+
+ALTER TABLE "public"."custom_roles"
+  ADD CONSTRAINT "custom_roles_base_role_check" CHECK (("base_role" = ANY (ARRAY['member'::"text", 'admin'::"text"])));
+
+COMMENT ON COLUMN "public"."custom_roles"."base_role" IS 'System role the custom role extends (member or admin); used for role hierarchy checks';
+COMMENT ON COLUMN "public"."custom_roles"."permissions" IS 'Permission strings granted in addition to the base role (see src/lib/auth/permissions.ts)';
+COMMENT ON COLUMN "public"."custom_roles"."revoked_permissions" IS 'Permission strings removed from the base role and added permissions';
+
+-- 2. A role may now only revoke permissions, so added permissions can be empty
+ALTER TABLE "public"."custom_roles" DROP CONSTRAINT IF EXISTS "custom_roles_permissions_not_empty";
+
+-- 3. Preserve the effective permissions of existing roles
+-- Existing roles replaced the system role entirely; as member-based roles they
+-- must revoke every member default they did not grant themselves.
+UPDATE "public"."custom_roles"
+SET "revoked_permissions" = ARRAY(
+  SELECT "member_permission"
+  FROM unnest(ARRAY[
+    'interviews.view',
+    'interviews.create',
+    'profiles.view',
+    'profiles.edit'
+  ]) AS "member_permission"
+  WHERE NOT (
+    "member_permission" = ANY ("permissions")
+    OR '*' = ANY ("permissions")
+    OR (split_part("member_permission", '.', 1) || '.*') = ANY ("permissions")
+  )
+);
@@ -0,0 +1,134 @@
+-- Migration: Company-scoped profile access for admins
+-- Description: Lets users with users.view / users.edit / users.delete read and modify other
+--              profiles through RLS. Without users.view_all they are limited to profiles that
+--              share their company_id, mirroring src/lib/auth/company-scope.ts.
+--              Permission resolution mirrors src/lib/auth/permission-resolver.ts.
+
+-- 1. Create helper matching a granted permission against a required one (see matchesPermission)
+CREATE OR REPLACE FUNCTION "public"."permission_matches"("granted" "text", "required" "text") RETURNS boolean
+    LANGUAGE "sql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT "granted" = '*'
+      OR "granted" = "required"
+      OR ("right"("granted", 2) = '.*' AND "starts_with"("required", "left"("granted", -1)));
+$$;
+
+ALTER FUNCTION "public"."permission_matches"("granted" "text", "required" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") IS 'Returns true when a granted permission ("*", "users.*" or exact) covers the required permission';
+
+-- 2. Create helper returning system role default permissions (see ROLE_PERMISSIONS)
+CREATE OR REPLACE FUNCTION "public"."role_default_permissions"("role" "text") RETURNS "text"[]
+    LANGUAGE "sql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT CASE "role"
+    WHEN 'superadmin' THEN ARRAY['*']
+    WHEN 'admin' THEN ARRAY[
+      'interviews.view', 'interviews.create', 'interviews.edit', 'interviews.delete',
+      'interviews.view_all', 'users.view', 'users.view_all', 'companies.view', 'settings.view'
+    ]
+    ELSE ARRAY['interviews.view', 'interviews.create', 'profiles.view', 'profiles.edit']
+  END;
+$$;
+
+ALTER FUNCTION "public"."role_default_permissions"("role" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."role_default_permissions"("role" "text") IS 'Default permissions for a system role. Must be kept in sync with ROLE_PERMISSIONS in src/lib/auth/permissions.ts';
+
+-- 3. Create helper checking a permission for the requesting user
+CREATE OR REPLACE FUNCTION "public"."has_permission"("permission" "text") RETURNS boolean
+    LANGUAGE "plpgsql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  "app_metadata" "jsonb" := COALESCE("auth"."jwt"() -> 'app_metadata', '{}'::"jsonb");
+  "system_role" "text" := COALESCE("app_metadata" ->> 'role', 'member');
+  "granted" "text"[] := "public"."role_default_permissions"("system_role");
+  "revoked" "text"[] := '{}';
+  "custom_role" "record";
+BEGIN
+  IF "system_role" = 'superadmin' THEN
+    RETURN true;
+  END IF;
+
+  -- Custom roles extend their base role; a missing role falls back to the system role
+  SELECT "cr"."base_role", "cr"."permissions", "cr"."revoked_permissions"
+    INTO "custom_role"
+    FROM "public"."custom_roles" "cr"
+    WHERE "cr"."id"::"text" = "app_metadata" ->> 'custom_role_id';
+
+  IF FOUND THEN
+    "granted" := "public"."role_default_permissions"("custom_role"."base_role") || "custom_role"."permissions";
+    "revoked" := "custom_role"."revoked_permissions";
+  END IF;
+
+  RETURN EXISTS (SELECT 1 FROM "unnest"("granted") AS "g" WHERE "public"."permission_matches"("g", "permission"))
+    AND NOT EXISTS (SELECT 1 FROM "unnest"("revoked") AS "r" WHERE "public"."permission_matches"("r", "permission"));
+END;
+$$;
+
+ALTER FUNCTION "public"."has_permission"("permission" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."has_permission"("permission" "text") IS 'Returns true when the requesting user has the permission through their system role or custom role';
+
+-- 4. Create helper returning the requesting user's company (bypasses profiles RLS)
+CREATE OR REPLACE FUNCTION "public"."current_user_company_id"() RETURNS "uuid"
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  SELECT "company_id" FROM "public"."profiles" WHERE "id" = "auth"."uid"();
+$$;
+
+ALTER FUNCTION "public"."current_user_company_id"() OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."current_user_company_id"() IS 'Returns the company_id of the requesting user''s profile';
+
+-- 5. Create helper checking whether a profile is within the requesting user's company scope
+CREATE OR REPLACE FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") RETURNS boolean
+    LANGUAGE "sql" STABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT "public"."has_permission"('users.view_all')
+      OR ("profile_company_id" IS NOT NULL AND "profile_company_id" = "public"."current_user_company_id"());
+$$;
+
+ALTER FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") IS 'Returns true when the requesting user has users.view_all or shares the profile''s company';
+
+-- 6. Grant permissions
+GRANT ALL ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") TO "service_role";
+
+GRANT ALL ON FUNCTION "public"."role_default_permissions"("role" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."role_default_permissions"("role" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."role_default_permissions"("role" "text") TO "service_role";
+
+GRANT ALL ON FUNCTION "public"."has_permission"("permission" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."has_permission"("permission" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."has_permission"("permission" "text") TO "service_role";
+
+GRANT ALL ON FUNCTION "public"."current_user_company_id"() TO "anon";
+GRANT ALL ON FUNCTION "public"."current_user_company_id"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."current_user_company_id"() TO "service_role";
+
+GRANT ALL ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") TO "service_role";
+
+-- 7. Create RLS policies for admin access to profiles
+-- Admins can view profiles in scope (including soft-deleted ones, for restore)
+CREATE POLICY "Admins can view profiles in company scope" ON "public"."profiles"
+    FOR SELECT
+    TO "authenticated"
+    USING (("public"."has_permission"('users.view') AND "public"."can_access_company_profile"("company_id")));
+
+-- Admins can edit or (soft) delete profiles in scope; profiles cannot be moved out of scope
+CREATE POLICY "Admins can update profiles in company scope" ON "public"."profiles"
+    FOR UPDATE
+    TO "authenticated"
+    USING ((("public"."has_permission"('users.edit') OR "public"."has_permission"('users.delete')) AND "public"."can_access_company_profile"("company_id")))
+    WITH CHECK ((("public"."has_permission"('users.edit') OR "public"."has_permission"('users.delete')) AND "public"."can_access_company_profile"("company_id")));
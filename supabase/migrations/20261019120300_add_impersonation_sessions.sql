@@ -0,0 +1,64 @@
+-- Migration: Add impersonation_sessions table
+-- Description: Records superadmin "view as user" sessions (actor, target, start and stop).
+--              Rows are written with the service role by src/lib/auth/impersonation.ts and are
+--              never deleted, so the table doubles as the impersonation audit log.
+--              Only superadmins can read it; nobody can write through RLS.
+
+-- 1. Create impersonation_sessions table
+CREATE TABLE IF NOT EXISTS "public"."impersonation_sessions" (
+    "id" "uuid" NOT NULL DEFAULT gen_random_uuid(),
+    "actor_id" "uuid" NOT NULL,
+    "target_id" "uuid" NOT NULL,
+    "allow_mutations" boolean DEFAULT false NOT NULL,
+    "started_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "expires_at" timestamp with time zone NOT NULL,
+    "ended_at" timestamp with time zone,
+    CONSTRAINT "impersonation_sessions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "impersonation_sessions_not_self" CHECK (("actor_id" <> "target_id")),
+    CONSTRAINT "impersonation_sessions_expires_after_start" CHECK (("expires_at" > "started_at"))
+);
+
+ALTER TABLE "public"."impersonation_sessions" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."impersonation_sessions" IS 'Superadmin impersonation sessions; each row records who impersonated whom and when the session started and stopped';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."id" IS 'Primary key (UUID), stored in the impersonation_session cookie';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."actor_id" IS 'Foreign key referencing auth.users.id of the superadmin impersonating';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."target_id" IS 'Foreign key referencing auth.users.id of the impersonated user';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."allow_mutations" IS 'Whether write requests are allowed while impersonating (read-only by default)';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."started_at" IS 'Timestamp when impersonation started';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."expires_at" IS 'Timestamp after which the session is no longer honored';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."ended_at" IS 'Timestamp when the actor stopped impersonating (null = not explicitly stopped)';
+
+-- 2. Add foreign keys to the actor and target users
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_target_id_fkey" FOREIGN KEY ("target_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+-- 3. Create indexes for active session lookups and per-user history
+CREATE INDEX "impersonation_sessions_actor_id_active_idx" ON "public"."impersonation_sessions" USING "btree" ("actor_id") WHERE ("ended_at" IS NULL);
+
+CREATE INDEX "impersonation_sessions_target_id_idx" ON "public"."impersonation_sessions" USING "btree" ("target_id");
+
+-- 4. Grant permissions
+GRANT ALL ON TABLE "public"."impersonation_sessions" TO "anon";
+GRANT ALL ON TABLE "public"."impersonation_sessions" TO "authenticated";
+GRANT ALL ON TABLE "public"."impersonation_sessions" TO "service_role";
+
+-- 5. Enable RLS on impersonation_sessions table
+ALTER TABLE "public"."impersonation_sessions" ENABLE ROW LEVEL SECURITY;
+
+-- 6. Create RLS policies for impersonation_sessions
+-- Superadmins can view sessions (the middleware reads the active session to block writes)
+CREATE POLICY "Superadmins can view impersonation sessions" ON "public"."impersonation_sessions"
+    FOR SELECT
+    TO "authenticated"
+    USING ("public"."is_superadmin"());
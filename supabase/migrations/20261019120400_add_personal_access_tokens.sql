@@ -0,0 +1,69 @@
+-- Migration: Add personal_access_tokens table
+-- Description: Personal access tokens let scripts and services call the admin API with
+--              `Authorization: Bearer <token>`. Only a SHA-256 hash of each token is stored.
+--              Tokens are created and revoked with the service role by
+--              src/lib/auth/access-tokens.ts; owners can list their own tokens through RLS.
+
+-- 1. Create personal_access_tokens table
+CREATE TABLE IF NOT EXISTS "public"."personal_access_tokens" (
+    "id" "uuid" NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "token_prefix" "text" NOT NULL,
+    "token_hash" "text" NOT NULL,
+    "scopes" "text"[] NOT NULL,
+    "expires_at" timestamp with time zone NOT NULL,
+    "last_used_at" timestamp with time zone,
+    "revoked_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "personal_access_tokens_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "personal_access_tokens_token_hash_key" UNIQUE ("token_hash"),
+    CONSTRAINT "personal_access_tokens_name_length" CHECK ((("char_length"("name") >= 1) AND ("char_length"("name") <= 100))),
+    CONSTRAINT "personal_access_tokens_scopes_not_empty" CHECK (("cardinality"("scopes") > 0))
+);
+
+ALTER TABLE "public"."personal_access_tokens" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."personal_access_tokens" IS 'Personal access tokens for the admin API; only a hash of each token is stored';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."id" IS 'Primary key (UUID)';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."user_id" IS 'Foreign key referencing auth.users.id of the token owner';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."name" IS 'Owner-chosen token name (1-100 characters)';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."token_prefix" IS 'First characters of the token, shown so owners can recognize it';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."token_hash" IS 'SHA-256 hash (hex) of the token';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."scopes" IS 'Permission strings the token may use; effective permissions are the intersection with the owner''s current permissions';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."expires_at" IS 'Timestamp after which the token is rejected';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."last_used_at" IS 'Timestamp when the token last authenticated a request';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."revoked_at" IS 'Timestamp when the token was revoked (null = active)';
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."created_at" IS 'Timestamp when the token was created';
+
+-- 2. Add foreign key to the token owner
+ALTER TABLE ONLY "public"."personal_access_tokens"
+    ADD CONSTRAINT "personal_access_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+-- 3. Create index for listing a user's tokens
+CREATE INDEX "personal_access_tokens_user_id_idx" ON "public"."personal_access_tokens" USING "btree" ("user_id");
+
+-- 4. Grant permissions
+GRANT ALL ON TABLE "public"."personal_access_tokens" TO "anon";
+GRANT ALL ON TABLE "public"."personal_access_tokens" TO "authenticated";
+GRANT ALL ON TABLE "public"."personal_access_tokens" TO "service_role";
+
+-- 5. Enable RLS on personal_access_tokens table
+ALTER TABLE "public"."personal_access_tokens" ENABLE ROW LEVEL SECURITY;
+
+-- 6. Create RLS policies for personal_access_tokens
+-- Users can view their own tokens (writes go through the service role)
+CREATE POLICY "Users can view own access tokens" ON "public"."personal_access_tokens"
+    FOR SELECT
+    TO "authenticated"
+    USING (("auth"."uid"() = "user_id"));
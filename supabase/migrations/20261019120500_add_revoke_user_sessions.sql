@@ -0,0 +1,29 @@
+-- Migration: Revoke every auth session of a user
+-- Description: Soft-deleting a user bans the auth user and calls this function to delete
+--              their sessions (and, through the cascade, their refresh tokens), so existing
+--              sign-ins stop working immediately. Only the service role may call it.
+--              See src/lib/auth/account-status.ts.
+
+-- 1. Create function deleting a user's sessions
+CREATE OR REPLACE FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") RETURNS integer
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  "revoked_count" integer;
+BEGIN
+  DELETE FROM "auth"."sessions" WHERE "user_id" = "target_user_id";
+  GET DIAGNOSTICS "revoked_count" = ROW_COUNT;
+  RETURN "revoked_count";
+END;
+$$;
+
+ALTER FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") IS 'Deletes every auth session (and refresh token) of a user. Service role only';
+
+-- 2. Restrict execution to the service role
+REVOKE ALL ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") FROM "anon";
+REVOKE ALL ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") FROM "authenticated";
+GRANT ALL ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") TO "service_role";
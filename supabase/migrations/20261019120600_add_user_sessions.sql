@@ -0,0 +1,104 @@
+-- Migration: Track active sign-in sessions
+-- Description: Records the device (user agent), IP address and last activity of each Supabase
+--              auth session so users and admins can review and sign out sessions.
+--              Rows are keyed by auth.sessions.id and removed with the auth session.
+--              The middleware calls touch_user_session() on authenticated requests.
+--              See src/lib/auth/sessions.ts.
+
+-- 1. Create user_sessions table
+CREATE TABLE IF NOT EXISTS "public"."user_sessions" (
+    "id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "user_agent" "text",
+    "ip_address" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "last_seen_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."user_sessions" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."user_sessions" IS 'Device and activity details of active Supabase auth sessions, maintained by the middleware';
+COMMENT ON COLUMN "public"."user_sessions"."id" IS 'Primary key matching auth.sessions.id (the session_id JWT claim)';
+COMMENT ON COLUMN "public"."user_sessions"."user_id" IS 'Foreign key referencing auth.users.id of the session owner';
+COMMENT ON COLUMN "public"."user_sessions"."user_agent" IS 'User-Agent header of the most recent request';
+COMMENT ON COLUMN "public"."user_sessions"."ip_address" IS 'Client IP address of the most recent request';
+COMMENT ON COLUMN "public"."user_sessions"."created_at" IS 'Timestamp when the session was first seen';
+COMMENT ON COLUMN "public"."user_sessions"."last_seen_at" IS 'Timestamp of the most recent request (updated at most once a minute)';
+
+-- 2. Add constraints
+ALTER TABLE ONLY "public"."user_sessions"
+    ADD CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."user_sessions"
+    ADD CONSTRAINT "user_sessions_id_fkey" FOREIGN KEY ("id") REFERENCES "auth"."sessions"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."user_sessions"
+    ADD CONSTRAINT "user_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+-- 3. Create indexes
+CREATE INDEX "user_sessions_user_id_idx" ON "public"."user_sessions" USING "btree" ("user_id");
+
+-- 4. Create function recording activity for the requesting session
+CREATE OR REPLACE FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") RETURNS void
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  "current_session_id" "uuid" := NULLIF("auth"."jwt"() ->> 'session_id', '')::"uuid";
+BEGIN
+  IF "current_session_id" IS NULL OR "auth"."uid"() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO "public"."user_sessions" ("id", "user_id", "user_agent", "ip_address")
+  SELECT "current_session_id", "auth"."uid"(), "touch_user_session"."user_agent", "touch_user_session"."ip_address"
+  WHERE EXISTS (SELECT 1 FROM "auth"."sessions" WHERE "id" = "current_session_id")
+  ON CONFLICT ("id") DO UPDATE
+    SET "last_seen_at" = "now"(),
+        "user_agent" = EXCLUDED."user_agent",
+        "ip_address" = EXCLUDED."ip_address"
+    WHERE "public"."user_sessions"."last_seen_at" < "now"() - interval '1 minute';
+END;
+$$;
+
+ALTER FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") IS 'Records the requesting session (session_id JWT claim) in user_sessions, updating last_seen_at at most once a minute';
+
+-- 5. Create function deleting a single auth session
+CREATE OR REPLACE FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  DELETE FROM "auth"."sessions" WHERE "id" = "target_session_id";
+  RETURN FOUND;
+END;
+$$;
+
+ALTER FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") IS 'Deletes one auth session (and its refresh tokens). Service role only';
+
+-- 6. Restrict execution
+REVOKE ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") FROM "anon";
+GRANT ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") TO "service_role";
+
+REVOKE ALL ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") FROM "anon";
+REVOKE ALL ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") FROM "authenticated";
+GRANT ALL ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") TO "service_role";
+
+-- 7. Enable RLS
+ALTER TABLE "public"."user_sessions" ENABLE ROW LEVEL SECURITY;
+
+-- 8. Create RLS policies
+-- Users can view their own sessions; writes go through the functions above or the service role
+CREATE POLICY "Users can view own sessions" ON "public"."user_sessions" FOR SELECT TO "authenticated" USING (("auth"."uid"() = "user_id"));
+
+-- 9. Grant table permissions
+GRANT ALL ON TABLE "public"."user_sessions" TO "anon";
+GRANT ALL ON TABLE "public"."user_sessions" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_sessions" TO "service_role";
@@ -0,0 +1,47 @@
+-- Migration: TOTP multi-factor authentication support
+-- Description: Adds single-use recovery codes for users who lose their authenticator, and a
+--              require_mfa flag that puts holders of a custom role under the MFA policy
+--              (admins and superadmins always are). Factors themselves are managed by
+--              Supabase Auth MFA. See src/lib/auth/mfa.ts.
+
+-- 1. Add require_mfa to custom roles
+ALTER TABLE "public"."custom_roles"
+    ADD COLUMN IF NOT EXISTS "require_mfa" boolean DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN "public"."custom_roles"."require_mfa" IS 'Whether holders must use two-factor authentication (AAL2) to pass role checks';
+
+-- 2. Create mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS "public"."mfa_recovery_codes" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "code_hash" "text" NOT NULL,
+    "used_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."mfa_recovery_codes" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."mfa_recovery_codes" IS 'Single-use MFA recovery codes; only a hash of each code is stored';
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."id" IS 'Primary key (UUID)';
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."user_id" IS 'Foreign key referencing auth.users.id of the code owner';
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."code_hash" IS 'SHA-256 hash (hex) of the normalized code';
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."used_at" IS 'Timestamp when the code was redeemed (null = unused)';
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."created_at" IS 'Timestamp when the code was generated';
+
+-- 3. Add constraints
+ALTER TABLE ONLY "public"."mfa_recovery_codes"
+    ADD CONSTRAINT "mfa_recovery_codes_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."mfa_recovery_codes"
+    ADD CONSTRAINT "mfa_recovery_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+-- 4. Create indexes
+CREATE INDEX "mfa_recovery_codes_user_id_idx" ON "public"."mfa_recovery_codes" USING "btree" ("user_id");
+
+-- 5. Enable RLS (no policies: codes are only read and written with the service role)
+ALTER TABLE "public"."mfa_recovery_codes" ENABLE ROW LEVEL SECURITY;
+
+-- 6. Grant table permissions
+GRANT ALL ON TABLE "public"."mfa_recovery_codes" TO "anon";
+GRANT ALL ON TABLE "public"."mfa_recovery_codes" TO "authenticated";
+GRANT ALL ON TABLE "public"."mfa_recovery_codes" TO "service_role";
@@ -0,0 +1,69 @@
+-- Migration: User invitations
+-- Description: Tracks invitations sent to new users. The invitee's account and profile are
+--              created when they accept (see src/features/invitations/lib/invitation-service.ts);
+--              only a hash of the invitation token is stored.
+
+-- 1. Create invitations table
+CREATE TABLE IF NOT EXISTS "public"."invitations" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "email" "text" NOT NULL,
+    "full_name" "text",
+    "role" "text" DEFAULT 'member'::"text" NOT NULL,
+    "company_id" "uuid",
+    "token_hash" "text" NOT NULL,
+    "invited_by" "uuid",
+    "expires_at" timestamp with time zone NOT NULL,
+    "accepted_at" timestamp with time zone,
+    "accepted_by" "uuid",
+    "revoked_at" timestamp with time zone,
+    "last_sent_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "invitations_role_check" CHECK (("role" = ANY (ARRAY['member'::"text", 'admin'::"text", 'superadmin'::"text"])))
+);
+
+ALTER TABLE "public"."invitations" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."invitations" IS 'Invitations to join the application; only a hash of each invitation token is stored';
+COMMENT ON COLUMN "public"."invitations"."id" IS 'Primary key (UUID)';
+COMMENT ON COLUMN "public"."invitations"."email" IS 'Email address the invitation was sent to';
+COMMENT ON COLUMN "public"."invitations"."full_name" IS 'Optional name of the invitee, copied to the profile on acceptance';
+COMMENT ON COLUMN "public"."invitations"."role" IS 'System role granted on acceptance (member, admin or superadmin)';
+COMMENT ON COLUMN "public"."invitations"."company_id" IS 'Company the invitee joins (null = assigned by email domain)';
+COMMENT ON COLUMN "public"."invitations"."token_hash" IS 'SHA-256 hash (hex) of the invitation token';
+COMMENT ON COLUMN "public"."invitations"."invited_by" IS 'Foreign key referencing auth.users.id of the inviter';
+COMMENT ON COLUMN "public"."invitations"."expires_at" IS 'Timestamp after which the invitation can no longer be accepted';
+COMMENT ON COLUMN "public"."invitations"."accepted_at" IS 'Timestamp when the invitation was accepted (null = not accepted)';
+COMMENT ON COLUMN "public"."invitations"."accepted_by" IS 'Foreign key referencing auth.users.id of the user created on acceptance';
+COMMENT ON COLUMN "public"."invitations"."revoked_at" IS 'Timestamp when the invitation was revoked (null = not revoked)';
+COMMENT ON COLUMN "public"."invitations"."last_sent_at" IS 'Timestamp when the invitation email was last sent';
+COMMENT ON COLUMN "public"."invitations"."created_at" IS 'Timestamp when the invitation was created';
+
+-- 2. Add constraints
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_token_hash_key" UNIQUE ("token_hash");
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_accepted_by_fkey" FOREIGN KEY ("accepted_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_invited_by_fkey" FOREIGN KEY ("invited_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+-- 3. Create indexes
+CREATE INDEX "invitations_company_id_idx" ON "public"."invitations" USING "btree" ("company_id") WHERE ("company_id" IS NOT NULL);
+
+-- At most one pending invitation per email address
+CREATE UNIQUE INDEX "invitations_pending_email_key" ON "public"."invitations" USING "btree" ("lower"("email")) WHERE (("accepted_at" IS NULL) AND ("revoked_at" IS NULL));
+
+-- 4. Enable RLS (no policies: invitations are only read and written with the service role)
+ALTER TABLE "public"."invitations" ENABLE ROW LEVEL SECURITY;
+
+-- 5. Grant table permissions
+GRANT ALL ON TABLE "public"."invitations" TO "anon";
+GRANT ALL ON TABLE "public"."invitations" TO "authenticated";
+GRANT ALL ON TABLE "public"."invitations" TO "service_role";
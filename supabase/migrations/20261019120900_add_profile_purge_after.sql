@@ -0,0 +1,13 @@
+-- Migration: Self-service account deletion
+-- Description: Users can delete their own account. The profile is soft-deleted immediately and
+--              purge_after records when the account is permanently removed; restoring the user
+--              before then cancels the deletion. See src/features/users/lib/account-deletion.ts.
+
+-- 1. Add purge_after to profiles
+ALTER TABLE "public"."profiles"
+    ADD COLUMN IF NOT EXISTS "purge_after" timestamp with time zone;
+
+COMMENT ON COLUMN "public"."profiles"."purge_after" IS 'Timestamp after which a self-deleted account is permanently removed (null = not scheduled)';
+
+-- 2. Create index for the purge job
+CREATE INDEX IF NOT EXISTS "profiles_purge_after_idx" ON "public"."profiles" USING "btree" ("purge_after") WHERE ("purge_after" IS NOT NULL);
@@ -0,0 +1,46 @@
+-- Migration: Sign-up policy
+-- Description: Single-row table holding the admin-configurable sign-up rules (allowed and blocked
+--              email domains, invite-only mode). Enforced when a new user's profile is created
+--              (see src/lib/auth/signup-policy.ts).
+
+-- 1. Create signup_policy table
+CREATE TABLE IF NOT EXISTS "public"."signup_policy" (
+    "id" boolean DEFAULT true NOT NULL,
+    "allowed_domains" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "blocked_domains" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "invite_only" boolean DEFAULT false NOT NULL,
+    "updated_by" "uuid",
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "signup_policy_singleton_check" CHECK ("id")
+);
+
+ALTER TABLE "public"."signup_policy" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."signup_policy" IS 'Sign-up rules for new users (single row)';
+COMMENT ON COLUMN "public"."signup_policy"."id" IS 'Primary key (always true, restricts the table to one row)';
+COMMENT ON COLUMN "public"."signup_policy"."allowed_domains" IS 'Lowercase email domains allowed to sign up (empty = any domain)';
+COMMENT ON COLUMN "public"."signup_policy"."blocked_domains" IS 'Lowercase email domains that may not sign up (checked before allowed_domains)';
+COMMENT ON COLUMN "public"."signup_policy"."invite_only" IS 'When true, only users with a pending invitation can sign up';
+COMMENT ON COLUMN "public"."signup_policy"."updated_by" IS 'Foreign key referencing auth.users.id of the last editor';
+COMMENT ON COLUMN "public"."signup_policy"."updated_at" IS 'Timestamp when the policy was last updated (automatically maintained)';
+
+-- 2. Add constraints
+ALTER TABLE ONLY "public"."signup_policy"
+    ADD CONSTRAINT "signup_policy_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."signup_policy"
+    ADD CONSTRAINT "signup_policy_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+-- 3. Create trigger
+CREATE OR REPLACE TRIGGER "signup_policy_updated_at" BEFORE UPDATE ON "public"."signup_policy" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+-- 4. Seed the default (open) policy
+INSERT INTO "public"."signup_policy" ("id") VALUES (true) ON CONFLICT ("id") DO NOTHING;
+
+-- 5. Enable RLS (no policies: the policy is only read and written with the service role)
+ALTER TABLE "public"."signup_policy" ENABLE ROW LEVEL SECURITY;
+
+-- 6. Grant table permissions
+GRANT ALL ON TABLE "public"."signup_policy" TO "anon";
+GRANT ALL ON TABLE "public"."signup_policy" TO "authenticated";
+GRANT ALL ON TABLE "public"."signup_policy" TO "service_role";
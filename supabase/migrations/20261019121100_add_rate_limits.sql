@@ -0,0 +1,52 @@
+-- Migration: Rate limit counters
+-- Description: Fixed-window request counters for the Postgres rate limit store
+--              (see src/lib/rate-limit/stores.ts). Counters are shared by every server
+--              instance; only the service role reads or writes them.
+
+-- 1. Create rate_limits table
+CREATE TABLE IF NOT EXISTS "public"."rate_limits" (
+    "key" "text" NOT NULL,
+    "hits" integer DEFAULT 0 NOT NULL,
+    "reset_at" timestamp with time zone NOT NULL
+);
+
+ALTER TABLE "public"."rate_limits" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."rate_limits" IS 'Fixed-window rate limit counters; expired rows are reset on the next hit and can be deleted at any time';
+COMMENT ON COLUMN "public"."rate_limits"."key" IS 'Primary key: rule name and subject (e.g. otp-send:email:user@example.com)';
+COMMENT ON COLUMN "public"."rate_limits"."hits" IS 'Number of hits in the current window';
+COMMENT ON COLUMN "public"."rate_limits"."reset_at" IS 'Timestamp when the current window ends';
+
+-- 2. Add constraints
+ALTER TABLE ONLY "public"."rate_limits"
+    ADD CONSTRAINT "rate_limits_pkey" PRIMARY KEY ("key");
+
+-- 3. Create function recording a hit
+CREATE OR REPLACE FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) RETURNS TABLE("hits" integer, "reset_at" timestamp with time zone)
+    LANGUAGE "sql"
+    SET "search_path" TO ''
+    AS $$
+  INSERT INTO "public"."rate_limits" AS "counter" ("key", "hits", "reset_at")
+  VALUES ("limit_key", 1, "now"() + "make_interval"("secs" => "window_seconds"))
+  ON CONFLICT ("key") DO UPDATE
+    SET "hits" = CASE WHEN "counter"."reset_at" <= "now"() THEN 1 ELSE "counter"."hits" + 1 END,
+        "reset_at" = CASE WHEN "counter"."reset_at" <= "now"() THEN EXCLUDED."reset_at" ELSE "counter"."reset_at" END
+  RETURNING "counter"."hits", "counter"."reset_at";
+$$;
+
+ALTER FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) IS 'Atomically counts a hit against a rate limit key, starting a new window when the previous one has ended. Service role only';
+
+-- 4. Enable RLS (no policies: counters are only accessed with the service role)
+ALTER TABLE "public"."rate_limits" ENABLE ROW LEVEL SECURITY;
+
+-- 5. Grant permissions
+REVOKE ALL ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) FROM "anon";
+REVOKE ALL ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) FROM "authenticated";
+GRANT ALL ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) TO "service_role";
+
+GRANT ALL ON TABLE "public"."rate_limits" TO "anon";
+GRANT ALL ON TABLE "public"."rate_limits" TO "authenticated";
+GRANT ALL ON TABLE "public"."rate_limits" TO "service_role";
@@ -0,0 +1,48 @@
+-- Migration: Profile field visibility
+-- Description: Single-row table holding the admin-configurable visibility of profile fields shown
+--              to other users, and a per-profile column where users tighten the visibility of
+--              their own fields (see src/lib/auth/profile-visibility.ts).
+
+-- 1. Create profile_visibility_policy table
+CREATE TABLE IF NOT EXISTS "public"."profile_visibility_policy" (
+    "id" boolean DEFAULT true NOT NULL,
+    "fields" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "updated_by" "uuid",
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "profile_visibility_policy_singleton_check" CHECK ("id")
+);
+
+ALTER TABLE "public"."profile_visibility_policy" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."profile_visibility_policy" IS 'Default visibility of profile fields shown to other users (single row)';
+COMMENT ON COLUMN "public"."profile_visibility_policy"."id" IS 'Primary key (always true, restricts the table to one row)';
+COMMENT ON COLUMN "public"."profile_visibility_policy"."fields" IS 'Per-field policy: {"<field>": {"visibility": "self|admins|company|everyone", "user_configurable": boolean}}; missing fields use the application defaults';
+COMMENT ON COLUMN "public"."profile_visibility_policy"."updated_by" IS 'Foreign key referencing auth.users.id of the last editor';
+COMMENT ON COLUMN "public"."profile_visibility_policy"."updated_at" IS 'Timestamp when the policy was last updated (automatically maintained)';
+
+-- 2. Add field_visibility column to profiles
+ALTER TABLE "public"."profiles"
+    ADD COLUMN IF NOT EXISTS "field_visibility" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL;
+
+COMMENT ON COLUMN "public"."profiles"."field_visibility" IS 'Fields the user has made less visible than the policy: {"<field>": "self|admins|company"}';
+
+-- 3. Add constraints
+ALTER TABLE ONLY "public"."profile_visibility_policy"
+    ADD CONSTRAINT "profile_visibility_policy_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."profile_visibility_policy"
+    ADD CONSTRAINT "profile_visibility_policy_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+-- 4. Create trigger
+CREATE OR REPLACE TRIGGER "profile_visibility_policy_updated_at" BEFORE UPDATE ON "public"."profile_visibility_policy" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+-- 5. Seed the policy row (empty: every field uses the application default)
+INSERT INTO "public"."profile_visibility_policy" ("id") VALUES (true) ON CONFLICT ("id") DO NOTHING;
+
+-- 6. Enable RLS (no policies: the policy is only read and written with the service role)
+ALTER TABLE "public"."profile_visibility_policy" ENABLE ROW LEVEL SECURITY;
+
+-- 7. Grant table permissions
+GRANT ALL ON TABLE "public"."profile_visibility_policy" TO "anon";
+GRANT ALL ON TABLE "public"."profile_visibility_policy" TO "authenticated";
+GRANT ALL ON TABLE "public"."profile_visibility_policy" TO "service_role";
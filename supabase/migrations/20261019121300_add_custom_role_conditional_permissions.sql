@@ -0,0 +1,15 @@
+-- Migration: Conditional permissions on custom roles
+-- Description: Lets a custom role grant a permission only on resources that meet conditions
+--              (own, same_company, field_equals), e.g. "members may edit their own users".
+--              Conditions are evaluated by can() and compiled into list query filters by the
+--              application (see src/lib/auth/permission-conditions.ts); RLS keeps using the
+--              unconditional permissions only, so conditional grants never widen direct
+--              table access.
+
+ALTER TABLE "public"."custom_roles"
+    ADD COLUMN IF NOT EXISTS "conditional_permissions" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL;
+
+ALTER TABLE "public"."custom_roles"
+    ADD CONSTRAINT "custom_roles_conditional_permissions_array" CHECK (("jsonb_typeof"("conditional_permissions") = 'array'::"text"));
+
+COMMENT ON COLUMN "public"."custom_roles"."conditional_permissions" IS 'Permissions granted only on resources meeting conditions: [{"permission": "users.edit", "conditions": [{"type": "own"}]}]';
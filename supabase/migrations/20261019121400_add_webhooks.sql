@@ -0,0 +1,102 @@
+-- Migration: Outbound webhooks
+-- Description: Endpoints registered by admins to receive user and company events, and a log of
+--              every delivery attempt. Payloads are signed with the subscription's secret
+--              (HMAC-SHA256); failed deliveries are retried with backoff by the webhooks cron
+--              job (see src/features/webhooks/lib/webhook-delivery.ts).
+
+-- 1. Create webhook_subscriptions table
+CREATE TABLE IF NOT EXISTS "public"."webhook_subscriptions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "url" "text" NOT NULL,
+    "description" "text",
+    "event_types" "text"[] NOT NULL,
+    "secret" "text" NOT NULL,
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "webhook_subscriptions_description_length" CHECK ((("description" IS NULL) OR ("length"("description") <= 500))),
+    CONSTRAINT "webhook_subscriptions_event_types_not_empty" CHECK (("cardinality"("event_types") > 0)),
+    CONSTRAINT "webhook_subscriptions_url_format" CHECK (("url" ~ '^https?://'::"text"))
+);
+
+ALTER TABLE "public"."webhook_subscriptions" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."webhook_subscriptions" IS 'Endpoints that receive signed user and company events';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."id" IS 'Primary key (UUID)';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."url" IS 'HTTP(S) endpoint events are POSTed to';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."description" IS 'Optional description (max 500 characters)';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."event_types" IS 'Event types delivered to the endpoint (e.g. user.created)';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."secret" IS 'Signing secret for the HMAC-SHA256 X-Webhook-Signature header';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."is_active" IS 'Whether new events are delivered to the endpoint';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."created_by" IS 'Foreign key referencing auth.users.id of the admin who registered the endpoint';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."created_at" IS 'Timestamp when the endpoint was registered';
+COMMENT ON COLUMN "public"."webhook_subscriptions"."updated_at" IS 'Timestamp when the endpoint was last updated (automatically maintained)';
+
+-- 2. Create webhook_deliveries table
+CREATE TABLE IF NOT EXISTS "public"."webhook_deliveries" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "subscription_id" "uuid" NOT NULL,
+    "event_id" "uuid" NOT NULL,
+    "event_type" "text" NOT NULL,
+    "payload" "jsonb" NOT NULL,
+    "status" "text" DEFAULT 'pending'::"text" NOT NULL,
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "next_attempt_at" timestamp with time zone DEFAULT "now"(),
+    "last_attempt_at" timestamp with time zone,
+    "response_status" integer,
+    "error" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "webhook_deliveries_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'succeeded'::"text", 'failed'::"text"])))
+);
+
+ALTER TABLE "public"."webhook_deliveries" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."webhook_deliveries" IS 'One event delivery to one webhook endpoint, with the outcome of its latest attempt';
+COMMENT ON COLUMN "public"."webhook_deliveries"."id" IS 'Primary key (UUID), sent as the X-Webhook-Delivery header';
+COMMENT ON COLUMN "public"."webhook_deliveries"."subscription_id" IS 'Foreign key referencing webhook_subscriptions.id';
+COMMENT ON COLUMN "public"."webhook_deliveries"."event_id" IS 'Event ID, shared by the deliveries of one event to several endpoints';
+COMMENT ON COLUMN "public"."webhook_deliveries"."event_type" IS 'Event type (e.g. user.created)';
+COMMENT ON COLUMN "public"."webhook_deliveries"."payload" IS 'JSON body sent to the endpoint';
+COMMENT ON COLUMN "public"."webhook_deliveries"."status" IS 'pending (awaiting an attempt), succeeded (2xx response) or failed (attempts exhausted)';
+COMMENT ON COLUMN "public"."webhook_deliveries"."attempts" IS 'Number of delivery attempts made';
+COMMENT ON COLUMN "public"."webhook_deliveries"."next_attempt_at" IS 'When the next attempt is due (null once succeeded or failed)';
+COMMENT ON COLUMN "public"."webhook_deliveries"."last_attempt_at" IS 'Timestamp of the latest attempt';
+COMMENT ON COLUMN "public"."webhook_deliveries"."response_status" IS 'HTTP status of the latest attempt (null if no response)';
+COMMENT ON COLUMN "public"."webhook_deliveries"."error" IS 'Error of the latest failed attempt';
+COMMENT ON COLUMN "public"."webhook_deliveries"."created_at" IS 'Timestamp when the event was emitted';
+
+-- 3. Add constraints
+ALTER TABLE ONLY "public"."webhook_subscriptions"
+    ADD CONSTRAINT "webhook_subscriptions_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."webhook_subscriptions"
+    ADD CONSTRAINT "webhook_subscriptions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."webhook_deliveries"
+    ADD CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."webhook_deliveries"
+    ADD CONSTRAINT "webhook_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "public"."webhook_subscriptions"("id") ON DELETE CASCADE;
+
+-- 4. Create indexes
+CREATE INDEX "webhook_deliveries_subscription_id_created_at_idx" ON "public"."webhook_deliveries" USING "btree" ("subscription_id", "created_at" DESC);
+
+CREATE INDEX "webhook_deliveries_next_attempt_at_idx" ON "public"."webhook_deliveries" USING "btree" ("next_attempt_at") WHERE ("status" = 'pending'::"text");
+
+-- 5. Create trigger
+CREATE OR REPLACE TRIGGER "webhook_subscriptions_updated_at" BEFORE UPDATE ON "public"."webhook_subscriptions" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+-- 6. Enable RLS (no policies: webhooks are only read and written with the service role)
+ALTER TABLE "public"."webhook_deliveries" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."webhook_subscriptions" ENABLE ROW LEVEL SECURITY;
+
+-- 7. Grant table permissions
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "anon";
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "authenticated";
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "service_role";
+
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "anon";
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "authenticated";
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "service_role";
@@ -0,0 +1,71 @@
+-- Migration: Role columns on profiles
+-- Description: Mirrors each user's system role and custom role from auth.users app_metadata into
+--              profiles, so user lists can filter, sort and count by role in SQL instead of looking
+--              up every auth user. app_metadata stays the source of truth for authorization; the
+--              columns are written with the service role by syncProfileRole (src/lib/auth/roles.ts).
+
+-- 1. Add role columns to profiles
+ALTER TABLE "public"."profiles"
+    ADD COLUMN IF NOT EXISTS "role" "text" DEFAULT 'member'::"text" NOT NULL,
+    ADD COLUMN IF NOT EXISTS "custom_role_id" "uuid";
+
+COMMENT ON COLUMN "public"."profiles"."role" IS 'System role mirrored from auth.users app_metadata (member, admin or superadmin)';
+COMMENT ON COLUMN "public"."profiles"."custom_role_id" IS 'Custom role mirrored from auth.users app_metadata (null = none). Foreign key referencing custom_roles.id';
+
+-- 2. Add constraints
+ALTER TABLE "public"."profiles"
+    ADD CONSTRAINT "profiles_role_check" CHECK (("role" = ANY (ARRAY['member'::"text", 'admin'::"text", 'superadmin'::"text"])));
+
+ALTER TABLE ONLY "public"."profiles"
+    ADD CONSTRAINT "profiles_custom_role_id_fkey" FOREIGN KEY ("custom_role_id") REFERENCES "public"."custom_roles"("id") ON DELETE SET NULL;
+
+-- 3. Backfill from auth.users (same precedence as getUserRole: app_metadata, then user_metadata)
+UPDATE "public"."profiles" AS "p"
+SET
+    "role" = CASE
+        WHEN "u"."raw_app_meta_data"->>'role' IN ('member', 'admin', 'superadmin') THEN "u"."raw_app_meta_data"->>'role'
+        WHEN "u"."raw_app_meta_data"->>'custom_role_id' IS NULL
+            AND "u"."raw_user_meta_data"->>'role' IN ('member', 'admin', 'superadmin') THEN "u"."raw_user_meta_data"->>'role'
+        ELSE 'member'
+    END,
+    "custom_role_id" = (
+        SELECT "cr"."id" FROM "public"."custom_roles" AS "cr"
+        WHERE "cr"."id"::"text" = "u"."raw_app_meta_data"->>'custom_role_id'
+    )
+FROM "auth"."users" AS "u"
+WHERE "u"."id" = "p"."id";
+
+-- 4. Create indexes
+CREATE INDEX IF NOT EXISTS "profiles_role_idx" ON "public"."profiles" USING "btree" ("role");
+
+CREATE INDEX IF NOT EXISTS "profiles_custom_role_id_idx" ON "public"."profiles" USING "btree" ("custom_role_id") WHERE ("custom_role_id" IS NOT NULL);
+
+-- 5. Keep users from setting their own role columns
+-- "Users can insert/update own profile" let users write their profile row; the role columns are
+-- only written with the service role, so other callers keep the stored values.
+CREATE OR REPLACE FUNCTION "public"."protect_profile_role"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'member';
+      NEW.custom_role_id := NULL;
+    ELSE
+      NEW.role := OLD.role;
+      NEW.custom_role_id := OLD.custom_role_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION "public"."protect_profile_role"() OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."protect_profile_role"() IS 'Keeps anon and authenticated callers from writing profiles.role and profiles.custom_role_id';
+
+CREATE OR REPLACE TRIGGER "profiles_protect_role" BEFORE INSERT OR UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."protect_profile_role"();
+
+GRANT ALL ON FUNCTION "public"."protect_profile_role"() TO "anon";
+GRANT ALL ON FUNCTION "public"."protect_profile_role"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."protect_profile_role"() TO "service_role";
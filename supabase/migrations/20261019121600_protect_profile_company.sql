@@ -0,0 +1,36 @@
+-- Migration: Protect profiles.company_id
+-- Description: "Users can insert/update own profile" let users write any column of their profile
+--              row, including company_id, which the company-scoped policies and
+--              current_user_company_id() trust. Users could join any company by editing their own
+--              profile. company_id is now only written with the service role: by createProfile
+--              (company by email domain) and the admin user routes.
+
+-- 1. Reject company changes from anon and authenticated callers
+CREATE OR REPLACE FUNCTION "public"."protect_profile_company"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' AND NEW.company_id IS NOT NULL THEN
+      RAISE EXCEPTION 'profiles.company_id can only be set by an administrator'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.company_id IS DISTINCT FROM OLD.company_id THEN
+      RAISE EXCEPTION 'profiles.company_id can only be changed by an administrator'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION "public"."protect_profile_company"() OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."protect_profile_company"() IS 'Keeps anon and authenticated callers from writing profiles.company_id';
+
+CREATE OR REPLACE TRIGGER "profiles_protect_company" BEFORE INSERT OR UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."protect_profile_company"();
+
+-- 2. Grant permissions
+GRANT ALL ON FUNCTION "public"."protect_profile_company"() TO "anon";
+GRANT ALL ON FUNCTION "public"."protect_profile_company"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."protect_profile_company"() TO "service_role";
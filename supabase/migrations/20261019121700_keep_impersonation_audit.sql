@@ -0,0 +1,39 @@
+-- Migration: Keep impersonation sessions when users are deleted
+-- Description: impersonation_sessions doubles as the impersonation audit log, but its actor and
+--              target foreign keys cascaded, so deleting either user erased the record of who
+--              impersonated whom. Rows now outlive both users: the foreign keys are set to null on
+--              delete and the actor and target emails are stored on the row when a session starts.
+
+-- 1. Add email snapshot columns
+ALTER TABLE "public"."impersonation_sessions"
+    ADD COLUMN IF NOT EXISTS "actor_email" "text",
+    ADD COLUMN IF NOT EXISTS "target_email" "text";
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."actor_email" IS 'Email of the superadmin when the session started (kept after the user is deleted)';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."target_email" IS 'Email of the impersonated user when the session started (kept after the user is deleted)';
+
+-- 2. Backfill from auth.users
+UPDATE "public"."impersonation_sessions" AS "s"
+SET
+    "actor_email" = (SELECT "u"."email" FROM "auth"."users" AS "u" WHERE "u"."id" = "s"."actor_id"),
+    "target_email" = (SELECT "u"."email" FROM "auth"."users" AS "u" WHERE "u"."id" = "s"."target_id");
+
+-- 3. Keep rows when the actor or target is deleted
+ALTER TABLE "public"."impersonation_sessions"
+    ALTER COLUMN "actor_id" DROP NOT NULL,
+    ALTER COLUMN "target_id" DROP NOT NULL;
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."actor_id" IS 'Foreign key referencing auth.users.id of the superadmin impersonating (null once the user is deleted)';
+
+COMMENT ON COLUMN "public"."impersonation_sessions"."target_id" IS 'Foreign key referencing auth.users.id of the impersonated user (null once the user is deleted)';
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    DROP CONSTRAINT IF EXISTS "impersonation_sessions_actor_id_fkey",
+    DROP CONSTRAINT IF EXISTS "impersonation_sessions_target_id_fkey";
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_target_id_fkey" FOREIGN KEY ("target_id") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
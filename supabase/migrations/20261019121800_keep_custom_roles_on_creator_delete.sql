@@ -0,0 +1,18 @@
+-- Migration: Keep custom roles when their creator is deleted
+-- Description: custom_roles.created_by referenced auth.users without an ON DELETE action, so deleting
+--              a superadmin who had created a role failed. The account purge job retried those
+--              accounts on every run and never removed them. The creator is now cleared instead,
+--              like webhook_subscriptions.created_by.
+
+-- 1. Allow roles without a creator
+ALTER TABLE "public"."custom_roles"
+    ALTER COLUMN "created_by" DROP NOT NULL;
+
+COMMENT ON COLUMN "public"."custom_roles"."created_by" IS 'Foreign key referencing auth.users.id of the superadmin who created the role (null once the user is deleted)';
+
+-- 2. Clear the creator on delete
+ALTER TABLE ONLY "public"."custom_roles"
+    DROP CONSTRAINT IF EXISTS "custom_roles_created_by_fkey";
+
+ALTER TABLE ONLY "public"."custom_roles"
+    ADD CONSTRAINT "custom_roles_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
@@ -23,6 +23,35 @@ COMMENT ON SCHEMA "public" IS 'standard public schema';
 
 
 
+CREATE OR REPLACE FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") RETURNS boolean
+    LANGUAGE "sql" STABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT "public"."has_permission"('users.view_all')
+      OR ("profile_company_id" IS NOT NULL AND "profile_company_id" = "public"."current_user_company_id"());
+$$;
+
+
+ALTER FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") IS 'Returns true when the requesting user has users.view_all or shares the profile''s company';
+
+
+CREATE OR REPLACE FUNCTION "public"."current_user_company_id"() RETURNS "uuid"
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  SELECT "company_id" FROM "public"."profiles" WHERE "id" = "auth"."uid"();
+$$;
+
+
+ALTER FUNCTION "public"."current_user_company_id"() OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."current_user_company_id"() IS 'Returns the company_id of the requesting user''s profile';
+
+
 CREATE OR REPLACE FUNCTION "public"."handle_updated_at"() RETURNS "trigger"
     LANGUAGE "plpgsql"
     AS $$
@@ -35,6 +64,230 @@ $$;
 
 ALTER FUNCTION "public"."handle_updated_at"() OWNER TO "postgres";
 
+
+CREATE OR REPLACE FUNCTION "public"."has_permission"("permission" "text") RETURNS boolean
+    LANGUAGE "plpgsql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  "app_metadata" "jsonb" := COALESCE("auth"."jwt"() -> 'app_metadata', '{}'::"jsonb");
+  "system_role" "text" := COALESCE("app_metadata" ->> 'role', 'member');
+  "granted" "text"[] := "public"."role_default_permissions"("system_role");
+  "revoked" "text"[] := '{}';
+  "custom_role" "record";
+BEGIN
+  IF "system_role" = 'superadmin' THEN
+    RETURN true;
+  END IF;
+
+  -- Custom roles extend their base role; a missing role falls back to the system role
+  SELECT "cr"."base_role", "cr"."permissions", "cr"."revoked_permissions"
+    INTO "custom_role"
+    FROM "public"."custom_roles" "cr"
+    WHERE "cr"."id"::"text" = "app_metadata" ->> 'custom_role_id';
+
+  IF FOUND THEN
+    "granted" := "public"."role_default_permissions"("custom_role"."base_role") || "custom_role"."permissions";
+    "revoked" := "custom_role"."revoked_permissions";
+  END IF;
+
+  RETURN EXISTS (SELECT 1 FROM "unnest"("granted") AS "g" WHERE "public"."permission_matches"("g", "permission"))
+    AND NOT EXISTS (SELECT 1 FROM "unnest"("revoked") AS "r" WHERE "public"."permission_matches"("r", "permission"));
+END;
+$$;
+
+
+ALTER FUNCTION "public"."has_permission"("permission" "text") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."has_permission"("permission" "text") IS 'Returns true when the requesting user has the permission through their system role or custom role';
+
+
+CREATE OR REPLACE FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) RETURNS TABLE("hits" integer, "reset_at" timestamp with time zone)
+    LANGUAGE "sql"
+    SET "search_path" TO ''
+    AS $$
+  INSERT INTO "public"."rate_limits" AS "counter" ("key", "hits", "reset_at")
+  VALUES ("limit_key", 1, "now"() + "make_interval"("secs" => "window_seconds"))
+  ON CONFLICT ("key") DO UPDATE
+    SET "hits" = CASE WHEN "counter"."reset_at" <= "now"() THEN 1 ELSE "counter"."hits" + 1 END,
+        "reset_at" = CASE WHEN "counter"."reset_at" <= "now"() THEN EXCLUDED."reset_at" ELSE "counter"."reset_at" END
+  RETURNING "counter"."hits", "counter"."reset_at";
+$$;
+
+
+ALTER FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) IS 'Atomically counts a hit against a rate limit key, starting a new window when the previous one has ended. Service role only';
+
+
+CREATE OR REPLACE FUNCTION "public"."is_superadmin"() RETURNS boolean
+    LANGUAGE "sql" STABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT COALESCE(("auth"."jwt"() -> 'app_metadata' ->> 'role') = 'superadmin', false);
+$$;
+
+
+ALTER FUNCTION "public"."is_superadmin"() OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."is_superadmin"() IS 'Returns true when the requesting user has the superadmin system role (app_metadata.role)';
+
+
+CREATE OR REPLACE FUNCTION "public"."permission_matches"("granted" "text", "required" "text") RETURNS boolean
+    LANGUAGE "sql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT "granted" = '*'
+      OR "granted" = "required"
+      OR ("right"("granted", 2) = '.*' AND "starts_with"("required", "left"("granted", -1)));
+$$;
+
+
+ALTER FUNCTION "public"."permission_matches"("granted" "text", "required" "text") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") IS 'Returns true when a granted permission ("*", "users.*" or exact) covers the required permission';
+
+
+CREATE OR REPLACE FUNCTION "public"."protect_profile_company"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' AND NEW.company_id IS NOT NULL THEN
+      RAISE EXCEPTION 'profiles.company_id can only be set by an administrator'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.company_id IS DISTINCT FROM OLD.company_id THEN
+      RAISE EXCEPTION 'profiles.company_id can only be changed by an administrator'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."protect_profile_company"() OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."protect_profile_company"() IS 'Keeps anon and authenticated callers from writing profiles.company_id';
+
+
+CREATE OR REPLACE FUNCTION "public"."protect_profile_role"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'member';
+      NEW.custom_role_id := NULL;
+    ELSE
+      NEW.role := OLD.role;
+      NEW.custom_role_id := OLD.custom_role_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."protect_profile_role"() OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."protect_profile_role"() IS 'Keeps anon and authenticated callers from writing profiles.role and profiles.custom_role_id';
+
+
+CREATE OR REPLACE FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  DELETE FROM "auth"."sessions" WHERE "id" = "target_session_id";
+  RETURN FOUND;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") IS 'Deletes one auth session (and its refresh tokens). Service role only';
+
+
+CREATE OR REPLACE FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") RETURNS integer
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  "revoked_count" integer;
+BEGIN
+  DELETE FROM "auth"."sessions" WHERE "user_id" = "target_user_id";
+  GET DIAGNOSTICS "revoked_count" = ROW_COUNT;
+  RETURN "revoked_count";
+END;
+$$;
+
+
+ALTER FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") IS 'Deletes every auth session (and refresh token) of a user. Service role only';
+
+
+CREATE OR REPLACE FUNCTION "public"."role_default_permissions"("role" "text") RETURNS "text"[]
+    LANGUAGE "sql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT CASE "role"
+    WHEN 'superadmin' THEN ARRAY['*']
+    WHEN 'admin' THEN ARRAY[
+      'interviews.view', 'interviews.create', 'interviews.edit', 'interviews.delete',
+      'interviews.view_all', 'users.view', 'users.view_all', 'companies.view', 'settings.view'
+    ]
+    ELSE ARRAY['interviews.view', 'interviews.create', 'profiles.view', 'profiles.edit']
+  END;
+$$;
+
+
+ALTER FUNCTION "public"."role_default_permissions"("role" "text") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."role_default_permissions"("role" "text") IS 'Default permissions for a system role. Must be kept in sync with ROLE_PERMISSIONS in src/lib/auth/permissions.ts';
+
+
+CREATE OR REPLACE FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  "current_session_id" "uuid" := NULLIF("auth"."jwt"() ->> 'session_id', '')::"uuid";
+BEGIN
+  IF "current_session_id" IS NULL OR "auth"."uid"() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO "public"."user_sessions" ("id", "user_id", "user_agent", "ip_address")
+  SELECT "current_session_id", "auth"."uid"(), "touch_user_session"."user_agent", "touch_user_session"."ip_address"
+  WHERE EXISTS (SELECT 1 FROM "auth"."sessions" WHERE "id" = "current_session_id")
+  ON CONFLICT ("id") DO UPDATE
+    SET "last_seen_at" = "now"(),
+        "user_agent" = EXCLUDED."user_agent",
+        "ip_address" = EXCLUDED."ip_address"
+    WHERE "public"."user_sessions"."last_seen_at" < "now"() - interval '1 minute';
+END;
+$$;
+
+
+ALTER FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") IS 'Records the requesting session (session_id JWT claim) in user_sessions, updating last_seen_at at most once a minute';
+
+
 SET default_tablespace = '';
 
 SET default_table_access_method = "heap";
@@ -76,207 +329,1223 @@ COMMENT ON COLUMN "public"."companies"."deleted_at" IS 'Soft delete timestamp (n
 
 
 
-CREATE TABLE IF NOT EXISTS "public"."profiles" (
-    "id" "uuid" NOT NULL,
-    "email" "text",
-    "full_name" "text",
-    "bio" "text",
-    "avatar_url" "text",
-    "phone" "text",
-    "dashboard_layout_preferences" "jsonb",
+CREATE TABLE IF NOT EXISTS "public"."custom_roles" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "name" "text" NOT NULL,
+    "description" "text",
+    "permissions" "text"[] NOT NULL,
+    "created_by" "uuid",
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    "deleted_at" timestamp with time zone,
-    "company_id" "uuid",
-    "address_1" "text",
-    "address_2" "text",
-    "city" "text",
-    "state" "text",
-    "postal_code" "text",
-    "country" "text" DEFAULT 'US'::"text",
-    "title" "text",
-    CONSTRAINT "profiles_email_format" CHECK ((("email" IS NULL) OR ("email" ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}$'::"text"))),
-    CONSTRAINT "profiles_full_name_length" CHECK ((("full_name" IS NULL) OR ("length"("full_name") <= 255))),
-    CONSTRAINT "profiles_phone_length" CHECK ((("phone" IS NULL) OR (("length"("phone") >= 5) AND ("length"("phone") <= 20))))
+    "base_role" "text" DEFAULT 'member'::"text" NOT NULL,
+    "revoked_permissions" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "require_mfa" boolean DEFAULT false NOT NULL,
+    "conditional_permissions" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    CONSTRAINT "custom_roles_base_role_check" CHECK (("base_role" = ANY (ARRAY['member'::"text", 'admin'::"text"]))),
+    CONSTRAINT "custom_roles_conditional_permissions_array" CHECK (("jsonb_typeof"("conditional_permissions") = 'array'::"text")),
+    CONSTRAINT "custom_roles_description_length" CHECK ((("description" IS NULL) OR ("length"("description") <= 500))),
+    CONSTRAINT "custom_roles_name_format" CHECK ((("length"("name") <= 100) AND ("name" ~ '^[a-z0-9_-]+$'::"text")))
 );
 
 
-ALTER TABLE "public"."profiles" OWNER TO "postgres";
+ALTER TABLE "public"."custom_roles" OWNER TO "postgres";
 
 
-COMMENT ON TABLE "public"."profiles" IS 'User profiles extending Supabase Auth users with additional profile data';
+COMMENT ON TABLE "public"."custom_roles" IS 'Superadmin-defined roles with a custom set of permissions, assigned via auth.users.app_metadata.custom_role_id';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."id" IS 'Primary key matching auth.users.id';
+COMMENT ON COLUMN "public"."custom_roles"."id" IS 'Primary key (UUID)';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."email" IS 'User email (can differ from auth.users.email)';
+COMMENT ON COLUMN "public"."custom_roles"."name" IS 'Role name (unique, lowercase letters, numbers, hyphens and underscores)';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."full_name" IS 'User full name (max 255 characters)';
+COMMENT ON COLUMN "public"."custom_roles"."description" IS 'Optional role description (max 500 characters)';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."bio" IS 'User biography/description';
+COMMENT ON COLUMN "public"."custom_roles"."permissions" IS 'Permission strings granted in addition to the base role (see src/lib/auth/permissions.ts)';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."avatar_url" IS 'URL to user avatar image';
+COMMENT ON COLUMN "public"."custom_roles"."created_by" IS 'Foreign key referencing auth.users.id of the superadmin who created the role (null once the user is deleted)';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."phone" IS 'User phone number (5-20 characters)';
+COMMENT ON COLUMN "public"."custom_roles"."created_at" IS 'Timestamp when role was created';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."dashboard_layout_preferences" IS 'JSON object storing dashboard layout preferences';
+COMMENT ON COLUMN "public"."custom_roles"."updated_at" IS 'Timestamp when role was last updated (automatically maintained)';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."created_at" IS 'Timestamp when profile was created';
+COMMENT ON COLUMN "public"."custom_roles"."base_role" IS 'System role the custom role extends (member or admin); used for role hierarchy checks';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."updated_at" IS 'Timestamp when profile was last updated (automatically maintained)';
+COMMENT ON COLUMN "public"."custom_roles"."revoked_permissions" IS 'Permission strings removed from the base role and added permissions';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."deleted_at" IS 'Soft delete timestamp (null = active, non-null = deleted)';
+COMMENT ON COLUMN "public"."custom_roles"."require_mfa" IS 'Whether holders must use two-factor authentication (AAL2) to pass role checks';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."company_id" IS 'Foreign key referencing companies.id. Automatically assigned based on email domain.';
+COMMENT ON COLUMN "public"."custom_roles"."conditional_permissions" IS 'Permissions granted only on resources meeting conditions: [{"permission": "users.edit", "conditions": [{"type": "own"}]}]';
 
 
 
-COMMENT ON COLUMN "public"."profiles"."address_1" IS 'Primary address line (street address, PO box, etc.)';
+CREATE TABLE IF NOT EXISTS "public"."impersonation_sessions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "actor_id" "uuid",
+    "target_id" "uuid",
+    "allow_mutations" boolean DEFAULT false NOT NULL,
+    "started_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "expires_at" timestamp with time zone NOT NULL,
+    "ended_at" timestamp with time zone,
+    "actor_email" "text",
+    "target_email" "text",
+    CONSTRAINT "impersonation_sessions_expires_after_start" CHECK (("expires_at" > "started_at")),
+    CONSTRAINT "impersonation_sessions_not_self" CHECK (("actor_id" <> "target_id"))
+);
 
 
+ALTER TABLE "public"."impersonation_sessions" OWNER TO "postgres";
 
-COMMENT ON COLUMN "public"."profiles"."address_2" IS 'Secondary address line (apartment, suite, unit, building, floor, etc.)';
 
+COMMENT ON TABLE "public"."impersonation_sessions" IS 'Superadmin impersonation sessions; each row records who impersonated whom and when the session started and stopped';
 
 
-COMMENT ON COLUMN "public"."profiles"."city" IS 'City or locality name';
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."id" IS 'Primary key (UUID), stored in the impersonation_session cookie';
 
 
-COMMENT ON COLUMN "public"."profiles"."state" IS 'State, province, or region code';
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."actor_id" IS 'Foreign key referencing auth.users.id of the superadmin impersonating (null once the user is deleted)';
 
 
-COMMENT ON COLUMN "public"."profiles"."postal_code" IS 'Postal or ZIP code';
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."target_id" IS 'Foreign key referencing auth.users.id of the impersonated user (null once the user is deleted)';
 
 
-COMMENT ON COLUMN "public"."profiles"."country" IS 'Country code (defaults to US)';
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."allow_mutations" IS 'Whether write requests are allowed while impersonating (read-only by default)';
 
 
-COMMENT ON COLUMN "public"."profiles"."title" IS 'User job title or role';
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."started_at" IS 'Timestamp when impersonation started';
 
 
-ALTER TABLE ONLY "public"."companies"
-    ADD CONSTRAINT "companies_name_key" UNIQUE ("name");
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."expires_at" IS 'Timestamp after which the session is no longer honored';
 
 
-ALTER TABLE ONLY "public"."companies"
-    ADD CONSTRAINT "companies_pkey" PRIMARY KEY ("id");
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."ended_at" IS 'Timestamp when the actor stopped impersonating (null = not explicitly stopped)';
 
 
-ALTER TABLE ONLY "public"."profiles"
-    ADD CONSTRAINT "profiles_pkey" PRIMARY KEY ("id");
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."actor_email" IS 'Email of the superadmin when the session started (kept after the user is deleted)';
 
 
-CREATE INDEX "companies_deleted_at_idx" ON "public"."companies" USING "btree" ("deleted_at") WHERE ("deleted_at" IS NULL);
 
+COMMENT ON COLUMN "public"."impersonation_sessions"."target_email" IS 'Email of the impersonated user when the session started (kept after the user is deleted)';
 
 
-CREATE INDEX "profiles_company_id_idx" ON "public"."profiles" USING "btree" ("company_id") WHERE ("company_id" IS NOT NULL);
 
+CREATE TABLE IF NOT EXISTS "public"."invitations" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "email" "text" NOT NULL,
+    "full_name" "text",
+    "role" "text" DEFAULT 'member'::"text" NOT NULL,
+    "company_id" "uuid",
+    "token_hash" "text" NOT NULL,
+    "invited_by" "uuid",
+    "expires_at" timestamp with time zone NOT NULL,
+    "accepted_at" timestamp with time zone,
+    "accepted_by" "uuid",
+    "revoked_at" timestamp with time zone,
+    "last_sent_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "invitations_role_check" CHECK (("role" = ANY (ARRAY['member'::"text", 'admin'::"text", 'superadmin'::"text"])))
+);
 
 
-CREATE INDEX "profiles_created_at_idx" ON "public"."profiles" USING "btree" ("created_at" DESC);
+ALTER TABLE "public"."invitations" OWNER TO "postgres";
 
 
+COMMENT ON TABLE "public"."invitations" IS 'Invitations to join the application; only a hash of each invitation token is stored';
 
-CREATE INDEX "profiles_deleted_at_idx" ON "public"."profiles" USING "btree" ("deleted_at") WHERE ("deleted_at" IS NULL);
 
 
+COMMENT ON COLUMN "public"."invitations"."id" IS 'Primary key (UUID)';
 
-CREATE INDEX "profiles_email_idx" ON "public"."profiles" USING "btree" ("email") WHERE ("email" IS NOT NULL);
 
 
+COMMENT ON COLUMN "public"."invitations"."email" IS 'Email address the invitation was sent to';
 
-CREATE OR REPLACE TRIGGER "companies_updated_at" BEFORE UPDATE ON "public"."companies" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
 
 
+COMMENT ON COLUMN "public"."invitations"."full_name" IS 'Optional name of the invitee, copied to the profile on acceptance';
 
-CREATE OR REPLACE TRIGGER "profiles_updated_at" BEFORE UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
 
 
+COMMENT ON COLUMN "public"."invitations"."role" IS 'System role granted on acceptance (member, admin or superadmin)';
 
-ALTER TABLE ONLY "public"."profiles"
-    ADD CONSTRAINT "profiles_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE SET NULL;
 
 
+COMMENT ON COLUMN "public"."invitations"."company_id" IS 'Company the invitee joins (null = assigned by email domain)';
 
-ALTER TABLE ONLY "public"."profiles"
-    ADD CONSTRAINT "profiles_id_fkey" FOREIGN KEY ("id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
 
+COMMENT ON COLUMN "public"."invitations"."token_hash" IS 'SHA-256 hash (hex) of the invitation token';
 
-CREATE POLICY "Users can insert own profile" ON "public"."profiles" FOR INSERT WITH CHECK (("auth"."uid"() = "id"));
 
 
+COMMENT ON COLUMN "public"."invitations"."invited_by" IS 'Foreign key referencing auth.users.id of the inviter';
 
-CREATE POLICY "Users can update own profile" ON "public"."profiles" FOR UPDATE USING ((("auth"."uid"() = "id") AND ("deleted_at" IS NULL)));
 
 
+COMMENT ON COLUMN "public"."invitations"."expires_at" IS 'Timestamp after which the invitation can no longer be accepted';
 
-CREATE POLICY "Users can view active companies" ON "public"."companies" FOR SELECT USING (("deleted_at" IS NULL));
 
 
+COMMENT ON COLUMN "public"."invitations"."accepted_at" IS 'Timestamp when the invitation was accepted (null = not accepted)';
 
-CREATE POLICY "Users can view own profile" ON "public"."profiles" FOR SELECT USING ((("auth"."uid"() = "id") AND ("deleted_at" IS NULL)));
 
 
+COMMENT ON COLUMN "public"."invitations"."accepted_by" IS 'Foreign key referencing auth.users.id of the user created on acceptance';
 
-ALTER TABLE "public"."companies" ENABLE ROW LEVEL SECURITY;
 
 
-ALTER TABLE "public"."profiles" ENABLE ROW LEVEL SECURITY;
+COMMENT ON COLUMN "public"."invitations"."revoked_at" IS 'Timestamp when the invitation was revoked (null = not revoked)';
 
 
-GRANT USAGE ON SCHEMA "public" TO "postgres";
-GRANT USAGE ON SCHEMA "public" TO "anon";
-GRANT USAGE ON SCHEMA "public" TO "authenticated";
-GRANT USAGE ON SCHEMA "public" TO "service_role";
 
+COMMENT ON COLUMN "public"."invitations"."last_sent_at" IS 'Timestamp when the invitation email was last sent';
 
 
-GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "anon";
-GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "authenticated";
-GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "service_role";
 
+COMMENT ON COLUMN "public"."invitations"."created_at" IS 'Timestamp when the invitation was created';
 
 
-GRANT ALL ON TABLE "public"."companies" TO "anon";
-GRANT ALL ON TABLE "public"."companies" TO "authenticated";
-GRANT ALL ON TABLE "public"."companies" TO "service_role";
+
+CREATE TABLE IF NOT EXISTS "public"."mfa_recovery_codes" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "code_hash" "text" NOT NULL,
+    "used_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
 
 
+ALTER TABLE "public"."mfa_recovery_codes" OWNER TO "postgres";
 
-GRANT ALL ON TABLE "public"."profiles" TO "anon";
-GRANT ALL ON TABLE "public"."profiles" TO "authenticated";
-GRANT ALL ON TABLE "public"."profiles" TO "service_role";
+
+COMMENT ON TABLE "public"."mfa_recovery_codes" IS 'Single-use MFA recovery codes; only a hash of each code is stored';
+
+
+
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."id" IS 'Primary key (UUID)';
+
+
+
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."user_id" IS 'Foreign key referencing auth.users.id of the code owner';
+
+
+
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."code_hash" IS 'SHA-256 hash (hex) of the normalized code';
+
+
+
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."used_at" IS 'Timestamp when the code was redeemed (null = unused)';
+
+
+
+COMMENT ON COLUMN "public"."mfa_recovery_codes"."created_at" IS 'Timestamp when the code was generated';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."personal_access_tokens" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "token_prefix" "text" NOT NULL,
+    "token_hash" "text" NOT NULL,
+    "scopes" "text"[] NOT NULL,
+    "expires_at" timestamp with time zone NOT NULL,
+    "last_used_at" timestamp with time zone,
+    "revoked_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "personal_access_tokens_name_length" CHECK ((("char_length"("name") >= 1) AND ("char_length"("name") <= 100))),
+    CONSTRAINT "personal_access_tokens_scopes_not_empty" CHECK (("cardinality"("scopes") > 0))
+);
+
+
+ALTER TABLE "public"."personal_access_tokens" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."personal_access_tokens" IS 'Personal access tokens for the admin API; only a hash of each token is stored';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."id" IS 'Primary key (UUID)';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."user_id" IS 'Foreign key referencing auth.users.id of the token owner';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."name" IS 'Owner-chosen token name (1-100 characters)';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."token_prefix" IS 'First characters of the token, shown so owners can recognize it';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."token_hash" IS 'SHA-256 hash (hex) of the token';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."scopes" IS 'Permission strings the token may use; effective permissions are the intersection with the owner''s current permissions';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."expires_at" IS 'Timestamp after which the token is rejected';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."last_used_at" IS 'Timestamp when the token last authenticated a request';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."revoked_at" IS 'Timestamp when the token was revoked (null = active)';
+
+
+
+COMMENT ON COLUMN "public"."personal_access_tokens"."created_at" IS 'Timestamp when the token was created';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."profile_visibility_policy" (
+    "id" boolean DEFAULT true NOT NULL,
+    "fields" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "updated_by" "uuid",
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "profile_visibility_policy_singleton_check" CHECK ("id")
+);
+
+
+ALTER TABLE "public"."profile_visibility_policy" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."profile_visibility_policy" IS 'Default visibility of profile fields shown to other users (single row)';
+
+
+
+COMMENT ON COLUMN "public"."profile_visibility_policy"."id" IS 'Primary key (always true, restricts the table to one row)';
+
+
+
+COMMENT ON COLUMN "public"."profile_visibility_policy"."fields" IS 'Per-field policy: {"<field>": {"visibility": "self|admins|company|everyone", "user_configurable": boolean}}; missing fields use the application defaults';
+
+
+
+COMMENT ON COLUMN "public"."profile_visibility_policy"."updated_by" IS 'Foreign key referencing auth.users.id of the last editor';
+
+
+
+COMMENT ON COLUMN "public"."profile_visibility_policy"."updated_at" IS 'Timestamp when the policy was last updated (automatically maintained)';
+
+
+CREATE TABLE IF NOT EXISTS "public"."profiles" (
+    "id" "uuid" NOT NULL,
+    "email" "text",
+    "full_name" "text",
+    "bio" "text",
+    "avatar_url" "text",
+    "phone" "text",
+    "dashboard_layout_preferences" "jsonb",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "deleted_at" timestamp with time zone,
+    "company_id" "uuid",
+    "address_1" "text",
+    "address_2" "text",
+    "city" "text",
+    "state" "text",
+    "postal_code" "text",
+    "country" "text" DEFAULT 'US'::"text",
+    "title" "text",
+    "purge_after" timestamp with time zone,
+    "field_visibility" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "role" "text" DEFAULT 'member'::"text" NOT NULL,
+    "custom_role_id" "uuid",
+    CONSTRAINT "profiles_email_format" CHECK ((("email" IS NULL) OR ("email" ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}$'::"text"))),
+    CONSTRAINT "profiles_full_name_length" CHECK ((("full_name" IS NULL) OR ("length"("full_name") <= 255))),
+    CONSTRAINT "profiles_phone_length" CHECK ((("phone" IS NULL) OR (("length"("phone") >= 5) AND ("length"("phone") <= 20)))),
+    CONSTRAINT "profiles_role_check" CHECK (("role" = ANY (ARRAY['member'::"text", 'admin'::"text", 'superadmin'::"text"])))
+);
+
+
+ALTER TABLE "public"."profiles" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."profiles" IS 'User profiles extending Supabase Auth users with additional profile data';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."id" IS 'Primary key matching auth.users.id';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."email" IS 'User email (can differ from auth.users.email)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."full_name" IS 'User full name (max 255 characters)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."bio" IS 'User biography/description';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."avatar_url" IS 'URL to user avatar image';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."phone" IS 'User phone number (5-20 characters)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."dashboard_layout_preferences" IS 'JSON object storing dashboard layout preferences';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."created_at" IS 'Timestamp when profile was created';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."updated_at" IS 'Timestamp when profile was last updated (automatically maintained)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."deleted_at" IS 'Soft delete timestamp (null = active, non-null = deleted)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."company_id" IS 'Foreign key referencing companies.id. Automatically assigned based on email domain.';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."address_1" IS 'Primary address line (street address, PO box, etc.)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."address_2" IS 'Secondary address line (apartment, suite, unit, building, floor, etc.)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."city" IS 'City or locality name';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."state" IS 'State, province, or region code';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."postal_code" IS 'Postal or ZIP code';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."country" IS 'Country code (defaults to US)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."title" IS 'User job title or role';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."purge_after" IS 'Timestamp after which a self-deleted account is permanently removed (null = not scheduled)';
+
+
+COMMENT ON COLUMN "public"."profiles"."field_visibility" IS 'Fields the user has made less visible than the policy: {"<field>": "self|admins|company"}';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."role" IS 'System role mirrored from auth.users app_metadata (member, admin or superadmin)';
+
+
+
+COMMENT ON COLUMN "public"."profiles"."custom_role_id" IS 'Custom role mirrored from auth.users app_metadata (null = none). Foreign key referencing custom_roles.id';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."rate_limits" (
+    "key" "text" NOT NULL,
+    "hits" integer DEFAULT 0 NOT NULL,
+    "reset_at" timestamp with time zone NOT NULL
+);
+
+
+ALTER TABLE "public"."rate_limits" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."rate_limits" IS 'Fixed-window rate limit counters; expired rows are reset on the next hit and can be deleted at any time';
+
+
+
+COMMENT ON COLUMN "public"."rate_limits"."key" IS 'Primary key: rule name and subject (e.g. otp-send:email:user@example.com)';
+
+
+
+COMMENT ON COLUMN "public"."rate_limits"."hits" IS 'Number of hits in the current window';
+
+
+
+COMMENT ON COLUMN "public"."rate_limits"."reset_at" IS 'Timestamp when the current window ends';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."signup_policy" (
+    "id" boolean DEFAULT true NOT NULL,
+    "allowed_domains" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "blocked_domains" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "invite_only" boolean DEFAULT false NOT NULL,
+    "updated_by" "uuid",
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "signup_policy_singleton_check" CHECK ("id")
+);
+
+
+ALTER TABLE "public"."signup_policy" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."signup_policy" IS 'Sign-up rules for new users (single row)';
+
+
+
+COMMENT ON COLUMN "public"."signup_policy"."id" IS 'Primary key (always true, restricts the table to one row)';
+
+
+
+COMMENT ON COLUMN "public"."signup_policy"."allowed_domains" IS 'Lowercase email domains allowed to sign up (empty = any domain)';
+
+
+
+COMMENT ON COLUMN "public"."signup_policy"."blocked_domains" IS 'Lowercase email domains that may not sign up (checked before allowed_domains)';
+
+
+
+COMMENT ON COLUMN "public"."signup_policy"."invite_only" IS 'When true, only users with a pending invitation can sign up';
+
+
+
+COMMENT ON COLUMN "public"."signup_policy"."updated_by" IS 'Foreign key referencing auth.users.id of the last editor';
+
+
+
+COMMENT ON COLUMN "public"."signup_policy"."updated_at" IS 'Timestamp when the policy was last updated (automatically maintained)';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."user_sessions" (
+    "id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "user_agent" "text",
+    "ip_address" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "last_seen_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+
+ALTER TABLE "public"."user_sessions" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."user_sessions" IS 'Device and activity details of active Supabase auth sessions, maintained by the middleware';
+
+
+
+COMMENT ON COLUMN "public"."user_sessions"."id" IS 'Primary key matching auth.sessions.id (the session_id JWT claim)';
+
+
+
+COMMENT ON COLUMN "public"."user_sessions"."user_id" IS 'Foreign key referencing auth.users.id of the session owner';
+
+
+
+COMMENT ON COLUMN "public"."user_sessions"."user_agent" IS 'User-Agent header of the most recent request';
+
+
+
+COMMENT ON COLUMN "public"."user_sessions"."ip_address" IS 'Client IP address of the most recent request';
+
+
+
+COMMENT ON COLUMN "public"."user_sessions"."created_at" IS 'Timestamp when the session was first seen';
+
+
+
+COMMENT ON COLUMN "public"."user_sessions"."last_seen_at" IS 'Timestamp of the most recent request (updated at most once a minute)';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."webhook_deliveries" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "subscription_id" "uuid" NOT NULL,
+    "event_id" "uuid" NOT NULL,
+    "event_type" "text" NOT NULL,
+    "payload" "jsonb" NOT NULL,
+    "status" "text" DEFAULT 'pending'::"text" NOT NULL,
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "next_attempt_at" timestamp with time zone DEFAULT "now"(),
+    "last_attempt_at" timestamp with time zone,
+    "response_status" integer,
+    "error" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "webhook_deliveries_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'succeeded'::"text", 'failed'::"text"])))
+);
+
+
+ALTER TABLE "public"."webhook_deliveries" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."webhook_deliveries" IS 'One event delivery to one webhook endpoint, with the outcome of its latest attempt';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."id" IS 'Primary key (UUID), sent as the X-Webhook-Delivery header';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."subscription_id" IS 'Foreign key referencing webhook_subscriptions.id';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."event_id" IS 'Event ID, shared by the deliveries of one event to several endpoints';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."event_type" IS 'Event type (e.g. user.created)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."payload" IS 'JSON body sent to the endpoint';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."status" IS 'pending (awaiting an attempt), succeeded (2xx response) or failed (attempts exhausted)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."attempts" IS 'Number of delivery attempts made';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."next_attempt_at" IS 'When the next attempt is due (null once succeeded or failed)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."last_attempt_at" IS 'Timestamp of the latest attempt';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."response_status" IS 'HTTP status of the latest attempt (null if no response)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."error" IS 'Error of the latest failed attempt';
+
+
+
+COMMENT ON COLUMN "public"."webhook_deliveries"."created_at" IS 'Timestamp when the event was emitted';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."webhook_subscriptions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "url" "text" NOT NULL,
+    "description" "text",
+    "event_types" "text"[] NOT NULL,
+    "secret" "text" NOT NULL,
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_by" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "webhook_subscriptions_description_length" CHECK ((("description" IS NULL) OR ("length"("description") <= 500))),
+    CONSTRAINT "webhook_subscriptions_event_types_not_empty" CHECK (("cardinality"("event_types") > 0)),
+    CONSTRAINT "webhook_subscriptions_url_format" CHECK (("url" ~ '^https?://'::"text"))
+);
+
+
+ALTER TABLE "public"."webhook_subscriptions" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."webhook_subscriptions" IS 'Endpoints that receive signed user and company events';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."id" IS 'Primary key (UUID)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."url" IS 'HTTP(S) endpoint events are POSTed to';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."description" IS 'Optional description (max 500 characters)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."event_types" IS 'Event types delivered to the endpoint (e.g. user.created)';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."secret" IS 'Signing secret for the HMAC-SHA256 X-Webhook-Signature header';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."is_active" IS 'Whether new events are delivered to the endpoint';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."created_by" IS 'Foreign key referencing auth.users.id of the admin who registered the endpoint';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."created_at" IS 'Timestamp when the endpoint was registered';
+
+
+
+COMMENT ON COLUMN "public"."webhook_subscriptions"."updated_at" IS 'Timestamp when the endpoint was last updated (automatically maintained)';
+
+
+
+ALTER TABLE ONLY "public"."companies"
+    ADD CONSTRAINT "companies_name_key" UNIQUE ("name");
+
+
+
+ALTER TABLE ONLY "public"."companies"
+    ADD CONSTRAINT "companies_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."custom_roles"
+    ADD CONSTRAINT "custom_roles_name_key" UNIQUE ("name");
+
+
+
+ALTER TABLE ONLY "public"."custom_roles"
+    ADD CONSTRAINT "custom_roles_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_token_hash_key" UNIQUE ("token_hash");
+
+
+
+ALTER TABLE ONLY "public"."mfa_recovery_codes"
+    ADD CONSTRAINT "mfa_recovery_codes_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."personal_access_tokens"
+    ADD CONSTRAINT "personal_access_tokens_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."personal_access_tokens"
+    ADD CONSTRAINT "personal_access_tokens_token_hash_key" UNIQUE ("token_hash");
+
+
+
+ALTER TABLE ONLY "public"."profile_visibility_policy"
+    ADD CONSTRAINT "profile_visibility_policy_pkey" PRIMARY KEY ("id");
+
+
+ALTER TABLE ONLY "public"."profiles"
+    ADD CONSTRAINT "profiles_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."rate_limits"
+    ADD CONSTRAINT "rate_limits_pkey" PRIMARY KEY ("key");
+
+
+
+ALTER TABLE ONLY "public"."signup_policy"
+    ADD CONSTRAINT "signup_policy_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."user_sessions"
+    ADD CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."webhook_deliveries"
+    ADD CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."webhook_subscriptions"
+    ADD CONSTRAINT "webhook_subscriptions_pkey" PRIMARY KEY ("id");
+
+
+
+CREATE INDEX "companies_deleted_at_idx" ON "public"."companies" USING "btree" ("deleted_at") WHERE ("deleted_at" IS NULL);
+
+
+
+CREATE INDEX "custom_roles_created_by_idx" ON "public"."custom_roles" USING "btree" ("created_by");
+
+
+
+CREATE INDEX "impersonation_sessions_actor_id_active_idx" ON "public"."impersonation_sessions" USING "btree" ("actor_id") WHERE ("ended_at" IS NULL);
+
+
+
+CREATE INDEX "impersonation_sessions_target_id_idx" ON "public"."impersonation_sessions" USING "btree" ("target_id");
+
+
+
+CREATE INDEX "invitations_company_id_idx" ON "public"."invitations" USING "btree" ("company_id") WHERE ("company_id" IS NOT NULL);
+
+
+
+CREATE UNIQUE INDEX "invitations_pending_email_key" ON "public"."invitations" USING "btree" ("lower"("email")) WHERE (("accepted_at" IS NULL) AND ("revoked_at" IS NULL));
+
+
+
+CREATE INDEX "mfa_recovery_codes_user_id_idx" ON "public"."mfa_recovery_codes" USING "btree" ("user_id");
+
+
+
+CREATE INDEX "personal_access_tokens_user_id_idx" ON "public"."personal_access_tokens" USING "btree" ("user_id");
+
+
+
+CREATE INDEX "profiles_company_id_idx" ON "public"."profiles" USING "btree" ("company_id") WHERE ("company_id" IS NOT NULL);
+
+
+
+CREATE INDEX "profiles_created_at_idx" ON "public"."profiles" USING "btree" ("created_at" DESC);
+
+
+
+CREATE INDEX "profiles_custom_role_id_idx" ON "public"."profiles" USING "btree" ("custom_role_id") WHERE ("custom_role_id" IS NOT NULL);
+
+
+
+CREATE INDEX "profiles_deleted_at_idx" ON "public"."profiles" USING "btree" ("deleted_at") WHERE ("deleted_at" IS NULL);
+
+
+
+CREATE INDEX "profiles_email_idx" ON "public"."profiles" USING "btree" ("email") WHERE ("email" IS NOT NULL);
+
+
+
+CREATE INDEX "profiles_purge_after_idx" ON "public"."profiles" USING "btree" ("purge_after") WHERE ("purge_after" IS NOT NULL);
+
+
+
+CREATE INDEX "profiles_role_idx" ON "public"."profiles" USING "btree" ("role");
+
+
+
+CREATE INDEX "user_sessions_user_id_idx" ON "public"."user_sessions" USING "btree" ("user_id");
+
+
+
+CREATE INDEX "webhook_deliveries_next_attempt_at_idx" ON "public"."webhook_deliveries" USING "btree" ("next_attempt_at") WHERE ("status" = 'pending'::"text");
+
+
+
+CREATE INDEX "webhook_deliveries_subscription_id_created_at_idx" ON "public"."webhook_deliveries" USING "btree" ("subscription_id", "created_at" DESC);
+
+
+
+CREATE OR REPLACE TRIGGER "companies_updated_at" BEFORE UPDATE ON "public"."companies" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+
+
+CREATE OR REPLACE TRIGGER "custom_roles_updated_at" BEFORE UPDATE ON "public"."custom_roles" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+
+
+CREATE OR REPLACE TRIGGER "profile_visibility_policy_updated_at" BEFORE UPDATE ON "public"."profile_visibility_policy" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+
+CREATE OR REPLACE TRIGGER "profiles_protect_company" BEFORE INSERT OR UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."protect_profile_company"();
+
+
+
+CREATE OR REPLACE TRIGGER "profiles_protect_role" BEFORE INSERT OR UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."protect_profile_role"();
+
+
+
+CREATE OR REPLACE TRIGGER "profiles_updated_at" BEFORE UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+
+
+CREATE OR REPLACE TRIGGER "signup_policy_updated_at" BEFORE UPDATE ON "public"."signup_policy" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+
+
+CREATE OR REPLACE TRIGGER "webhook_subscriptions_updated_at" BEFORE UPDATE ON "public"."webhook_subscriptions" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+
+
+ALTER TABLE ONLY "public"."custom_roles"
+    ADD CONSTRAINT "custom_roles_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."impersonation_sessions"
+    ADD CONSTRAINT "impersonation_sessions_target_id_fkey" FOREIGN KEY ("target_id") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_accepted_by_fkey" FOREIGN KEY ("accepted_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."invitations"
+    ADD CONSTRAINT "invitations_invited_by_fkey" FOREIGN KEY ("invited_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."mfa_recovery_codes"
+    ADD CONSTRAINT "mfa_recovery_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."personal_access_tokens"
+    ADD CONSTRAINT "personal_access_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."profile_visibility_policy"
+    ADD CONSTRAINT "profile_visibility_policy_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+ALTER TABLE ONLY "public"."profiles"
+    ADD CONSTRAINT "profiles_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."profiles"
+    ADD CONSTRAINT "profiles_custom_role_id_fkey" FOREIGN KEY ("custom_role_id") REFERENCES "public"."custom_roles"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."profiles"
+    ADD CONSTRAINT "profiles_id_fkey" FOREIGN KEY ("id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."signup_policy"
+    ADD CONSTRAINT "signup_policy_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."user_sessions"
+    ADD CONSTRAINT "user_sessions_id_fkey" FOREIGN KEY ("id") REFERENCES "auth"."sessions"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."user_sessions"
+    ADD CONSTRAINT "user_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."webhook_deliveries"
+    ADD CONSTRAINT "webhook_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "public"."webhook_subscriptions"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."webhook_subscriptions"
+    ADD CONSTRAINT "webhook_subscriptions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "auth"."users"("id") ON DELETE SET NULL;
+
+
+
+CREATE POLICY "Admins can update profiles in company scope" ON "public"."profiles" FOR UPDATE TO "authenticated" USING (((("public"."has_permission"('users.edit') OR "public"."has_permission"('users.delete')) AND "public"."can_access_company_profile"("company_id"))) WITH CHECK (((("public"."has_permission"('users.edit') OR "public"."has_permission"('users.delete')) AND "public"."can_access_company_profile"("company_id")));
+
+
+
+CREATE POLICY "Admins can view profiles in company scope" ON "public"."profiles" FOR SELECT TO "authenticated" USING (("public"."has_permission"('users.view') AND "public"."can_access_company_profile"("company_id")));
+
+
+
+CREATE POLICY "Authenticated users can view custom roles" ON "public"."custom_roles" FOR SELECT TO "authenticated" USING (true);
+
+
+
+CREATE POLICY "Superadmins can delete custom roles" ON "public"."custom_roles" FOR DELETE TO "authenticated" USING ("public"."is_superadmin"());
+
+
+
+CREATE POLICY "Superadmins can insert custom roles" ON "public"."custom_roles" FOR INSERT TO "authenticated" WITH CHECK (("public"."is_superadmin"() AND ("created_by" = "auth"."uid"())));
+
+
+
+CREATE POLICY "Superadmins can update custom roles" ON "public"."custom_roles" FOR UPDATE TO "authenticated" USING ("public"."is_superadmin"()) WITH CHECK ("public"."is_superadmin"());
+
+
+
+CREATE POLICY "Superadmins can view impersonation sessions" ON "public"."impersonation_sessions" FOR SELECT TO "authenticated" USING ("public"."is_superadmin"());
+
+
+
+CREATE POLICY "Users can insert own profile" ON "public"."profiles" FOR INSERT WITH CHECK (("auth"."uid"() = "id"));
+
+
+
+CREATE POLICY "Users can update own profile" ON "public"."profiles" FOR UPDATE USING ((("auth"."uid"() = "id") AND ("deleted_at" IS NULL)));
+
+
+
+CREATE POLICY "Users can view active companies" ON "public"."companies" FOR SELECT USING (("deleted_at" IS NULL));
+
+
+
+CREATE POLICY "Users can view own access tokens" ON "public"."personal_access_tokens" FOR SELECT TO "authenticated" USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can view own profile" ON "public"."profiles" FOR SELECT USING ((("auth"."uid"() = "id") AND ("deleted_at" IS NULL)));
+
+
+
+CREATE POLICY "Users can view own sessions" ON "public"."user_sessions" FOR SELECT TO "authenticated" USING (("auth"."uid"() = "user_id"));
+
+
+
+ALTER TABLE "public"."companies" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."custom_roles" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."impersonation_sessions" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."invitations" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."mfa_recovery_codes" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."personal_access_tokens" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."profile_visibility_policy" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."profiles" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."rate_limits" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."signup_policy" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."user_sessions" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."webhook_deliveries" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."webhook_subscriptions" ENABLE ROW LEVEL SECURITY;
+
+
+GRANT USAGE ON SCHEMA "public" TO "postgres";
+GRANT USAGE ON SCHEMA "public" TO "anon";
+GRANT USAGE ON SCHEMA "public" TO "authenticated";
+GRANT USAGE ON SCHEMA "public" TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."can_access_company_profile"("profile_company_id" "uuid") TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."current_user_company_id"() TO "anon";
+GRANT ALL ON FUNCTION "public"."current_user_company_id"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."current_user_company_id"() TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "anon";
+GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."has_permission"("permission" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."has_permission"("permission" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."has_permission"("permission" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."hit_rate_limit"("limit_key" "text", "window_seconds" integer) TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."is_superadmin"() TO "anon";
+GRANT ALL ON FUNCTION "public"."is_superadmin"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."is_superadmin"() TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."permission_matches"("granted" "text", "required" "text") TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."protect_profile_company"() TO "anon";
+GRANT ALL ON FUNCTION "public"."protect_profile_company"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."protect_profile_company"() TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."protect_profile_role"() TO "anon";
+GRANT ALL ON FUNCTION "public"."protect_profile_role"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."protect_profile_role"() TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."revoke_user_session"("target_session_id" "uuid") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."revoke_user_sessions"("target_user_id" "uuid") TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."role_default_permissions"("role" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."role_default_permissions"("role" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."role_default_permissions"("role" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."touch_user_session"("user_agent" "text", "ip_address" "text") TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."companies" TO "anon";
+GRANT ALL ON TABLE "public"."companies" TO "authenticated";
+GRANT ALL ON TABLE "public"."companies" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."custom_roles" TO "anon";
+GRANT ALL ON TABLE "public"."custom_roles" TO "authenticated";
+GRANT ALL ON TABLE "public"."custom_roles" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."impersonation_sessions" TO "anon";
+GRANT ALL ON TABLE "public"."impersonation_sessions" TO "authenticated";
+GRANT ALL ON TABLE "public"."impersonation_sessions" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."invitations" TO "anon";
+GRANT ALL ON TABLE "public"."invitations" TO "authenticated";
+GRANT ALL ON TABLE "public"."invitations" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."mfa_recovery_codes" TO "anon";
+GRANT ALL ON TABLE "public"."mfa_recovery_codes" TO "authenticated";
+GRANT ALL ON TABLE "public"."mfa_recovery_codes" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."personal_access_tokens" TO "anon";
+GRANT ALL ON TABLE "public"."personal_access_tokens" TO "authenticated";
+GRANT ALL ON TABLE "public"."personal_access_tokens" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."profile_visibility_policy" TO "anon";
+GRANT ALL ON TABLE "public"."profile_visibility_policy" TO "authenticated";
+GRANT ALL ON TABLE "public"."profile_visibility_policy" TO "service_role";
+
+
+GRANT ALL ON TABLE "public"."profiles" TO "anon";
+GRANT ALL ON TABLE "public"."profiles" TO "authenticated";
+GRANT ALL ON TABLE "public"."profiles" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."rate_limits" TO "anon";
+GRANT ALL ON TABLE "public"."rate_limits" TO "authenticated";
+GRANT ALL ON TABLE "public"."rate_limits" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."signup_policy" TO "anon";
+GRANT ALL ON TABLE "public"."signup_policy" TO "authenticated";
+GRANT ALL ON TABLE "public"."signup_policy" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."user_sessions" TO "anon";
+GRANT ALL ON TABLE "public"."user_sessions" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_sessions" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "anon";
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "authenticated";
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "anon";
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "authenticated";
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "service_role";
 
 
 